@@ -9,14 +9,22 @@ import { usePaletteOperations } from './hooks/usePaletteOperations'
 import { usePaletteImport } from './hooks/usePaletteImport'
 import { usePersistence } from './hooks/usePersistence'
 import { usePaletteState } from './hooks/usePaletteState'
-import { loadPalettesFromStorage, loadDefaultPalettes } from './lib/colorGeneration'
+import { usePaletteHistory } from './hooks/usePaletteHistory'
+import { useSemanticTokens } from './hooks/useSemanticTokens'
+import { loadDefaultPalettes } from './lib/colorGeneration'
+import { loadPalettesFromStorage } from './lib/browser'
+import { isShareHash } from './lib/share'
 import { defaultControls } from './lib/presets'
-import { Palette, ColorFormat, GamutSettings, LightnessSettings } from './types'
+import { SemanticToken, VisionSimulation, ColorFormat, GamutSettings, LightnessSettings, GenerationSettings, ContrastAlgorithm, ContrastPolarity } from './types'
 import { PaletteToolbar } from './components/PaletteToolbar'
 import { HeaderBar } from './components/HeaderBar'
 import { PaletteDisplay } from './components/PaletteDisplay'
 import { SettingsSheet } from './components/SettingsSheet'
 import { ImportDialog } from './components/ImportDialog'
+import { SemanticTokensSheet } from './components/SemanticTokensSheet'
+import { ContrastMatrixDialog } from './components/ContrastMatrixDialog'
+import { VisionReportDialog } from './components/VisionReportDialog'
+import { ConsistencyReportDialog } from './components/ConsistencyReportDialog'
 
 /**
  * Main App Component - Clean Architecture with Custom Hooks
@@ -29,6 +37,7 @@ import { ImportDialog } from './components/ImportDialog'
  * - usePaletteImport: File handling, validation, and deduplication  
  * - usePersistence: localStorage operations for settings
  * - usePaletteState: Core state management and computed values
+ * - usePaletteHistory: Undo/redo history over the palettes state
  * 
  * 🧩 UI Components (~400 lines of UI extracted):
  * - PaletteToolbar, HeaderBar, PaletteDisplay, SettingsSheet, ImportDialog
@@ -43,23 +52,32 @@ function App() {
   // Theme state
   const { toggleTheme } = useTheme()
   
-  // Palette data state
-  const [palettes, setPalettes] = useState<Palette[]>([])
+  // Palette data state (palettes live in an undo/redo history)
   const [activePaletteId, setActivePaletteId] = useState<string>('')
+  const paletteHistory = usePaletteHistory({ activePaletteId, setActivePaletteId })
+  const { palettes, setPalettes } = paletteHistory
+  const [semanticTokens, setSemanticTokens] = useState<SemanticToken[]>([])
   const [isLoaded, setIsLoaded] = useState(false)
   
   // Display settings state
   const [colorFormat, setColorFormat] = useState<ColorFormat>('hex')
   const [luminanceMode, setLuminanceMode] = useState(false)
+  const [visionSimulation, setVisionSimulation] = useState<VisionSimulation>('none')
   const [showColorLabels, setShowColorLabels] = useState(true)
   const [zoomLevel, setZoomLevel] = useState(1) // 1 = 100%, 0.5 = 50%, 1.5 = 150%, etc.
   
   // UI state
   const [settingsOpen, setSettingsOpen] = useState(false)
+  const [semanticTokensOpen, setSemanticTokensOpen] = useState(false)
+  const [contrastMatrixOpen, setContrastMatrixOpen] = useState(false)
+  const [visionReportOpen, setVisionReportOpen] = useState(false)
+  const [consistencyReportOpen, setConsistencyReportOpen] = useState(false)
   const [contrastAnalysis, setContrastAnalysis] = useState({
     enabled: false,
     selectedColor: '#ffffff',
-    showCompliance: true
+    showCompliance: true,
+    algorithm: 'wcag2' as ContrastAlgorithm,
+    polarity: 'color-on-background' as ContrastPolarity
   })
   
   // Global settings state
@@ -69,6 +87,9 @@ function App() {
   const [lightnessSettings, setLightnessSettings] = useState<LightnessSettings>({
     mode: 'contrast'
   })
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>({
+    useWorker: false
+  })
 
   // =================================================================
   // BUSINESS LOGIC HOOKS - All complex operations extracted
@@ -88,6 +109,8 @@ function App() {
     setPalettes,
     activePaletteId,
     setActivePaletteId,
+    semanticTokens,
+    setSemanticTokens,
     gamutSettings,
     lightnessSettings
   })
@@ -98,6 +121,8 @@ function App() {
     setGamutSettings,
     lightnessSettings,
     setLightnessSettings,
+    generationSettings,
+    setGenerationSettings,
     isLoaded
   })
 
@@ -106,12 +131,22 @@ function App() {
     palettes,
     setPalettes,
     activePaletteId,
+    semanticTokens,
     gamutSettings,
     lightnessSettings,
     setLightnessSettings,
+    generationSettings,
     isLoaded
   })
 
+  // Semantic token layer (roles aliasing palette steps per color mode)
+  const semanticTokenOperations = useSemanticTokens({
+    semanticTokens,
+    setSemanticTokens,
+    palettes,
+    activePaletteId
+  })
+
   // =================================================================
   // INITIALIZATION - Clean, focused setup
   // =================================================================
@@ -120,11 +155,12 @@ function App() {
     // Load palette data from storage or defaults
     const savedData = loadPalettesFromStorage()
     if (savedData) {
-      setPalettes(savedData.palettes)
+      paletteHistory.resetHistory(savedData.palettes)
       setActivePaletteId(savedData.activePaletteId)
+      setSemanticTokens(savedData.semanticTokens)
     } else {
       const defaultData = loadDefaultPalettes()
-      setPalettes(defaultData.palettes)
+      paletteHistory.resetHistory(defaultData.palettes)
       setActivePaletteId(defaultData.activePaletteId)
     }
     
@@ -132,6 +168,12 @@ function App() {
     persistence.loadSettingsFromStorage()
     
     setIsLoaded(true)
+
+    // Offer to add or replace palettes from a share link, then clear the hash
+    if (isShareHash(window.location.hash)) {
+      paletteImport.handleImportShareLink(window.location.hash)
+      window.history.replaceState(null, '', window.location.pathname + window.location.search)
+    }
   }, [])
 
   // =================================================================
@@ -145,6 +187,7 @@ function App() {
         activePaletteId={activePaletteId}
         onActivePaletteChange={setActivePaletteId}
         onAddPalette={paletteOperations.handleAddPalette}
+        onAddPaletteFromColor={paletteOperations.handleAddPaletteFromColor}
         onDuplicatePalette={paletteOperations.handleDuplicatePalette}
         onDeletePalette={paletteOperations.handleDeletePalette}
         onStartRename={paletteOperations.handleStartRename}
@@ -156,15 +199,28 @@ function App() {
         onExportPalettes={paletteImport.handleExportPalettes}
         onImportPalettes={paletteImport.handleImportPalettes}
         onImportExternal={paletteImport.handleImportExternal}
+        onImportDTCG={paletteImport.handleImportDTCG}
+        onCopyShareLink={paletteImport.handleCopyShareLink}
         gamutSettings={gamutSettings}
         lightnessSettings={lightnessSettings}
+        generatedPalettes={paletteState.generatedPalettes.light}
+        semanticTokens={semanticTokens}
         isReorderMode={paletteOperations.isReorderMode}
         onToggleReorderMode={paletteOperations.handleToggleReorderMode}
         onReorderPalettes={paletteOperations.handleReorderPalettes}
       />
       
       <main className="flex-1 h-screen flex flex-col min-w-0 bg-muted/50">
-        <HeaderBar toggleTheme={toggleTheme} />
+        <HeaderBar
+          toggleTheme={toggleTheme}
+          historyEntries={paletteHistory.historyEntries}
+          historyIndex={paletteHistory.historyIndex}
+          canUndo={paletteHistory.canUndo}
+          canRedo={paletteHistory.canRedo}
+          onUndo={paletteHistory.undo}
+          onRedo={paletteHistory.redo}
+          onJumpToHistory={paletteHistory.jumpTo}
+        />
 
         <div className="flex-1 flex min-h-0 min-w-0">
           <div className="flex-1 flex flex-col min-w-0 overflow-hidden">
@@ -173,12 +229,18 @@ function App() {
               setContrastAnalysis={setContrastAnalysis}
               luminanceMode={luminanceMode}
               setLuminanceMode={setLuminanceMode}
+              visionSimulation={visionSimulation}
+              setVisionSimulation={setVisionSimulation}
+              setVisionReportOpen={setVisionReportOpen}
               colorFormat={colorFormat}
               setColorFormat={setColorFormat}
               showColorLabels={showColorLabels}
               setShowColorLabels={setShowColorLabels}
               colorOptions={paletteState.colorOptions}
               setSettingsOpen={setSettingsOpen}
+              setSemanticTokensOpen={setSemanticTokensOpen}
+              setContrastMatrixOpen={setContrastMatrixOpen}
+              setConsistencyReportOpen={setConsistencyReportOpen}
               zoomLevel={zoomLevel}
               setZoomLevel={setZoomLevel}
             />
@@ -186,11 +248,11 @@ function App() {
             <PaletteDisplay
               palettes={palettes}
               luminanceMode={luminanceMode}
+              visionSimulation={visionSimulation}
               colorFormat={colorFormat}
               contrastAnalysis={contrastAnalysis}
               showColorLabels={showColorLabels}
-              gamutSettings={gamutSettings}
-              lightnessSettings={lightnessSettings}
+              generatedPalettes={paletteState.generatedPalettes}
               zoomLevel={zoomLevel}
             />
           </div>
@@ -202,12 +264,17 @@ function App() {
               paletteName={paletteState.activePalette?.name}
               paletteColor={paletteState.activePaletteColors[5]?.css}
               colors={paletteState.activePaletteColors}
-              lightnessMode={lightnessSettings.mode}
+              lightnessSettings={lightnessSettings}
               palettes={palettes}
+              generatedPalettes={paletteState.generatedPalettes.light}
               activePaletteId={activePaletteId}
               onActivePaletteChange={setActivePaletteId}
               colorOptions={paletteState.colorOptions}
               gamutSettings={gamutSettings}
+              darkVariant={paletteState.activePalette?.darkVariant}
+              onDarkVariantChange={paletteState.handleDarkVariantChange}
+              semanticTokens={semanticTokens}
+              visionSimulation={visionSimulation}
             />
           </div>
         </div>
@@ -221,11 +288,56 @@ function App() {
           setGamutSettings={setGamutSettings}
           lightnessSettings={lightnessSettings}
           setLightnessSettings={setLightnessSettings}
+          generationSettings={generationSettings}
+          setGenerationSettings={setGenerationSettings}
           activePalette={paletteState.activePalette}
           handleApplyContrastToAll={paletteState.handleApplyContrastToAll}
           handleApplyContrastToActive={paletteState.handleApplyContrastToActive}
         />
         
+        <ContrastMatrixDialog
+          open={contrastMatrixOpen}
+          onOpenChange={setContrastMatrixOpen}
+          palettes={palettes}
+          activePaletteId={activePaletteId}
+          defaultAlgorithm={contrastAnalysis.algorithm}
+          gamutSettings={gamutSettings}
+          lightnessSettings={lightnessSettings}
+        />
+        
+        <VisionReportDialog
+          open={visionReportOpen}
+          onOpenChange={setVisionReportOpen}
+          palettes={palettes}
+          gamutSettings={gamutSettings}
+          lightnessSettings={lightnessSettings}
+          onPreviewSimulation={setVisionSimulation}
+        />
+        
+        <ConsistencyReportDialog
+          open={consistencyReportOpen}
+          onOpenChange={setConsistencyReportOpen}
+          palettes={palettes}
+          activePaletteId={activePaletteId}
+          gamutSettings={gamutSettings}
+          lightnessSettings={lightnessSettings}
+          onAlignToReference={paletteState.handleAlignToReference}
+        />
+        
+        <SemanticTokensSheet
+          open={semanticTokensOpen}
+          onOpenChange={setSemanticTokensOpen}
+          semanticTokens={semanticTokens}
+          issues={semanticTokenOperations.semanticTokenIssues}
+          palettes={palettes}
+          gamutSettings={gamutSettings}
+          lightnessSettings={lightnessSettings}
+          onAddToken={semanticTokenOperations.handleAddSemanticToken}
+          onAddDefaults={semanticTokenOperations.handleAddDefaultSemanticTokens}
+          onUpdateToken={semanticTokenOperations.handleUpdateSemanticToken}
+          onDeleteToken={semanticTokenOperations.handleDeleteSemanticToken}
+        />
+        
         <ImportDialog
           importConfirmOpen={paletteImport.importConfirmOpen}
           setImportConfirmOpen={paletteImport.setImportConfirmOpen}
@@ -0,0 +1,146 @@
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { renderPalettes, loadPaletteDocument, selectPalettes, OUTPUT_FORMATS, OutputFormat } from '../lib/engine';
+import { GamutSettings, LightnessSettings, WideGamutFormat, GamutMappingStrategy } from '../types';
+
+const USAGE = `Usage: ads-color <palettes.json | -> [options]
+
+Reads a palettes file produced by "Export Palettes" (or a DTCG token file) and regenerates its colors.
+
+Options:
+  -f, --format <format>     css | tailwind | tokens-studio | dtcg (repeatable, default: css)
+  -o, --out <file>          Write output to a file instead of stdout (single format only)
+  -d, --out-dir <dir>       Write one file per format into a directory
+  -p, --palette <name>      Only include the named palette (repeatable); palettes it references must be included too
+  -g, --gamut <gamut>       sRGB | P3 | Rec2020 (default: sRGB)
+  -w, --wide-gamut <format> oklch | display-p3: add wide-gamut CSS values with hex fallbacks
+  -m, --mapping <strategy>  chroma | css4 | minde gamut mapping (default: chroma)
+  -l, --lightness <mode>    contrast | range (default: contrast)
+  -h, --help                Show this message
+`;
+
+// File names used by --out-dir for each format
+const OUTPUT_FILE_NAMES: Record<OutputFormat, string> = {
+  'css': 'palettes.css',
+  'tailwind': 'tailwind.colors.js',
+  'tokens-studio': 'tokens-studio.json',
+  'dtcg': 'tokens.dtcg.json'
+};
+
+const GAMUT_MODES: GamutSettings['gamutMode'][] = ['sRGB', 'P3', 'Rec2020'];
+const WIDE_GAMUT_FORMATS: WideGamutFormat[] = ['oklch', 'display-p3'];
+const MAPPING_STRATEGIES: GamutMappingStrategy[] = ['chroma', 'css4', 'minde'];
+const LIGHTNESS_MODES: LightnessSettings['mode'][] = ['contrast', 'range'];
+
+class UsageError extends Error {}
+
+function readInput(path: string): string {
+  // "-" reads the palettes JSON from stdin so the CLI can sit in a pipeline
+  return path === '-' ? readFileSync(0, 'utf8') : readFileSync(path, 'utf8');
+}
+
+function writeOutput(path: string, contents: string) {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, contents);
+}
+
+function run(argv: string[]): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', multiple: true },
+      out: { type: 'string', short: 'o' },
+      'out-dir': { type: 'string', short: 'd' },
+      palette: { type: 'string', short: 'p', multiple: true },
+      gamut: { type: 'string', short: 'g' },
+      'wide-gamut': { type: 'string', short: 'w' },
+      mapping: { type: 'string', short: 'm' },
+      lightness: { type: 'string', short: 'l' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  if (positionals.length !== 1) {
+    throw new UsageError('Expected exactly one input file');
+  }
+
+  const formats = (values.format || ['css']) as OutputFormat[];
+  const unknownFormat = formats.find(format => !OUTPUT_FORMATS.includes(format));
+  if (unknownFormat) {
+    throw new UsageError(`Unknown format "${unknownFormat}"`);
+  }
+
+  const gamutMode = (values.gamut || 'sRGB') as GamutSettings['gamutMode'];
+  if (!GAMUT_MODES.includes(gamutMode)) {
+    throw new UsageError(`Unknown gamut "${values.gamut}"`);
+  }
+
+  const wideGamutFormat = values['wide-gamut'] as WideGamutFormat | undefined;
+  if (wideGamutFormat && !WIDE_GAMUT_FORMATS.includes(wideGamutFormat)) {
+    throw new UsageError(`Unknown wide-gamut format "${wideGamutFormat}"`);
+  }
+
+  const mappingStrategy = values.mapping as GamutMappingStrategy | undefined;
+  if (mappingStrategy && !MAPPING_STRATEGIES.includes(mappingStrategy)) {
+    throw new UsageError(`Unknown gamut mapping "${mappingStrategy}"`);
+  }
+
+  const lightnessMode = (values.lightness || 'contrast') as LightnessSettings['mode'];
+  if (!LIGHTNESS_MODES.includes(lightnessMode)) {
+    throw new UsageError(`Unknown lightness mode "${values.lightness}"`);
+  }
+
+  if (values.out && values['out-dir']) {
+    throw new UsageError('Use either --out or --out-dir, not both');
+  }
+  if (formats.length > 1 && !values['out-dir']) {
+    throw new UsageError('Multiple formats require --out-dir');
+  }
+
+  let { palettes, semanticTokens } = loadPaletteDocument(readInput(positionals[0]));
+
+  if (values.palette) {
+    try {
+      ({ palettes, semanticTokens } = selectPalettes(palettes, semanticTokens, values.palette));
+    } catch (error) {
+      throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  for (const format of formats) {
+    const output = renderPalettes(palettes, {
+      format,
+      gamutSettings: { gamutMode, wideGamutFormat, mappingStrategy },
+      lightnessSettings: { mode: lightnessMode },
+      semanticTokens
+    });
+
+    if (values['out-dir']) {
+      writeOutput(join(values['out-dir'], OUTPUT_FILE_NAMES[format]), output);
+    } else if (values.out) {
+      writeOutput(values.out, output);
+    } else {
+      process.stdout.write(output);
+    }
+  }
+
+  return 0;
+}
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (error) {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`ads-color: ${message}\n`);
+  if (error instanceof UsageError || (error as { code?: string }).code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION') {
+    process.stderr.write(`\n${USAGE}`);
+  }
+  process.exitCode = 1;
+}
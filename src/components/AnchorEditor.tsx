@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react'
+import { Pin, Plus, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { isValidColor, STEP_TO_TOKEN_MAPPING } from '../lib/colorGeneration'
+
+// Core steps that can carry an anchor
+const CORE_STEPS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+
+interface AnchorEditorProps {
+  anchors: Record<string, string>
+  colors: Array<{ step: number; css: string }>
+  onAnchorsChange: (anchors: Record<string, string>) => void
+}
+
+interface AnchorRowProps {
+  step: number
+  value: string
+  availableSteps: number[]
+  onStepChange: (step: number) => void
+  onValueChange: (value: string) => void
+  onRemove: () => void
+}
+
+function AnchorRow({ step, value, availableSteps, onStepChange, onValueChange, onRemove }: AnchorRowProps) {
+  // Draft text so invalid input can be typed without being written to the controls
+  const [draft, setDraft] = useState(value)
+  useEffect(() => setDraft(value), [value])
+
+  const isValid = isValidColor(draft.trim())
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={step.toString()} onValueChange={(next) => onStepChange(Number(next))}>
+        <SelectTrigger className="h-8 w-20 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {[step, ...availableSteps].sort((a, b) => a - b).map(option => (
+            <SelectItem key={option} value={option.toString()}>{STEP_TO_TOKEN_MAPPING[option]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div
+        className="w-8 h-8 rounded border border-border flex-shrink-0"
+        style={{ backgroundColor: isValid ? draft.trim() : 'transparent' }}
+      />
+      <Input
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value)
+          if (isValidColor(e.target.value.trim())) {
+            onValueChange(e.target.value.trim())
+          }
+        }}
+        onBlur={() => setDraft(value)}
+        placeholder="#hex or oklch(…)"
+        className={`h-8 flex-1 text-xs font-mono ${isValid ? '' : 'border-red-500'}`}
+      />
+      <Button
+        onClick={onRemove}
+        variant="ghost"
+        size="sm"
+        className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+        title="Remove anchor"
+      >
+        <Trash2 className="w-3 h-3" />
+      </Button>
+    </div>
+  )
+}
+
+export function AnchorEditor({ anchors, colors, onAnchorsChange }: AnchorEditorProps) {
+  const anchoredSteps = Object.keys(anchors).map(Number).sort((a, b) => a - b)
+  const freeSteps = CORE_STEPS.filter(step => !anchoredSteps.includes(step))
+
+  // Pin the step's current color so adding an anchor does not change the palette until it is edited
+  const handleAddAnchor = () => {
+    const step = freeSteps.includes(6) ? 6 : freeSteps[0]
+    if (step === undefined) return
+    const current = colors.find(color => color.step === step)?.css || '#808080'
+    onAnchorsChange({ ...anchors, [step.toString()]: current })
+  }
+
+  const handleStepChange = (from: number, to: number) => {
+    const { [from.toString()]: value, ...rest } = anchors
+    onAnchorsChange({ ...rest, [to.toString()]: value })
+  }
+
+  const handleRemove = (step: number) => {
+    const { [step.toString()]: _removed, ...rest } = anchors
+    onAnchorsChange(rest)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium flex items-center gap-1">
+          <Pin className="w-3 h-3" />
+          Pinned Anchors
+        </Label>
+        <Button
+          onClick={handleAddAnchor}
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          disabled={freeSteps.length === 0}
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Pin Step
+        </Button>
+      </div>
+      {anchoredSteps.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Pin a step to an exact brand color. Neighbouring steps are re-fit around it.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {anchoredSteps.map(step => (
+            <AnchorRow
+              key={step}
+              step={step}
+              value={anchors[step.toString()]}
+              availableSteps={freeSteps}
+              onStepChange={(to) => handleStepChange(step, to)}
+              onValueChange={(value) => onAnchorsChange({ ...anchors, [step.toString()]: value })}
+              onRemove={() => handleRemove(step)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import { useMemo, useEffect, useRef, useState } from 'react'
-import { Plus, Copy, X, FileUp, FileDown, MoreHorizontal, Trash2, Edit, Check, FileCode, GripVertical } from 'lucide-react'
+import { Plus, Copy, X, FileUp, FileDown, MoreHorizontal, Trash2, Edit, Check, FileCode, GripVertical, Link, Pipette } from 'lucide-react'
 import {
   Sidebar,
   SidebarContent,
@@ -21,15 +21,19 @@ import {
 } from './ui/dropdown-menu'
 import { Input } from './ui/input'
 import { Button } from './ui/button'
-import { generatePalette } from '../lib/colorGeneration'
-import { Palette, GamutSettings, LightnessSettings } from '../types'
+import { Palette, PaletteColor, PaletteControls, GamutSettings, LightnessSettings, SemanticToken } from '../types'
 import { TokenStudioExportDialog } from './TokenStudioExportDialog'
+import { DTCGExportDialog } from './DTCGExportDialog'
+import { FigmaExportDialog } from './FigmaExportDialog'
+import { CodeExportDialog } from './CodeExportDialog'
+import { SeedColorDialog } from './SeedColorDialog'
 
 interface AppSidebarProps {
   palettes: Palette[]
   activePaletteId: string
   onActivePaletteChange: (paletteId: string) => void
   onAddPalette: () => void
+  onAddPaletteFromColor: (name: string, controls: PaletteControls) => void
   onDuplicatePalette: (paletteId: string) => void
   onDeletePalette: (paletteId: string) => void
   onStartRename: (paletteId: string, currentName: string) => void
@@ -41,8 +45,13 @@ interface AppSidebarProps {
   onExportPalettes: () => void
   onImportPalettes: (event: React.ChangeEvent<HTMLInputElement>) => void
   onImportExternal: (event: React.ChangeEvent<HTMLInputElement>) => void
+  onImportDTCG: (event: React.ChangeEvent<HTMLInputElement>) => void
+  onCopyShareLink: (paletteIds?: string[]) => void
   gamutSettings: GamutSettings
   lightnessSettings: LightnessSettings
+  // Generated colors of every palette, keyed by id
+  generatedPalettes: Record<string, PaletteColor[]>
+  semanticTokens: SemanticToken[]
   // New reorder props
   isReorderMode: boolean
   onToggleReorderMode: () => void
@@ -54,6 +63,7 @@ export function AppSidebar({
   activePaletteId,
   onActivePaletteChange,
   onAddPalette,
+  onAddPaletteFromColor,
   onDuplicatePalette,
   onDeletePalette,
   onStartRename,
@@ -65,23 +75,33 @@ export function AppSidebar({
   onExportPalettes,
   onImportPalettes,
   onImportExternal,
+  onImportDTCG,
+  onCopyShareLink,
   gamutSettings,
   lightnessSettings,
+  generatedPalettes,
+  semanticTokens,
   isReorderMode,
   onToggleReorderMode,
   onReorderPalettes,
 }: AppSidebarProps) {
   // State for Token Studio export dialog
   const [tokenStudioDialogOpen, setTokenStudioDialogOpen] = useState(false)
+  // State for W3C Design Tokens export dialog
+  const [dtcgDialogOpen, setDtcgDialogOpen] = useState(false)
+  const [figmaDialogOpen, setFigmaDialogOpen] = useState(false)
+  const [codeExportDialogOpen, setCodeExportDialogOpen] = useState(false)
+  // State for the "new palette from color" dialog
+  const [seedColorDialogOpen, setSeedColorDialogOpen] = useState(false)
   // Generate color swatches for palettes
   const paletteColors = useMemo(() => {
     const colors: Record<string, string> = {}
     for (const palette of palettes) {
-      const generatedPalette = generatePalette(palette.controls, gamutSettings, lightnessSettings)
-      colors[palette.id] = generatedPalette[5]?.css || '#3b82f6' // Use step 6 as representative color
+      const generatedPalette = generatedPalettes[palette.id]
+      colors[palette.id] = generatedPalette?.[5]?.css || '#3b82f6' // Use step 6 as representative color
     }
     return colors
-  }, [palettes, gamutSettings, lightnessSettings])
+  }, [palettes, generatedPalettes])
 
   // Ref for the rename input to handle focus
   const renameInputRef = useRef<HTMLInputElement>(null)
@@ -357,6 +377,10 @@ export function AppSidebar({
                           <Copy className="h-4 w-4 mr-2" />
                           Duplicate
                         </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onCopyShareLink([palette.id])}>
+                          <Link className="h-4 w-4 mr-2" />
+                          Copy Share Link
+                        </DropdownMenuItem>
                         {palettes.length > 1 && (
                           <DropdownMenuItem 
                             onClick={() => onDeletePalette(palette.id)}
@@ -383,6 +407,12 @@ export function AppSidebar({
                 <span>Add Palette</span>
               </SidebarMenuButton>
             </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={() => setSeedColorDialogOpen(true)} className="justify-center">
+                <Pipette className="h-4 w-4" />
+                <span>From Color</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
           </SidebarMenu>
         </SidebarGroup>
       </SidebarContent>
@@ -413,6 +443,36 @@ export function AppSidebar({
                 <span>Export Token Studio</span>
               </SidebarMenuButton>
             </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={() => setDtcgDialogOpen(true)}>
+                <FileCode className="h-4 w-4" />
+                <span>Export Design Tokens</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={() => setFigmaDialogOpen(true)}>
+                <FileCode className="h-4 w-4" />
+                <span>Export Figma Variables</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={() => setCodeExportDialogOpen(true)}>
+                <FileCode className="h-4 w-4" />
+                <span>Export Code</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={() => document.getElementById('import-dtcg-file')?.click()}>
+                <FileUp className="h-4 w-4" />
+                <span>Import Design Tokens</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={() => onCopyShareLink()}>
+                <Link className="h-4 w-4" />
+                <span>Copy Share Link</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
           </SidebarMenu>
           
           <input
@@ -429,6 +489,13 @@ export function AppSidebar({
             onChange={onImportExternal}
             className="hidden"
           />
+          <input
+            id="import-dtcg-file"
+            type="file"
+            accept=".json"
+            onChange={onImportDTCG}
+            className="hidden"
+          />
         </SidebarFooter>
         
         <TokenStudioExportDialog
@@ -438,6 +505,42 @@ export function AppSidebar({
           gamutSettings={gamutSettings}
           lightnessSettings={lightnessSettings}
         />
+
+        <DTCGExportDialog
+          open={dtcgDialogOpen}
+          onOpenChange={setDtcgDialogOpen}
+          palettes={palettes}
+          semanticTokens={semanticTokens}
+          gamutSettings={gamutSettings}
+          lightnessSettings={lightnessSettings}
+        />
+
+        <FigmaExportDialog
+          open={figmaDialogOpen}
+          onOpenChange={setFigmaDialogOpen}
+          palettes={palettes}
+          semanticTokens={semanticTokens}
+          gamutSettings={gamutSettings}
+          lightnessSettings={lightnessSettings}
+        />
+
+        <CodeExportDialog
+          open={codeExportDialogOpen}
+          onOpenChange={setCodeExportDialogOpen}
+          palettes={palettes}
+          semanticTokens={semanticTokens}
+          gamutSettings={gamutSettings}
+          lightnessSettings={lightnessSettings}
+        />
+
+        <SeedColorDialog
+          open={seedColorDialogOpen}
+          onOpenChange={setSeedColorDialogOpen}
+          defaultName={`Palette ${palettes.length + 1}`}
+          gamutSettings={gamutSettings}
+          lightnessSettings={lightnessSettings}
+          onCreate={onAddPaletteFromColor}
+        />
     </Sidebar>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { useMemo, useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Palette, GamutSettings, LightnessSettings, SemanticToken } from '../types'
+import { createExportContext, getExportFormatters, ExportFile } from '../lib/exportFormats'
+import { createZip } from '../lib/zip'
+import { downloadBlob, downloadTextFile } from '../lib/browser'
+import { Copy, Check, FileDown, FileArchive } from 'lucide-react'
+
+interface CodeExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  palettes: Palette[]
+  semanticTokens: SemanticToken[]
+  gamutSettings: GamutSettings
+  lightnessSettings: LightnessSettings
+}
+
+export function CodeExportDialog({
+  open,
+  onOpenChange,
+  palettes,
+  semanticTokens,
+  gamutSettings,
+  lightnessSettings
+}: CodeExportDialogProps) {
+  const formatters = getExportFormatters()
+  const [formatId, setFormatId] = useState(formatters[0]?.id)
+  const [filePath, setFilePath] = useState<string>()
+  const [copied, setCopied] = useState(false)
+
+  const formatter = formatters.find(f => f.id === formatId) || formatters[0]
+
+  // Palettes are generated once per open dialog and shared by every format
+  const context = useMemo(
+    () => open ? createExportContext(palettes, gamutSettings, lightnessSettings, semanticTokens) : null,
+    [open, palettes, gamutSettings, lightnessSettings, semanticTokens]
+  )
+
+  const files = useMemo(() => context && formatter ? formatter.render(context) : [], [context, formatter])
+
+  // Show the first file again when switching formats
+  const handleFormatChange = (id: string) => {
+    setFormatId(id)
+    setFilePath(undefined)
+  }
+
+  const currentFile = files.find(file => file.path === filePath) || files[0]
+
+  const handleCopy = async () => {
+    if (!currentFile) return
+    try {
+      await navigator.clipboard.writeText(currentFile.content)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err)
+    }
+  }
+
+  const downloadZip = async (entries: ExportFile[], filename: string) => {
+    try {
+      downloadBlob(await createZip(entries), filename)
+    } catch (err) {
+      console.error('Failed to create zip archive:', err)
+    }
+  }
+
+  const handleDownload = () => {
+    if (files.length === 1) {
+      const [file] = files
+      downloadTextFile(file.content, file.path.split('/').pop() || file.path, 'text/plain')
+    } else if (files.length > 1) {
+      downloadZip(files, `colors-${formatter.id}.zip`)
+    }
+  }
+
+  // Every format in one archive, each under its own folder
+  const handleDownloadAll = () => {
+    if (!context) return
+    const entries = formatters.flatMap(f => f.render(context).map(file => ({
+      path: `${f.id}/${file.path}`,
+      content: file.content
+    })))
+    downloadZip(entries, 'colors-all-formats.zip')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Export Code</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 flex flex-col space-y-4 min-h-0">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label className="text-xs">Format</Label>
+              <Select value={formatter?.id} onValueChange={handleFormatChange}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {formatters.map(f => (
+                    <SelectItem key={f.id} value={f.id}>{f.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">File {files.length > 1 && `(${files.length})`}</Label>
+              <Select value={currentFile?.path} onValueChange={setFilePath} disabled={files.length < 2}>
+                <SelectTrigger className="h-8 text-xs font-mono">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {files.map(file => (
+                    <SelectItem key={file.path} value={file.path} className="font-mono text-xs">{file.path}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex justify-between items-center gap-4">
+            <p className="text-sm text-muted-foreground">{formatter?.description}</p>
+            <div className="flex items-center gap-2">
+              <Button onClick={handleDownloadAll} size="sm" variant="ghost" className="flex items-center gap-2">
+                <FileArchive className="h-4 w-4" />
+                All Formats
+              </Button>
+              <Button onClick={handleDownload} size="sm" variant="outline" className="flex items-center gap-2">
+                <FileDown className="h-4 w-4" />
+                {files.length > 1 ? 'Download .zip' : 'Download'}
+              </Button>
+              <Button onClick={handleCopy} size="sm" className="flex items-center gap-2">
+                {copied ? (
+                  <>
+                    <Check className="h-4 w-4" />
+                    Copied!
+                  </>
+                ) : (
+                  <>
+                    <Copy className="h-4 w-4" />
+                    Copy File
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex-1 min-h-0">
+            <textarea
+              readOnly
+              value={currentFile?.content || ''}
+              className="w-full h-full min-h-[400px] p-3 text-sm font-mono bg-muted rounded-md border resize-none focus:outline-none focus:ring-2 focus:ring-ring"
+              spellCheck="false"
+            />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,202 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from './ui/dialog'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { generatePalettes, resolveBackgroundColor } from '../lib/colorGeneration'
+import { buildConsistencyReport, ConsistencyCell, ConsistencyMetric } from '../lib/consistency'
+import { Palette, GamutSettings, LightnessSettings } from '../types'
+import { cn } from '../lib/utils'
+
+const METRIC_LABELS: Record<ConsistencyMetric, string> = {
+  lightness: 'Lightness',
+  contrast: 'Contrast',
+  chroma: 'Chroma'
+}
+
+interface ConsistencyReportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  palettes: Palette[]
+  activePaletteId: string
+  gamutSettings: GamutSettings
+  lightnessSettings: LightnessSettings
+  onAlignToReference: (referenceId: string, paletteIds?: string[]) => void
+}
+
+export function ConsistencyReportDialog({
+  open,
+  onOpenChange,
+  palettes,
+  activePaletteId,
+  gamutSettings,
+  lightnessSettings,
+  onAlignToReference
+}: ConsistencyReportDialogProps) {
+  const [referenceId, setReferenceId] = useState(activePaletteId)
+  const [metric, setMetric] = useState<ConsistencyMetric>('lightness')
+
+  // Start from the active palette each time the dialog opens
+  useEffect(() => {
+    if (open) setReferenceId(activePaletteId)
+  }, [open, activePaletteId])
+
+  const reference = palettes.find(p => p.id === referenceId) || palettes[0]
+
+  const generatedById = useMemo(
+    () => open ? generatePalettes(palettes, gamutSettings, lightnessSettings) : {},
+    [open, palettes, gamutSettings, lightnessSettings]
+  )
+  const generated = useMemo(
+    () => palettes.filter(palette => generatedById[palette.id]).map(palette => ({ id: palette.id, colors: generatedById[palette.id] })),
+    [palettes, generatedById]
+  )
+
+  // Contrast is compared against the reference palette's background and algorithm
+  const report = useMemo(() => {
+    if (!reference) return null
+    const referenceColors = generatedById[reference.id]
+    const background = resolveBackgroundColor(reference.controls.backgroundColor, referenceColors, '#ffffff', generatedById)
+    return buildConsistencyReport(generated, background, reference.controls.contrastAlgorithm || 'wcag2')
+  }, [generated, generatedById, reference])
+
+  const formatValue = (cell: ConsistencyCell) => {
+    if (metric === 'lightness') return Math.round(cell.lightness * 100).toString()
+    if (metric === 'chroma') return cell.chroma.toFixed(2)
+    return report?.algorithm === 'apca' ? Math.round(cell.contrast).toString() : cell.contrast.toFixed(1)
+  }
+
+  const totalOutliers = report ? Object.values(report.outlierCounts).reduce((sum, count) => sum + count, 0) : 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-6xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Palette Consistency</DialogTitle>
+          <DialogDescription>
+            Each step compared across palettes. Highlighted cells stray from the median of the other palettes
+            in lightness, contrast or chroma (neutral palettes are left out of the chroma comparison).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Reference palette</Label>
+            <Select value={reference?.id} onValueChange={setReferenceId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {palettes.map(palette => (
+                  <SelectItem key={palette.id} value={palette.id}>{palette.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Show</Label>
+            <Select value={metric} onValueChange={(value) => setMetric(value as ConsistencyMetric)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="lightness">Lightness (OKLCH L%)</SelectItem>
+                <SelectItem value="contrast">Contrast ({report?.algorithm === 'apca' ? 'APCA Lc' : 'WCAG 2 ratio'})</SelectItem>
+                <SelectItem value="chroma">Chroma (OKLCH C)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end text-xs text-muted-foreground">
+            {totalOutliers === 0 ? 'No outliers' : `${totalOutliers} outlying value(s)`}
+            {report && <span className="ml-1">· contrast on {report.background}</span>}
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-auto">
+          {report && (
+            <table className="border-separate border-spacing-0">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 top-0 z-20 bg-background p-1 text-[10px] font-medium text-muted-foreground text-left">
+                    Palette
+                  </th>
+                  {report.rows.map(row => (
+                    <th key={row.step} className="sticky top-0 z-10 bg-background p-1 text-xs font-medium">
+                      {row.tokenName}
+                    </th>
+                  ))}
+                  <th className="sticky top-0 z-10 bg-background p-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {palettes.map(palette => {
+                  const isReference = palette.id === reference?.id
+                  const outlierCount = report.outlierCounts[palette.id] || 0
+                  return (
+                    <tr key={palette.id}>
+                      <th className="sticky left-0 z-10 bg-background p-1 text-xs font-medium text-left whitespace-nowrap">
+                        {palette.name}
+                        {isReference && <span className="ml-1 text-muted-foreground">(reference)</span>}
+                        {outlierCount > 0 && (
+                          <span className="ml-1 px-1 rounded bg-red-600 text-white text-[10px]">{outlierCount}</span>
+                        )}
+                      </th>
+                      {report.rows.map(row => {
+                        const cell = row.cells.find(c => c.paletteId === palette.id)
+                        if (!cell) return <td key={row.step} />
+                        const isOutlier = cell.outliers.includes(metric)
+                        return (
+                          <td key={row.step} className="p-0.5">
+                            <div
+                              className={cn(
+                                'w-14 h-10 rounded flex flex-col items-center justify-end border border-border/50 overflow-hidden',
+                                isOutlier && 'ring-2 ring-red-600'
+                              )}
+                              style={{ backgroundColor: cell.css }}
+                              title={`${palette.name}-${row.tokenName}: ${cell.outliers.length > 0
+                                ? `outlier in ${cell.outliers.map(o => METRIC_LABELS[o].toLowerCase()).join(', ')}`
+                                : 'consistent'}`}
+                            >
+                              <span className={cn(
+                                'w-full text-center text-[10px] font-mono leading-tight bg-background/80',
+                                isOutlier && 'text-red-600 font-semibold'
+                              )}>
+                                {formatValue(cell)}
+                              </span>
+                            </div>
+                          </td>
+                        )
+                      })}
+                      <td className="p-1">
+                        {!isReference && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 text-xs"
+                            onClick={() => onAlignToReference(reference.id, [palette.id])}
+                            title={`Set contrast targets so each step matches ${reference.name}`}
+                          >
+                            Align
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <DialogFooter>
+          <p className="flex-1 self-center text-xs text-muted-foreground">
+            Aligning rewrites contrast targets and switches lightness to contrast mode.
+          </p>
+          <Button onClick={() => reference && onAlignToReference(reference.id)} disabled={!reference || palettes.length < 2}>
+            Align All to {reference?.name}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
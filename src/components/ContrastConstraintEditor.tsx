@@ -0,0 +1,152 @@
+import { Layers, Plus, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ColorCombobox, ColorOption } from './ui/color-combobox'
+import { ContrastAlgorithm, ContrastConstraint, PaletteColor } from '../types'
+import { getDefaultContrastTarget, STEP_TO_TOKEN_MAPPING } from '../lib/colorGeneration'
+import { APCA_MAX_LC } from '../lib/apca'
+import { cn } from '../lib/utils'
+
+// Core steps that can carry constraints (intermediate steps are interpolated)
+const CORE_STEPS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+
+interface ContrastConstraintEditorProps {
+  constraints: Record<string, ContrastConstraint[]>
+  colors: PaletteColor[]
+  // Primary contrast background, skipped when picking a default surface for a new constraint
+  backgroundColor: string
+  options: ColorOption[]
+  algorithm?: ContrastAlgorithm
+  onConstraintsChange: (constraints: Record<string, ContrastConstraint[]>) => void
+}
+
+export function ContrastConstraintEditor({
+  constraints,
+  colors,
+  backgroundColor,
+  options,
+  algorithm = 'wcag2',
+  onConstraintsChange
+}: ContrastConstraintEditorProps) {
+  // Relative "palette-N" references would point back at the ramp being solved
+  const surfaceOptions = options.filter(option => !option.isRelative)
+  const rows = Object.keys(constraints)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .flatMap(step => constraints[step.toString()].map((constraint, index) => ({ step, index, constraint })))
+  const isApca = algorithm === 'apca'
+
+  // Drop empty steps so the controls stay clean
+  const withStep = (step: number, list: ContrastConstraint[]) => {
+    const { [step.toString()]: _previous, ...rest } = constraints
+    return list.length > 0 ? { ...rest, [step.toString()]: list } : rest
+  }
+
+  const handleAdd = () => {
+    const surface = surfaceOptions.find(option => option.value !== backgroundColor)?.value || '#ffffff'
+    const list = constraints['6'] || []
+    onConstraintsChange(withStep(6, [...list, { background: surface, minContrast: getDefaultContrastTarget(algorithm) }]))
+  }
+
+  const handleUpdate = (step: number, index: number, update: Partial<ContrastConstraint>) => {
+    const list = [...constraints[step.toString()]]
+    list[index] = { ...list[index], ...update }
+    onConstraintsChange(withStep(step, list))
+  }
+
+  const handleStepChange = (from: number, index: number, to: number) => {
+    const moved = constraints[from.toString()][index]
+    const remaining = withStep(from, constraints[from.toString()].filter((_, i) => i !== index))
+    onConstraintsChange({ ...remaining, [to.toString()]: [...(remaining[to.toString()] || []), moved] })
+  }
+
+  const handleRemove = (step: number, index: number) => {
+    onConstraintsChange(withStep(step, constraints[step.toString()].filter((_, i) => i !== index)))
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium flex items-center gap-1">
+          <Layers className="w-3 h-3" />
+          Additional Backgrounds
+        </Label>
+        <Button onClick={handleAdd} variant="outline" size="sm" className="h-7 text-xs">
+          <Plus className="w-3 h-3 mr-1" />
+          Add Constraint
+        </Button>
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Require a minimum contrast against other surfaces too. The lightness is pushed until every minimum holds.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {rows.map(({ step, index, constraint }) => {
+            // Results list the background target first, then the constraints in order
+            const result = colors.find(color => color.step === step)?.contrastConstraints?.[index + 1]
+            return (
+              <div key={`${step}-${index}`} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Select value={step.toString()} onValueChange={(next) => handleStepChange(step, index, Number(next))}>
+                    <SelectTrigger className="h-8 w-20 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CORE_STEPS.map(option => (
+                        <SelectItem key={option} value={option.toString()}>{STEP_TO_TOKEN_MAPPING[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-xs text-muted-foreground">≥</span>
+                  <Input
+                    type="number"
+                    value={constraint.minContrast}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value)
+                      if (!isNaN(value)) {
+                        handleUpdate(step, index, { minContrast: value })
+                      }
+                    }}
+                    min={isApca ? 0 : 1}
+                    max={isApca ? APCA_MAX_LC : 21}
+                    step={isApca ? 1 : 0.1}
+                    className="h-8 w-20 text-xs font-mono"
+                  />
+                  <span
+                    className={cn(
+                      'flex-1 text-xs font-mono text-right',
+                      result && !result.met ? 'text-red-600' : 'text-muted-foreground',
+                      result?.binding && 'font-semibold text-foreground'
+                    )}
+                    title={result?.binding ? 'This constraint sets the step\'s lightness' : undefined}
+                  >
+                    {result ? `${result.contrast}${result.binding ? ' · binding' : ''}` : ''}
+                  </span>
+                  <Button
+                    onClick={() => handleRemove(step, index)}
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+                    title="Remove constraint"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+                <ColorCombobox
+                  value={constraint.background}
+                  onChange={(value) => handleUpdate(step, index, { background: value })}
+                  options={surfaceOptions}
+                  placeholder="Select surface..."
+                  className="w-full"
+                />
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { generatePaletteWithReferences, computeContrastMatrix, getContrastLevelLabel } from '../lib/colorGeneration'
+import { copyToClipboard } from '../lib/browser'
+import { Palette, GamutSettings, LightnessSettings, ContrastAlgorithm, ContrastLevel, ContrastMatrixCell } from '../types'
+import { toast } from 'sonner'
+import { cn } from '../lib/utils'
+
+type MatrixFilter = 'all' | 'aa-large' | 'aa-body' | 'aaa-body'
+
+// Levels that satisfy each filter
+const FILTER_LEVELS: Record<MatrixFilter, ContrastLevel[]> = {
+  'all': ['AAA', 'AA', 'AA Large', 'Fail'],
+  'aa-large': ['AAA', 'AA', 'AA Large'],
+  'aa-body': ['AAA', 'AA'],
+  'aaa-body': ['AAA']
+}
+
+// Badge colors per compliance level
+const LEVEL_CLASSES: Record<ContrastLevel, string> = {
+  'AAA': 'bg-green-700 text-white',
+  'AA': 'bg-green-500 text-white',
+  'AA Large': 'bg-amber-500 text-black',
+  'Fail': 'bg-red-600 text-white'
+}
+
+interface ContrastMatrixDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  palettes: Palette[]
+  activePaletteId: string
+  defaultAlgorithm: ContrastAlgorithm
+  gamutSettings: GamutSettings
+  lightnessSettings: LightnessSettings
+}
+
+export function ContrastMatrixDialog({
+  open,
+  onOpenChange,
+  palettes,
+  activePaletteId,
+  defaultAlgorithm,
+  gamutSettings,
+  lightnessSettings
+}: ContrastMatrixDialogProps) {
+  const [foregroundPaletteId, setForegroundPaletteId] = useState(activePaletteId)
+  const [backgroundPaletteId, setBackgroundPaletteId] = useState(activePaletteId)
+  const [algorithm, setAlgorithm] = useState<ContrastAlgorithm>(defaultAlgorithm)
+  const [filter, setFilter] = useState<MatrixFilter>('all')
+
+  // Start from the active palette and the toolbar's algorithm each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setForegroundPaletteId(activePaletteId)
+      setBackgroundPaletteId(activePaletteId)
+      setAlgorithm(defaultAlgorithm)
+    }
+  }, [open, activePaletteId, defaultAlgorithm])
+
+  const foregroundPalette = palettes.find(p => p.id === foregroundPaletteId) || palettes[0]
+  const backgroundPalette = palettes.find(p => p.id === backgroundPaletteId) || foregroundPalette
+  const samePalette = foregroundPalette?.id === backgroundPalette?.id
+
+  const matrix = useMemo(() => {
+    if (!open || !foregroundPalette || !backgroundPalette) return []
+    return computeContrastMatrix(
+      generatePaletteWithReferences(foregroundPalette, palettes, gamutSettings, lightnessSettings),
+      generatePaletteWithReferences(backgroundPalette, palettes, gamutSettings, lightnessSettings),
+      algorithm
+    )
+  }, [open, foregroundPalette, backgroundPalette, palettes, algorithm, gamutSettings, lightnessSettings])
+
+  const passingCount = useMemo(() =>
+    matrix.flat().filter(cell =>
+      !(samePalette && cell.foreground.step === cell.background.step) &&
+      FILTER_LEVELS[filter].includes(cell.level)
+    ).length,
+    [matrix, filter, samePalette]
+  )
+
+  const unit = algorithm === 'apca' ? 'Lc ' : ''
+  const suffix = algorithm === 'apca' ? '' : ':1'
+
+  const handleCopyPair = async (cell: ContrastMatrixCell) => {
+    const pair = `${foregroundPalette.name}-${cell.foreground.tokenName} on ${backgroundPalette.name}-${cell.background.tokenName}`
+    const success = await copyToClipboard(`${pair}: ${cell.foreground.css} / ${cell.background.css}`)
+    if (success) {
+      toast(`Copied ${pair}`)
+    }
+  }
+
+  const renderCell = (cell: ContrastMatrixCell) => {
+    const isDiagonal = samePalette && cell.foreground.step === cell.background.step
+    const visible = !isDiagonal && FILTER_LEVELS[filter].includes(cell.level)
+    const label = getContrastLevelLabel(cell.level, algorithm)
+
+    return (
+      <td key={cell.background.step} className="p-0.5">
+        <button
+          type="button"
+          className={cn(
+            'w-16 h-12 rounded flex flex-col items-center justify-center border border-border/50 transition-opacity',
+            !visible && 'opacity-15 cursor-default'
+          )}
+          style={{ backgroundColor: cell.background.css, color: cell.foreground.css }}
+          title={isDiagonal ? 'Same color' : `${cell.foreground.tokenName} on ${cell.background.tokenName}: ${unit}${cell.result.ratio}${suffix} (${label})`}
+          onClick={() => visible && handleCopyPair(cell)}
+          disabled={!visible}
+        >
+          {!isDiagonal && (
+            <>
+              <span className="text-xs font-semibold leading-none">{cell.result.ratio}</span>
+              <span className={cn('mt-1 px-1 rounded text-[10px] font-medium leading-tight', LEVEL_CLASSES[cell.level])}>
+                {label}
+              </span>
+            </>
+          )}
+        </button>
+      </td>
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-6xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Contrast Matrix</DialogTitle>
+          <DialogDescription>
+            Every foreground step (rows) against every background step (columns). Click a passing cell to copy the pair.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-4 gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Foreground palette</Label>
+            <Select value={foregroundPalette?.id} onValueChange={setForegroundPaletteId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {palettes.map(palette => (
+                  <SelectItem key={palette.id} value={palette.id}>{palette.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Background palette</Label>
+            <Select value={backgroundPalette?.id} onValueChange={setBackgroundPaletteId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {palettes.map(palette => (
+                  <SelectItem key={palette.id} value={palette.id}>{palette.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Algorithm</Label>
+            <Select value={algorithm} onValueChange={(value) => setAlgorithm(value as ContrastAlgorithm)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="wcag2">WCAG 2</SelectItem>
+                <SelectItem value="apca">APCA</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Show</Label>
+            <Select value={filter} onValueChange={(value) => setFilter(value as MatrixFilter)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All pairs</SelectItem>
+                <SelectItem value="aa-large">Pass {getContrastLevelLabel('AA Large', algorithm)} (large text)</SelectItem>
+                <SelectItem value="aa-body">Pass {getContrastLevelLabel('AA', algorithm)} (body text)</SelectItem>
+                <SelectItem value="aaa-body">Pass {getContrastLevelLabel('AAA', algorithm)} (body text)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>{passingCount} pair(s) shown</span>
+          <div className="flex items-center gap-2">
+            {(['AAA', 'AA', 'AA Large', 'Fail'] as ContrastLevel[]).map(level => (
+              <span key={level} className={cn('px-1.5 py-0.5 rounded font-medium', LEVEL_CLASSES[level])}>
+                {getContrastLevelLabel(level, algorithm)}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-auto">
+          {matrix.length > 0 && (
+            <table className="border-separate border-spacing-0">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 top-0 z-20 bg-background p-1 text-[10px] font-medium text-muted-foreground text-left">
+                    fg \ bg
+                  </th>
+                  {matrix[0].map(cell => (
+                    <th key={cell.background.step} className="sticky top-0 z-10 bg-background p-1 text-xs font-medium">
+                      <div className="flex flex-col items-center gap-1">
+                        <div className="w-4 h-4 rounded-full border border-border" style={{ backgroundColor: cell.background.css }} />
+                        {cell.background.tokenName}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.map(row => (
+                  <tr key={row[0].foreground.step}>
+                    <th className="sticky left-0 z-10 bg-background p-1 text-xs font-medium">
+                      <div className="flex items-center gap-1">
+                        <div className="w-4 h-4 rounded-full border border-border" style={{ backgroundColor: row[0].foreground.css }} />
+                        {row[0].foreground.tokenName}
+                      </div>
+                    </th>
+                    {row.map(renderCell)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,5 +1,5 @@
-import { RotateCcw, RefreshCw, Plus, Trash2 } from 'lucide-react'
-import { PaletteControls, Palette, GamutSettings } from '../types'
+import { RotateCcw, RefreshCw, Plus, Trash2, Pin, AlertTriangle } from 'lucide-react'
+import { PaletteControls, PaletteColor, Palette, GamutSettings, LightnessSettings, DarkModeVariant, SemanticToken, VisionSimulation } from '../types'
 import { defaultControls } from '../lib/presets'
 import { PrecisionSlider } from './ui/precision-slider'
 import { Button } from './ui/button'
@@ -8,29 +8,47 @@ import { CardContent, CardHeader } from './ui/card'
 import { Label } from './ui/label'
 import { ColorCombobox, ColorOption } from './ui/color-combobox'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
-import { generatePalette, getMaxChromaForGamut } from '../lib/colorGeneration'
+import { generatePalette, generatePaletteWithReferences, parseAnchors, STEP_TO_TOKEN_MAPPING, createCustomCurvePoints, getMaxChromaForGamut, getDefaultContrastTarget, DEFAULT_DARK_BACKGROUND } from '../lib/colorGeneration'
+import { findSemanticTokenReferences } from '../lib/semanticTokens'
+import { orderPalettesByReferences, wouldCreateReferenceCycle } from '../lib/paletteReferences'
+import { createCustomHueCurvePoints, getHueAnchorStep } from '../lib/hueCurve'
 import { HueVisualizer } from './HueVisualizer'
 import { CurvePreview } from './CurvePreview'
+import { AnchorEditor } from './AnchorEditor'
+import { ContrastConstraintEditor } from './ContrastConstraintEditor'
+import { DeltaEChart } from './DeltaEChart'
+import { GamutBoundaryPlot } from './GamutBoundaryPlot'
 import { useMemo, useState } from 'react'
 import { Input } from './ui/input'
 import { Slider } from './ui/slider'
+import { Toggle } from './ui/toggle'
 import { cn } from '../lib/utils'
+import { toast } from 'sonner'
 
 interface ControlPanelProps {
   controls: PaletteControls
   onControlsChange: (controls: PaletteControls) => void
   paletteName?: string
   paletteColor?: string
-  colors?: Array<{ step: number; contrast: number; lightness: number; css: string }>
-  lightnessMode: 'contrast' | 'range'
+  colors?: PaletteColor[]
+  lightnessSettings: LightnessSettings
   // New props for palette management
   palettes: Palette[]
+  // Generated colors of every palette, keyed by id
+  generatedPalettes: Record<string, PaletteColor[]>
   activePaletteId: string
   onActivePaletteChange: (paletteId: string) => void
   // Color options for the background color combobox
   colorOptions: ColorOption[]
   // Gamut settings for dynamic max chroma
   gamutSettings: GamutSettings
+  // Dark-mode variant of the active palette
+  darkVariant?: DarkModeVariant
+  onDarkVariantChange: (variant: DarkModeVariant) => void
+  // Semantic tokens, used to block deleting steps that roles still reference
+  semanticTokens: SemanticToken[]
+  // Vision simulation applied to the hue strip
+  visionSimulation: VisionSimulation
 }
 
 export function ControlPanel({ 
@@ -39,13 +57,20 @@ export function ControlPanel({
   paletteName, 
   paletteColor, 
   colors, 
-  lightnessMode,
+  lightnessSettings,
   palettes,
+  generatedPalettes,
   activePaletteId,
   onActivePaletteChange,
   colorOptions,
-  gamutSettings
+  gamutSettings,
+  darkVariant,
+  onDarkVariantChange,
+  semanticTokens,
+  visionSimulation
 }: ControlPanelProps) {
+  const lightnessMode = lightnessSettings.mode
+
   // Edit mode state for step management
   const [isEditingSteps, setIsEditingSteps] = useState(false)
 
@@ -59,11 +84,37 @@ export function ControlPanel({
   const paletteColors = useMemo(() => {
     const colors: Record<string, string> = {};
     for (const palette of palettes) {
-      const generatedPalette = generatePalette(palette.controls, { gamutMode: 'sRGB' }, { mode: 'contrast' });
-      colors[palette.id] = generatedPalette[5]?.css || '#3b82f6'; // Use step 6 as representative color
+      const generatedPalette = generatedPalettes[palette.id];
+      colors[palette.id] = generatedPalette?.[5]?.css || '#3b82f6'; // Use step 6 as representative color
     }
     return colors;
-  }, [palettes]);
+  }, [palettes, generatedPalettes]);
+
+  // Steps of other palettes are offered as live references, except those that would reference back
+  const backgroundOptions = useMemo(() =>
+    colorOptions.filter(option => !option.paletteId || !wouldCreateReferenceCycle(activePaletteId, option.paletteId, palettes)),
+    [colorOptions, activePaletteId, palettes]
+  );
+
+  // Relative "palette-N" references only make sense for the light ramp, and the dark ramp takes other palettes' steps as plain colors
+  const darkBackgroundOptions = useMemo(() => 
+    colorOptions
+      .filter(option => !option.isRelative)
+      .map(option => option.paletteId ? { ...option, value: option.color, paletteId: undefined } : option),
+    [colorOptions]
+  );
+
+  // Cycles can still arrive through imports; their references fall back to white
+  const referenceCycle = useMemo(() =>
+    orderPalettesByReferences(palettes).cycles.find(cycle => cycle.includes(activePaletteId)),
+    [palettes, activePaletteId]
+  );
+
+  // A "palette-N" background is solved as a fixed point; its step records how that settled
+  const selfReferencedStep = colors?.find(color => color.selfReference);
+
+  // The step a "palette-N" background reads sits on a surface of its own, which cannot be another step of this ramp
+  const surfaceOptions = useMemo(() => backgroundOptions.filter(option => !option.isRelative), [backgroundOptions]);
 
   const updateControl = (key: keyof PaletteControls, value: any) => {
     onControlsChange({ ...controls, [key]: value })
@@ -84,7 +135,10 @@ export function ControlPanel({
     // If switching TO manual mode FROM curve/perceptual, auto-populate with current values
     if (newMode === 'manual' && (currentMode === 'curve' || currentMode === 'perceptual')) {
       // Generate current palette to get actual chroma values
-      const currentPalette = generatePalette(controls, gamutSettings, { mode: lightnessMode });
+      const activePalette = palettes.find(palette => palette.id === activePaletteId);
+      const currentPalette = activePalette
+        ? generatePaletteWithReferences({ ...activePalette, controls }, palettes, gamutSettings, lightnessSettings)
+        : generatePalette(controls, gamutSettings, lightnessSettings);
       
       // Extract chroma values for each step - use original calculated values to avoid round-trip drift
       const newChromaValues: Record<string, number> = {};
@@ -104,7 +158,27 @@ export function ControlPanel({
     }
   };
 
-  const updateLightnessValue = (step: number, value: number) => {
+  // Switching to custom hue points seeds them from the current drift curve
+  const handleHueCurveModeChange = (value: string) => {
+    const hueCurveMode = value as PaletteControls['hueCurveMode']
+    onControlsChange({
+      ...controls,
+      hueCurveMode,
+      ...(hueCurveMode === 'custom' ? { hueCurvePoints: createCustomHueCurvePoints(controls) } : {})
+    })
+  }
+
+  // Switching to the custom curve seeds its control points from the current curve shape
+  const handleChromaCurveTypeChange = (value: string) => {
+    const chromaCurveType = value as PaletteControls['chromaCurveType']
+    onControlsChange({
+      ...controls,
+      chromaCurveType,
+      ...(chromaCurveType === 'custom' ? { chromaCurvePoints: createCustomCurvePoints(controls) } : {})
+    })
+  }
+
+    const updateLightnessValue = (step: number, value: number) => {
     const newValues = { ...controls.lightnessValues };
     const newOverrides = { ...controls.lightnessOverrides };
     const stepKey = step.toString();
@@ -171,7 +245,7 @@ export function ControlPanel({
     const newChromaValues = { ...controls.chromaValues }
     
     // Set default values (interpolate from adjacent steps if possible)
-    newContrastTargets[stepKey] = 4.5 // Default AA contrast
+    newContrastTargets[stepKey] = getDefaultContrastTarget(controls.contrastAlgorithm) // Default AA-level contrast
     newLightnessValues[stepKey] = 0.5 // Default lightness
     newLightnessOverrides[stepKey] = false
     newChromaValues[stepKey] = 0.1 // Default chroma
@@ -189,6 +263,12 @@ export function ControlPanel({
   }
 
   const deleteStep = (position: number) => {
+    const referencingTokens = findSemanticTokenReferences(semanticTokens, activePaletteId, position)
+    if (referencingTokens.length > 0) {
+      toast.error(`Step ${generateTokenName(position)} is used by semantic tokens: ${referencingTokens.map(token => token.name).join(', ')}`)
+      return
+    }
+
     const newSteps = controls.steps?.filter(step => step !== position) || []
     const stepKey = position.toString()
     
@@ -293,6 +373,8 @@ export function ControlPanel({
           <HueVisualizer 
             controls={controls}
             colors={colors || []}
+            simulation={visionSimulation}
+            onControlsChange={onControlsChange}
           />
 
           {/* Shadcn Tabs */}
@@ -312,45 +394,115 @@ export function ControlPanel({
                   min={0}
                   max={360}
                   step={0.1}
-                  label="Base Hue (Middle)"
+                  label="Base Hue"
                   unit="°"
                   formatDisplay={(value) => `${value.toFixed(1)}°`}
                   className="w-full"
                 />
-                <p className="text-xs text-muted-foreground">Anchor hue at middle of palette (step 6)</p>
+                <p className="text-xs text-muted-foreground">Hue at the anchor step (offset 0 on the hue curve)</p>
               </div>
 
-              {/* Light Hue Drift */}
+              {/* Hue Curve Mode */}
               <div className="space-y-3">
-                <PrecisionSlider
-                  value={controls.lightHueDrift}
-                  onChange={(value) => updateControl('lightHueDrift', value)}
-                  min={-60}
-                  max={60}
-                  step={0.1}
-                  label="Light Hue Drift"
-                  unit="°"
-                  formatDisplay={(value) => `${value.toFixed(1)}°`}
-                  className="w-full"
-                />
-                <p className="text-xs text-muted-foreground">Hue shift for light colors (steps 1-5)</p>
+                <Label className="text-sm font-medium">Hue Curve</Label>
+                <Select value={controls.hueCurveMode || 'drift'} onValueChange={handleHueCurveModeChange}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="drift">Drift from Anchor Step</SelectItem>
+                    <SelectItem value="custom">Custom (Editable Points)</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
 
-              {/* Dark Hue Drift */}
-              <div className="space-y-3">
-                <PrecisionSlider
-                  value={controls.darkHueDrift}
-                  onChange={(value) => updateControl('darkHueDrift', value)}
-                  min={-60}
-                  max={60}
-                  step={0.1}
-                  label="Dark Hue Drift"
-                  unit="°"
-                  formatDisplay={(value) => `${value.toFixed(1)}°`}
-                  className="w-full"
-                />
-                <p className="text-xs text-muted-foreground">Hue shift for dark colors (steps 7-11)</p>
-              </div>
+              {controls.hueCurveMode !== 'custom' && (
+                <div className="space-y-4">
+                  {/* Anchor Step */}
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-sm font-medium">Anchor Step</Label>
+                      <span className="text-sm text-muted-foreground">{STEP_TO_TOKEN_MAPPING[getHueAnchorStep(controls)] ?? getHueAnchorStep(controls)}</span>
+                    </div>
+                    <Slider
+                      value={[getHueAnchorStep(controls)]}
+                      onValueChange={([value]) => updateControl('hueAnchorStep', value)}
+                      min={1}
+                      max={11}
+                      step={1}
+                    />
+                    <p className="text-xs text-muted-foreground">Step that keeps the base hue; drift bends away from it on both sides</p>
+                  </div>
+
+                  {/* Light Hue Drift */}
+                  <div className="space-y-3">
+                    <PrecisionSlider
+                      value={controls.lightHueDrift}
+                      onChange={(value) => updateControl('lightHueDrift', value)}
+                      min={-60}
+                      max={60}
+                      step={0.1}
+                      label="Light Hue Drift"
+                      unit="°"
+                      formatDisplay={(value) => `${value.toFixed(1)}°`}
+                      className="w-full"
+                    />
+                    <p className="text-xs text-muted-foreground">Hue shift at the lightest step (step 1)</p>
+                  </div>
+
+                  {/* Dark Hue Drift */}
+                  <div className="space-y-3">
+                    <PrecisionSlider
+                      value={controls.darkHueDrift}
+                      onChange={(value) => updateControl('darkHueDrift', value)}
+                      min={-60}
+                      max={60}
+                      step={0.1}
+                      label="Dark Hue Drift"
+                      unit="°"
+                      formatDisplay={(value) => `${value.toFixed(1)}°`}
+                      className="w-full"
+                    />
+                    <p className="text-xs text-muted-foreground">Hue shift at the darkest step (step 11)</p>
+                  </div>
+
+                  <div className="space-y-3">
+                    <Label className="text-sm font-medium">Light Drift Easing</Label>
+                    <Select
+                      value={controls.lightHueEasing || 'none'}
+                      onValueChange={(value) => updateControl('lightHueEasing', value)}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None (Linear)</SelectItem>
+                        <SelectItem value="ease-in">Ease In (Slow Start)</SelectItem>
+                        <SelectItem value="ease-out">Ease Out (Slow End)</SelectItem>
+                        <SelectItem value="ease-in-out">Ease In-Out (Both)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-3">
+                    <Label className="text-sm font-medium">Dark Drift Easing</Label>
+                    <Select
+                      value={controls.darkHueEasing || 'none'}
+                      onValueChange={(value) => updateControl('darkHueEasing', value)}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None (Linear)</SelectItem>
+                        <SelectItem value="ease-in">Ease In (Slow Start)</SelectItem>
+                        <SelectItem value="ease-out">Ease Out (Slow End)</SelectItem>
+                        <SelectItem value="ease-in-out">Ease In-Out (Both)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
             </TabsContent>
 
             <TabsContent value="chroma" className="space-y-4 mt-6">
@@ -392,7 +544,11 @@ export function ControlPanel({
 
               {controls.chromaMode === 'curve' && (
                 <div className="space-y-6">
-                  <CurvePreview controls={controls} />
+                  <CurvePreview
+                    controls={controls}
+                    anchors={parseAnchors(controls)}
+                    onCurvePointsChange={(points) => updateControl('chromaCurvePoints', points)}
+                  />
                   
                   <PrecisionSlider
                     value={controls.minChroma}
@@ -416,7 +572,7 @@ export function ControlPanel({
                     className="w-full"
                   />
 
-                  {controls.chromaCurveType !== 'flat' && (
+                  {controls.chromaCurveType !== 'flat' && controls.chromaCurveType !== 'custom' && (
                     <PrecisionSlider
                       value={controls.chromaPeak}
                       onChange={(value) => updateControl('chromaPeak', value)}
@@ -432,7 +588,7 @@ export function ControlPanel({
                     <Label className="text-sm font-medium">Curve Type</Label>
                     <Select 
                       value={controls.chromaCurveType || 'gaussian'} 
-                      onValueChange={(value) => updateControl('chromaCurveType', value)}
+                      onValueChange={handleChromaCurveTypeChange}
                     >
                       <SelectTrigger className="w-full">
                         <SelectValue />
@@ -444,27 +600,31 @@ export function ControlPanel({
                         <SelectItem value="sine">Sine Wave (Gentle)</SelectItem>
                         <SelectItem value="cubic">Cubic (Dramatic)</SelectItem>
                         <SelectItem value="quartic">Quartic (Very Dramatic)</SelectItem>
+                        <SelectItem value="custom">Custom (Editable Spline)</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
                   
-                  <div className="space-y-3">
-                    <Label className="text-sm font-medium">Curve Easing</Label>
-                    <Select 
-                      value={controls.chromaEasing || 'none'} 
-                      onValueChange={(value) => updateControl('chromaEasing', value)}
-                    >
-                      <SelectTrigger className="w-full">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="none">None</SelectItem>
-                        <SelectItem value="ease-in">Ease In (Slow Start)</SelectItem>
-                        <SelectItem value="ease-out">Ease Out (Slow End)</SelectItem>
-                        <SelectItem value="ease-in-out">Ease In-Out (Both)</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  {/* The custom curve is shaped directly, so easing does not apply */}
+                  {controls.chromaCurveType !== 'custom' && (
+                    <div className="space-y-3">
+                      <Label className="text-sm font-medium">Curve Easing</Label>
+                      <Select 
+                        value={controls.chromaEasing || 'none'} 
+                        onValueChange={(value) => updateControl('chromaEasing', value)}
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          <SelectItem value="ease-in">Ease In (Slow Start)</SelectItem>
+                          <SelectItem value="ease-out">Ease Out (Slow End)</SelectItem>
+                          <SelectItem value="ease-in-out">Ease In-Out (Both)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -474,7 +634,11 @@ export function ControlPanel({
                     <strong>Perceptual Mode:</strong> Maps your curve shape to the actual available gamut space for each lightness level. This ensures smooth transitions without hard clipping, but your min/max chroma values become percentages of what's actually achievable.
                   </div>
                   
-                  <CurvePreview controls={controls} />
+                  <CurvePreview
+                    controls={controls}
+                    anchors={parseAnchors(controls)}
+                    onCurvePointsChange={(points) => updateControl('chromaCurvePoints', points)}
+                  />
                   
                   <PrecisionSlider
                     value={controls.minChroma * 100}
@@ -498,7 +662,7 @@ export function ControlPanel({
                     className="w-full"
                   />
 
-                  {controls.chromaCurveType !== 'flat' && (
+                  {controls.chromaCurveType !== 'flat' && controls.chromaCurveType !== 'custom' && (
                     <PrecisionSlider
                       value={controls.chromaPeak * 100}
                       onChange={(value) => updateControl('chromaPeak', value / 100)}
@@ -515,7 +679,7 @@ export function ControlPanel({
                     <Label className="text-sm font-medium">Curve Type</Label>
                     <Select 
                       value={controls.chromaCurveType || 'gaussian'} 
-                      onValueChange={(value) => updateControl('chromaCurveType', value)}
+                      onValueChange={handleChromaCurveTypeChange}
                     >
                       <SelectTrigger className="w-full">
                         <SelectValue />
@@ -527,34 +691,44 @@ export function ControlPanel({
                         <SelectItem value="sine">Sine Wave (Gentle)</SelectItem>
                         <SelectItem value="cubic">Cubic (Dramatic)</SelectItem>
                         <SelectItem value="quartic">Quartic (Very Dramatic)</SelectItem>
+                        <SelectItem value="custom">Custom (Editable Spline)</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
                   
-                  <div className="space-y-3">
-                    <Label className="text-sm font-medium">Curve Easing</Label>
-                    <Select 
-                      value={controls.chromaEasing || 'none'} 
-                      onValueChange={(value) => updateControl('chromaEasing', value)}
-                    >
-                      <SelectTrigger className="w-full">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="none">None</SelectItem>
-                        <SelectItem value="ease-in">Ease In (Slow Start)</SelectItem>
-                        <SelectItem value="ease-out">Ease Out (Slow End)</SelectItem>
-                        <SelectItem value="ease-in-out">Ease In-Out (Both)</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  {/* The custom curve is shaped directly, so easing does not apply */}
+                  {controls.chromaCurveType !== 'custom' && (
+                    <div className="space-y-3">
+                      <Label className="text-sm font-medium">Curve Easing</Label>
+                      <Select 
+                        value={controls.chromaEasing || 'none'} 
+                        onValueChange={(value) => updateControl('chromaEasing', value)}
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          <SelectItem value="ease-in">Ease In (Slow Start)</SelectItem>
+                          <SelectItem value="ease-out">Ease Out (Slow End)</SelectItem>
+                          <SelectItem value="ease-in-out">Ease In-Out (Both)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                 </div>
               )}
+
+              <GamutBoundaryPlot colors={colors || []} baseHue={controls.baseHue} gamutMode={gamutSettings.gamutMode} />
             </TabsContent>
 
             <TabsContent value="lightness" className="space-y-4 mt-6">
               <div className="text-xs text-muted-foreground mb-4">
-                Mode: {lightnessMode === 'contrast' ? 'Contrast-based' : 'Range-based'}
+                Mode: {lightnessMode === 'contrast'
+                  ? `Contrast-based (${controls.contrastAlgorithm === 'apca' ? 'APCA Lc' : 'WCAG 2 ratio'})`
+                  : lightnessMode === 'uniform'
+                    ? `Perceptually uniform (equal ${lightnessSettings.deltaEMetric === 'ciede2000' ? 'CIEDE2000' : 'OKLab'} ΔE)`
+                    : 'Range-based'}
               </div>
               
               {lightnessMode === 'contrast' && (
@@ -566,12 +740,86 @@ export function ControlPanel({
                     <ColorCombobox
                       value={controls.backgroundColor}
                       onChange={(value) => updateControl('backgroundColor', value)}
-                      options={colorOptions}
+                      options={backgroundOptions}
                       placeholder="Select target contrast color..."
                       className="w-full"
                     />
+                    {referenceCycle && (
+                      <p className="text-xs text-red-600 flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        Background references form a cycle ({referenceCycle.map(id => palettes.find(palette => palette.id === id)?.name || id).join(' → ')}); they fall back to white.
+                      </p>
+                    )}
+                    {selfReferencedStep?.selfReference && (
+                      selfReferencedStep.selfReference.status === 'converged' ? (
+                        <p className="text-xs text-muted-foreground">
+                          Solved against this palette's step {selfReferencedStep.tokenName} in {selfReferencedStep.selfReference.iterations} {selfReferencedStep.selfReference.iterations === 1 ? 'pass' : 'passes'}; that step keeps its own target against the surface below.
+                        </p>
+                      ) : (
+                        <p className="text-xs text-red-600 flex items-center gap-1">
+                          <AlertTriangle className="w-3 h-3" />
+                          Step {selfReferencedStep.tokenName} did not settle after {selfReferencedStep.selfReference.iterations} passes (ΔE {selfReferencedStep.selfReference.residual.toFixed(2)}); showing the closest ramp.
+                        </p>
+                      )
+                    )}
+                    {controls.backgroundColor.startsWith('palette-') && (
+                      <div className="space-y-2">
+                        <Label className="text-xs text-muted-foreground">Surface under the referenced step</Label>
+                        <ColorCombobox
+                          value={controls.selfReferenceSurface || '#ffffff'}
+                          onChange={(value) => updateControl('selfReferenceSurface', value)}
+                          options={surfaceOptions}
+                          placeholder="Select surface color..."
+                          className="w-full"
+                        />
+                      </div>
+                    )}
                   </div>
                   
+                  {/* Dark-mode variant - same hue and chroma, lightness solved against a dark surface */}
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-sm font-medium">Dark Mode Variant</Label>
+                      <Toggle
+                        pressed={darkVariant?.enabled || false}
+                        onPressedChange={(pressed) => onDarkVariantChange({
+                          backgroundColor: DEFAULT_DARK_BACKGROUND,
+                          ...darkVariant,
+                          enabled: pressed
+                        })}
+                        size="sm"
+                        className="h-7 text-xs"
+                        aria-label="Toggle dark mode variant"
+                      >
+                        {darkVariant?.enabled ? 'On' : 'Off'}
+                      </Toggle>
+                    </div>
+                    {darkVariant?.enabled && (
+                      <>
+                        <ColorCombobox
+                          value={darkVariant.backgroundColor}
+                          onChange={(value) => onDarkVariantChange({ ...darkVariant, backgroundColor: value })}
+                          options={darkBackgroundOptions}
+                          placeholder="Select dark background..."
+                          className="w-full"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Contrast targets are mirrored onto the dark background, so low steps become subtle surfaces and high steps become light foregrounds.
+                        </p>
+                      </>
+                    )}
+                  </div>
+                  
+                  {/* Extra surfaces each step must keep a minimum contrast against */}
+                  <ContrastConstraintEditor
+                    constraints={controls.contrastConstraints || {}}
+                    colors={colors || []}
+                    backgroundColor={controls.backgroundColor}
+                    options={backgroundOptions}
+                    algorithm={controls.contrastAlgorithm}
+                    onConstraintsChange={(constraints) => updateControl('contrastConstraints', constraints)}
+                  />
+                  
                   {/* Lightness Controls - Auto with individual overrides */}
                   <div className="space-y-3">
                     <div className="flex items-center justify-between">
@@ -630,7 +878,7 @@ export function ControlPanel({
                               const newLightnessOverrides = { ...controls.lightnessOverrides }
                               const newChromaValues = { ...controls.chromaValues }
                               
-                              newContrastTargets[stepKey] = 4.5
+                              newContrastTargets[stepKey] = getDefaultContrastTarget(controls.contrastAlgorithm)
                               newLightnessValues[stepKey] = 0.9 // Light value for early step
                               newLightnessOverrides[stepKey] = false
                               newChromaValues[stepKey] = 0.1
@@ -659,6 +907,8 @@ export function ControlPanel({
                       {(controls.steps || []).sort((a, b) => a - b).map((step, index) => {
                         const color = colors?.find(c => c.step === step);
                         const stepKey = step.toString();
+                        // Only shown for steps with extra constraints
+                        const bindingConstraint = color?.contrastConstraints?.find(constraint => constraint.binding);
                         
                         // Simple value calculation - always auto mode with optional overrides
                         const hasManualOverride = controls.lightnessOverrides?.[stepKey] || false;
@@ -713,8 +963,26 @@ export function ControlPanel({
                                       placeholder="Token name"
                                     />
                                   ) : (
-                                    <div className="h-8 flex items-center">
+                                    <div className="h-8 flex items-center gap-1">
                                       <label className="text-sm font-medium">{generateTokenName(step)}</label>
+                                      {controls.anchors?.[stepKey] && (
+                                        <Pin className="w-3 h-3 text-muted-foreground" aria-label="Pinned anchor" />
+                                      )}
+                                      {color?.contrastStatus === 'unreachable' && (
+                                        <span title={`Contrast target ${controls.contrastTargets[stepKey]} is out of reach; at most ${color.maxContrast} with this chroma and hue`}>
+                                          <AlertTriangle className="w-3 h-3 text-amber-600" aria-label="Unreachable contrast target" />
+                                        </span>
+                                      )}
+                                      {color?.contrastStatus === 'conflict' && (
+                                        <span title="No lightness meets every contrast constraint; the background target is kept">
+                                          <AlertTriangle className="w-3 h-3 text-red-600" aria-label="Conflicting contrast constraints" />
+                                        </span>
+                                      )}
+                                      {bindingConstraint && (
+                                        <span className="text-xs text-muted-foreground truncate" title="Constraint that sets this step's lightness">
+                                          ≥ {bindingConstraint.minContrast} on {colorOptions.find(option => option.value === bindingConstraint.background)?.label || bindingConstraint.background}
+                                        </span>
+                                      )}
                                     </div>
                                   )}
                                 </div>
@@ -821,8 +1089,8 @@ export function ControlPanel({
                 </div>
               )}
 
-              {/* Manual Controls - When in Range Mode */}
-              {lightnessMode === 'range' && (
+              {/* Manual Controls - When in Range or Uniform Mode (uniform spaces the same range) */}
+              {(lightnessMode === 'range' || lightnessMode === 'uniform') && (
                 <div className="space-y-6">
                   <div className="flex items-center justify-between">
                                 <label className="text-sm font-medium text-foreground">Lightness Range</label>
@@ -856,9 +1124,19 @@ export function ControlPanel({
                   </div>
                 </div>
               )}
+
+              {/* Spacing between neighbouring steps - the uniform mode evens these out */}
+              <DeltaEChart colors={colors || []} metric={lightnessSettings.deltaEMetric} />
             </TabsContent>
           </Tabs>
 
+          {/* Pinned anchors - exact colors on core steps, applies in every lightness mode */}
+          <AnchorEditor
+            anchors={controls.anchors || {}}
+            colors={colors || []}
+            onAnchorsChange={(anchors) => updateControl('anchors', anchors)}
+          />
+
           {/* Reset Button */}
           <Button
             onClick={resetToDefaults}
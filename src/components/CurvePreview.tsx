@@ -1,129 +1,134 @@
-import { PaletteControls } from '../types';
-import { calculateGamutAwareChromaFactor } from '../lib/colorGeneration';
-
-// Helper function to apply easing (copied from colorGeneration.ts)
-function applyEasing(factor: number, easing: string = 'none'): number {
-  switch (easing) {
-    case 'ease-in':
-      return factor * factor;
-    case 'ease-out':
-      return 1 - Math.pow(1 - factor, 2);
-    case 'ease-in-out':
-      return factor < 0.5 
-        ? 2 * factor * factor 
-        : 1 - Math.pow(-2 * factor + 2, 2) / 2;
-    default:
-      return factor;
-  }
-}
-
-// Helper function to calculate chroma factor (copied from colorGeneration.ts)
-function calculateChromaFactor(
-  distance: number, 
-  curveType: string, 
-  easing: string = 'none'
-): number {
-  let baseFactor: number;
-  
-  switch (curveType) {
-    case 'flat':
-      baseFactor = 1;
-      break;
-    case 'gaussian':
-      baseFactor = Math.exp(-Math.pow(distance, 2) / 0.15);
-      break;
-    case 'linear':
-      baseFactor = Math.max(0, 1 - distance * 2);
-      break;
-    case 'sine':
-      baseFactor = distance <= 0.5 ? Math.cos(distance * Math.PI) : 0;
-      break;
-    case 'cubic':
-      baseFactor = distance <= 0.5 ? Math.pow(1 - distance * 2, 3) : 0;
-      break;
-    case 'quartic':
-      baseFactor = distance <= 0.5 ? Math.pow(1 - distance * 2, 4) : 0;
-      break;
-    default:
-      baseFactor = Math.exp(-Math.pow(distance, 2) / 0.15);
-  }
-  
-  return applyEasing(baseFactor, easing);
-}
+import { useRef, useState } from 'react';
+import { CurvePoint, PaletteControls } from '../types';
+import { calculateGamutAwareChromaFactor, getChromaCurveFactor } from '../lib/colorGeneration';
+import { evaluateChromaCurve, DEFAULT_CHROMA_CURVE_POINTS } from '../lib/chromaCurve';
+import { MIN_CURVE_POINT_GAP } from '../lib/curves';
+import { calculateStepHue } from '../lib/hueCurve';
 
 interface CurvePreviewProps {
   controls: PaletteControls;
+  // Pinned anchors (OKLCH) by step, drawn as markers on the curve
+  anchors?: Map<number, { l: number; c: number; h: number }>;
+  // Called while dragging/adding/removing control points of the 'custom' curve type
+  onCurvePointsChange?: (points: CurvePoint[]) => void;
 }
 
-export function CurvePreview({ controls }: CurvePreviewProps) {
+// SVG dimensions
+const width = 280;
+const height = 100;
+const padding = 15;
+const graphWidth = width - padding * 2;
+const graphHeight = height - padding * 2;
+
+export function CurvePreview({ controls, anchors, onCurvePointsChange }: CurvePreviewProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
   if (controls.chromaMode !== 'curve' && controls.chromaMode !== 'perceptual') {
     return null;
   }
 
+  const isCustom = controls.chromaCurveType === 'custom';
+  const curvePoints = controls.chromaCurvePoints || DEFAULT_CHROMA_CURVE_POINTS;
+  const isEditable = isCustom && !!onCurvePointsChange;
+
   // Use the color steps from controls (1-11, the core color-generating steps)
-  const colorSteps = (controls.steps || []).filter(step => 
+  const colorSteps = (controls.steps || []).filter(step =>
     Number.isInteger(step) && step >= 1 && step <= 11
   ).sort((a, b) => a - b);
-  
+
   // Calculate chroma values for each color step
-  const chromaValues = colorSteps.map((step: number, index: number) => {
-    const normalizedStep = index / (colorSteps.length - 1); // Normalize to 0-1
-    const peak = controls.chromaPeak;
-    const chromaPosition = Math.abs(normalizedStep - peak);
-    
+  const chromaValues = colorSteps.map((step: number) => {
+    const normalizedStep = (step - 1) / 10; // 0 to 1 for steps 1 to 11, as in the generator
+    const curveFactor = getChromaCurveFactor(normalizedStep, controls);
+
     if (controls.chromaMode === 'perceptual') {
       // For perceptual mode, we need to calculate hue and lightness
-      const anchorStep = 6;
-      let hue: number;
-      if (step <= anchorStep) {
-        const lightProgress = (anchorStep - step) / (anchorStep - 1);
-        hue = controls.baseHue + (lightProgress * controls.lightHueDrift);
-      } else {
-        const darkProgress = (step - anchorStep) / (11 - anchorStep);
-        hue = controls.baseHue + (darkProgress * controls.darkHueDrift);
-      }
-      hue = hue % 360;
-      if (hue < 0) hue += 360;
-      
+      const hue = calculateStepHue(step, controls);
+
       // Use a rough lightness estimate for preview
       const roughLightness = controls.lightnessMin + normalizedStep * (controls.lightnessMax - controls.lightnessMin);
-      
+
       return calculateGamutAwareChromaFactor(
         roughLightness,
         hue,
-        chromaPosition,
-        controls.chromaCurveType || 'gaussian',
+        curveFactor,
         controls.minChroma,
         controls.maxChroma,
-        'sRGB', // Use sRGB for preview
-        controls.chromaEasing
+        'sRGB' // Use sRGB for preview
       );
     } else {
       // Regular curve mode
-      const chromaFactor = calculateChromaFactor(
-        chromaPosition,
-        controls.chromaCurveType || 'gaussian',
-        controls.chromaEasing
-      );
-      return controls.minChroma + (controls.maxChroma - controls.minChroma) * chromaFactor;
+      return controls.minChroma + (controls.maxChroma - controls.minChroma) * curveFactor;
     }
   });
 
-  // SVG dimensions
-  const width = 280;
-  const height = 100;
-  const padding = 15;
-  const graphWidth = width - padding * 2;
-  const graphHeight = height - padding * 2;
+  const chromaRange = controls.maxChroma - controls.minChroma || 1;
+  const toX = (position: number) => padding + position * graphWidth;
+  const toY = (factor: number) => padding + (1 - factor) * graphHeight;
+  const stepX = (step: number) => toX((step - 1) / 10);
+  const chromaY = (chroma: number) => toY((chroma - controls.minChroma) / chromaRange);
 
   // Create path points
-  const points = chromaValues.map((chroma: number, index: number) => {
-    const x = padding + (index / (colorSteps.length - 1)) * graphWidth;
-    const y = padding + (1 - (chroma - controls.minChroma) / (controls.maxChroma - controls.minChroma)) * graphHeight;
-    return `${x},${y}`;
-  }).join(' ');
+  const pathD = `M${chromaValues.map((chroma: number, index: number) => `${stepX(colorSteps[index])},${chromaY(chroma)}`).join(' L')}`;
 
-  const pathD = `M${points.split(' ').join(' L')}`;
+  // Smooth spline through the custom control points (sampled for drawing)
+  const splineD = isCustom
+    ? `M${Array.from({ length: 51 }, (_, i) => i / 50).map(x => `${toX(x)},${toY(evaluateChromaCurve(curvePoints, x))}`).join(' L')}`
+    : '';
+
+  // Convert a pointer event to curve space (x: normalized step, y: chroma factor)
+  const toCurveSpace = (event: React.PointerEvent | React.MouseEvent): CurvePoint | null => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return null;
+    const point = svg.createSVGPoint();
+    point.x = event.clientX;
+    point.y = event.clientY;
+    const local = point.matrixTransform(matrix.inverse());
+    return {
+      x: Math.max(0, Math.min(1, (local.x - padding) / graphWidth)),
+      y: Math.max(0, Math.min(1, 1 - (local.y - padding) / graphHeight))
+    };
+  };
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null || !onCurvePointsChange) return;
+    const position = toCurveSpace(event);
+    if (!position) return;
+
+    // Keep points ordered: a point cannot pass its neighbours
+    const minX = dragIndex > 0 ? curvePoints[dragIndex - 1].x + MIN_CURVE_POINT_GAP : 0;
+    const maxX = dragIndex < curvePoints.length - 1 ? curvePoints[dragIndex + 1].x - MIN_CURVE_POINT_GAP : 1;
+    const next = curvePoints.map((point, i) => i === dragIndex
+      ? { x: round(Math.max(minX, Math.min(maxX, position.x))), y: round(position.y) }
+      : point);
+    onCurvePointsChange(next);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    svgRef.current?.releasePointerCapture(event.pointerId);
+    setDragIndex(null);
+  };
+
+  // Double-click on the plot adds a point on the curve
+  const handleAddPoint = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!isEditable) return;
+    const position = toCurveSpace(event);
+    if (!position || curvePoints.some(point => Math.abs(point.x - position.x) < MIN_CURVE_POINT_GAP)) return;
+    const added = { x: round(position.x), y: round(evaluateChromaCurve(curvePoints, position.x)) };
+    onCurvePointsChange!([...curvePoints, added].sort((a, b) => a.x - b.x));
+  };
+
+  // Double-click on a point removes it (at least two points are kept)
+  const handleRemovePoint = (event: React.MouseEvent, index: number) => {
+    event.stopPropagation();
+    if (!onCurvePointsChange || curvePoints.length <= 2) return;
+    onCurvePointsChange(curvePoints.filter((_, i) => i !== index));
+  };
 
   return (
     <div className="space-y-2">
@@ -131,7 +136,17 @@ export function CurvePreview({ controls }: CurvePreviewProps) {
         Curve Preview {controls.chromaMode === 'perceptual' ? '(Gamut-Aware)' : ''}
       </div>
       <div className="border rounded-lg bg-card">
-        <svg width={width} height={height} className="w-full h-auto">
+        <svg
+          ref={svgRef}
+          width={width}
+          height={height}
+          viewBox={`0 0 ${width} ${height}`}
+          className={`w-full h-auto ${isEditable ? 'touch-none select-none' : ''}`}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onDoubleClick={handleAddPoint}
+        >
           {/* Grid lines */}
           <defs>
             <pattern id="grid" width="20" height="20" patternUnits="userSpaceOnUse">
@@ -139,7 +154,20 @@ export function CurvePreview({ controls }: CurvePreviewProps) {
             </pattern>
           </defs>
           <rect width={width} height={height} fill="url(#grid)" />
-          
+
+          {/* Custom spline (chroma factor) */}
+          {isCustom && (
+            <path
+              d={splineD}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="1"
+              strokeDasharray="3 3"
+              opacity="0.5"
+              className="text-primary"
+            />
+          )}
+
           {/* Curve line */}
           <path
             d={pathD}
@@ -148,24 +176,72 @@ export function CurvePreview({ controls }: CurvePreviewProps) {
             strokeWidth="2"
             className="text-primary"
           />
-          
+
           {/* Data points */}
-          {chromaValues.map((chroma: number, index: number) => {
-            const x = padding + (index / (colorSteps.length - 1)) * graphWidth;
-            const y = padding + (1 - (chroma - controls.minChroma) / (controls.maxChroma - controls.minChroma)) * graphHeight;
+          {chromaValues.map((chroma: number, index: number) => (
+            <circle
+              key={index}
+              cx={stepX(colorSteps[index])}
+              cy={chromaY(chroma)}
+              r="2"
+              fill="currentColor"
+              className="text-primary"
+            />
+          ))}
+
+          {/* Anchor markers - anchor chroma at pinned steps, clamped to the plot */}
+          {colorSteps.map((step: number) => {
+            const anchor = anchors?.get(step);
+            if (!anchor) return null;
+            const x = stepX(step);
+            const y = Math.max(padding, Math.min(height - padding, chromaY(anchor.c)));
             return (
-              <circle
-                key={index}
-                cx={x}
-                cy={y}
-                r="2"
-                fill="currentColor"
-                className="text-primary"
-              />
+              <g key={`anchor-${step}`}>
+                <title>{`Anchor at step ${step}: chroma ${anchor.c.toFixed(3)}`}</title>
+                <line x1={x} y1={padding} x2={x} y2={height - padding} stroke="currentColor" strokeWidth="1" strokeDasharray="2 2" opacity="0.4" />
+                <rect
+                  x={x - 4}
+                  y={y - 4}
+                  width="8"
+                  height="8"
+                  transform={`rotate(45 ${x} ${y})`}
+                  fill="hsl(var(--background))"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  className="text-foreground"
+                />
+              </g>
             );
           })}
+
+          {/* Draggable control points of the custom curve */}
+          {isEditable && curvePoints.map((point, index) => (
+            <circle
+              key={`control-${index}`}
+              cx={toX(point.x)}
+              cy={toY(point.y)}
+              r={dragIndex === index ? 6 : 5}
+              fill="hsl(var(--background))"
+              stroke="currentColor"
+              strokeWidth="2"
+              className="text-primary cursor-grab active:cursor-grabbing"
+              onPointerDown={(event) => {
+                event.preventDefault();
+                svgRef.current?.setPointerCapture(event.pointerId);
+                setDragIndex(index);
+              }}
+              onDoubleClick={(event) => handleRemovePoint(event, index)}
+            >
+              <title>{`Step position ${(point.x * 10 + 1).toFixed(1)}, chroma ${Math.round(point.y * 100)}%`}</title>
+            </circle>
+          ))}
         </svg>
       </div>
+      {isEditable && (
+        <p className="text-xs text-muted-foreground">
+          Drag points to shape the curve · double-click to add or remove a point
+        </p>
+      )}
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Toggle } from './ui/toggle'
+import { Palette, GamutSettings, LightnessSettings, SemanticToken } from '../types'
+import { generateDTCGJson } from '../lib/dtcg'
+import { downloadTextFile } from '../lib/browser'
+import { Copy, Check, FileDown } from 'lucide-react'
+
+interface DTCGExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  palettes: Palette[]
+  semanticTokens: SemanticToken[]
+  gamutSettings: GamutSettings
+  lightnessSettings: LightnessSettings
+}
+
+export function DTCGExportDialog({
+  open,
+  onOpenChange,
+  palettes,
+  semanticTokens,
+  gamutSettings,
+  lightnessSettings
+}: DTCGExportDialogProps) {
+  const [copied, setCopied] = useState(false)
+  const [includeExtensions, setIncludeExtensions] = useState(true)
+
+  // Transform palettes to W3C Design Tokens format
+  const generateJson = () => generateDTCGJson(palettes, gamutSettings, lightnessSettings, includeExtensions, semanticTokens)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(generateJson())
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err)
+    }
+  }
+
+  const handleDownload = () => {
+    downloadTextFile(generateJson(), 'tokens.dtcg.json')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Export as W3C Design Tokens</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 flex flex-col space-y-4 min-h-0">
+          <div className="flex justify-between items-center gap-4">
+            <p className="text-sm text-muted-foreground">
+              DTCG format for Style Dictionary, Tokens Studio and other token tools
+            </p>
+            <div className="flex items-center gap-2">
+              <Button onClick={handleDownload} size="sm" variant="outline" className="flex items-center gap-2">
+                <FileDown className="h-4 w-4" />
+                Download
+              </Button>
+              <Button onClick={handleCopy} size="sm" className="flex items-center gap-2">
+                {copied ? (
+                  <>
+                    <Check className="h-4 w-4" />
+                    Copied!
+                  </>
+                ) : (
+                  <>
+                    <Copy className="h-4 w-4" />
+                    Copy to Clipboard
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="text-xs text-muted-foreground">
+              Extensions keep OKLCH source values, contrast data and palette settings so the file can be re-imported losslessly; without them the core steps are fitted from the colors and intermediate steps may shift slightly
+            </div>
+            <Toggle
+              pressed={includeExtensions}
+              onPressedChange={setIncludeExtensions}
+              variant="outline"
+              size="sm"
+              aria-label="Include $extensions metadata"
+            >
+              $extensions
+            </Toggle>
+          </div>
+
+          <div className="flex-1 min-h-0">
+            <textarea
+              readOnly
+              value={generateJson()}
+              className="w-full h-full min-h-[400px] p-3 text-sm font-mono bg-muted rounded-md border resize-none focus:outline-none focus:ring-2 focus:ring-ring"
+              spellCheck="false"
+            />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
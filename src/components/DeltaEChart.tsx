@@ -0,0 +1,61 @@
+import { DeltaEMetric } from '../types'
+import { calculateNeighborDeltas } from '../lib/deltaE'
+import { STEP_TO_TOKEN_MAPPING } from '../lib/colorGeneration'
+
+interface DeltaEChartProps {
+  colors: Array<{ step: number; css: string }>
+  metric?: DeltaEMetric
+}
+
+// SVG dimensions
+const width = 280
+const height = 90
+const padding = 15
+const graphWidth = width - padding * 2
+const graphHeight = height - padding * 2
+
+export function DeltaEChart({ colors, metric = 'oklab' }: DeltaEChartProps) {
+  // Neighbour distances between the core steps (1-11)
+  const coreColors = colors.filter(color => Number.isInteger(color.step) && color.step >= 1 && color.step <= 11)
+  const deltas = calculateNeighborDeltas(coreColors, metric)
+  if (deltas.length === 0) return null
+
+  const values = deltas.map(delta => delta.deltaE)
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  const largest = Math.max(...values, 1)
+  const spread = Math.max(...values) - Math.min(...values)
+
+  const barSlot = graphWidth / deltas.length
+  const toY = (value: number) => padding + (1 - value / largest) * graphHeight
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm font-medium text-muted-foreground">
+        <span>Neighbor ΔE ({metric === 'ciede2000' ? 'CIEDE2000' : 'OKLab'})</span>
+        <span className="text-xs font-normal">mean {mean.toFixed(1)} · spread {spread.toFixed(1)}</span>
+      </div>
+      <div className="border rounded-lg bg-card">
+        <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+          {/* Bars between neighbouring steps */}
+          {deltas.map((delta, index) => (
+            <rect
+              key={delta.from}
+              x={padding + index * barSlot + 2}
+              y={toY(delta.deltaE)}
+              width={barSlot - 4}
+              height={padding + graphHeight - toY(delta.deltaE)}
+              fill="currentColor"
+              opacity="0.6"
+              className="text-primary"
+            >
+              <title>{`${STEP_TO_TOKEN_MAPPING[delta.from]} → ${STEP_TO_TOKEN_MAPPING[delta.to]}: ΔE ${delta.deltaE.toFixed(2)}`}</title>
+            </rect>
+          ))}
+
+          {/* Mean distance */}
+          <line x1={padding} y1={toY(mean)} x2={width - padding} y2={toY(mean)} stroke="currentColor" strokeWidth="1" strokeDasharray="3 3" className="text-foreground" opacity="0.6" />
+        </svg>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Palette, GamutSettings, LightnessSettings, SemanticToken } from '../types'
+import { generateFigmaVariablesJson } from '../lib/figmaVariables'
+import { downloadTextFile } from '../lib/browser'
+import { Copy, Check, FileDown } from 'lucide-react'
+
+interface FigmaExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  palettes: Palette[]
+  semanticTokens: SemanticToken[]
+  gamutSettings: GamutSettings
+  lightnessSettings: LightnessSettings
+}
+
+export function FigmaExportDialog({
+  open,
+  onOpenChange,
+  palettes,
+  semanticTokens,
+  gamutSettings,
+  lightnessSettings
+}: FigmaExportDialogProps) {
+  const [copied, setCopied] = useState(false)
+
+  // Transform palettes (and semantic roles) to a Figma Variables payload
+  const generateJson = () => generateFigmaVariablesJson(palettes, gamutSettings, lightnessSettings, semanticTokens)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(generateJson())
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err)
+    }
+  }
+
+  const handleDownload = () => {
+    downloadTextFile(generateJson(), 'figma-variables.json')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Export as Figma Variables</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 flex flex-col space-y-4 min-h-0">
+          <div className="flex justify-between items-center gap-4">
+            <p className="text-sm text-muted-foreground">
+              Variable collections with Light and Dark modes, for the Figma Variables REST API or an import plugin
+            </p>
+            <div className="flex items-center gap-2">
+              <Button onClick={handleDownload} size="sm" variant="outline" className="flex items-center gap-2">
+                <FileDown className="h-4 w-4" />
+                Download
+              </Button>
+              <Button onClick={handleCopy} size="sm" className="flex items-center gap-2">
+                {copied ? (
+                  <>
+                    <Check className="h-4 w-4" />
+                    Copied!
+                  </>
+                ) : (
+                  <>
+                    <Copy className="h-4 w-4" />
+                    Copy to Clipboard
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+
+          <div className="text-xs text-muted-foreground">
+            {semanticTokens.length > 0
+              ? 'Semantic roles alias palette variables; set both collections to the same mode so dark roles resolve to dark palette values'
+              : 'Add semantic tokens to also export a Semantic collection that aliases palette variables'}
+          </div>
+
+          <div className="flex-1 min-h-0">
+            <textarea
+              readOnly
+              value={generateJson()}
+              className="w-full h-full min-h-[400px] p-3 text-sm font-mono bg-muted rounded-md border resize-none focus:outline-none focus:ring-2 focus:ring-ring"
+              spellCheck="false"
+            />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
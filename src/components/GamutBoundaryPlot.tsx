@@ -0,0 +1,152 @@
+import { useMemo } from 'react'
+import { GamutSettings, PaletteColor } from '../types'
+import { BOUNDARY_GAMUTS, BoundaryGamut, calculateStepGamutPositions, sampleGamutBoundary } from '../lib/gamutBoundary'
+import { GAMUT_MAPPING_STRATEGY_LABELS } from '../lib/gamutMapping'
+
+interface GamutBoundaryPlotProps {
+  colors: PaletteColor[]
+  baseHue: number
+  gamutMode: GamutSettings['gamutMode']
+}
+
+// SVG dimensions
+const width = 280
+const height = 140
+const padding = 15
+const graphWidth = width - padding * 2
+const graphHeight = height - padding * 2
+
+// Wider gamuts are drawn fainter and dashed so the sRGB edge stays readable
+const BOUNDARY_STYLES: Record<BoundaryGamut, { opacity: number; dash?: string }> = {
+  'sRGB': { opacity: 0.8 },
+  'P3': { opacity: 0.5, dash: '4 2' },
+  'Rec2020': { opacity: 0.3, dash: '1 2' }
+}
+
+// Intended and actual chroma closer than this are drawn as one point
+const MAPPING_EPSILON = 0.002
+
+export function GamutBoundaryPlot({ colors, baseHue, gamutMode }: GamutBoundaryPlotProps) {
+  const boundaries = useMemo(
+    () => BOUNDARY_GAMUTS.map(gamut => ({ gamut, points: sampleGamutBoundary(baseHue, gamut) })),
+    [baseHue]
+  )
+  const positions = useMemo(() => calculateStepGamutPositions(colors, gamutMode), [colors, gamutMode])
+
+  if (positions.length === 0) return null
+
+  const chromaScale = Math.max(
+    0.05,
+    ...boundaries.flatMap(boundary => boundary.points.map(point => point.c)),
+    ...positions.map(position => Math.max(position.intended?.c ?? 0, position.maxChroma.Rec2020))
+  ) * 1.05
+
+  const toX = (l: number) => padding + l * graphWidth
+  const toY = (c: number) => padding + (1 - c / chromaScale) * graphHeight
+  const toPath = (points: Array<{ l: number; c: number }>) =>
+    points.map((point, index) => `${index === 0 ? 'M' : 'L'} ${toX(point.l)} ${toY(point.c)}`).join(' ')
+
+  const mappedCount = positions.filter(position =>
+    position.intended && position.intended.c - position.actual.c > MAPPING_EPSILON
+  ).length
+  const meanHeadroom = positions.reduce((sum, position) => sum + position.headroom, 0) / positions.length
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm font-medium text-muted-foreground">
+        <span>Gamut Boundary (L × C)</span>
+        <span className="text-xs font-normal">
+          headroom {meanHeadroom.toFixed(3)} in {gamutMode}{mappedCount > 0 && ` · ${mappedCount} mapped`}
+        </span>
+      </div>
+      <div className="border rounded-lg bg-card">
+        <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+          {/* Axes */}
+          <line x1={padding} y1={toY(0)} x2={width - padding} y2={toY(0)} stroke="currentColor" strokeWidth="1" opacity="0.2" />
+          <line x1={padding} y1={padding} x2={padding} y2={toY(0)} stroke="currentColor" strokeWidth="1" opacity="0.2" />
+
+          {/* Gamut edges at the base hue */}
+          {boundaries.map(({ gamut, points }) => (
+            <path
+              key={gamut}
+              d={toPath(points)}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={gamut === gamutMode ? 1.5 : 1}
+              strokeDasharray={BOUNDARY_STYLES[gamut].dash}
+              opacity={BOUNDARY_STYLES[gamut].opacity}
+              className="text-foreground"
+            >
+              <title>{`${gamut} edge at ${Math.round(baseHue)}°`}</title>
+            </path>
+          ))}
+
+          {positions.map(position => {
+            const x = toX(position.actual.l)
+            const isMapped = position.intended && position.intended.c - position.actual.c > MAPPING_EPSILON
+            return (
+              <g key={position.step}>
+                {/* Chroma left at the step's own (drifted) hue, up to the selected gamut's edge */}
+                <line
+                  x1={x}
+                  y1={toY(position.actual.c)}
+                  x2={x}
+                  y2={toY(position.maxChroma[gamutMode])}
+                  stroke="currentColor"
+                  strokeWidth="1"
+                  opacity="0.35"
+                  className="text-primary"
+                />
+                {BOUNDARY_GAMUTS.map(gamut => (
+                  <line
+                    key={gamut}
+                    x1={x - 3}
+                    y1={toY(position.maxChroma[gamut])}
+                    x2={x + 3}
+                    y2={toY(position.maxChroma[gamut])}
+                    stroke="currentColor"
+                    strokeWidth="1"
+                    opacity={BOUNDARY_STYLES[gamut].opacity}
+                    className="text-foreground"
+                  >
+                    <title>{`${position.tokenName}: ${gamut} max chroma ${position.maxChroma[gamut].toFixed(3)} at ${Math.round(position.hue)}°`}</title>
+                  </line>
+                ))}
+
+                {/* Requested color before gamut mapping, joined to where it ended up */}
+                {isMapped && position.intended && (
+                  <>
+                    <line
+                      x1={toX(position.intended.l)}
+                      y1={toY(position.intended.c)}
+                      x2={x}
+                      y2={toY(position.actual.c)}
+                      stroke="#dc2626"
+                      strokeWidth="1"
+                      strokeDasharray="2 2"
+                    />
+                    <circle cx={toX(position.intended.l)} cy={toY(position.intended.c)} r="3" fill="none" stroke="#dc2626" strokeWidth="1">
+                      <title>{`${position.tokenName} intended: L ${position.intended.l.toFixed(3)} C ${position.intended.c.toFixed(3)}${
+                        position.mapping ? ` · ${GAMUT_MAPPING_STRATEGY_LABELS[position.mapping.strategy]}, ΔE ${position.mapping.deltaE.toFixed(2)}` : ''
+                      }`}</title>
+                    </circle>
+                  </>
+                )}
+
+                <circle cx={x} cy={toY(position.actual.c)} r="4" fill={position.css} stroke="currentColor" strokeWidth="1" className="text-foreground">
+                  <title>{`${position.tokenName}: L ${position.actual.l.toFixed(3)} C ${position.actual.c.toFixed(3)} · headroom ${position.headroom.toFixed(3)}`}</title>
+                </circle>
+              </g>
+            )
+          })}
+        </svg>
+      </div>
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        <span>— sRGB</span>
+        <span>- - P3</span>
+        <span>··· Rec2020</span>
+        <span className="text-red-600">○ before mapping</span>
+      </div>
+    </div>
+  )
+}
@@ -1,18 +1,30 @@
 import { useState, useEffect } from 'react'
-import { PaletteControls } from '../types'
+import { PaletteControls, ContrastAlgorithm } from '../types'
+import { defaultContrastTargets, defaultApcaContrastTargets } from '../lib/presets'
+import { APCA_MAX_LC } from '../lib/apca'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 
 interface GlobalContrastTargetsProps {
-  onApplyToAll: (contrastTargets: PaletteControls['contrastTargets']) => void
-  onApplyToActive: (contrastTargets: PaletteControls['contrastTargets']) => void
+  onApplyToAll: (contrastTargets: PaletteControls['contrastTargets'], contrastAlgorithm: ContrastAlgorithm) => void
+  onApplyToActive: (contrastTargets: PaletteControls['contrastTargets'], contrastAlgorithm: ContrastAlgorithm) => void
   defaultTargets?: PaletteControls['contrastTargets']
+  defaultAlgorithm?: ContrastAlgorithm
+}
+
+// System default targets for each contrast algorithm
+const systemDefaults: Record<ContrastAlgorithm, PaletteControls['contrastTargets']> = {
+  wcag2: defaultContrastTargets,
+  apca: defaultApcaContrastTargets
 }
 
 export function GlobalContrastTargets({ 
   onApplyToAll, 
   onApplyToActive, 
-  defaultTargets 
+  defaultTargets,
+  defaultAlgorithm = 'wcag2'
 }: GlobalContrastTargetsProps) {
   // Only show core color steps (1-11) for global contrast targets
   // Steps 0 (white) and 12 (black) are hardcoded and don't use contrast-based calculation
@@ -20,23 +32,9 @@ export function GlobalContrastTargets({
   // Token Studio mapping for display
   const stepToTokenMapping = ['95', '90', '80', '70', '60', '50', '40', '30', '20', '15', '10']
   
-  // Default contrast targets (current system defaults)
-  const systemDefaults = {
-    "1": 1.1,
-    "2": 1.3,
-    "3": 1.7,
-    "4": 2.3,
-    "5": 3.2,
-    "6": 4.5,
-    "7": 6.7,
-    "8": 9.3,
-    "9": 13.1,
-    "10": 15.2,
-    "11": 17.2
-  }
-
+  const [algorithm, setAlgorithm] = useState<ContrastAlgorithm>(defaultAlgorithm)
   const [targets, setTargets] = useState<PaletteControls['contrastTargets']>(
-    defaultTargets || systemDefaults
+    defaultTargets || systemDefaults[defaultAlgorithm]
   )
 
   const updateTarget = (step: number, value: number) => {
@@ -44,7 +42,13 @@ export function GlobalContrastTargets({
   }
 
   const resetToSystemDefaults = () => {
-    setTargets(systemDefaults)
+    setTargets(systemDefaults[algorithm])
+  }
+
+  // Targets are not comparable across algorithms, so switching loads the matching set
+  const handleAlgorithmChange = (newAlgorithm: ContrastAlgorithm) => {
+    setAlgorithm(newAlgorithm)
+    setTargets(newAlgorithm === defaultAlgorithm && defaultTargets ? defaultTargets : systemDefaults[newAlgorithm])
   }
 
   // Update targets when defaultTargets changes (when switching palettes)
@@ -52,7 +56,10 @@ export function GlobalContrastTargets({
     if (defaultTargets) {
       setTargets(defaultTargets)
     }
-  }, [defaultTargets])
+    setAlgorithm(defaultAlgorithm)
+  }, [defaultTargets, defaultAlgorithm])
+
+  const isApca = algorithm === 'apca'
 
 
 
@@ -70,6 +77,24 @@ export function GlobalContrastTargets({
         </Button>
       </div>
 
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Contrast Algorithm</Label>
+        <Select value={algorithm} onValueChange={(value) => handleAlgorithmChange(value as ContrastAlgorithm)}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="wcag2">WCAG 2 (Contrast Ratio)</SelectItem>
+            <SelectItem value="apca">APCA / WCAG 3 (Lc)</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {isApca
+            ? 'Targets are APCA Lc values (Lc 60 large text, 75 body text, 90 preferred)'
+            : 'Targets are WCAG 2 contrast ratios (4.5 AA, 7 AAA)'}
+        </p>
+      </div>
+
       <div className="space-y-2">
         {steps.map((step, index) => (
           <div key={step} className="flex items-center space-x-3">
@@ -77,10 +102,10 @@ export function GlobalContrastTargets({
             <Input
               type="number"
               value={targets[step.toString()]}
-              onChange={(e) => updateTarget(step, parseFloat(e.target.value) || 1)}
-              min="1"
-              max="21"
-              step="0.1"
+              onChange={(e) => updateTarget(step, parseFloat(e.target.value) || (isApca ? 0 : 1))}
+              min={isApca ? 0 : 1}
+              max={isApca ? APCA_MAX_LC : 21}
+              step={isApca ? 1 : 0.1}
               className="flex-1 text-sm [&::-webkit-outer-spin-button]:appearance-auto [&::-webkit-inner-spin-button]:appearance-auto"
             />
           </div>
@@ -89,13 +114,13 @@ export function GlobalContrastTargets({
 
               <div className="flex flex-col space-y-2 pt-2 border-t border-border">
         <Button
-          onClick={() => onApplyToActive(targets)}
+          onClick={() => onApplyToActive(targets, algorithm)}
           className="w-full text-sm"
         >
           Apply to Active Palette
         </Button>
         <Button
-          onClick={() => onApplyToAll(targets)}
+          onClick={() => onApplyToAll(targets, algorithm)}
           variant="secondary"
           className="w-full text-sm"
         >
@@ -1,12 +1,35 @@
 import { Button } from './ui/button'
 import { SidebarTrigger } from './ui/sidebar'
-import { Moon, Sun } from 'lucide-react'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { History, Moon, Redo2, Sun, Undo2 } from 'lucide-react'
+import { PaletteHistoryEntry } from '../hooks/usePaletteHistory'
+import { cn } from '../lib/utils'
 
 interface HeaderBarProps {
   toggleTheme: () => void
+  // Undo/redo history
+  historyEntries: PaletteHistoryEntry[]
+  historyIndex: number
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  onJumpToHistory: (index: number) => void
 }
 
-export function HeaderBar({ toggleTheme }: HeaderBarProps) {
+// Modifier key label for shortcut hints
+const MOD_KEY = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘' : 'Ctrl+'
+
+export function HeaderBar({
+  toggleTheme,
+  historyEntries,
+  historyIndex,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJumpToHistory
+}: HeaderBarProps) {
   return (
     <div className="bg-background border-b border-border px-4 py-4 flex-shrink-0">
       <div className="flex items-center justify-between">
@@ -15,6 +38,67 @@ export function HeaderBar({ toggleTheme }: HeaderBarProps) {
           <h1 className="text-xl font-bold text-foreground">ADS Color Generator</h1>
         </div>
         <div className="flex items-center space-x-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="w-9 h-9 p-0"
+            title={canUndo ? `Undo ${historyEntries[historyIndex].label} (${MOD_KEY}Z)` : 'Nothing to undo'}
+            aria-label="Undo"
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="w-9 h-9 p-0"
+            title={canRedo ? `Redo ${historyEntries[historyIndex + 1].label} (${MOD_KEY}Shift+Z)` : 'Nothing to redo'}
+            aria-label="Redo"
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-9 h-9 p-0"
+                title="Edit history"
+                aria-label="Show edit history"
+              >
+                <History className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 p-0">
+              <div className="px-3 py-2 border-b border-border text-sm font-medium">
+                History
+                <span className="ml-2 text-xs font-normal text-muted-foreground">
+                  {historyEntries.length} step(s)
+                </span>
+              </div>
+              <div className="max-h-80 overflow-y-auto py-1">
+                {/* Newest first; entries after the current one can be redone */}
+                {historyEntries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+                  <button
+                    key={entry.id}
+                    type="button"
+                    onClick={() => onJumpToHistory(index)}
+                    className={cn(
+                      'w-full text-left px-3 py-1.5 text-sm hover:bg-accent truncate',
+                      index === historyIndex && 'bg-accent font-medium',
+                      index > historyIndex && 'text-muted-foreground line-through'
+                    )}
+                    title={entry.label}
+                  >
+                    {entry.label}
+                  </button>
+                ))}
+              </div>
+            </PopoverContent>
+          </Popover>
           <Button
             variant="ghost"
             size="sm"
@@ -30,4 +114,4 @@ export function HeaderBar({ toggleTheme }: HeaderBarProps) {
       </div>
     </div>
   )
-} 
\ No newline at end of file
+}
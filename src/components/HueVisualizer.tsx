@@ -1,33 +1,258 @@
-import { PaletteControls, PaletteColor } from '../types'
+import { useRef, useState } from 'react'
+import { CurvePoint, PaletteControls, PaletteColor, VisionSimulation } from '../types'
+import { simulateColor } from '../lib/visionSimulation'
+import { MIN_CURVE_POINT_GAP } from '../lib/curves'
+import { getHueAnchorStep, getHueOffset, MAX_HUE_OFFSET } from '../lib/hueCurve'
 
 interface HueVisualizerProps {
   controls: PaletteControls
   colors: Array<{ step: number; contrast: number; lightness: number; css: string }> | PaletteColor[]
   className?: string
+  simulation?: VisionSimulation
+  // Enables the curve handles; called while dragging/adding/removing them
+  onControlsChange?: (controls: PaletteControls) => void
 }
 
-export function HueVisualizer({ colors, className = '' }: HueVisualizerProps) {
+// What is being dragged: a custom control point, a drift end, or the anchor step
+type DragTarget = { kind: 'point'; index: number } | { kind: 'light' } | { kind: 'dark' } | { kind: 'anchor' }
+
+// SVG dimensions
+const width = 280
+const height = 110
+const padding = 15
+const graphWidth = width - padding * 2
+const graphHeight = height - padding * 2
+
+// Drift ends share the range of the drift sliders
+const DRIFT_LIMIT = 60
+
+export function HueVisualizer({ controls, colors, className = '', simulation = 'none', onControlsChange }: HueVisualizerProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [drag, setDrag] = useState<DragTarget | null>(null)
+
   // Create gradient stops with white and black on the ends
-  const sortedColors = colors.sort((a, b) => a.step - b.step) // Ensure colors are in step order
-  
+  const sortedColors = [...colors].sort((a, b) => a.step - b.step) // Ensure colors are in step order
+
   const colorStops = [
     'white 0%',
     ...sortedColors.map((color, index) => {
       // Map palette colors to the middle 80% of the gradient (10% to 90%)
       const stopPosition = 10 + (index / (sortedColors.length - 1)) * 80
-      return `${color.css} ${stopPosition}%`
+      return `${simulateColor(color.css, simulation)} ${stopPosition}%`
     }),
     'black 100%'
   ].join(', ')
 
+  const isCustom = controls.hueCurveMode === 'custom' && (controls.hueCurvePoints?.length ?? 0) >= 2
+  const curvePoints = controls.hueCurvePoints || []
+  const anchorStep = getHueAnchorStep(controls)
+  const isEditable = !!onControlsChange
+
+  // Sample the curve for drawing (x: 0-1 across steps 1-11)
+  const samples = Array.from({ length: 51 }, (_, i) => i / 50).map(x => ({ x, offset: getHueOffset(1 + x * 10, controls) }))
+
+  // Vertical range grows in 30° increments when the curve leaves ±60°
+  const largestOffset = Math.max(
+    ...samples.map(sample => Math.abs(sample.offset)),
+    ...(isCustom ? curvePoints.map(point => Math.abs(point.y)) : [])
+  )
+  const range = Math.min(MAX_HUE_OFFSET, Math.max(DRIFT_LIMIT, Math.ceil(largestOffset / 30) * 30))
+
+  const toX = (position: number) => padding + position * graphWidth
+  const toY = (offset: number) => padding + (1 - (offset + range) / (range * 2)) * graphHeight
+  const stepX = (step: number) => toX((step - 1) / 10)
+
+  const curveD = `M${samples.map(sample => `${toX(sample.x)},${toY(sample.offset)}`).join(' L')}`
+
+  // Convert a pointer event to curve space (x: normalized step, y: hue offset)
+  const toCurveSpace = (event: React.PointerEvent | React.MouseEvent): CurvePoint | null => {
+    const svg = svgRef.current
+    const matrix = svg?.getScreenCTM()
+    if (!svg || !matrix) return null
+    const point = svg.createSVGPoint()
+    point.x = event.clientX
+    point.y = event.clientY
+    const local = point.matrixTransform(matrix.inverse())
+    return {
+      x: Math.max(0, Math.min(1, (local.x - padding) / graphWidth)),
+      y: Math.max(-range, Math.min(range, (1 - (local.y - padding) / graphHeight) * range * 2 - range))
+    }
+  }
+
+  const round = (value: number, precision: number) => Math.round(value * precision) / precision
+
+  const startDrag = (event: React.PointerEvent, target: DragTarget) => {
+    event.preventDefault()
+    svgRef.current?.setPointerCapture(event.pointerId)
+    setDrag(target)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag || !onControlsChange) return
+    const position = toCurveSpace(event)
+    if (!position) return
+
+    if (drag.kind === 'light' || drag.kind === 'dark') {
+      const drift = round(Math.max(-DRIFT_LIMIT, Math.min(DRIFT_LIMIT, position.y)), 10)
+      onControlsChange({ ...controls, [drag.kind === 'light' ? 'lightHueDrift' : 'darkHueDrift']: drift })
+    } else if (drag.kind === 'anchor') {
+      const step = Math.round(position.x * 10 + 1)
+      if (step !== anchorStep) onControlsChange({ ...controls, hueAnchorStep: step })
+    } else {
+      // Keep points ordered: a point cannot pass its neighbours
+      const index = drag.index
+      const minX = index > 0 ? curvePoints[index - 1].x + MIN_CURVE_POINT_GAP : 0
+      const maxX = index < curvePoints.length - 1 ? curvePoints[index + 1].x - MIN_CURVE_POINT_GAP : 1
+      const next = curvePoints.map((point, i) => i === index
+        ? { x: round(Math.max(minX, Math.min(maxX, position.x)), 1000), y: round(position.y, 10) }
+        : point)
+      onControlsChange({ ...controls, hueCurvePoints: next })
+    }
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return
+    svgRef.current?.releasePointerCapture(event.pointerId)
+    setDrag(null)
+  }
+
+  // Double-click on the plot adds a custom point on the curve
+  const handleAddPoint = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!isEditable || !isCustom) return
+    const position = toCurveSpace(event)
+    if (!position || curvePoints.some(point => Math.abs(point.x - position.x) < MIN_CURVE_POINT_GAP)) return
+    const added = { x: round(position.x, 1000), y: round(getHueOffset(1 + position.x * 10, controls), 10) }
+    onControlsChange!({ ...controls, hueCurvePoints: [...curvePoints, added].sort((a, b) => a.x - b.x) })
+  }
+
+  // Double-click on a custom point removes it (at least two points are kept)
+  const handleRemovePoint = (event: React.MouseEvent, index: number) => {
+    event.stopPropagation()
+    if (!onControlsChange || curvePoints.length <= 2) return
+    onControlsChange({ ...controls, hueCurvePoints: curvePoints.filter((_, i) => i !== index) })
+  }
+
+  const handleClassName = 'text-primary cursor-grab active:cursor-grabbing'
+
   return (
-    <div 
-      className={`h-12 rounded-lg border border-input ${className}`}
-      style={{ 
-        background: `linear-gradient(to right, ${colorStops})`,
-        boxShadow: 'inset 0 1px 2px rgba(0, 0, 0, 0.1)'
-      }}
-      title="Hue progression across the palette - shows how the three hue sliders create a smooth color transition"
-    />
+    <div className={`space-y-2 ${className}`}>
+      <div
+        className="h-12 rounded-lg border border-input"
+        style={{
+          background: `linear-gradient(to right, ${colorStops})`,
+          boxShadow: 'inset 0 1px 2px rgba(0, 0, 0, 0.1)'
+        }}
+        title="Hue progression across the palette"
+      />
+      <div className="border rounded-lg bg-card">
+        <svg
+          ref={svgRef}
+          width={width}
+          height={height}
+          viewBox={`0 0 ${width} ${height}`}
+          className={`w-full h-auto ${isEditable ? 'touch-none select-none' : ''}`}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onDoubleClick={handleAddPoint}
+        >
+          {/* Base hue (offset 0) */}
+          <line x1={padding} y1={toY(0)} x2={width - padding} y2={toY(0)} stroke="currentColor" strokeWidth="1" strokeDasharray="3 3" opacity="0.3" />
+          <text x={padding} y={padding - 4} fontSize="8" fill="currentColor" opacity="0.5">+{range}°</text>
+          <text x={padding} y={height - 4} fontSize="8" fill="currentColor" opacity="0.5">−{range}°</text>
+
+          {/* Anchor step */}
+          {!isCustom && (
+            <line x1={stepX(anchorStep)} y1={padding} x2={stepX(anchorStep)} y2={height - padding} stroke="currentColor" strokeWidth="1" strokeDasharray="2 2" opacity="0.3" />
+          )}
+
+          {/* Hue curve */}
+          <path d={curveD} fill="none" stroke="currentColor" strokeWidth="2" className="text-primary" />
+
+          {/* Steps, filled with their colors */}
+          {sortedColors.filter(color => color.step >= 1 && color.step <= 11).map(color => (
+            <circle
+              key={color.step}
+              cx={stepX(color.step)}
+              cy={toY(getHueOffset(color.step, controls))}
+              r="3"
+              fill={simulateColor(color.css, simulation)}
+              stroke="currentColor"
+              strokeWidth="0.5"
+              className="text-foreground"
+            />
+          ))}
+
+          {/* Drift handles: both ends move vertically, the anchor moves horizontally */}
+          {isEditable && !isCustom && (
+            <>
+              <circle
+                cx={stepX(1)}
+                cy={toY(controls.lightHueDrift)}
+                r={drag?.kind === 'light' ? 6 : 5}
+                fill="hsl(var(--background))"
+                stroke="currentColor"
+                strokeWidth="2"
+                className={handleClassName}
+                onPointerDown={(event) => startDrag(event, { kind: 'light' })}
+              >
+                <title>{`Light hue drift ${controls.lightHueDrift.toFixed(1)}°`}</title>
+              </circle>
+              <circle
+                cx={stepX(11)}
+                cy={toY(controls.darkHueDrift)}
+                r={drag?.kind === 'dark' ? 6 : 5}
+                fill="hsl(var(--background))"
+                stroke="currentColor"
+                strokeWidth="2"
+                className={handleClassName}
+                onPointerDown={(event) => startDrag(event, { kind: 'dark' })}
+              >
+                <title>{`Dark hue drift ${controls.darkHueDrift.toFixed(1)}°`}</title>
+              </circle>
+              <rect
+                x={stepX(anchorStep) - 5}
+                y={toY(0) - 5}
+                width="10"
+                height="10"
+                transform={`rotate(45 ${stepX(anchorStep)} ${toY(0)})`}
+                fill="hsl(var(--background))"
+                stroke="currentColor"
+                strokeWidth="2"
+                className="text-primary cursor-ew-resize"
+                onPointerDown={(event) => startDrag(event, { kind: 'anchor' })}
+              >
+                <title>{`Anchor step ${anchorStep}: base hue`}</title>
+              </rect>
+            </>
+          )}
+
+          {/* Draggable control points of the custom curve */}
+          {isEditable && isCustom && curvePoints.map((point, index) => (
+            <circle
+              key={`control-${index}`}
+              cx={toX(point.x)}
+              cy={toY(point.y)}
+              r={drag?.kind === 'point' && drag.index === index ? 6 : 5}
+              fill="hsl(var(--background))"
+              stroke="currentColor"
+              strokeWidth="2"
+              className={handleClassName}
+              onPointerDown={(event) => startDrag(event, { kind: 'point', index })}
+              onDoubleClick={(event) => handleRemovePoint(event, index)}
+            >
+              <title>{`Step position ${(point.x * 10 + 1).toFixed(1)}, hue offset ${point.y.toFixed(1)}°`}</title>
+            </circle>
+          ))}
+        </svg>
+      </div>
+      {isEditable && (
+        <p className="text-xs text-muted-foreground">
+          {isCustom
+            ? 'Drag points to shape the hue curve · double-click to add or remove a point'
+            : 'Drag the ends to set the drifts · drag the diamond to move the anchor step'}
+        </p>
+      )}
+    </div>
   )
-} 
\ No newline at end of file
+}
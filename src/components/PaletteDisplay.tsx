@@ -1,31 +1,32 @@
-import { generatePalette, getColorFormats, analyzeContrast, getContrastBadge, copyToClipboard, getTextColorForBackground, convertPaletteToLuminance } from '../lib/colorGeneration'
-import { Palette, ColorFormat, GamutSettings, LightnessSettings } from '../types'
+import { GeneratedPaletteSet, parseAnchors, getColorFormats, analyzeContrast, getContrastBadge, getTextColorForBackground, convertPaletteToLuminance, resolveBackgroundColor } from '../lib/colorGeneration'
+import { copyToClipboard } from '../lib/browser'
+import { simulatePalette, simulateColor } from '../lib/visionSimulation'
+import { formatWideGamutColor } from '../lib/wideGamut'
+import { Palette, PaletteColor, ColorFormat, AppState, VisionSimulation } from '../types'
 import { toast } from 'sonner'
 import { useRef, useEffect } from 'react'
+import { Pin } from 'lucide-react'
 
 interface PaletteDisplayProps {
   palettes: Palette[]
   luminanceMode: boolean
+  visionSimulation: VisionSimulation
   colorFormat: ColorFormat
-  contrastAnalysis: {
-    enabled: boolean
-    selectedColor: string
-    showCompliance: boolean
-  }
+  contrastAnalysis: AppState['contrastAnalysis']
   showColorLabels: boolean
-  gamutSettings: GamutSettings
-  lightnessSettings: LightnessSettings
+  // Light and dark-variant colors of every palette
+  generatedPalettes: GeneratedPaletteSet
   zoomLevel: number
 }
 
 export function PaletteDisplay({
   palettes,
   luminanceMode,
+  visionSimulation,
   colorFormat,
   contrastAnalysis,
   showColorLabels,
-  gamutSettings,
-  lightnessSettings,
+  generatedPalettes,
   zoomLevel
 }: PaletteDisplayProps) {
   const containerRef = useRef<HTMLDivElement>(null)
@@ -57,6 +58,88 @@ export function PaletteDisplay({
     }
   }
 
+  // Render the swatch column for one generated ramp (light or dark variant)
+  const renderSwatches = (paletteColors: PaletteColor[], anchoredSteps?: Set<number>) => {
+    const displayColors = simulatePalette(
+      luminanceMode ? convertPaletteToLuminance(paletteColors) : paletteColors,
+      visionSimulation
+    )
+    
+    return displayColors.map((color) => {
+      const formats = getColorFormats(color)
+      const displayValue = formats[colorFormat]
+      
+      // Calculate contrast if enabled (use original color for contrast calculation)
+      const originalColor = paletteColors.find(c => c.step === color.step) || color
+      
+      // Determine the background color for contrast analysis ("palette-N" is read from this ramp)
+      const contrastBackgroundColor = resolveBackgroundColor(contrastAnalysis.selectedColor, paletteColors, '#ffffff', generatedPalettes.light)
+      
+      const contrastResult = contrastAnalysis.enabled 
+        ? analyzeContrast(originalColor, contrastBackgroundColor, 'normal', contrastAnalysis.algorithm, contrastAnalysis.polarity)
+        : null
+      
+      const contrastBadge = contrastResult ? getContrastBadge(contrastResult, originalColor, contrastAnalysis.showCompliance, contrastAnalysis.polarity) : null
+      
+      return (
+        <div key={color.step} className="flex-shrink-0">
+          <div 
+            className="w-64 h-20 cursor-pointer relative flex flex-col justify-between p-2"
+            style={{ backgroundColor: color.wideGamut ? formatWideGamutColor(color, 'oklch') : color.css }}
+            onClick={() => handleCopyColor(originalColor)}
+            title={`Click to copy: ${displayValue}`}
+          >
+            {/* Top-right badges container */}
+            <div className="absolute top-2 right-2 flex items-center space-x-1">
+              {/* Gamut compliance badge removed - colors are always clamped to selected gamut */}
+              
+              {/* Contrast analysis badge */}
+              {contrastResult && contrastBadge && (
+                <div 
+                  className="px-1 py-0.5 rounded text-xs font-medium"
+                  style={contrastBadge.style}
+                  title={contrastBadge.description}
+                >
+                  {contrastBadge.label}
+                </div>
+              )}
+            </div>
+            
+            {/* Step number at top */}
+            <div className="flex justify-start">
+              <div 
+                className="text-sm font-bold flex items-center gap-1"
+                style={{ 
+                  color: getTextColorForBackground(color)
+                }}
+              >
+                {color.tokenName}
+                {anchoredSteps?.has(color.step) && (
+                  <Pin className="w-3 h-3" aria-label="Pinned anchor" />
+                )}
+              </div>
+            </div>
+            
+            {/* Color value and contrast at bottom */}
+            {showColorLabels && (
+              <div className="flex flex-col space-y-1">
+                <div 
+                  className="text-xs font-mono leading-tight"
+                  style={{ 
+                    color: getTextColorForBackground(color)
+                  }}
+                  title={displayValue}
+                >
+                  {displayValue}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )
+    })
+  }
+
   return (
     <div className="flex-1 overflow-auto">
       <div 
@@ -71,90 +154,32 @@ export function PaletteDisplay({
             transformOrigin: 'top left'
           }}
         >
-            {palettes.map((palette, index) => {
-              const paletteColors = generatePalette(palette.controls, gamutSettings, lightnessSettings)
-              const displayColors = luminanceMode ? convertPaletteToLuminance(paletteColors) : paletteColors
+            {palettes.map((palette) => {
+              const paletteColors = generatedPalettes.light[palette.id] || []
+              const darkColors = generatedPalettes.dark[palette.id]
               
               return (
-                <div key={palette.id} className="flex-shrink-0 space-y-4">
-                  <h3 className="text-lg font-semibold text-foreground">{palette.name}</h3>
-                  <div className="flex flex-col">
-                    {displayColors.map((color) => {
-                      const formats = getColorFormats(color)
-                      const displayValue = formats[colorFormat]
-                      
-                      // Calculate contrast if enabled (use original color for contrast calculation)
-                      const originalColor = paletteColors.find(c => c.step === color.step) || color
-                      
-                      // Determine the background color for contrast analysis
-                      let contrastBackgroundColor = contrastAnalysis.selectedColor
-                      if (contrastAnalysis.selectedColor.startsWith('palette-')) {
-                        const step = parseInt(contrastAnalysis.selectedColor.replace('palette-', ''))
-                        const paletteStepColor = paletteColors.find(c => c.step === step)
-                        contrastBackgroundColor = paletteStepColor?.css || contrastAnalysis.selectedColor
-                      }
-                      
-                      const contrastResult = contrastAnalysis.enabled 
-                        ? analyzeContrast(originalColor, contrastBackgroundColor)
-                        : null
-                      
-                      const contrastBadge = contrastResult ? getContrastBadge(contrastResult, originalColor, contrastAnalysis.showCompliance) : null
-                      
-                      return (
-                        <div key={color.step} className="flex-shrink-0">
-                          <div 
-                            className="w-64 h-20 cursor-pointer relative flex flex-col justify-between p-2"
-                            style={{ backgroundColor: color.css }}
-                            onClick={() => handleCopyColor(originalColor)}
-                            title={`Click to copy: ${displayValue}`}
-                          >
-                            {/* Top-right badges container */}
-                            <div className="absolute top-2 right-2 flex items-center space-x-1">
-                              {/* Gamut compliance badge removed - colors are always clamped to selected gamut */}
-                              
-                              {/* Contrast analysis badge */}
-                              {contrastResult && contrastBadge && (
-                                <div 
-                                  className="px-1 py-0.5 rounded text-xs font-medium"
-                                  style={contrastBadge.style}
-                                  title={contrastBadge.description}
-                                >
-                                  {contrastBadge.label}
-                                </div>
-                              )}
-                            </div>
-                            
-                            {/* Step number at top */}
-                            <div className="flex justify-start">
-                              <div 
-                                className="text-sm font-bold"
-                                style={{ 
-                                  color: getTextColorForBackground(color)
-                                }}
-                              >
-                                {color.tokenName}
-                              </div>
-                            </div>
-                            
-                            {/* Color value and contrast at bottom */}
-                            {showColorLabels && (
-                              <div className="flex flex-col space-y-1">
-                                <div 
-                                  className="text-xs font-mono leading-tight"
-                                  style={{ 
-                                    color: getTextColorForBackground(color)
-                                  }}
-                                  title={displayValue}
-                                >
-                                  {displayValue}
-                                </div>
-                              </div>
-                            )}
-                          </div>
-                        </div>
-                      )
-                    })}
+                <div key={palette.id} className="flex-shrink-0 flex space-x-4">
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-foreground">{palette.name}</h3>
+                    <div className="flex flex-col">
+                      {renderSwatches(paletteColors, new Set(parseAnchors(palette.controls).keys()))}
+                    </div>
                   </div>
+                  {darkColors && palette.darkVariant && (
+                    <div className="space-y-4">
+                      <h3 className="text-lg font-semibold text-foreground">
+                        {palette.name} <span className="text-sm font-normal text-muted-foreground">dark</span>
+                      </h3>
+                      <div 
+                        className="flex flex-col"
+                        style={{ backgroundColor: simulateColor(palette.darkVariant.backgroundColor, visionSimulation) }}
+                        title={`Solved against ${palette.darkVariant.backgroundColor}`}
+                      >
+                        {renderSwatches(darkColors)}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )
             })}
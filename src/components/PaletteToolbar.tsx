@@ -1,23 +1,30 @@
-import { Eye, EyeOff, Settings, ZoomIn, ZoomOut } from 'lucide-react'
+import { Eye, EyeOff, Grid3x3, Scale, ScanEye, Settings, Tags, ZoomIn, ZoomOut } from 'lucide-react'
 import { Button } from './ui/button'
 import { Label } from './ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Separator } from './ui/separator'
 import { Toggle } from './ui/toggle'
 import { ColorCombobox, ColorOption } from './ui/color-combobox' // Added ColorOption import here
-import { ColorFormat } from '../types'
+import { ColorFormat, AppState, ContrastAlgorithm, ContrastPolarity, VisionSimulation } from '../types'
+import { VISION_SIMULATIONS } from '../lib/visionSimulation'
 
 interface PaletteToolbarProps {
-  contrastAnalysis: { enabled: boolean; selectedColor: string; showCompliance: boolean }
+  contrastAnalysis: AppState['contrastAnalysis']
   setContrastAnalysis: React.Dispatch<React.SetStateAction<PaletteToolbarProps['contrastAnalysis']>>
   luminanceMode: boolean
   setLuminanceMode: (value: boolean) => void
+  visionSimulation: VisionSimulation
+  setVisionSimulation: (value: VisionSimulation) => void
+  setVisionReportOpen: (value: boolean) => void
   colorFormat: ColorFormat
   setColorFormat: (value: ColorFormat) => void
   showColorLabels: boolean
   setShowColorLabels: (value: boolean) => void
   colorOptions: ColorOption[]
   setSettingsOpen: (value: boolean) => void
+  setSemanticTokensOpen: (value: boolean) => void
+  setContrastMatrixOpen: (value: boolean) => void
+  setConsistencyReportOpen: (value: boolean) => void
   zoomLevel: number
   setZoomLevel: (value: number) => void
 }
@@ -27,12 +34,18 @@ export function PaletteToolbar({
   setContrastAnalysis,
   luminanceMode,
   setLuminanceMode,
+  visionSimulation,
+  setVisionSimulation,
+  setVisionReportOpen,
   colorFormat,
   setColorFormat,
   showColorLabels,
   setShowColorLabels,
   colorOptions,
   setSettingsOpen,
+  setSemanticTokensOpen,
+  setContrastMatrixOpen,
+  setConsistencyReportOpen,
   zoomLevel,
   setZoomLevel
 }: PaletteToolbarProps) {
@@ -40,7 +53,8 @@ export function PaletteToolbar({
     { value: 'hex', label: 'HEX' },
     { value: 'rgb', label: 'RGB' },
     { value: 'hsl', label: 'HSL' },
-    { value: 'oklch', label: 'OKLCH' }
+    { value: 'oklch', label: 'OKLCH' },
+    { value: 'p3', label: 'P3' }
   ]
 
   // Zoom controls
@@ -71,7 +85,7 @@ export function PaletteToolbar({
             onPressedChange={(pressed) => setContrastAnalysis(prev => ({ ...prev, enabled: pressed }))}
             className="flex items-center space-x-2"
           >
-            {contrastAnalysis.enabled ? 'Overlay WCAG' : 'Overlay off'}
+            {contrastAnalysis.enabled ? `Overlay ${contrastAnalysis.algorithm === 'apca' ? 'APCA' : 'WCAG'}` : 'Overlay off'}
           </Toggle>
 
           {/* Contrast Analysis Controls - Show when enabled */}
@@ -84,6 +98,35 @@ export function PaletteToolbar({
                 placeholder="Select color..."
                 className="w-48"
               />
+
+              <Select
+                value={contrastAnalysis.algorithm}
+                onValueChange={(value) => setContrastAnalysis(prev => ({ ...prev, algorithm: value as ContrastAlgorithm }))}
+              >
+                <SelectTrigger className="w-28" title="Contrast algorithm used by the overlay badges">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="wcag2">WCAG 2</SelectItem>
+                  <SelectItem value="apca">APCA</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {/* APCA is polarity-sensitive, so let the user pick which way round to read each pair */}
+              {contrastAnalysis.algorithm === 'apca' && (
+                <Select
+                  value={contrastAnalysis.polarity}
+                  onValueChange={(value) => setContrastAnalysis(prev => ({ ...prev, polarity: value as ContrastPolarity }))}
+                >
+                  <SelectTrigger className="w-44" title="Read swatches as text on the selected color, or the selected color as text on each swatch">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="color-on-background">Swatch on background</SelectItem>
+                    <SelectItem value="text-on-color">Text on swatch</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
               
               <Toggle
                 pressed={contrastAnalysis.showCompliance}
@@ -152,6 +195,39 @@ export function PaletteToolbar({
             </Toggle>
           </div>
 
+          {/* Color Vision Deficiency Simulation */}
+          <div className="flex items-center space-x-2">
+            <Label htmlFor="vision-select" className="sr-only">
+              Vision simulation
+            </Label>
+            <Select value={visionSimulation} onValueChange={(value) => setVisionSimulation(value as VisionSimulation)}>
+              <SelectTrigger
+                id="vision-select"
+                className="w-36"
+                title="Simulate color vision deficiencies on every swatch"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VISION_SIMULATIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value} title={option.description}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setVisionReportOpen(true)}
+              className="w-8 h-8 p-0"
+              title="Report palettes that become hard to tell apart under color vision deficiencies"
+              aria-label="Open color vision report"
+            >
+              <ScanEye className="h-4 w-4" />
+            </Button>
+          </div>
+
           <div className="flex items-center space-x-2">
             <Label htmlFor="format-select" className="sr-only">
               Color format
@@ -160,7 +236,7 @@ export function PaletteToolbar({
               <SelectTrigger 
                 id="format-select" 
                 className="w-24"
-                title="Choose the color format for displaying and copying color values (HEX, RGB, HSL, or OKLCH)"
+                title="Choose the color format for displaying and copying color values (HEX, RGB, HSL, OKLCH or Display P3)"
               >
                 <SelectValue />
               </SelectTrigger>
@@ -188,6 +264,42 @@ export function PaletteToolbar({
           {/* Divider */}
           <Separator orientation="vertical" className="h-6" />
           
+          {/* Contrast Matrix Button */}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setContrastMatrixOpen(true)}
+            className="w-9 h-9 p-0"
+            title="Open the pairwise contrast matrix"
+            aria-label="Open contrast matrix"
+          >
+            <Grid3x3 className="h-4 w-4" />
+          </Button>
+          
+          {/* Consistency Report Button */}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setConsistencyReportOpen(true)}
+            className="w-9 h-9 p-0"
+            title="Compare lightness, contrast and chroma of each step across palettes"
+            aria-label="Open palette consistency report"
+          >
+            <Scale className="h-4 w-4" />
+          </Button>
+          
+          {/* Semantic Tokens Button */}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setSemanticTokensOpen(true)}
+            className="w-9 h-9 p-0"
+            title="Edit semantic tokens (roles mapped to palette steps)"
+            aria-label="Open semantic tokens"
+          >
+            <Tags className="h-4 w-4" />
+          </Button>
+          
           {/* Settings Button */}
           <Button
             variant="outline"
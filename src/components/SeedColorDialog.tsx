@@ -0,0 +1,136 @@
+import { useMemo, useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { generatePalette, STEP_TO_TOKEN_MAPPING } from '../lib/colorGeneration'
+import { solveControlsFromColor } from '../lib/seedColor'
+import { GamutSettings, LightnessSettings, PaletteControls } from '../types'
+
+// Core steps a seed color can be pinned to
+const SEED_STEPS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+
+interface SeedColorDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  defaultName: string
+  gamutSettings: GamutSettings
+  lightnessSettings: LightnessSettings
+  onCreate: (name: string, controls: PaletteControls) => void
+}
+
+export function SeedColorDialog({
+  open,
+  onOpenChange,
+  defaultName,
+  gamutSettings,
+  lightnessSettings,
+  onCreate
+}: SeedColorDialogProps) {
+  const [color, setColor] = useState('')
+  const [step, setStep] = useState(6)
+  const [name, setName] = useState('')
+
+  const solution = useMemo(
+    () => color.trim() ? solveControlsFromColor(color.trim(), step, undefined, gamutSettings, lightnessSettings) : null,
+    [color, step, gamutSettings, lightnessSettings]
+  )
+
+  const preview = useMemo(
+    () => solution ? generatePalette(solution.controls, gamutSettings, lightnessSettings).filter(c => c.step >= 1 && c.step <= 11) : [],
+    [solution, gamutSettings, lightnessSettings]
+  )
+
+  const handleCreate = () => {
+    if (!solution) return
+    onCreate(name.trim() || defaultName, solution.controls)
+    setColor('')
+    setName('')
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Palette from Color</DialogTitle>
+          <DialogDescription>
+            Solves hue, chroma curve and contrast target so the chosen step reproduces your brand color exactly.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_auto] gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="seed-color" className="text-xs">Color</Label>
+              <Input
+                id="seed-color"
+                value={color}
+                onChange={(e) => setColor(e.target.value)}
+                placeholder="#e11d48, rgb(…), oklch(…)"
+                className={color.trim() && !solution ? 'border-red-500' : ''}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Step</Label>
+              <Select value={step.toString()} onValueChange={(value) => setStep(Number(value))}>
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEED_STEPS.map(option => (
+                    <SelectItem key={option} value={option.toString()}>{STEP_TO_TOKEN_MAPPING[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="seed-name" className="text-xs">Name</Label>
+            <Input
+              id="seed-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={defaultName}
+            />
+          </div>
+
+          {color.trim() && !solution && (
+            <p className="text-xs text-red-600">Not a valid CSS color</p>
+          )}
+
+          {solution && (
+            <div className="space-y-2">
+              <div className="flex rounded-md overflow-hidden border border-border">
+                {preview.map(c => (
+                  <div
+                    key={c.step}
+                    className={`flex-1 h-10 ${c.step === step ? 'ring-2 ring-inset ring-foreground' : ''}`}
+                    style={{ backgroundColor: c.css }}
+                    title={`${c.tokenName}: ${c.css}`}
+                  />
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Step {STEP_TO_TOKEN_MAPPING[step]} → {solution.color.css} · hue {Math.round(solution.controls.baseHue)}° · contrast {solution.color.contrast}
+                {solution.gamutMapped ? (
+                  <span className="text-amber-600"> · outside {gamutSettings.gamutMode}, mapped into gamut</span>
+                ) : !solution.exact && (
+                  <span> · nearest hex to the seed</span>
+                )}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleCreate} disabled={!solution}>Create Palette</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,194 @@
+import { useMemo, useState } from 'react'
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from './ui/sheet'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Plus, Trash2, Copy, Check, Wand2 } from 'lucide-react'
+import { generatePalettes } from '../lib/colorGeneration'
+import { generateSemanticCSSVariables, resolveSemanticToken, SemanticTokenIssue, SemanticTokenMode } from '../lib/semanticTokens'
+import { copyToClipboard } from '../lib/browser'
+import { Palette, SemanticToken, SemanticTokenReference, GamutSettings, LightnessSettings } from '../types'
+
+// Select value used for "dark mode uses the light reference"
+const SAME_AS_LIGHT = '__same-as-light__'
+
+interface SemanticTokensSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  semanticTokens: SemanticToken[]
+  issues: SemanticTokenIssue[]
+  palettes: Palette[]
+  gamutSettings: GamutSettings
+  lightnessSettings: LightnessSettings
+  onAddToken: () => void
+  onAddDefaults: () => void
+  onUpdateToken: (tokenId: string, updates: Partial<SemanticToken>) => void
+  onDeleteToken: (tokenId: string) => void
+}
+
+export function SemanticTokensSheet({
+  open,
+  onOpenChange,
+  semanticTokens,
+  issues,
+  palettes,
+  gamutSettings,
+  lightnessSettings,
+  onAddToken,
+  onAddDefaults,
+  onUpdateToken,
+  onDeleteToken
+}: SemanticTokensSheetProps) {
+  const [copied, setCopied] = useState(false)
+
+  // Step options (with token names) for each palette
+  const stepOptions = useMemo(() => {
+    const options: Record<string, Array<{ step: number; tokenName: string }>> = {}
+    const generated = generatePalettes(palettes, gamutSettings, lightnessSettings)
+    palettes.forEach(palette => {
+      options[palette.id] = generated[palette.id]
+        .map(color => ({ step: color.step, tokenName: color.tokenName }))
+    })
+    return options
+  }, [palettes, gamutSettings, lightnessSettings])
+
+  const handleCopyCss = async () => {
+    const css = generateSemanticCSSVariables(semanticTokens, palettes, gamutSettings, lightnessSettings)
+    if (await copyToClipboard(css)) {
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    }
+  }
+
+  const renderReferenceEditor = (token: SemanticToken, mode: SemanticTokenMode) => {
+    const reference = mode === 'dark' ? token.dark : token.light
+    const resolved = resolveSemanticToken(token, palettes, mode, gamutSettings, lightnessSettings)
+    const effectiveReference = reference || token.light
+
+    const updateReference = (updates: Partial<SemanticTokenReference>) => {
+      onUpdateToken(token.id, { [mode]: { ...effectiveReference, ...updates } })
+    }
+
+    const handlePaletteChange = (value: string) => {
+      if (value === SAME_AS_LIGHT) {
+        onUpdateToken(token.id, { dark: undefined })
+      } else {
+        updateReference({ paletteId: value })
+      }
+    }
+
+    return (
+      <div className="flex items-center gap-2">
+        <Label className="w-10 text-xs text-muted-foreground capitalize">{mode}</Label>
+        <Select
+          value={mode === 'dark' && !token.dark ? SAME_AS_LIGHT : effectiveReference.paletteId}
+          onValueChange={handlePaletteChange}
+        >
+          <SelectTrigger className="h-8 flex-1 text-xs">
+            <SelectValue placeholder="Palette" />
+          </SelectTrigger>
+          <SelectContent>
+            {mode === 'dark' && (
+              <SelectItem value={SAME_AS_LIGHT}>Same as light</SelectItem>
+            )}
+            {palettes.map(palette => (
+              <SelectItem key={palette.id} value={palette.id}>{palette.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={effectiveReference.step.toString()}
+          onValueChange={(value) => updateReference({ step: parseFloat(value) })}
+          disabled={mode === 'dark' && !token.dark}
+        >
+          <SelectTrigger className="h-8 w-20 text-xs">
+            <SelectValue placeholder="Step" />
+          </SelectTrigger>
+          <SelectContent>
+            {(stepOptions[effectiveReference.paletteId] || []).map(option => (
+              <SelectItem key={option.step} value={option.step.toString()}>
+                {option.tokenName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div
+          className="w-8 h-8 rounded border border-border flex-shrink-0"
+          style={{ backgroundColor: resolved?.color.css || 'transparent' }}
+          title={resolved ? `${resolved.palette.name}-${resolved.color.tokenName}: ${resolved.color.css}` : 'Unresolved reference'}
+        />
+      </div>
+    )
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-[440px] sm:max-w-[440px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Semantic Tokens</SheetTitle>
+          <SheetDescription>
+            Map roles such as surface or text-muted to palette steps for light and dark mode.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-center gap-2 mt-4">
+          <Button onClick={onAddToken} size="sm" variant="outline" className="flex items-center gap-2" disabled={palettes.length === 0}>
+            <Plus className="h-4 w-4" />
+            Add Role
+          </Button>
+          {semanticTokens.length === 0 && (
+            <Button onClick={onAddDefaults} size="sm" variant="outline" className="flex items-center gap-2" disabled={palettes.length === 0}>
+              <Wand2 className="h-4 w-4" />
+              Add Defaults
+            </Button>
+          )}
+          <Button onClick={handleCopyCss} size="sm" className="ml-auto flex items-center gap-2" disabled={semanticTokens.length === 0}>
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            {copied ? 'Copied!' : 'Copy CSS'}
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto mt-4 space-y-3 pr-1">
+          {semanticTokens.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No semantic tokens yet. Add a role or start from the defaults.
+            </p>
+          )}
+          {semanticTokens.map(token => {
+            const tokenIssues = issues.filter(issue => issue.tokenId === token.id)
+
+            return (
+              <div key={token.id} className="border border-border rounded-md p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={token.name}
+                    onChange={(e) => onUpdateToken(token.id, { name: e.target.value })}
+                    className="h-8 font-mono text-sm"
+                    aria-label="Role name"
+                    placeholder="role-name"
+                  />
+                  <Button
+                    onClick={() => onDeleteToken(token.id)}
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                    title="Delete role"
+                    aria-label={`Delete ${token.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {renderReferenceEditor(token, 'light')}
+                {renderReferenceEditor(token, 'dark')}
+                {tokenIssues.map((issue, index) => (
+                  <p key={index} className="text-xs text-destructive">{issue.message}</p>
+                ))}
+              </div>
+            )
+          })}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
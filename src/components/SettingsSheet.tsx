@@ -4,7 +4,9 @@ import { Label } from './ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { GlobalContrastTargets } from './GlobalContrastTargets'
 import { PrecisionDemo } from './PrecisionDemo'
-import { Palette, GamutSettings, LightnessSettings, PaletteControls } from '../types'
+import { Palette, GamutSettings, LightnessSettings, GenerationSettings, PaletteControls, ContrastAlgorithm, DeltaEMetric, WideGamutFormat, GamutMappingStrategy } from '../types'
+import { WIDE_GAMUT_FORMAT_LABELS } from '../lib/wideGamut'
+import { GAMUT_MAPPING_STRATEGY_LABELS, DEFAULT_GAMUT_MAPPING_STRATEGY } from '../lib/gamutMapping'
 
 interface SettingsSheetProps {
   settingsOpen: boolean
@@ -13,9 +15,11 @@ interface SettingsSheetProps {
   setGamutSettings: React.Dispatch<React.SetStateAction<GamutSettings>>
   lightnessSettings: LightnessSettings
   setLightnessSettings: React.Dispatch<React.SetStateAction<LightnessSettings>>
+  generationSettings: GenerationSettings
+  setGenerationSettings: React.Dispatch<React.SetStateAction<GenerationSettings>>
   activePalette: Palette | undefined
-  handleApplyContrastToAll: (contrastTargets: PaletteControls['contrastTargets']) => void
-  handleApplyContrastToActive: (contrastTargets: PaletteControls['contrastTargets']) => void
+  handleApplyContrastToAll: (contrastTargets: PaletteControls['contrastTargets'], contrastAlgorithm: ContrastAlgorithm) => void
+  handleApplyContrastToActive: (contrastTargets: PaletteControls['contrastTargets'], contrastAlgorithm: ContrastAlgorithm) => void
 }
 
 export function SettingsSheet({
@@ -25,6 +29,8 @@ export function SettingsSheet({
   setGamutSettings,
   lightnessSettings,
   setLightnessSettings,
+  generationSettings,
+  setGenerationSettings,
   activePalette,
   handleApplyContrastToAll,
   handleApplyContrastToActive
@@ -73,9 +79,58 @@ export function SettingsSheet({
                     </p>
                   </div>
                   
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Gamut Mapping</Label>
+                    <Select
+                      value={gamutSettings.mappingStrategy || DEFAULT_GAMUT_MAPPING_STRATEGY}
+                      onValueChange={(value) => setGamutSettings(prev => ({ ...prev, mappingStrategy: value as GamutMappingStrategy }))}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(GAMUT_MAPPING_STRATEGY_LABELS) as GamutMappingStrategy[]).map(strategy => (
+                          <SelectItem key={strategy} value={strategy}>{GAMUT_MAPPING_STRATEGY_LABELS[strategy]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      {(gamutSettings.mappingStrategy || DEFAULT_GAMUT_MAPPING_STRATEGY) === 'chroma' && 'Lowers chroma at constant lightness and hue'}
+                      {gamutSettings.mappingStrategy === 'css4' && 'Lowers chroma, then clips once the difference is below a just-noticeable deltaEOK'}
+                      {gamutSettings.mappingStrategy === 'minde' && 'Closest in-gamut color at the same hue; lightness may shift slightly'}
+                    </p>
+                  </div>
+
                   <p className="text-xs text-muted-foreground">
                     Colors are automatically clamped to fit within the selected gamut
                   </p>
+
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Wide-Gamut CSS</Label>
+                    <Select
+                      value={gamutSettings.wideGamutFormat || 'none'}
+                      onValueChange={(value) => setGamutSettings(prev => ({
+                        ...prev,
+                        wideGamutFormat: value === 'none' ? undefined : value as WideGamutFormat
+                      }))}
+                      disabled={gamutSettings.gamutMode === 'sRGB'}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Hex only</SelectItem>
+                        {(Object.keys(WIDE_GAMUT_FORMAT_LABELS) as WideGamutFormat[]).map(format => (
+                          <SelectItem key={format} value={format}>{WIDE_GAMUT_FORMAT_LABELS[format]} with hex fallback</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      {gamutSettings.gamutMode === 'sRGB'
+                        ? 'Choose P3 or Rec2020 to keep colors beyond sRGB'
+                        : 'Hex values are clipped to sRGB; CSS exports redeclare the wider colors for displays that support them'}
+                    </p>
+                  </div>
                 </div>
               </div>
             </div>
@@ -90,21 +145,41 @@ export function SettingsSheet({
                 <div className="space-y-4">
                   <div className="space-y-2">
                     <Label className="text-sm font-medium">Lightness Calculation Mode</Label>
-                    <Select value={lightnessSettings.mode} onValueChange={(value) => setLightnessSettings({ mode: value as 'contrast' | 'range' })}>
+                    <Select value={lightnessSettings.mode} onValueChange={(value) => setLightnessSettings(prev => ({ ...prev, mode: value as LightnessSettings['mode'] }))}>
                       <SelectTrigger className="w-full">
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="contrast">Contrast-based</SelectItem>
                         <SelectItem value="range">Range-based</SelectItem>
+                        <SelectItem value="uniform">Perceptually Uniform</SelectItem>
                       </SelectContent>
                     </Select>
                     <p className="text-xs text-muted-foreground">
                       {lightnessSettings.mode === 'contrast' 
                         ? 'Calculate lightness based on contrast targets against background colors'
-                        : 'Use manual lightness ranges (min/max) for all palettes'}
+                        : lightnessSettings.mode === 'uniform'
+                          ? 'Space steps within the lightness range so neighbors are an equal color difference apart'
+                          : 'Use manual lightness ranges (min/max) for all palettes'}
                     </p>
                   </div>
+                  {lightnessSettings.mode === 'uniform' && (
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium">Color Difference Metric</Label>
+                      <Select
+                        value={lightnessSettings.deltaEMetric || 'oklab'}
+                        onValueChange={(value) => setLightnessSettings(prev => ({ ...prev, deltaEMetric: value as DeltaEMetric }))}
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="oklab">OKLab ΔE</SelectItem>
+                          <SelectItem value="ciede2000">CIEDE2000</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -118,6 +193,7 @@ export function SettingsSheet({
                     onApplyToAll={handleApplyContrastToAll}
                     onApplyToActive={handleApplyContrastToActive}
                     defaultTargets={activePalette?.controls.contrastTargets}
+                    defaultAlgorithm={activePalette?.controls.contrastAlgorithm}
                   />
                 </div>
               )}
@@ -135,6 +211,7 @@ export function SettingsSheet({
                     onApplyToAll={handleApplyContrastToAll}
                     onApplyToActive={handleApplyContrastToActive}
                     defaultTargets={activePalette?.controls.contrastTargets}
+                    defaultAlgorithm={activePalette?.controls.contrastAlgorithm}
                   />
                 </div>
               )}
@@ -147,6 +224,32 @@ export function SettingsSheet({
           </TabsContent>
           <TabsContent value="precision">
             <div className="space-y-6 mt-6">
+              <div className="space-y-4">
+                <div className="border-b border-border pb-2">
+                  <h3 className="text-sm font-medium text-foreground">Performance</h3>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Palette Generation</Label>
+                  <Select
+                    value={generationSettings.useWorker ? 'worker' : 'main'}
+                    onValueChange={(value) => setGenerationSettings(prev => ({ ...prev, useWorker: value === 'worker' }))}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="main">Main thread</SelectItem>
+                      <SelectItem value="worker">Web Worker (background)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {generationSettings.useWorker
+                      ? 'Palettes are generated in the background so sliders stay responsive; swatches catch up a moment after each change'
+                      : 'Palettes are generated while rendering; consider the worker when editing many palettes'}
+                  </p>
+                </div>
+              </div>
+
               <PrecisionDemo />
             </div>
           </TabsContent>
@@ -2,7 +2,7 @@ import { useState } from 'react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
 import { Button } from './ui/button'
 import { Palette, GamutSettings, LightnessSettings } from '../types'
-import { generatePalette } from '../lib/colorGeneration'
+import { generateTokenStudioJson } from '../lib/colorGeneration'
 import { Copy, Check } from 'lucide-react'
 
 interface TokenStudioExportDialogProps {
@@ -23,48 +23,11 @@ export function TokenStudioExportDialog({
   const [copied, setCopied] = useState(false)
 
   // Transform palettes to Token Studio format
-  const generateTokenStudioJson = () => {
-    const tokenStudioData: Record<string, Record<string, { value: string; type: string }>> = {}
-
-    palettes.forEach(palette => {
-      const colors = generatePalette(palette.controls, gamutSettings, lightnessSettings)
-      const paletteTokens: Record<string, { value: string; type: string }> = {}
-      
-      // Add the generated colors using their dynamic token names
-      colors.forEach((color) => {
-        paletteTokens[color.tokenName] = {
-          value: color.css,
-          type: "color"
-        }
-      })
-      
-      // Add pure black and white
-      paletteTokens["0"] = {
-        value: "#000000",
-        type: "color"
-      }
-      paletteTokens["100"] = {
-        value: "#ffffff",
-        type: "color"
-      }
-      
-      // Sort the tokens by numeric key order (0, 10, 15, 20, ... 95, 100)
-      const sortedTokens: Record<string, { value: string; type: string }> = {}
-      const sortedKeys = Object.keys(paletteTokens).sort((a, b) => parseInt(a) - parseInt(b))
-      
-      sortedKeys.forEach(key => {
-        sortedTokens[key] = paletteTokens[key]
-      })
-      
-      tokenStudioData[palette.name] = sortedTokens
-    })
-
-    return JSON.stringify(tokenStudioData, null, 2)
-  }
+  const generateJson = () => generateTokenStudioJson(palettes, gamutSettings, lightnessSettings)
 
   const handleCopy = async () => {
     try {
-      await navigator.clipboard.writeText(generateTokenStudioJson())
+      await navigator.clipboard.writeText(generateJson())
       setCopied(true)
       setTimeout(() => setCopied(false), 2000)
     } catch (err) {
@@ -102,7 +65,7 @@ export function TokenStudioExportDialog({
           <div className="flex-1 min-h-0">
             <textarea
               readOnly
-              value={generateTokenStudioJson()}
+              value={generateJson()}
               className="w-full h-full min-h-[400px] p-3 text-sm font-mono bg-muted rounded-md border resize-none focus:outline-none focus:ring-2 focus:ring-ring"
               spellCheck="false"
             />
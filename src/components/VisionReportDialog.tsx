@@ -0,0 +1,96 @@
+import { useMemo } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog'
+import { Button } from './ui/button'
+import { generatePalettes } from '../lib/colorGeneration'
+import { findIndistinguishablePalettes, simulateColor, VISION_SIMULATIONS, CVD_DELTA_E_THRESHOLD } from '../lib/visionSimulation'
+import { Palette, GamutSettings, LightnessSettings, VisionSimulation } from '../types'
+
+interface VisionReportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  palettes: Palette[]
+  gamutSettings: GamutSettings
+  lightnessSettings: LightnessSettings
+  onPreviewSimulation: (simulation: VisionSimulation) => void
+}
+
+export function VisionReportDialog({
+  open,
+  onOpenChange,
+  palettes,
+  gamutSettings,
+  lightnessSettings,
+  onPreviewSimulation
+}: VisionReportDialogProps) {
+  // Generated colors by palette name, shared by the report and the swatch previews
+  const generated = useMemo(() => {
+    if (!open) return []
+    const generated = generatePalettes(palettes, gamutSettings, lightnessSettings)
+    return palettes.map(palette => ({
+      name: palette.name,
+      colors: generated[palette.id]
+    }))
+  }, [open, palettes, gamutSettings, lightnessSettings])
+
+  const pairs = useMemo(() => findIndistinguishablePalettes(generated), [generated])
+
+  // Step 6 (token 50) of a palette, used as the preview swatch
+  const midColor = (name: string) =>
+    generated.find(palette => palette.name === name)?.colors.find(color => color.step === 6)?.css || 'transparent'
+
+  const handlePreview = (simulation: VisionSimulation) => {
+    onPreviewSimulation(simulation)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Color Vision Report</DialogTitle>
+          <DialogDescription>
+            Palette pairs whose mid steps (70–30) fall below ΔE2000 {CVD_DELTA_E_THRESHOLD} under a simulation
+            but are distinct with normal vision.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-6 pr-1">
+          {VISION_SIMULATIONS.filter(option => option.value !== 'none').map(option => {
+            const simulationPairs = pairs.filter(pair => pair.simulation === option.value)
+
+            return (
+              <div key={option.value} className="space-y-2">
+                <div className="flex items-center justify-between border-b border-border pb-2">
+                  <div>
+                    <h3 className="text-sm font-medium text-foreground">{option.label}</h3>
+                    <p className="text-xs text-muted-foreground">{option.description}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">
+                      {simulationPairs.length === 0 ? 'No conflicts' : `${simulationPairs.length} pair(s)`}
+                    </span>
+                    <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => handlePreview(option.value)}>
+                      Preview
+                    </Button>
+                  </div>
+                </div>
+                {simulationPairs.map(pair => (
+                  <div key={`${pair.paletteA}-${pair.paletteB}`} className="flex items-center gap-3 text-sm">
+                    <div className="flex">
+                      <div className="w-6 h-6 rounded-l border border-border" style={{ backgroundColor: simulateColor(midColor(pair.paletteA), option.value) }} />
+                      <div className="w-6 h-6 rounded-r border border-l-0 border-border" style={{ backgroundColor: simulateColor(midColor(pair.paletteB), option.value) }} />
+                    </div>
+                    <span className="flex-1">{pair.paletteA} / {pair.paletteB}</span>
+                    <span className="font-mono text-xs text-muted-foreground" title="Mean ΔE2000 across mid steps (simulated / normal vision)">
+                      ΔE {pair.deltaE} <span className="opacity-60">(normal {pair.normalDeltaE})</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -24,6 +24,8 @@ export interface ColorOption {
   color: string
   group?: string
   isRelative?: boolean
+  // Set on live references to another palette's step
+  paletteId?: string
 }
 
 interface ColorComboboxProps {
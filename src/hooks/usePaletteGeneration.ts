@@ -0,0 +1,100 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { generatePaletteSet, GeneratedPaletteSet } from '../lib/colorGeneration'
+import { collectReferencedPalettes } from '../lib/paletteReferences'
+import type { GenerationRequest, GenerationResponse } from '../lib/generationWorker'
+import { Palette, GamutSettings, LightnessSettings, GenerationSettings } from '../types'
+
+interface UsePaletteGenerationProps {
+  palettes: Palette[]
+  gamutSettings: GamutSettings
+  lightnessSettings: LightnessSettings
+  generationSettings: GenerationSettings
+}
+
+/**
+ * Generated colors of every palette, shared by the display, sidebar and control panel.
+ * With the worker enabled, generation runs off the main thread: while a request is in flight only the
+ * latest edit is queued, and the last response is shown until the next one arrives. Responses to requests
+ * older than the one on screen are dropped, and palettes added since the last response are generated on
+ * the main thread on their own (with the palettes they reference) until the worker catches up.
+ */
+export const usePaletteGeneration = ({
+  palettes,
+  gamutSettings,
+  lightnessSettings,
+  generationSettings
+}: UsePaletteGenerationProps): GeneratedPaletteSet => {
+  const [workerFailed, setWorkerFailed] = useState(false)
+  const [workerResult, setWorkerResult] = useState<GeneratedPaletteSet | null>(null)
+  const workerRef = useRef<Worker | null>(null)
+  const requestRef = useRef<{ nextId: number; shownId: number; inFlight: boolean; pending: GenerationRequest | null }>({ nextId: 0, shownId: 0, inFlight: false, pending: null })
+  const useWorker = generationSettings.useWorker && !workerFailed && typeof Worker !== 'undefined'
+
+  // Start the worker while it is enabled
+  useEffect(() => {
+    if (!useWorker) return
+
+    const worker = new Worker(new URL('../lib/generationWorker.ts', import.meta.url), { type: 'module' })
+    const requests = requestRef.current
+    worker.onmessage = (event: MessageEvent<GenerationResponse>) => {
+      if (event.data.id > requests.shownId) {
+        requests.shownId = event.data.id
+        setWorkerResult(event.data.generated)
+      }
+      if (requests.pending) {
+        worker.postMessage(requests.pending)
+        requests.pending = null
+      } else {
+        requests.inFlight = false
+      }
+    }
+    worker.onerror = (event) => {
+      console.warn('Palette generation worker failed, generating on the main thread:', event.message)
+      setWorkerFailed(true)
+    }
+    workerRef.current = worker
+
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+      requests.inFlight = false
+      requests.pending = null
+      requests.shownId = requests.nextId
+      setWorkerResult(null)
+    }
+  }, [useWorker])
+
+  // Send the current palettes, coalescing edits made while the worker is busy
+  useEffect(() => {
+    const worker = workerRef.current
+    if (!useWorker || !worker) return
+
+    const requests = requestRef.current
+    const request: GenerationRequest = { id: ++requests.nextId, palettes, gamutSettings, lightnessSettings }
+    if (requests.inFlight) {
+      requests.pending = request
+    } else {
+      requests.inFlight = true
+      worker.postMessage(request)
+    }
+  }, [useWorker, palettes, gamutSettings, lightnessSettings])
+
+  return useMemo(() => {
+    // Before the first response, generate on the main thread
+    if (!useWorker || !workerResult) {
+      return generatePaletteSet(palettes, gamutSettings, lightnessSettings)
+    }
+
+    // Palettes added since the last response are generated here on their own
+    const missing = palettes.filter(palette => !workerResult.light[palette.id])
+    if (missing.length === 0) {
+      return workerResult
+    }
+    const withReferences = Array.from(new Set(missing.flatMap(palette => collectReferencedPalettes(palette, palettes))))
+    const generated = generatePaletteSet(withReferences, gamutSettings, lightnessSettings)
+    return {
+      light: { ...workerResult.light, ...generated.light },
+      dark: { ...workerResult.dark, ...generated.dark }
+    }
+  }, [useWorker, workerResult, palettes, gamutSettings, lightnessSettings])
+}
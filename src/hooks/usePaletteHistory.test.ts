@@ -0,0 +1,118 @@
+import { renderHook, act } from '@testing-library/react'
+import { usePaletteHistory } from './usePaletteHistory'
+import { createNewPalette } from '../lib/colorGeneration'
+import { defaultControls } from '../lib/presets'
+import { Palette } from '../types'
+
+const blue = createNewPalette('Blue', { ...defaultControls, baseHue: 250 })
+const red = createNewPalette('Red', { ...defaultControls, baseHue: 25 })
+
+const withHue = (palette: Palette, baseHue: number): Palette => ({
+  ...palette,
+  controls: { ...palette.controls, baseHue }
+})
+
+describe('usePaletteHistory', () => {
+  let now = 10_000
+
+  beforeEach(() => {
+    now = 10_000
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  const renderHistory = () => {
+    const setActivePaletteId = jest.fn()
+    const hook = renderHook(() => usePaletteHistory({ activePaletteId: blue.id, setActivePaletteId }))
+    act(() => hook.result.current.resetHistory([blue]))
+    return { ...hook, setActivePaletteId }
+  }
+
+  it('records edits and undoes and redoes them', () => {
+    const { result } = renderHistory()
+    act(() => result.current.setPalettes(prev => [...prev, red]))
+    expect(result.current.historyEntries.map(entry => entry.label)).toEqual(['Initial state', 'Added "Red"'])
+
+    act(() => result.current.undo())
+    expect(result.current.palettes).toEqual([blue])
+    expect(result.current.canRedo).toBe(true)
+
+    act(() => result.current.redo())
+    expect(result.current.palettes).toEqual([blue, red])
+    expect(result.current.canRedo).toBe(false)
+  })
+
+  it('coalesces quick edits of the same control into one entry', () => {
+    const { result } = renderHistory()
+    act(() => result.current.setPalettes([withHue(blue, 240)]))
+    now += 500
+    act(() => result.current.setPalettes([withHue(blue, 230)]))
+    now += 500
+    act(() => result.current.setPalettes([withHue(blue, 220)]))
+
+    expect(result.current.historyEntries).toHaveLength(2)
+    act(() => result.current.undo())
+    expect(result.current.palettes).toEqual([blue])
+  })
+
+  it('starts a new entry after the coalesce window or for a different control', () => {
+    const { result } = renderHistory()
+    act(() => result.current.setPalettes([withHue(blue, 240)]))
+    now += 1500
+    act(() => result.current.setPalettes([withHue(blue, 230)]))
+    act(() => result.current.setPalettes(prev => [{ ...prev[0], controls: { ...prev[0].controls, maxChroma: 0.1 } }]))
+
+    expect(result.current.historyEntries).toHaveLength(4)
+  })
+
+  it('drops the redo branch when editing after an undo', () => {
+    const { result } = renderHistory()
+    act(() => result.current.setPalettes(prev => [...prev, red]))
+    act(() => result.current.undo())
+    act(() => result.current.setPalettes([withHue(blue, 240)]))
+
+    expect(result.current.canRedo).toBe(false)
+    expect(result.current.historyEntries.map(entry => entry.label)).toEqual(['Initial state', 'Changed hue of "Blue"'])
+  })
+
+  it('does not coalesce into the initial state', () => {
+    const { result } = renderHistory()
+    act(() => result.current.setPalettes([withHue(blue, 240)]))
+    act(() => result.current.undo())
+    act(() => result.current.setPalettes([withHue(blue, 230)]))
+    expect(result.current.historyEntries).toHaveLength(2)
+    expect(result.current.historyIndex).toBe(1)
+  })
+
+  it('ignores no-op updates and jumps to any entry', () => {
+    const { result } = renderHistory()
+    act(() => result.current.setPalettes(prev => prev))
+    expect(result.current.historyEntries).toHaveLength(1)
+
+    act(() => result.current.setPalettes(prev => [...prev, red]))
+    act(() => result.current.setPalettes([red]))
+    act(() => result.current.jumpTo(0))
+    expect(result.current.palettes).toEqual([blue])
+    act(() => result.current.jumpTo(5))
+    expect(result.current.historyIndex).toBe(0)
+  })
+
+  it('keeps the active palette valid when it is removed', () => {
+    const { result, setActivePaletteId } = renderHistory()
+    act(() => result.current.setPalettes([red]))
+    expect(setActivePaletteId).toHaveBeenCalledWith(red.id)
+  })
+
+  it('undoes and redoes with keyboard shortcuts outside text fields', () => {
+    const { result } = renderHistory()
+    act(() => result.current.setPalettes(prev => [...prev, red]))
+
+    act(() => { window.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true })) })
+    expect(result.current.historyIndex).toBe(0)
+    act(() => { window.dispatchEvent(new KeyboardEvent('keydown', { key: 'y', ctrlKey: true })) })
+    expect(result.current.historyIndex).toBe(1)
+  })
+})
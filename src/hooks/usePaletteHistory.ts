@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { describePaletteChange } from '../lib/history'
+import { Palette } from '../types'
+
+// Maximum number of snapshots kept (oldest entries are dropped first)
+const MAX_HISTORY_ENTRIES = 100
+
+// Edits with the same coalesce key closer together than this merge into one entry
+const COALESCE_WINDOW_MS = 1000
+
+export interface PaletteHistoryEntry {
+  id: number
+  label: string
+  palettes: Palette[]
+  timestamp: number
+  coalesceKey?: string
+}
+
+interface HistoryState {
+  entries: PaletteHistoryEntry[]
+  index: number
+}
+
+interface UsePaletteHistoryProps {
+  activePaletteId: string
+  setActivePaletteId: React.Dispatch<React.SetStateAction<string>>
+}
+
+/**
+ * Palette state with an undo/redo history.
+ * `setPalettes` is a drop-in replacement for the useState setter; every change is recorded.
+ */
+export const usePaletteHistory = ({
+  activePaletteId,
+  setActivePaletteId
+}: UsePaletteHistoryProps) => {
+  const nextEntryId = useRef(1)
+  const [history, setHistory] = useState<HistoryState>({
+    entries: [{ id: 0, label: 'Initial state', palettes: [], timestamp: 0 }],
+    index: 0
+  })
+
+  const palettes = history.entries[history.index].palettes
+
+  // Record a change, merging it into the previous entry when it continues the same edit
+  const setPalettes: React.Dispatch<React.SetStateAction<Palette[]>> = useCallback((action) => {
+    setHistory(prev => {
+      const current = prev.entries[prev.index]
+      const next = typeof action === 'function' ? action(current.palettes) : action
+      if (next === current.palettes) return prev
+
+      const { label, coalesceKey } = describePaletteChange(current.palettes, next)
+      const now = Date.now()
+      const entries = prev.entries.slice(0, prev.index + 1)
+
+      if (prev.index > 0 && coalesceKey && current.coalesceKey === coalesceKey && now - current.timestamp < COALESCE_WINDOW_MS) {
+        entries[entries.length - 1] = { ...current, label, palettes: next, timestamp: now }
+        return { entries, index: prev.index }
+      }
+
+      entries.push({ id: nextEntryId.current++, label, palettes: next, timestamp: now, coalesceKey })
+      const overflow = Math.max(0, entries.length - MAX_HISTORY_ENTRIES)
+      return { entries: entries.slice(overflow), index: entries.length - 1 - overflow }
+    })
+  }, [])
+
+  // Replace palettes without recording history (initial load)
+  const resetHistory = useCallback((initialPalettes: Palette[]) => {
+    setHistory({
+      entries: [{ id: nextEntryId.current++, label: 'Initial state', palettes: initialPalettes, timestamp: 0 }],
+      index: 0
+    })
+  }, [])
+
+  const jumpTo = useCallback((index: number) => {
+    setHistory(prev => index < 0 || index >= prev.entries.length || index === prev.index
+      ? prev
+      : { ...prev, index })
+  }, [])
+
+  const undo = useCallback(() => {
+    setHistory(prev => prev.index > 0 ? { ...prev, index: prev.index - 1 } : prev)
+  }, [])
+
+  const redo = useCallback(() => {
+    setHistory(prev => prev.index < prev.entries.length - 1 ? { ...prev, index: prev.index + 1 } : prev)
+  }, [])
+
+  // Keep the active palette valid when undo/redo removes it
+  useEffect(() => {
+    if (palettes.length > 0 && !palettes.some(p => p.id === activePaletteId)) {
+      setActivePaletteId(palettes[0].id)
+    }
+  }, [palettes, activePaletteId, setActivePaletteId])
+
+  // Keyboard shortcuts: Ctrl/Cmd+Z to undo, Shift+Ctrl/Cmd+Z or Ctrl+Y to redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return
+
+      // Leave native text undo alone while typing
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && !e.metaKey)) {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  return {
+    palettes,
+    setPalettes,
+    resetHistory,
+
+    // History
+    historyEntries: history.entries,
+    historyIndex: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    undo,
+    redo,
+    jumpTo
+  }
+}
@@ -1,13 +1,20 @@
 import { useState } from 'react'
 import { toast } from 'sonner'
-import { generatePalette, importPalettes, downloadPalettes, convertExternalPalettes } from '../lib/colorGeneration'
-import { Palette, GamutSettings, LightnessSettings } from '../types'
+import { generatePalette, importPalettes, convertExternalPalettes } from '../lib/colorGeneration'
+import { downloadPalettes, copyToClipboard } from '../lib/browser'
+import { importDTCGPalettes } from '../lib/dtcg'
+import { encodeShareHash, decodeShareHash } from '../lib/share'
+import { remapSemanticTokens } from '../lib/semanticTokens'
+import { ensureUniquePaletteIds } from '../lib/paletteReferences'
+import { Palette, GamutSettings, LightnessSettings, SemanticToken } from '../types'
 
 interface UsePaletteImportProps {
   palettes: Palette[]
   setPalettes: React.Dispatch<React.SetStateAction<Palette[]>>
   activePaletteId: string
   setActivePaletteId: React.Dispatch<React.SetStateAction<string>>
+  semanticTokens: SemanticToken[]
+  setSemanticTokens: React.Dispatch<React.SetStateAction<SemanticToken[]>>
   gamutSettings: GamutSettings
   lightnessSettings: LightnessSettings
 }
@@ -17,41 +24,32 @@ export const usePaletteImport = ({
   setPalettes,
   activePaletteId,
   setActivePaletteId,
+  semanticTokens,
+  setSemanticTokens,
   gamutSettings,
   lightnessSettings
 }: UsePaletteImportProps) => {
   // Import confirmation dialog state
   const [importConfirmOpen, setImportConfirmOpen] = useState(false)
-  const [pendingImportData, setPendingImportData] = useState<{ palettes: Palette[], activePaletteId: string } | null>(null)
+  const [pendingImportData, setPendingImportData] = useState<{ palettes: Palette[], activePaletteId: string, semanticTokens?: SemanticToken[], warnings?: string[] } | null>(null)
 
-  // Ensure unique palette IDs by regenerating duplicates
-  const ensureUniquePaletteIds = (newPalettes: Palette[], existingPalettes: Palette[] = []): Palette[] => {
-    const existingIds = new Set(existingPalettes.map(p => p.id));
-    const processedIds = new Set<string>();
-    
-    return newPalettes.map(palette => {
-      let uniqueId = palette.id;
-      
-      // Check if ID conflicts with existing palettes OR has been used in this batch
-      while (existingIds.has(uniqueId) || processedIds.has(uniqueId)) {
-        uniqueId = Math.random().toString(36).substr(2, 9);
-      }
-      
-      processedIds.add(uniqueId);
-      
-      // Only create new palette object if ID changed
-      if (uniqueId !== palette.id) {
-        return {
-          ...palette,
-          id: uniqueId,
-          name: `${palette.name} (Import)`, // Indicate it was imported with new ID
-          updatedAt: new Date()
-        };
-      }
-      
-      return palette;
-    });
-  };
+  // Point imported semantic tokens at the (possibly re-identified) imported palettes
+  const applyImportedSemanticTokens = (
+    importedTokens: SemanticToken[] | undefined,
+    importedPalettes: Palette[],
+    deduplicatedPalettes: Palette[],
+    mode: 'replace' | 'add'
+  ) => {
+    if (!importedTokens || importedTokens.length === 0) return
+
+    const idMap: Record<string, string> = {}
+    importedPalettes.forEach((palette, i) => {
+      idMap[palette.id] = deduplicatedPalettes[i].id
+    })
+    const remapped = remapSemanticTokens(importedTokens, idMap)
+
+    setSemanticTokens(prev => mode === 'replace' ? remapped : [...prev, ...remapped])
+  }
 
   // Handle import confirmation dialog actions
   const handleImportReplace = () => {
@@ -61,6 +59,7 @@ export const usePaletteImport = ({
       
       setPalettes(deduplicatedPalettes)
       setActivePaletteId(pendingImportData.activePaletteId)
+      applyImportedSemanticTokens(pendingImportData.semanticTokens, pendingImportData.palettes, deduplicatedPalettes, 'replace')
       
       const renamedCount = deduplicatedPalettes.filter((p, i) => p.id !== pendingImportData.palettes[i].id).length;
       const message = renamedCount > 0 
@@ -80,6 +79,7 @@ export const usePaletteImport = ({
       
       setPalettes(prev => [...prev, ...deduplicatedPalettes])
       setActivePaletteId(pendingImportData.activePaletteId)
+      applyImportedSemanticTokens(pendingImportData.semanticTokens, pendingImportData.palettes, deduplicatedPalettes, 'add')
       
       const renamedCount = deduplicatedPalettes.filter((p, i) => p.id !== pendingImportData.palettes[i].id).length;
       const message = renamedCount > 0 
@@ -99,11 +99,76 @@ export const usePaletteImport = ({
 
   // Export palettes to JSON file
   const handleExportPalettes = () => {
-    downloadPalettes(palettes, activePaletteId, 'color-palettes.json')
+    downloadPalettes(palettes, activePaletteId, 'color-palettes.json', semanticTokens)
   }
 
-  // Import palettes from JSON file
-  const handleImportPalettes = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Validate parsed palettes, then import directly or ask to replace/add via the ImportDialog
+  const processImportedData = (
+    importedData: { palettes: Palette[], activePaletteId: string, semanticTokens?: SemanticToken[], warnings?: string[] },
+    confirm: boolean = palettes.length > 0
+  ): boolean => {
+    // Validate that imported palettes can generate colors properly
+    const validPalettes = importedData.palettes.filter(palette => {
+      try {
+        const testColors = generatePalette(palette.controls, gamutSettings, lightnessSettings)
+        return testColors.length > 0 && testColors.every(color => 
+          color.css && color.css.match(/^#[0-9a-f]{6}$/i)
+        )
+      } catch (error) {
+        console.warn(`Palette "${palette.name}" failed validation:`, error)
+        return false
+      }
+    })
+    
+    if (validPalettes.length === 0) {
+      toast.error('No valid palettes found in the imported file. Please check the file format.')
+      return false
+    }
+
+    // Settings that migration had to replace with a fallback
+    if (importedData.warnings && importedData.warnings.length > 0) {
+      toast.warning(`Some imported settings were replaced: ${importedData.warnings.join('; ')}`)
+    }
+    
+    // For native app exports, show dialog to ask user if they want to replace or add to existing palettes
+    if (!confirm) {
+      // If no existing palettes, just replace (but still check for internal duplicates)
+      const deduplicatedPalettes = ensureUniquePaletteIds(validPalettes, []);
+      setPalettes(deduplicatedPalettes)
+      setActivePaletteId(importedData.activePaletteId || (deduplicatedPalettes.length > 0 ? deduplicatedPalettes[0].id : ''))
+      applyImportedSemanticTokens(importedData.semanticTokens, validPalettes, deduplicatedPalettes, 'replace')
+      
+      const skippedCount = importedData.palettes.length - validPalettes.length
+      const renamedCount = deduplicatedPalettes.filter((p, i) => p.id !== validPalettes[i].id).length;
+      
+      let message = `Successfully imported ${deduplicatedPalettes.length} palette(s)!`
+      if (skippedCount > 0 && renamedCount > 0) {
+        message = `Successfully imported ${deduplicatedPalettes.length} palette(s)! (${skippedCount} invalid palette(s) were skipped, ${renamedCount} had duplicate IDs)`
+      } else if (skippedCount > 0) {
+        message = `Successfully imported ${deduplicatedPalettes.length} palette(s)! (${skippedCount} invalid palette(s) were skipped)`
+      } else if (renamedCount > 0) {
+        message = `Successfully imported ${deduplicatedPalettes.length} palette(s)! (${renamedCount} had internal duplicate IDs)`
+      }
+      
+      toast.success(message)
+    } else {
+      // Show confirmation dialog for user choice
+      setPendingImportData({
+        palettes: validPalettes,
+        activePaletteId: importedData.activePaletteId || (validPalettes.length > 0 ? validPalettes[0].id : ''),
+        semanticTokens: importedData.semanticTokens
+      })
+      setImportConfirmOpen(true)
+    }
+
+    return true
+  }
+
+  // Read a palette file with the given parser (native export or DTCG tokens)
+  const readPaletteFile = (
+    event: React.ChangeEvent<HTMLInputElement>,
+    parseFile: (jsonData: string) => { palettes: Palette[], activePaletteId: string, semanticTokens?: SemanticToken[], warnings?: string[] } | null
+  ) => {
     const file = event.target.files?.[0]
     if (!file) return
 
@@ -111,55 +176,10 @@ export const usePaletteImport = ({
     reader.onload = (e) => {
       try {
         const jsonData = e.target?.result as string
-        const importedData = importPalettes(jsonData)
+        const importedData = parseFile(jsonData)
         
         if (importedData) {
-          // Validate that imported palettes can generate colors properly
-          const validPalettes = importedData.palettes.filter(palette => {
-            try {
-              const testColors = generatePalette(palette.controls, gamutSettings, lightnessSettings)
-              return testColors.length > 0 && testColors.every(color => 
-                color.css && color.css.match(/^#[0-9a-f]{6}$/i)
-              )
-            } catch (error) {
-              console.warn(`Palette "${palette.name}" failed validation:`, error)
-              return false
-            }
-          })
-          
-          if (validPalettes.length === 0) {
-            toast.error('No valid palettes found in the imported file. Please check the file format.')
-            return
-          }
-          
-          // For native app exports, show dialog to ask user if they want to replace or add to existing palettes
-          if (palettes.length === 0) {
-            // If no existing palettes, just replace (but still check for internal duplicates)
-            const deduplicatedPalettes = ensureUniquePaletteIds(validPalettes, []);
-            setPalettes(deduplicatedPalettes)
-            setActivePaletteId(importedData.activePaletteId || (deduplicatedPalettes.length > 0 ? deduplicatedPalettes[0].id : ''))
-            
-            const skippedCount = importedData.palettes.length - validPalettes.length
-            const renamedCount = deduplicatedPalettes.filter((p, i) => p.id !== validPalettes[i].id).length;
-            
-            let message = `Successfully imported ${deduplicatedPalettes.length} palette(s)!`
-            if (skippedCount > 0 && renamedCount > 0) {
-              message = `Successfully imported ${deduplicatedPalettes.length} palette(s)! (${skippedCount} invalid palette(s) were skipped, ${renamedCount} had duplicate IDs)`
-            } else if (skippedCount > 0) {
-              message = `Successfully imported ${deduplicatedPalettes.length} palette(s)! (${skippedCount} invalid palette(s) were skipped)`
-            } else if (renamedCount > 0) {
-              message = `Successfully imported ${deduplicatedPalettes.length} palette(s)! (${renamedCount} had internal duplicate IDs)`
-            }
-            
-            toast.success(message)
-          } else {
-            // Show confirmation dialog for user choice
-            setPendingImportData({
-              palettes: validPalettes,
-              activePaletteId: importedData.activePaletteId || (validPalettes.length > 0 ? validPalettes[0].id : '')
-            })
-            setImportConfirmOpen(true)
-          }
+          if (!processImportedData(importedData)) return
           
           // Clear the input
           event.target.value = ''
@@ -174,6 +194,48 @@ export const usePaletteImport = ({
     reader.readAsText(file)
   }
 
+  // Import palettes from JSON file
+  const handleImportPalettes = (event: React.ChangeEvent<HTMLInputElement>) => {
+    readPaletteFile(event, importPalettes)
+  }
+
+  // Import palettes from a W3C Design Tokens (DTCG) file
+  const handleImportDTCG = (event: React.ChangeEvent<HTMLInputElement>) => {
+    readPaletteFile(event, importDTCGPalettes)
+  }
+
+  // Copy a share link for the given palettes (all palettes by default) to the clipboard
+  const handleCopyShareLink = async (paletteIds?: string[]) => {
+    const sharedPalettes = paletteIds ? palettes.filter(p => paletteIds.includes(p.id)) : palettes
+    if (sharedPalettes.length === 0) return
+
+    try {
+      const hash = await encodeShareHash(sharedPalettes)
+      const url = `${window.location.origin}${window.location.pathname}${window.location.search}${hash}`
+      const success = await copyToClipboard(url)
+      if (success) {
+        toast.success(sharedPalettes.length === 1
+          ? `Share link for "${sharedPalettes[0].name}" copied to clipboard!`
+          : `Share link for ${sharedPalettes.length} palettes copied to clipboard!`)
+      } else {
+        toast.error('Failed to copy share link')
+      }
+    } catch (error) {
+      console.error('Share link error:', error)
+      toast.error('Failed to create share link')
+    }
+  }
+
+  // Import palettes from a share link hash; always asks whether to replace or add
+  const handleImportShareLink = async (hash: string) => {
+    const importedData = await decodeShareHash(hash)
+    if (!importedData) {
+      toast.error('Failed to load palettes from the share link. It may be corrupted or from a newer version.')
+      return
+    }
+    processImportedData(importedData, true)
+  }
+
   // Import external palettes from JSON file (for external tools like localhost:5185)
   const handleImportExternal = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
@@ -251,6 +313,9 @@ export const usePaletteImport = ({
     handleImportCancel,
     handleExportPalettes,
     handleImportPalettes,
-    handleImportExternal
+    handleImportDTCG,
+    handleImportExternal,
+    handleCopyShareLink,
+    handleImportShareLink
   }
 } 
\ No newline at end of file
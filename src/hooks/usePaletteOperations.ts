@@ -2,7 +2,7 @@ import { useState } from 'react'
 import { toast } from 'sonner'
 import { createNewPalette } from '../lib/colorGeneration'
 import { defaultControls } from '../lib/presets'
-import { Palette } from '../types'
+import { Palette, PaletteControls } from '../types'
 
 interface UsePaletteOperationsProps {
   palettes: Palette[]
@@ -31,15 +31,23 @@ export const usePaletteOperations = ({
     setActivePaletteId(newPalette.id)
   }
 
+  // Add a palette seeded from a brand color (controls solved by the seed color dialog)
+  const handleAddPaletteFromColor = (name: string, controls: PaletteControls) => {
+    const newPalette = createNewPalette(name, controls)
+    setPalettes(prev => [...prev, newPalette])
+    setActivePaletteId(newPalette.id)
+    toast.success(`Created "${name}" from color`)
+  }
+
   // Duplicate palette
   const handleDuplicatePalette = (paletteId: string) => {
     const originalPalette = palettes.find(p => p.id === paletteId)
     if (!originalPalette) return
     
-    const duplicatedPalette = createNewPalette(
-      `${originalPalette.name} Copy`,
-      originalPalette.controls
-    )
+    const duplicatedPalette = {
+      ...createNewPalette(`${originalPalette.name} Copy`, originalPalette.controls),
+      darkVariant: originalPalette.darkVariant
+    }
     setPalettes(prev => [...prev, duplicatedPalette])
     setActivePaletteId(duplicatedPalette.id)
   }
@@ -145,6 +153,7 @@ export const usePaletteOperations = ({
     
     // Operations
     handleAddPalette,
+    handleAddPaletteFromColor,
     handleDuplicatePalette,
     handleStartRename,
     handleSaveRename,
@@ -1,14 +1,20 @@
 import { useMemo, useEffect } from 'react'
-import { generatePalette, generateColorOptions, savePalettesToStorage } from '../lib/colorGeneration'
-import { Palette, PaletteControls, GamutSettings, LightnessSettings } from '../types'
+import { generatePalettes, generateColorOptions } from '../lib/colorGeneration'
+import { savePalettesToStorage } from '../lib/browser'
+import { alignContrastTargets } from '../lib/consistency'
+import { toast } from 'sonner'
+import { usePaletteGeneration } from './usePaletteGeneration'
+import { Palette, PaletteControls, GamutSettings, LightnessSettings, GenerationSettings, ContrastAlgorithm, DarkModeVariant, SemanticToken } from '../types'
 
 interface UsePaletteStateProps {
   palettes: Palette[]
   setPalettes: React.Dispatch<React.SetStateAction<Palette[]>>
   activePaletteId: string
+  semanticTokens: SemanticToken[]
   gamutSettings: GamutSettings
   lightnessSettings: LightnessSettings
   setLightnessSettings: React.Dispatch<React.SetStateAction<LightnessSettings>>
+  generationSettings: GenerationSettings
   isLoaded: boolean
 }
 
@@ -16,18 +22,20 @@ export const usePaletteState = ({
   palettes,
   setPalettes,
   activePaletteId,
+  semanticTokens,
   gamutSettings,
   lightnessSettings,
   setLightnessSettings,
+  generationSettings,
   isLoaded
 }: UsePaletteStateProps) => {
 
-  // Auto-save palettes to storage when they change
+  // Auto-save palettes and semantic tokens to storage when they change
   useEffect(() => {
     if (isLoaded) {
-      savePalettesToStorage(palettes, activePaletteId)
+      savePalettesToStorage(palettes, activePaletteId, semanticTokens)
     }
-  }, [palettes, activePaletteId, isLoaded])
+  }, [palettes, activePaletteId, semanticTokens, isLoaded])
 
   // Get active palette
   const activePalette = useMemo(() => 
@@ -35,16 +43,19 @@ export const usePaletteState = ({
     [palettes, activePaletteId]
   )
 
-  // Generate colors for active palette
+  // Generate every palette once (in a worker when enabled) for the display, sidebar and control panel
+  const generatedPalettes = usePaletteGeneration({ palettes, gamutSettings, lightnessSettings, generationSettings })
+
+  // Colors of the active palette
   const activePaletteColors = useMemo(() => 
-    activePalette ? generatePalette(activePalette.controls, gamutSettings, lightnessSettings) : [],
-    [activePalette, gamutSettings, lightnessSettings]
+    activePalette ? generatedPalettes.light[activePalette.id] || [] : [],
+    [activePalette, generatedPalettes]
   )
 
   // Generate color options for contrast analysis combobox
   const colorOptions = useMemo(() => 
-    generateColorOptions(palettes, gamutSettings, lightnessSettings),
-    [palettes, gamutSettings, lightnessSettings]
+    generateColorOptions(palettes, gamutSettings, lightnessSettings, generatedPalettes.light),
+    [palettes, gamutSettings, lightnessSettings, generatedPalettes]
   )
 
   // Update active palette controls
@@ -56,13 +67,23 @@ export const usePaletteState = ({
     ))
   }
 
+  // Update the dark-mode variant of the active palette
+  const handleDarkVariantChange = (darkVariant: DarkModeVariant) => {
+    setPalettes(prev => prev.map(p => 
+      p.id === activePaletteId 
+        ? { ...p, darkVariant, updatedAt: new Date() }
+        : p
+    ))
+  }
+
   // Apply global contrast targets to all palettes
-  const handleApplyContrastToAll = (contrastTargets: PaletteControls['contrastTargets']) => {
+  const handleApplyContrastToAll = (contrastTargets: PaletteControls['contrastTargets'], contrastAlgorithm: ContrastAlgorithm = 'wcag2') => {
     setPalettes(prev => prev.map(palette => ({
       ...palette,
       controls: {
         ...palette.controls,
-        contrastTargets
+        contrastTargets,
+        contrastAlgorithm
       },
       updatedAt: new Date()
     })))
@@ -71,14 +92,15 @@ export const usePaletteState = ({
   }
 
   // Apply global contrast targets to active palette only
-  const handleApplyContrastToActive = (contrastTargets: PaletteControls['contrastTargets']) => {
+  const handleApplyContrastToActive = (contrastTargets: PaletteControls['contrastTargets'], contrastAlgorithm: ContrastAlgorithm = 'wcag2') => {
     setPalettes(prev => prev.map(palette => 
       palette.id === activePaletteId
         ? {
             ...palette,
             controls: {
               ...palette.controls,
-              contrastTargets
+              contrastTargets,
+              contrastAlgorithm
             },
             updatedAt: new Date()
           }
@@ -88,15 +110,54 @@ export const usePaletteState = ({
     setLightnessSettings({ mode: 'contrast' })
   }
 
+  // Align the other palettes (or the given ones) to a reference palette by rewriting their contrast targets
+  const handleAlignToReference = (referenceId: string, paletteIds?: string[]) => {
+    const reference = palettes.find(palette => palette.id === referenceId)
+    if (!reference) return
+    // Targets only drive lightness in contrast mode, so the reference is read as it will look there
+    const contrastSettings: LightnessSettings = { ...lightnessSettings, mode: 'contrast' }
+    const generated = generatePalettes(palettes, gamutSettings, contrastSettings)
+    const referenceColors = generated[reference.id]
+    const shouldAlign = (palette: Palette) =>
+      palette.id !== referenceId && (!paletteIds || paletteIds.includes(palette.id))
+
+    const aligned = new Map<string, PaletteControls>()
+    palettes.filter(shouldAlign).forEach(palette => {
+      const colors = generated[palette.id]
+      // Overridden core lightness would keep steps from following their new targets
+      const lightnessOverrides = { ...palette.controls.lightnessOverrides }
+      referenceColors.filter(color => color.step >= 1 && color.step <= 11).forEach(color => {
+        delete lightnessOverrides[color.step.toString()]
+      })
+      aligned.set(palette.id, {
+        ...palette.controls,
+        contrastTargets: alignContrastTargets(palette.controls, colors, referenceColors, generated),
+        lightnessOverrides
+      })
+    })
+    if (aligned.size === 0) return
+
+    setPalettes(prev => prev.map(palette =>
+      aligned.has(palette.id)
+        ? { ...palette, controls: aligned.get(palette.id)!, updatedAt: new Date() }
+        : palette
+    ))
+    setLightnessSettings(contrastSettings)
+    toast.success(`Aligned ${aligned.size} palette${aligned.size === 1 ? '' : 's'} to ${reference.name}`)
+  }
+
   return {
     // Computed values
     activePalette,
     activePaletteColors,
+    generatedPalettes,
     colorOptions,
     
     // State update functions
     handleControlsChange,
+    handleDarkVariantChange,
     handleApplyContrastToAll,
-    handleApplyContrastToActive
+    handleApplyContrastToActive,
+    handleAlignToReference
   }
 } 
\ No newline at end of file
@@ -1,11 +1,13 @@
 import { useEffect } from 'react'
-import { GamutSettings, LightnessSettings } from '../types'
+import { GamutSettings, LightnessSettings, GenerationSettings } from '../types'
 
 interface UsePersistenceProps {
   gamutSettings: GamutSettings
   setGamutSettings: React.Dispatch<React.SetStateAction<GamutSettings>>
   lightnessSettings: LightnessSettings
   setLightnessSettings: React.Dispatch<React.SetStateAction<LightnessSettings>>
+  generationSettings: GenerationSettings
+  setGenerationSettings: React.Dispatch<React.SetStateAction<GenerationSettings>>
   isLoaded: boolean
 }
 
@@ -14,6 +16,8 @@ export const usePersistence = ({
   setGamutSettings,
   lightnessSettings,
   setLightnessSettings,
+  generationSettings,
+  setGenerationSettings,
   isLoaded
 }: UsePersistenceProps) => {
   
@@ -40,6 +44,17 @@ export const usePersistence = ({
         console.error('Failed to parse lightness settings:', error)
       }
     }
+
+    // Load generation settings from localStorage
+    const savedGenerationSettings = localStorage.getItem('ads-color-generator-generation-settings')
+    if (savedGenerationSettings) {
+      try {
+        const parsedGenerationSettings = JSON.parse(savedGenerationSettings)
+        setGenerationSettings(parsedGenerationSettings)
+      } catch (error) {
+        console.error('Failed to parse generation settings:', error)
+      }
+    }
   }
 
   // Auto-save settings to localStorage when they change
@@ -48,8 +63,9 @@ export const usePersistence = ({
       // Save global settings to localStorage
       localStorage.setItem('ads-color-generator-gamut-settings', JSON.stringify(gamutSettings))
       localStorage.setItem('ads-color-generator-lightness-settings', JSON.stringify(lightnessSettings))
+      localStorage.setItem('ads-color-generator-generation-settings', JSON.stringify(generationSettings))
     }
-  }, [isLoaded, gamutSettings, lightnessSettings])
+  }, [isLoaded, gamutSettings, lightnessSettings, generationSettings])
 
   return {
     loadSettingsFromStorage
@@ -0,0 +1,66 @@
+import { useMemo } from 'react'
+import { generateId } from '../lib/colorGeneration'
+import { createDefaultSemanticTokens, validateSemanticTokens } from '../lib/semanticTokens'
+import { Palette, SemanticToken } from '../types'
+
+interface UseSemanticTokensProps {
+  semanticTokens: SemanticToken[]
+  setSemanticTokens: React.Dispatch<React.SetStateAction<SemanticToken[]>>
+  palettes: Palette[]
+  activePaletteId: string
+}
+
+export const useSemanticTokens = ({
+  semanticTokens,
+  setSemanticTokens,
+  palettes,
+  activePaletteId
+}: UseSemanticTokensProps) => {
+
+  // Broken references and naming problems, recomputed when palettes or tokens change
+  const semanticTokenIssues = useMemo(() =>
+    validateSemanticTokens(semanticTokens, palettes),
+    [semanticTokens, palettes]
+  )
+
+  // Add a new role pointing at the middle step of the active palette
+  const handleAddSemanticToken = () => {
+    const paletteId = activePaletteId || palettes[0]?.id
+    if (!paletteId) return
+
+    const existingNames = new Set(semanticTokens.map(token => token.name))
+    let name = 'role'
+    for (let i = 2; existingNames.has(name); i++) {
+      name = `role-${i}`
+    }
+
+    setSemanticTokens(prev => [...prev, {
+      id: generateId(),
+      name,
+      light: { paletteId, step: 6 }
+    }])
+  }
+
+  // Seed the standard roles (surface, text, border, accent, ...)
+  const handleAddDefaultSemanticTokens = () => {
+    setSemanticTokens(prev => [...prev, ...createDefaultSemanticTokens(palettes)])
+  }
+
+  const handleUpdateSemanticToken = (tokenId: string, updates: Partial<SemanticToken>) => {
+    setSemanticTokens(prev => prev.map(token =>
+      token.id === tokenId ? { ...token, ...updates } : token
+    ))
+  }
+
+  const handleDeleteSemanticToken = (tokenId: string) => {
+    setSemanticTokens(prev => prev.filter(token => token.id !== tokenId))
+  }
+
+  return {
+    semanticTokenIssues,
+    handleAddSemanticToken,
+    handleAddDefaultSemanticTokens,
+    handleUpdateSemanticToken,
+    handleDeleteSemanticToken
+  }
+}
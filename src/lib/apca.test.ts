@@ -0,0 +1,47 @@
+import { apcaContrast, apcaContrastFromLuminance, apcaLuminance, apcaTextLuminanceForContrast } from './apca';
+import { measureContrast } from './colorGeneration';
+
+describe('apcaContrast', () => {
+  // Reference values published with APCA-W3 0.0.98G-4g
+  it.each([
+    ['#000000', '#ffffff', 106.04067321268862],
+    ['#ffffff', '#000000', -107.88473318309848],
+    ['#888888', '#ffffff', 63.056469930209424],
+    ['#ffffff', '#888888', -68.54146436644962],
+    ['#000000', '#aaaaaa', 58.146262578561334],
+    ['#aaaaaa', '#000000', -56.24113336839742],
+    ['#112233', '#ddeeff', 91.66830811481631],
+    ['#ddeeff', '#112233', -93.06770049484275]
+  ])('gives Lc of %s on %s', (text, background, expected) => {
+    expect(apcaContrast(text, background)).toBeCloseTo(expected, 6);
+  });
+
+  it('is zero for identical and near-identical colors', () => {
+    expect(apcaContrast('#777777', '#777777')).toBe(0);
+    expect(apcaContrast('#777777', '#787878')).toBe(0);
+  });
+
+  it('treats unparseable colors as black', () => {
+    expect(apcaLuminance('not a color')).toBe(0);
+  });
+});
+
+describe('apcaTextLuminanceForContrast', () => {
+  it.each([
+    ['#ffffff', 60, true],
+    ['#ffffff', 90, true],
+    ['#000000', 45, false],
+    ['#336699', 30, false]
+  ])('inverts Lc on %s for a target of %s', (background, target, darkText) => {
+    const backgroundY = apcaLuminance(background);
+    const textY = apcaTextLuminanceForContrast(target, backgroundY, darkText);
+    expect(Math.abs(apcaContrastFromLuminance(textY, backgroundY))).toBeCloseTo(target, 6);
+  });
+});
+
+describe('measureContrast with APCA', () => {
+  it('reports the magnitude of Lc in either polarity', () => {
+    expect(measureContrast('#ffffff', '#000000', 'apca')).toBeCloseTo(107.88, 2);
+    expect(measureContrast('#000000', '#ffffff', 'apca')).toBeCloseTo(106.04, 2);
+  });
+});
@@ -0,0 +1,111 @@
+import { rgb, parse, Color } from 'culori';
+
+/**
+ * APCA (Accessible Perceptual Contrast Algorithm) as proposed for WCAG 3.
+ * Implements APCA-W3 0.0.98G-4g for sRGB colors.
+ *
+ * Lc values are signed: positive for dark text on a light background (BoW),
+ * negative for light text on a dark background (WoB).
+ */
+
+// sRGB coefficients and exponents (0.0.98G-4g constants)
+const MAIN_TRC = 2.4;
+const SR_CO = 0.2126729;
+const SG_CO = 0.7151522;
+const SB_CO = 0.0721750;
+
+const NORM_BG = 0.56;
+const NORM_TXT = 0.57;
+const REV_TXT = 0.62;
+const REV_BG = 0.65;
+
+const BLK_THRS = 0.022;
+const BLK_CLMP = 1.414;
+const SCALE_BOW = 1.14;
+const SCALE_WOB = 1.14;
+const LO_BOW_OFFSET = 0.027;
+const LO_WOB_OFFSET = 0.027;
+const DELTA_Y_MIN = 0.0005;
+const LO_CLIP = 0.1;
+
+/**
+ * Minimum Lc levels used for pass/fail style compliance (APCA bronze simple mode)
+ */
+export const APCA_THRESHOLDS = {
+  bodyPreferred: 90,
+  body: 75,
+  large: 60,
+  spot: 45,
+  nonText: 30
+};
+
+/**
+ * Maximum |Lc| reachable in either polarity (black on white / white on black)
+ */
+export const APCA_MAX_LC = 108;
+
+function toColor(color: string | Color): Color | undefined {
+  return typeof color === 'string' ? parse(color) : color;
+}
+
+/**
+ * Estimated screen luminance (APCA Y) for a color; out-of-gamut channels are clamped to sRGB
+ */
+export function apcaLuminance(color: string | Color): number {
+  const parsed = toColor(color);
+  const rgbColor = parsed ? rgb(parsed) : undefined;
+  if (!rgbColor) return 0;
+
+  const channel = (value: number) => Math.pow(Math.max(0, Math.min(1, value)), MAIN_TRC);
+  return SR_CO * channel(rgbColor.r) + SG_CO * channel(rgbColor.g) + SB_CO * channel(rgbColor.b);
+}
+
+/**
+ * APCA lightness contrast (Lc) from text and background luminance
+ */
+export function apcaContrastFromLuminance(textY: number, backgroundY: number): number {
+  if (isNaN(textY) || isNaN(backgroundY)) return 0;
+
+  // Soft clamp near black
+  const txt = textY > BLK_THRS ? textY : textY + Math.pow(BLK_THRS - textY, BLK_CLMP);
+  const bg = backgroundY > BLK_THRS ? backgroundY : backgroundY + Math.pow(BLK_THRS - backgroundY, BLK_CLMP);
+
+  if (Math.abs(bg - txt) < DELTA_Y_MIN) return 0;
+
+  let output: number;
+  if (bg > txt) {
+    // Normal polarity: dark text on light background
+    const sapc = (Math.pow(bg, NORM_BG) - Math.pow(txt, NORM_TXT)) * SCALE_BOW;
+    output = sapc < LO_CLIP ? 0 : sapc - LO_BOW_OFFSET;
+  } else {
+    // Reverse polarity: light text on dark background
+    const sapc = (Math.pow(bg, REV_BG) - Math.pow(txt, REV_TXT)) * SCALE_WOB;
+    output = sapc > -LO_CLIP ? 0 : sapc + LO_WOB_OFFSET;
+  }
+
+  return output * 100;
+}
+
+/**
+ * Signed APCA Lc for a text color rendered on a background color
+ */
+export function apcaContrast(textColor: string | Color, backgroundColor: string | Color): number {
+  return apcaContrastFromLuminance(apcaLuminance(textColor), apcaLuminance(backgroundColor));
+}
+
+/**
+ * Closed-form inverse of APCA for achromatic text: the text luminance that yields |Lc| = target
+ * against a background of the given luminance, in the requested polarity
+ */
+export function apcaTextLuminanceForContrast(targetLc: number, backgroundY: number, darkText: boolean): number {
+  const target = Math.abs(targetLc) / 100;
+  const bg = backgroundY > BLK_THRS ? backgroundY : backgroundY + Math.pow(BLK_THRS - backgroundY, BLK_CLMP);
+
+  if (darkText) {
+    const base = Math.pow(bg, NORM_BG) - (target + LO_BOW_OFFSET) / SCALE_BOW;
+    return base <= 0 ? 0 : Math.min(1, Math.pow(base, 1 / NORM_TXT));
+  }
+
+  const base = Math.pow(bg, REV_BG) + (target + LO_WOB_OFFSET) / SCALE_WOB;
+  return Math.min(1, Math.pow(base, 1 / REV_TXT));
+}
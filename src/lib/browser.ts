@@ -0,0 +1,106 @@
+import { Palette, SemanticToken } from '../types';
+import { exportPalettes } from './colorGeneration';
+import { migratePaletteControls } from './migration';
+
+// Browser-only helpers (clipboard, localStorage, file downloads).
+// Kept out of colorGeneration.ts so the palette engine stays DOM-free.
+
+/**
+ * Copy text to clipboard
+ */
+export async function copyToClipboard(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (err) {
+    console.error('Failed to copy text to clipboard:', err);
+    return false;
+  }
+}
+
+/**
+ * Save palettes to local storage
+ */
+export function savePalettesToStorage(palettes: Palette[], activePaletteId: string, semanticTokens: SemanticToken[] = []) {
+  try {
+    const data = {
+      palettes,
+      activePaletteId,
+      semanticTokens,
+      savedAt: new Date().toISOString()
+    };
+    localStorage.setItem('ads-color-generator-palettes', JSON.stringify(data));
+  } catch (error) {
+    console.error('Failed to save palettes to localStorage:', error);
+  }
+}
+
+/**
+ * Load palettes from local storage
+ */
+export function loadPalettesFromStorage(): { palettes: Palette[], activePaletteId: string, semanticTokens: SemanticToken[] } | null {
+  try {
+    const data = localStorage.getItem('ads-color-generator-palettes');
+    if (!data) return null;
+    
+    const parsed = JSON.parse(data);
+    
+    // Convert date strings back to Date objects and ensure all properties exist
+    const palettes = parsed.palettes.map((palette: any) => ({
+      ...palette,
+      createdAt: new Date(palette.createdAt),
+      updatedAt: new Date(palette.updatedAt),
+      // Apply migration if needed
+      controls: migratePaletteControls(palette.controls || {})
+    }));
+    
+    return {
+      palettes,
+      activePaletteId: parsed.activePaletteId,
+      semanticTokens: Array.isArray(parsed.semanticTokens) ? parsed.semanticTokens : []
+    };
+  } catch (error) {
+    console.error('Failed to load palettes from localStorage:', error);
+    return null;
+  }
+}
+
+/**
+ * Clear palettes from local storage
+ */
+export function clearPalettesFromStorage() {
+  try {
+    localStorage.removeItem('ads-color-generator-palettes');
+  } catch (error) {
+    console.error('Failed to clear palettes from localStorage:', error);
+  }
+}
+
+/**
+ * Download palettes as JSON file
+ */
+export function downloadPalettes(palettes: Palette[], activePaletteId: string, filename: string = 'color-palettes.json', semanticTokens: SemanticToken[] = []) {
+  downloadTextFile(exportPalettes(palettes, activePaletteId, semanticTokens), filename);
+}
+
+/**
+ * Download arbitrary text content as a file
+ */
+export function downloadTextFile(content: string, filename: string, mimeType: string = 'application/json') {
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
+}
+
+/**
+ * Download a blob (e.g. a generated zip archive) as a file
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
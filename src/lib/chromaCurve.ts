@@ -0,0 +1,32 @@
+import { CurvePoint } from '../types';
+import { evaluateMonotoneSpline, sanitizeCurvePoints } from './curves';
+
+/**
+ * Custom chroma curve: user-editable control points interpolated with a monotone spline.
+ *
+ * x is the normalized step position (0 = step 1, 1 = step 11) and y the chroma factor
+ * (0 = minChroma, 1 = maxChroma).
+ */
+
+// Bell shape peaking slightly past the middle, close to the default Gaussian curve
+export const DEFAULT_CHROMA_CURVE_POINTS: CurvePoint[] = [
+  { x: 0, y: 0 },
+  { x: 0.3, y: 0.55 },
+  { x: 0.55, y: 1 },
+  { x: 0.8, y: 0.55 },
+  { x: 1, y: 0 }
+];
+
+/**
+ * Validate custom chroma curve points (factors are clamped to 0-1)
+ */
+export function sanitizeChromaCurvePoints(points: unknown): CurvePoint[] | null {
+  return sanitizeCurvePoints(points, 0, 1);
+}
+
+/**
+ * Chroma factor (0-1) of the custom curve at position x (0-1)
+ */
+export function evaluateChromaCurve(points: CurvePoint[], x: number): number {
+  return Math.max(0, Math.min(1, evaluateMonotoneSpline(points, x)));
+}
@@ -0,0 +1,521 @@
+import { solveContrastLightness, solveContrastConstraints, generatePalette, generatePalettes, generateDarkPalette, createNewPalette, solveSelfReferencedPalette, SELF_REFERENCE_TOLERANCE, measureContrast, calculateChromaAwareLightness, clampColorToGamut, computeContrastMatrix, mirrorContrastTargets, DEFAULT_DARK_BACKGROUND } from './colorGeneration';
+import { clearGenerationCache, getGenerationCacheSize, getOrGeneratePalette, GENERATION_CACHE_SIZE } from './generationCache';
+import { calculateNeighborDeltas } from './deltaE';
+import { defaultControls } from './presets';
+import { Palette, PaletteControls } from '../types';
+
+const WCAG_TOLERANCE = 0.01;
+const APCA_TOLERANCE = 0.1;
+
+describe('solveContrastLightness', () => {
+  describe('white background', () => {
+    it.each([3, 4.5, 7, 12, 18])('reaches %s:1 with a darker foreground', target => {
+      const solution = solveContrastLightness(target, '#ffffff', 0.12, 250);
+      expect(solution.status).toBe('met');
+      expect(solution.polarity).toBe('darker');
+      expect(Math.abs(solution.contrast - target)).toBeLessThanOrEqual(WCAG_TOLERANCE);
+    });
+
+    it('reports targets above 21:1 as unreachable with the achievable maximum', () => {
+      const solution = solveContrastLightness(22, '#ffffff', 0, 0);
+      expect(solution.status).toBe('unreachable');
+      expect(solution.lightness).toBe(0);
+      expect(solution.maxContrast).toBeCloseTo(21, 0);
+      expect(solution.contrast).toBe(solution.maxContrast);
+    });
+  });
+
+  describe('black background', () => {
+    // Targets the previous bisection could not converge on
+    it.each([3, 6, 9, 15, 20])('reaches %s:1 with a lighter foreground', target => {
+      const solution = solveContrastLightness(target, '#000000', 0.12, 250);
+      expect(solution.status).toBe('met');
+      expect(solution.polarity).toBe('lighter');
+      expect(Math.abs(solution.contrast - target)).toBeLessThanOrEqual(WCAG_TOLERANCE);
+    });
+
+    it('returns a lightness whose color measures the solved contrast', () => {
+      const lightness = calculateChromaAwareLightness(6, '#000000', 0, 0);
+      const measured = measureContrast({ mode: 'oklch', l: lightness, c: 0, h: 0 }, '#000000');
+      expect(Math.abs(measured - 6)).toBeLessThanOrEqual(WCAG_TOLERANCE);
+    });
+
+    it('reports targets above the maximum as unreachable', () => {
+      const solution = solveContrastLightness(25, '#000000', 0.1, 140);
+      expect(solution.status).toBe('unreachable');
+      expect(solution.lightness).toBe(1);
+      expect(solution.maxContrast).toBeLessThan(25);
+    });
+  });
+
+  describe('mid-gray background', () => {
+    it('prefers the darker side when it can reach the target', () => {
+      const solution = solveContrastLightness(3, '#777777', 0.05, 30);
+      expect(solution.status).toBe('met');
+      expect(solution.polarity).toBe('darker');
+      expect(Math.abs(solution.contrast - 3)).toBeLessThanOrEqual(WCAG_TOLERANCE);
+    });
+
+    it('switches to the lighter side when only it can reach the target', () => {
+      // Black only reaches ~3.9:1 on #6b6b6b, white ~5.3:1
+      const solution = solveContrastLightness(4.5, '#6b6b6b', 0, 0);
+      expect(solution.status).toBe('met');
+      expect(solution.polarity).toBe('lighter');
+      expect(Math.abs(solution.contrast - 4.5)).toBeLessThanOrEqual(WCAG_TOLERANCE);
+    });
+
+    it('reports targets neither side can reach', () => {
+      const solution = solveContrastLightness(6, '#777777', 0, 0);
+      expect(solution.status).toBe('unreachable');
+      expect(solution.maxContrast).toBeLessThan(6);
+      expect(solution.maxContrast).toBeGreaterThan(4);
+    });
+  });
+
+  describe('chromatic backgrounds', () => {
+    it.each([
+      ['#1e40af', 4.5],
+      ['#b91c1c', 3],
+      ['#fde68a', 7],
+      ['#065f46', 5]
+    ])('reaches the target on %s', (background, target) => {
+      const solution = solveContrastLightness(target, background, 0.1, 200);
+      expect(solution.status).toBe('met');
+      expect(Math.abs(solution.contrast - target)).toBeLessThanOrEqual(WCAG_TOLERANCE);
+    });
+  });
+
+  describe('APCA', () => {
+    it.each([
+      [60, '#ffffff'],
+      [60, '#000000'],
+      [45, '#1e40af']
+    ])('reaches Lc %s on %s', (target, background) => {
+      const solution = solveContrastLightness(target, background, 0.08, 260, 'sRGB', 'apca');
+      expect(solution.status).toBe('met');
+      expect(Math.abs(solution.contrast - target)).toBeLessThanOrEqual(APCA_TOLERANCE);
+    });
+  });
+
+  it.each(['chroma', 'css4', 'minde'] as const)('converges with the %s gamut mapping', strategy => {
+    const solution = solveContrastLightness(4.5, '#000000', 0.3, 145, 'sRGB', 'wcag2', strategy);
+    expect(solution.status).toBe('met');
+    expect(Math.abs(solution.contrast - 4.5)).toBeLessThanOrEqual(WCAG_TOLERANCE);
+  });
+});
+
+describe('solveContrastConstraints', () => {
+  it('keeps the exact target when the other minimums already hold', () => {
+    const solution = solveContrastConstraints(
+      [{ background: '#ffffff', target: 7 }, { background: '#f4f4f5', target: 4.5 }],
+      0.1,
+      250
+    );
+    expect(solution.status).toBe('met');
+    expect(solution.binding).toBe(0);
+    expect(Math.abs(solution.contrast - 7)).toBeLessThanOrEqual(WCAG_TOLERANCE);
+    expect(solution.contrasts[1]).toBeGreaterThanOrEqual(4.5 - WCAG_TOLERANCE);
+  });
+
+  it('moves to the lightness a stricter surface needs and reports it as binding', () => {
+    const solution = solveContrastConstraints(
+      [{ background: '#ffffff', target: 3 }, { background: '#d4d4d8', target: 3 }],
+      0.1,
+      250
+    );
+    expect(solution.status).toBe('met');
+    expect(solution.binding).toBe(1);
+    expect(solution.polarity).toBe('darker');
+    expect(solution.contrast).toBeGreaterThan(3);
+    expect(Math.abs(solution.contrasts[1] - 3)).toBeLessThanOrEqual(WCAG_TOLERANCE);
+  });
+
+  it('crosses to the other side of the background when only it meets every surface', () => {
+    // Darker than #777777 the step cannot also reach 10:1 on black
+    const solution = solveContrastConstraints(
+      [{ background: '#777777', target: 1.5 }, { background: '#000000', target: 10 }],
+      0,
+      0
+    );
+    expect(solution.status).toBe('met');
+    expect(solution.polarity).toBe('lighter');
+    expect(solution.binding).toBe(1);
+    expect(solution.contrasts[0]).toBeGreaterThanOrEqual(1.5 - WCAG_TOLERANCE);
+    expect(Math.abs(solution.contrasts[1] - 10)).toBeLessThanOrEqual(WCAG_TOLERANCE);
+  });
+
+  it('reports a conflict and keeps the exact target when no lightness meets every surface', () => {
+    const solution = solveContrastConstraints(
+      [{ background: '#ffffff', target: 4.5 }, { background: '#000000', target: 12 }],
+      0.1,
+      250
+    );
+    expect(solution.status).toBe('conflict');
+    expect(Math.abs(solution.contrast - 4.5)).toBeLessThanOrEqual(WCAG_TOLERANCE);
+    expect(solution.contrasts[1]).toBeLessThan(12);
+  });
+});
+
+describe('generatePalette contrast status', () => {
+  const controlsOn = (backgroundColor: string, contrastTargets?: Record<string, number>): PaletteControls => ({
+    ...defaultControls,
+    backgroundColor,
+    contrastTargets: { ...defaultControls.contrastTargets, ...contrastTargets }
+  });
+
+  it.each(['#ffffff', '#000000', '#808080', '#1e3a8a'])('meets reachable targets on %s', background => {
+    const colors = generatePalette(controlsOn(background), { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    colors.filter(color => color.contrastStatus === 'met').forEach(color => {
+      const target = defaultControls.contrastTargets[color.step.toString()];
+      expect(Math.abs(color.contrast - target)).toBeLessThanOrEqual(0.05);
+    });
+  });
+
+  it('marks unreachable steps with their achievable maximum', () => {
+    const colors = generatePalette(controlsOn('#808080', { '11': 12 }), { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    const step = colors.find(color => color.step === 11)!;
+    expect(step.contrastStatus).toBe('unreachable');
+    expect(step.maxContrast).toBeLessThan(12);
+    expect(step.contrast).toBeCloseTo(step.maxContrast!, 1);
+  });
+
+  it('reports the binding constraint on steps with extra surfaces', () => {
+    const controls = { ...controlsOn('#ffffff'), contrastConstraints: { '6': [{ background: '#e4e4e7', minContrast: 4.5 }] } };
+    const step = generatePalette(controls, { gamutMode: 'sRGB' }, { mode: 'contrast' }).find(color => color.step === 6)!;
+    expect(step.contrastStatus).toBe('met');
+    expect(step.contrastConstraints).toHaveLength(2);
+    expect(step.contrastConstraints![0]).toMatchObject({ background: '#ffffff', met: true, binding: false });
+    expect(step.contrastConstraints![1]).toMatchObject({ background: '#e4e4e7', met: true, binding: true });
+  });
+
+  it('leaves the status unset outside the contrast mode', () => {
+    const colors = generatePalette(controlsOn('#ffffff'), { gamutMode: 'sRGB' }, { mode: 'range' });
+    expect(colors.every(color => color.contrastStatus === undefined)).toBe(true);
+  });
+});
+
+describe('generatePalettes', () => {
+  const paletteOf = (id: string, controls: Partial<PaletteControls>): Palette => ({
+    id,
+    name: id,
+    controls: { ...defaultControls, ...controls },
+    colors: [],
+    createdAt: new Date(0),
+    updatedAt: new Date(0)
+  });
+
+  it('solves palettes against live steps of the palettes they reference', () => {
+    const neutral = paletteOf('neutral', { baseHue: 260, backgroundColor: '#ffffff' });
+    const accent = paletteOf('accent', { baseHue: 30, backgroundColor: 'neutral:2' });
+    // Referencing palette listed first: generation order follows the references, not the list
+    const generated = generatePalettes([accent, neutral], { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    const surface = generated.neutral.find(color => color.step === 2)!.css;
+
+    generated.accent.filter(color => color.contrastStatus === 'met').forEach(color => {
+      expect(measureContrast(color.css, surface)).toBeCloseTo(color.contrast, 1);
+    });
+
+    // Editing the referenced ramp reflows the referencing palette
+    const darkerNeutral = { ...neutral, controls: { ...neutral.controls, contrastTargets: { ...neutral.controls.contrastTargets, '2': 2.5 } } };
+    const regenerated = generatePalettes([accent, darkerNeutral], { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    expect(regenerated.accent.find(color => color.step === 6)!.css).not.toBe(generated.accent.find(color => color.step === 6)!.css);
+  });
+
+  it('resolves references in extra contrast constraints', () => {
+    const neutral = paletteOf('neutral', {});
+    const accent = paletteOf('accent', { contrastConstraints: { '6': [{ background: 'neutral:3', minContrast: 4.5 }] } });
+    const step = generatePalettes([accent, neutral], { gamutMode: 'sRGB' }, { mode: 'contrast' }).accent.find(color => color.step === 6)!;
+    expect(step.contrastConstraints![1]).toMatchObject({ background: 'neutral:3', met: true });
+  });
+
+  it('reports reference cycles and falls back instead of recursing', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const first = paletteOf('first', { backgroundColor: 'second:2' });
+    const second = paletteOf('second', { backgroundColor: 'first:2' });
+    const generated = generatePalettes([first, second], { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    expect(Object.keys(generated).sort()).toEqual(['first', 'second']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('cycle'));
+    warn.mockRestore();
+  });
+});
+
+describe('self-referenced backgrounds', () => {
+  const controlsOn = (backgroundColor: string, selfReferenceSurface?: string): PaletteControls => ({ ...defaultControls, backgroundColor, selfReferenceSurface });
+  const SURFACE = '#ece6da';
+
+  it.each([
+    ['palette-1', undefined],
+    ['palette-2', SURFACE],
+    ['palette-11', SURFACE],
+    ['palette-3', '#1e293b']
+  ])('solves the other steps against the palette\'s own %s on %s', (background, surfaceColor) => {
+    const colors = generatePalette(controlsOn(background, surfaceColor), { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    const surface = colors.find(color => color.step === parseInt(background.slice('palette-'.length), 10))!;
+    expect(surface.selfReference!.status).toBe('converged');
+    expect(surface.selfReference!.residual).toBeLessThanOrEqual(SELF_REFERENCE_TOLERANCE);
+    // Hex rounding moves the measured contrast slightly at the high end
+    colors.filter(color => color.contrastStatus === 'met' && color !== surface).forEach(color => {
+      expect(Math.abs(measureContrast(color.css, surface.css) - color.contrast)).toBeLessThanOrEqual(0.1);
+    });
+  });
+
+  it('keeps the referenced step\'s own target against the surface it sits on', () => {
+    [undefined, SURFACE].forEach(surfaceColor => {
+      const controls = { ...controlsOn('palette-2', surfaceColor), contrastConstraints: { '2': [{ background: '#000000', minContrast: 1.1 }] } };
+      const step = generatePalette(controls, { gamutMode: 'sRGB' }, { mode: 'contrast' }).find(color => color.step === 2)!;
+      expect(measureContrast(step.css, surfaceColor || '#ffffff')).toBeCloseTo(1.3, 1);
+      expect(step.contrastConstraints![0]).toMatchObject({ background: surfaceColor || '#ffffff', met: true });
+    });
+  });
+
+  it('resolves a surface on another palette\'s step', () => {
+    const neutral = generatePalette(controlsOn('#ffffff'), { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    const colors = generatePalettes([
+      { ...createNewPalette('Accent', controlsOn('palette-2', 'neutral:3')), id: 'accent' },
+      { ...createNewPalette('Neutral', controlsOn('#ffffff')), id: 'neutral' }
+    ], { gamutMode: 'sRGB' }, { mode: 'contrast' }).accent;
+    const step = colors.find(color => color.step === 2)!;
+    expect(measureContrast(step.css, neutral.find(color => color.step === 3)!.css)).toBeCloseTo(1.3, 1);
+  });
+
+  it('settles in one pass without anchors', () => {
+    [undefined, SURFACE].forEach(surfaceColor => {
+      const solution = solveSelfReferencedPalette(controlsOn('palette-6', surfaceColor), { gamutMode: 'sRGB' }, { mode: 'contrast' });
+      expect(solution).toMatchObject({ status: 'converged', iterations: 1 });
+    });
+  });
+
+  it('iterates when an anchor bends the referenced step against the background', () => {
+    const controls = { ...controlsOn('palette-6', SURFACE), anchors: { '7': '#ff0000' } };
+    const solution = solveSelfReferencedPalette(controls, { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    expect(solution.status).toBe('converged');
+    expect(solution.iterations).toBeGreaterThan(1);
+    expect(solution.residual).toBeLessThanOrEqual(SELF_REFERENCE_TOLERANCE);
+    // The background the other steps were solved against is the step the palette ends up with
+    const surface = solution.colors.find(color => color.step === 6)!;
+    const step8 = solution.colors.find(color => color.step === 8)!;
+    expect(Math.abs(measureContrast(step8.css, surface.css) - step8.contrast)).toBeLessThanOrEqual(0.1);
+  });
+
+  it('reports an oscillating reference as diverged', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const controls = { ...controlsOn('palette-3'), anchors: { '4': '#ff0000' } };
+    const solution = solveSelfReferencedPalette(controls, { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    expect(solution.status).toBe('diverged');
+    expect(solution.residual).toBeGreaterThan(SELF_REFERENCE_TOLERANCE);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('did not converge'));
+    warn.mockRestore();
+  });
+
+  it('reports divergence when the iteration limit is reached', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const solution = solveSelfReferencedPalette(controlsOn('palette-2'), { gamutMode: 'sRGB' }, { mode: 'contrast' }, undefined, 0);
+    expect(solution.status).toBe('diverged');
+    expect(solution.colors.find(color => color.step === 2)!.selfReference?.status).toBe('diverged');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('did not converge'));
+    warn.mockRestore();
+  });
+});
+
+describe('generation cache', () => {
+  it('returns the same palette for the same controls and settings', () => {
+    const first = generatePalette({ ...defaultControls }, { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    const second = generatePalette({ ...defaultControls }, { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    expect(second).toBe(first);
+    expect(generatePalette({ ...defaultControls }, { gamutMode: 'P3' }, { mode: 'contrast' })).not.toBe(first);
+    expect(generatePalette({ ...defaultControls, baseHue: 10 }, { gamutMode: 'sRGB' }, { mode: 'contrast' })).not.toBe(first);
+  });
+
+  it('regenerates when a referenced palette changes', () => {
+    const controls = { ...defaultControls, backgroundColor: 'neutral:2' };
+    const neutral = generatePalette({ ...defaultControls, baseHue: 260 }, { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    const darker = generatePalette({ ...defaultControls, baseHue: 260, contrastTargets: { ...defaultControls.contrastTargets, '2': 2 } }, { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    const first = generatePalette(controls, { gamutMode: 'sRGB' }, { mode: 'contrast' }, undefined, { neutral });
+    expect(generatePalette(controls, { gamutMode: 'sRGB' }, { mode: 'contrast' }, undefined, { neutral: [...neutral] })).toBe(first);
+    expect(generatePalette(controls, { gamutMode: 'sRGB' }, { mode: 'contrast' }, undefined, { neutral: darker })).not.toBe(first);
+  });
+
+  it('evicts the least recently used entries beyond its size', () => {
+    clearGenerationCache();
+    for (let hue = 0; hue < GENERATION_CACHE_SIZE + 10; hue++) {
+      getOrGeneratePalette(`hue-${hue}`, () => []);
+    }
+    expect(getGenerationCacheSize()).toBe(GENERATION_CACHE_SIZE);
+  });
+});
+
+describe('clampColorToGamut', () => {
+  it.each(['chroma', 'css4'] as const)('keeps a mapped chroma of zero with the %s strategy', strategy => {
+    // At constant zero lightness only black fits, so the mapped color is fully desaturated
+    const mapped = clampColorToGamut({ l: 0, c: 0.2, h: 30 }, 'sRGB', strategy);
+    expect(mapped.clamped).toBe(true);
+    expect(mapped.c).toBeCloseTo(0, 3);
+    expect(mapped.deltaE).toBeCloseTo(20, 0);
+  });
+});
+
+describe('anchors', () => {
+  const coreLightness = (colors: ReturnType<typeof generatePalette>) =>
+    colors.filter(color => Number.isInteger(color.step) && color.step >= 1 && color.step <= 11).map(color => color.lightness);
+
+  it.each([
+    ['3', '#0052cc', 'contrast'],
+    ['9', '#ffe0e0', 'contrast'],
+    ['6', '#ff0000', 'uniform'],
+    ['3', '#0052cc', 'range']
+  ] as const)('keeps the ramp monotonic around an anchor of step %s at %s in the %s mode', (step, anchor, mode) => {
+    const colors = generatePalette({ ...defaultControls, anchors: { [step]: anchor } }, { gamutMode: 'sRGB' }, { mode });
+    expect(colors.find(color => color.step === Number(step))!.css).toBe(anchor);
+    const lightness = coreLightness(colors);
+    lightness.slice(1).forEach((l, index) => expect(l).toBeLessThan(lightness[index]));
+  });
+
+  it('leaves the ramp unchanged for an anchor on its own derived color', () => {
+    const controls = { ...defaultControls, baseHue: 250 };
+    const colors = generatePalette(controls, { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    const anchored = generatePalette({ ...controls, anchors: { '6': colors.find(color => color.step === 6)!.css } }, { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    coreLightness(anchored).forEach((l, index) => expect(l).toBeCloseTo(coreLightness(colors)[index], 2));
+  });
+});
+
+describe('computeContrastMatrix', () => {
+  const colors = generatePalette(defaultControls, { gamutMode: 'sRGB' }, { mode: 'contrast' });
+  const core = colors.filter(color => color.step >= 1 && color.step <= 11);
+  const white = colors.find(color => color.step === 0)!;
+  const black = colors.find(color => color.step === 12)!;
+
+  it('has a row per foreground and a column per background', () => {
+    const matrix = computeContrastMatrix(core, [white, black]);
+    expect(matrix).toHaveLength(core.length);
+    matrix.forEach((row, index) => {
+      expect(row.map(cell => cell.background.step)).toEqual([0, 12]);
+      row.forEach(cell => expect(cell.foreground).toBe(core[index]));
+    });
+  });
+
+  it('measures each pair with the chosen algorithm', () => {
+    computeContrastMatrix(core, core, 'apca').flat().forEach(cell => {
+      expect(cell.result.algorithm).toBe('apca');
+      expect(Math.abs(cell.result.ratio - Math.abs(measureContrast(cell.foreground.css, cell.background.css, 'apca')))).toBeLessThan(0.5);
+    });
+  });
+
+  it('is symmetric for WCAG 2 and fails a step on itself', () => {
+    const matrix = computeContrastMatrix(core, core);
+    matrix.forEach((row, i) => row.forEach((cell, j) => expect(cell.result.ratio).toBeCloseTo(matrix[j][i].result.ratio, 5)));
+    matrix.forEach((row, i) => expect(row[i]).toMatchObject({ level: 'Fail', result: { ratio: 1 } }));
+  });
+
+  it.each(['wcag2', 'apca'] as const)('grades black on white as AAA in %s', algorithm => {
+    const [[cell]] = computeContrastMatrix([black], [white], algorithm);
+    expect(cell.level).toBe('AAA');
+  });
+
+  it('grades higher contrast at the same or a higher level', () => {
+    const ranks = ['Fail', 'AA Large', 'AA', 'AAA'];
+    const cells = computeContrastMatrix(core, [white, black]).flat().sort((a, b) => a.result.ratio - b.result.ratio);
+    cells.slice(1).forEach((cell, index) => expect(ranks.indexOf(cell.level)).toBeGreaterThanOrEqual(ranks.indexOf(cells[index].level)));
+    expect(new Set(cells.map(cell => cell.level)).size).toBeGreaterThan(2);
+  });
+});
+
+describe('uniform lightness', () => {
+  const vivid: PaletteControls = { ...defaultControls, baseHue: 145, minChroma: 0.3, maxChroma: 0.37, chromaMode: 'curve' };
+  const core = (colors: ReturnType<typeof generatePalette>) =>
+    colors.filter(color => Number.isInteger(color.step) && color.step >= 1 && color.step <= 11);
+
+  // Neighbouring deltas within 5% of their mean
+  const expectEvenlySpaced = (deltas: number[]) => {
+    const mean = deltas.reduce((sum, delta) => sum + delta, 0) / deltas.length;
+    deltas.forEach(delta => expect(Math.abs(delta - mean)).toBeLessThan(mean * 0.05));
+  };
+
+  it.each([
+    ['oklab', defaultControls],
+    ['oklab', vivid],
+    ['ciede2000', defaultControls],
+    ['ciede2000', vivid]
+  ] as const)('spaces core steps the same %s deltaE apart', (metric, controls) => {
+    const colors = generatePalette(controls, { gamutMode: 'sRGB' }, { mode: 'uniform', deltaEMetric: metric });
+    expectEvenlySpaced(calculateNeighborDeltas(core(colors), metric).map(delta => delta.deltaE));
+  });
+
+  it.each([
+    ['3', '#0052cc'],
+    ['8', '#1e3a8a']
+  ])('spaces the steps evenly on each side of an anchor of step %s at %s', (step, anchor) => {
+    const colors = generatePalette({ ...defaultControls, anchors: { [step]: anchor } }, { gamutMode: 'sRGB' }, { mode: 'uniform' });
+    const deltas = calculateNeighborDeltas(core(colors));
+    expect(colors.find(color => color.step === Number(step))!.css).toBe(anchor);
+    expectEvenlySpaced(deltas.filter(delta => delta.to <= Number(step)).map(delta => delta.deltaE));
+    expectEvenlySpaced(deltas.filter(delta => delta.from >= Number(step)).map(delta => delta.deltaE));
+  });
+});
+
+describe('dark variants', () => {
+  const steps = [0, 0.25, 0.5, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 11.5, 12];
+  const neutral: Palette = {
+    ...createNewPalette('Neutral', { ...defaultControls, baseHue: 260, maxChroma: 0.02, steps }),
+    darkVariant: { enabled: true, backgroundColor: DEFAULT_DARK_BACKGROUND }
+  };
+
+  it('runs from black to white through fractional steps on a dark surface', () => {
+    const colors = generateDarkPalette(neutral, { gamutMode: 'sRGB' }, { mode: 'contrast' })!;
+    expect(colors.map(color => color.step)).toEqual(steps);
+    expect(colors[0].css).toBe('#000000');
+    expect(colors[colors.length - 1].css).toBe('#ffffff');
+    colors.slice(1).forEach((color, index) => expect(color.lightness).toBeGreaterThan(colors[index].lightness));
+  });
+
+  it('keeps the light ramp running from white to black', () => {
+    const colors = generatePalette(neutral.controls, { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    expect(colors[0].css).toBe('#ffffff');
+    expect(colors[colors.length - 1].css).toBe('#000000');
+    colors.slice(1).forEach((color, index) => expect(color.lightness).toBeLessThan(colors[index].lightness));
+  });
+});
+
+describe('mirrorContrastTargets', () => {
+  const targets = { '1': 1, '3': 1.5, '6': 4.5, '11': 21 };
+
+  it('keeps the targets from white onto black, where both allow the same contrast', () => {
+    expect(mirrorContrastTargets(targets, '#ffffff', '#000000')).toEqual(targets);
+  });
+
+  it('scales the targets onto a dark background between no contrast and white text', () => {
+    const mirrored = mirrorContrastTargets(targets, '#ffffff', DEFAULT_DARK_BACKGROUND);
+    const darkMax = measureContrast('#ffffff', DEFAULT_DARK_BACKGROUND, 'wcag2');
+    expect(mirrored['1']).toBe(1);
+    expect(mirrored['11']).toBeCloseTo(darkMax, 2);
+    expect(mirrored['6']).toBeCloseTo(1 + 3.5 * (darkMax - 1) / 20, 2);
+    expect(mirrored['3']).toBeLessThan(mirrored['6']);
+  });
+
+  it('scales from a tinted light background by its own range', () => {
+    const lightMax = measureContrast('#000000', '#f1ede4', 'wcag2');
+    const mirrored = mirrorContrastTargets({ '11': lightMax }, '#f1ede4', '#000000');
+    expect(mirrored['11']).toBe(21);
+  });
+
+  it('scales APCA targets from zero', () => {
+    const mirrored = mirrorContrastTargets({ '1': 0, '6': 60 }, '#ffffff', DEFAULT_DARK_BACKGROUND, 'apca');
+    const ratio = measureContrast('#ffffff', DEFAULT_DARK_BACKGROUND, 'apca') / measureContrast('#000000', '#ffffff', 'apca');
+    expect(mirrored['1']).toBe(0);
+    expect(mirrored['6']).toBeCloseTo(60 * ratio, 1);
+  });
+
+  it('falls back to white and the default dark surface for invalid backgrounds', () => {
+    expect(mirrorContrastTargets(targets, 'nope', 'neutral:3')).toEqual(mirrorContrastTargets(targets, '#ffffff', DEFAULT_DARK_BACKGROUND));
+  });
+
+  it('gives dark variants the contrast the mirrored targets ask for', () => {
+    const palette: Palette = {
+      ...createNewPalette('Blue', { ...defaultControls, baseHue: 250 }),
+      darkVariant: { enabled: true, backgroundColor: DEFAULT_DARK_BACKGROUND }
+    };
+    const mirrored = mirrorContrastTargets(palette.controls.contrastTargets, '#ffffff', DEFAULT_DARK_BACKGROUND);
+    generateDarkPalette(palette, { gamutMode: 'sRGB' }, { mode: 'contrast' })!
+      .filter(color => color.step >= 2 && color.step <= 10 && Number.isInteger(color.step))
+      .forEach(color => expect(Math.abs(measureContrast(color.css, DEFAULT_DARK_BACKGROUND, 'wcag2') - mirrored[color.step.toString()])).toBeLessThan(0.1));
+  });
+});
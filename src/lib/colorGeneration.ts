@@ -1,11 +1,23 @@
-import { oklch, rgb, hsl, wcagContrast, wcagLuminance, formatHex, formatRgb, formatHsl, p3, rec2020, inGamut, clampChroma, interpolate, formatCss, parse } from 'culori';
-import { PaletteControls, PaletteColor, Palette, ColorFormatValue, ContrastResult, ColorGamut, GamutValidation, GamutSettings, LightnessSettings } from '../types';
+import { oklch, rgb, hsl, wcagContrast, wcagLuminance, formatHex, formatRgb, formatHsl, p3, rec2020, inGamut, interpolate, formatCss, parse } from 'culori';
+import { PaletteControls, PaletteColor, Palette, ColorFormatValue, ContrastResult, ColorGamut, GamutValidation, GamutSettings, LightnessSettings, ContrastAlgorithm, ContrastPolarity, DarkModeVariant, SemanticToken, ContrastLevel, ContrastMatrixCell, CurvePoint, GamutMappingStrategy, ContrastStatus, ContrastConstraintResult, SelfReferenceResolution } from '../types';
 import { defaultControls, presets } from './presets';
 import { migratePaletteControls } from './migration';
+import { apcaContrast, apcaTextLuminanceForContrast, APCA_THRESHOLDS } from './apca';
+import { evaluateChromaCurve, DEFAULT_CHROMA_CURVE_POINTS } from './chromaCurve';
+import { applyEasing, MIN_CURVE_POINT_GAP } from './curves';
+import { calculateStepHue } from './hueCurve';
+import { measureDeltaE, DEFAULT_DELTA_E_METRIC } from './deltaE';
+import { formatWideGamutColor, getColorGamutMediaQuery, getWideGamutSupportsQuery } from './wideGamut';
+import { mapToGamut, DEFAULT_GAMUT_MAPPING_STRATEGY } from './gamutMapping';
+import { parsePaletteReference, orderPalettesByReferences, collectReferencedPalettes, formatPaletteReference } from './paletteReferences';
+import { getGenerationCacheKey, getOrGeneratePalette } from './generationCache';
 import defaultPalettesData from '../data/default-palettes.json';
 
+// Default surface used when a dark-mode variant is first enabled
+export const DEFAULT_DARK_BACKGROUND = '#121212';
+
 // Token Studio mapping from step numbers to token names
-const STEP_TO_TOKEN_MAPPING: Record<number, string> = {
+export const STEP_TO_TOKEN_MAPPING: Record<number, string> = {
   0: '100',
   1: '95',
   2: '90',
@@ -60,7 +72,14 @@ function isColorStep(step: number): boolean {
 /**
  * Interpolate between two colors for intermediate steps using Culori's built-in interpolation
  */
-function interpolateColors(color1: PaletteColor, color2: PaletteColor, ratio: number, targetStep: number, gamutMode: 'sRGB' | 'P3' | 'Rec2020' = 'sRGB'): PaletteColor {
+function interpolateColors(
+  color1: PaletteColor,
+  color2: PaletteColor,
+  ratio: number,
+  targetStep: number,
+  gamutMode: 'sRGB' | 'P3' | 'Rec2020' = 'sRGB',
+  mappingStrategy: GamutMappingStrategy = DEFAULT_GAMUT_MAPPING_STRATEGY
+): PaletteColor {
   // Create OKLCH color objects for interpolation
   const oklchColor1 = oklch({
     mode: 'oklch',
@@ -88,7 +107,8 @@ function interpolateColors(color1: PaletteColor, color2: PaletteColor, ratio: nu
   // Apply gamut clamping to prevent hue shifts during RGB conversion
   const clampedResult = clampColorToGamut(
     { l: roundedLightness, c: roundedChroma, h: roundedHue },
-    gamutMode
+    gamutMode,
+    mappingStrategy
   );
   
   // Track if gamut mapping occurred
@@ -124,13 +144,16 @@ function interpolateColors(color1: PaletteColor, color2: PaletteColor, ratio: nu
     css: cssColor,
     contrast: Math.round(contrast * 100) / 100,
     gamutMapped: wasGamutMapped,
+    // Interpolated values before gamut mapping (the css4 and minde strategies also move lightness and hue)
     originalIntended: wasGamutMapped ? {
-      l: clampedResult.l,
-      c: clampedResult.c,
-      h: clampedResult.h
+      l: roundedLightness,
+      c: roundedChroma,
+      h: roundedHue
     } : undefined,
     // Store original calculated chroma (interpolated chroma before gamut clamping)
-    originalCalculatedChroma: roundedChroma
+    originalCalculatedChroma: roundedChroma,
+    wideGamut: getWideGamutColor(clampedResult, gamutMode),
+    gamutMapping: clampedResult.clamped ? { strategy: mappingStrategy, deltaE: clampedResult.deltaE } : undefined
   };
 }
 
@@ -208,12 +231,10 @@ export function findMaxChromaForLightness(
 export function calculateGamutAwareChromaFactor(
   lightness: number,
   hue: number,
-  distance: number,
-  curveType: string,
+  curveFactor: number,
   minChroma: number,
   maxChroma: number,
-  gamut: 'sRGB' | 'P3' | 'Rec2020' = 'sRGB',
-  easing: string = 'none'
+  gamut: 'sRGB' | 'P3' | 'Rec2020' = 'sRGB'
 ): number {
   // Find the maximum available chroma for this lightness/hue combination
   const maxAvailableChroma = findMaxChromaForLightness(lightness, hue, gamut);
@@ -223,8 +244,6 @@ export function calculateGamutAwareChromaFactor(
   const effectiveMinChroma = Math.min(minChroma, effectiveMaxChroma);
   
   // Apply the curve within the effective range
-  const curveFactor = calculateChromaFactor(distance, curveType, easing);
-  
   return effectiveMinChroma + (effectiveMaxChroma - effectiveMinChroma) * curveFactor;
 }
 
@@ -285,18 +304,43 @@ function getLuminance(hexColor: string): number {
   return wcagLuminance(color);
 }
 
+/**
+ * Measure contrast between a foreground and background color with the given algorithm.
+ * Returns the WCAG 2 ratio, or the absolute APCA Lc with the foreground read as text.
+ */
+export function measureContrast(
+  foreground: string | Parameters<typeof wcagContrast>[0],
+  backgroundColor: string,
+  algorithm: ContrastAlgorithm = 'wcag2'
+): number {
+  if (algorithm === 'apca') {
+    return Math.abs(apcaContrast(foreground, backgroundColor));
+  }
+  return wcagContrast(foreground, backgroundColor) || 1;
+}
+
+/**
+ * Default contrast target for a step without an explicit target
+ */
+export function getDefaultContrastTarget(algorithm: ContrastAlgorithm = 'wcag2'): number {
+  return algorithm === 'apca' ? APCA_THRESHOLDS.large : 4.5;
+}
+
 /**
  * Calculate lightness value needed to achieve target contrast ratio
  */
 export function calculateLightnessForContrast(
   targetContrast: number,
-  backgroundColor: string
+  backgroundColor: string,
+  algorithm: ContrastAlgorithm = 'wcag2'
 ): number {
   const backgroundLuminance = getLuminance(backgroundColor);
   
-  // Calculate target luminance using WCAG formula
+  // Calculate target luminance using WCAG formula (or the APCA inverse)
   let targetLuminance: number;
-  if (backgroundLuminance > 0.18) {
+  if (algorithm === 'apca') {
+    targetLuminance = apcaTextLuminanceForContrast(targetContrast, backgroundLuminance, backgroundLuminance > 0.18);
+  } else if (backgroundLuminance > 0.18) {
     // Light background - need darker foreground
     targetLuminance = (backgroundLuminance + 0.05) / targetContrast - 0.05;
   } else {
@@ -314,106 +358,294 @@ export function calculateLightnessForContrast(
   return oklchLightness;
 }
 
+// Background luminance above which foregrounds go darker than the background by default
+// (where black reaches more WCAG contrast than white)
+const POLARITY_LUMINANCE_SPLIT = 0.18;
+
+// Lightness resolution of the contrast minimum in solveContrastLightness
+const SPLIT_PRECISION = 0.002;
+
+/**
+ * How close a solved contrast must land to its target to count as met
+ */
+function getContrastTolerance(algorithm: ContrastAlgorithm = 'wcag2'): number {
+  return algorithm === 'apca' ? 0.1 : 0.01;
+}
+
 /**
- * Calculate lightness value needed to achieve target contrast ratio (chroma-aware)
- * Uses iterative solving to account for chroma's impact on final contrast
+ * The color generated at a lightness: gamut-mapped like the final step, so contrast is tested as rendered
  */
-export function calculateChromaAwareLightness(
+function getGeneratedColorAt(
+  l: number,
+  chroma: number,
+  hue: number,
+  gamutMode: 'sRGB' | 'P3' | 'Rec2020',
+  mappingStrategy: GamutMappingStrategy
+) {
+  const mapped = clampColorToGamut({ l, c: chroma, h: hue }, gamutMode, mappingStrategy);
+  return oklch({ mode: 'oklch', l: mapped.l, c: mapped.c, h: mapped.h });
+}
+
+export interface ContrastSolution {
+  lightness: number;
+  contrast: number;
+  status: ContrastStatus;
+  // Most contrast reachable for this chroma and hue (on the side the solution lies)
+  maxContrast: number;
+  polarity: 'darker' | 'lighter';
+}
+
+/**
+ * Solve the lightness at which a color of the given chroma and hue reaches the target contrast
+ * against the background.
+ *
+ * Contrast falls to its minimum where the foreground luminance equals the background's and rises
+ * on both sides of that point, so each side (darker or lighter foreground) is monotonic and is
+ * bisected separately. The side follows the background (darker text on light backgrounds); the
+ * other side is used when only it can reach the target. When neither can, the solution is the
+ * extreme of the stronger side and is reported as unreachable. Passing a polarity restricts the
+ * solve to that side.
+ */
+export function solveContrastLightness(
   targetContrast: number,
   backgroundColor: string,
   chroma: number,
   hue: number,
   gamutMode: 'sRGB' | 'P3' | 'Rec2020' = 'sRGB',
+  algorithm: ContrastAlgorithm = 'wcag2',
+  mappingStrategy: GamutMappingStrategy = DEFAULT_GAMUT_MAPPING_STRATEGY,
+  polarity?: ContrastSolution['polarity'],
   maxIterations: number = 50,
-  tolerance: number = 0.01
-): number {
-  // Start with the simple calculation as initial guess
-  let lightness = calculateLightnessForContrast(targetContrast, backgroundColor);
-  
-  // If chroma is very low, simple calculation should be accurate enough
-  if (chroma < 0.001) {
-    return lightness;
-  }
-  
-  // Calculate background luminance once and reuse
+  tolerance: number = getContrastTolerance(algorithm)
+): ContrastSolution {
   const backgroundLuminance = getLuminance(backgroundColor);
-  const isLightBackground = backgroundLuminance > 0.18;
-  
-  // Use binary search to find the correct lightness
-  let lowerBound = 0;
-  let upperBound = 1;
-  let iterations = 0;
-  
-  while (iterations < maxIterations) {
-    // Create test color with current lightness and apply gamut clamping immediately
-    const testColorUnclamped = { l: lightness, c: chroma, h: hue };
-    const clampedColor = clampColorToGamut(testColorUnclamped, gamutMode);
-    
-    // Create the actual color that will be used (with clamped values)
-    const testColor = oklch({
-      mode: 'oklch',
-      l: clampedColor.l,
-      c: clampedColor.c,
-      h: clampedColor.h
-    });
-    
-    // Calculate actual contrast with the clamped color
-    const actualContrast = wcagContrast(testColor, backgroundColor) || 1;
-    const contrastDelta = Math.abs(actualContrast - targetContrast);
-    
-    // If we're close enough, return current lightness
-    if (contrastDelta <= tolerance) {
-      return Math.max(0, Math.min(1, lightness));
+  const natural: ContrastSolution['polarity'] = backgroundLuminance > POLARITY_LUMINANCE_SPLIT ? 'darker' : 'lighter';
+  const preferred = polarity ?? natural;
+
+  const colorAt = (l: number) => getGeneratedColorAt(l, chroma, hue, gamutMode, mappingStrategy);
+  const contrastAt = (l: number) => measureContrast(colorAt(l), backgroundColor, algorithm);
+
+  // The closed-form estimate is exact for neutrals and usually close enough for colors
+  // (it always lies on the natural side)
+  const estimate = calculateLightnessForContrast(targetContrast, backgroundColor, algorithm);
+  const estimateContrast = contrastAt(estimate);
+  if (preferred === natural && Math.abs(estimateContrast - targetContrast) <= tolerance) {
+    return {
+      lightness: estimate,
+      contrast: estimateContrast,
+      status: 'met',
+      maxContrast: contrastAt(preferred === 'darker' ? 0 : 1),
+      polarity: preferred
+    };
+  }
+
+  // Lightness where the foreground matches the background luminance (the contrast minimum);
+  // it only bounds the bisection below, so a coarse position is enough
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < maxIterations && high - low > SPLIT_PRECISION; i++) {
+    const mid = (low + high) / 2;
+    if (wcagLuminance(colorAt(mid)) < backgroundLuminance) {
+      low = mid;
+    } else {
+      high = mid;
     }
-    
-    // Adjust search bounds and lightness based on whether we're above or below target
-    if (actualContrast > targetContrast) {
-      // Too much contrast, need to move lightness toward background
-      if (isLightBackground) {
-        // Light background, make foreground lighter
-        lowerBound = lightness;
-        lightness = (lightness + upperBound) / 2;
-      } else {
-        // Dark background, make foreground darker
-        upperBound = lightness;
-        lightness = (lowerBound + lightness) / 2;
-      }
+  }
+  const split = (low + high) / 2;
+
+  const sides = {
+    darker: { from: split, to: 0, maxContrast: contrastAt(0) },
+    lighter: { from: split, to: 1, maxContrast: contrastAt(1) }
+  };
+  const other: ContrastSolution['polarity'] = preferred === 'darker' ? 'lighter' : 'darker';
+  const candidates = polarity ? [polarity] : [preferred, other];
+  const reachable = candidates.find(side => sides[side].maxContrast >= targetContrast - tolerance);
+
+  if (!reachable) {
+    const strongest = polarity ?? (sides.darker.maxContrast >= sides.lighter.maxContrast ? 'darker' : 'lighter');
+    return {
+      lightness: sides[strongest].to,
+      contrast: sides[strongest].maxContrast,
+      status: 'unreachable',
+      maxContrast: sides[strongest].maxContrast,
+      polarity: strongest
+    };
+  }
+
+  // Bisect from the contrast minimum (near) towards the side's extreme (far)
+  const side = sides[reachable];
+  let near = side.from;
+  let far = side.to;
+  // The estimate narrows the bracket when it landed on this side
+  if (reachable === 'darker' ? estimate < split : estimate > split) {
+    if (estimateContrast < targetContrast) {
+      near = estimate;
     } else {
-      // Too little contrast, need to move lightness away from background
-      if (isLightBackground) {
-        // Light background, make foreground darker
-        upperBound = lightness;
-        lightness = (lowerBound + lightness) / 2;
-      } else {
-        // Dark background, make foreground lighter
-        lowerBound = lightness;
-        lightness = (lightness + upperBound) / 2;
+      far = estimate;
+    }
+  }
+  let lightness = far;
+  let contrast = side.maxContrast;
+  for (let i = 0; i < maxIterations; i++) {
+    lightness = (near + far) / 2;
+    contrast = contrastAt(lightness);
+    if (Math.abs(contrast - targetContrast) <= tolerance || Math.abs(far - near) < 1e-6) {
+      break;
+    }
+    if (contrast < targetContrast) {
+      near = lightness;
+    } else {
+      far = lightness;
+    }
+  }
+
+  return {
+    lightness,
+    contrast,
+    status: 'met',
+    maxContrast: side.maxContrast,
+    polarity: reachable
+  };
+}
+
+// A contrast requirement with its background already resolved to a color
+export interface ContrastRequirement {
+  background: string;
+  target: number;
+}
+
+export interface ContrastConstraintSolution extends ContrastSolution {
+  // Contrast against each requirement at the solved lightness, in the order given
+  contrasts: number[];
+  // Index of the requirement that set the lightness (0 = the first, exact target)
+  binding: number;
+}
+
+// Range of lightness over which every requirement so far is met; each end records the requirement
+// that bounds it (-1 for the ends of the lightness axis)
+interface LightnessInterval {
+  low: number;
+  high: number;
+  lowBinding: number;
+  highBinding: number;
+}
+
+function intersectLightnessIntervals(a: LightnessInterval[], b: LightnessInterval[]): LightnessInterval[] {
+  const result: LightnessInterval[] = [];
+  for (const first of a) {
+    for (const second of b) {
+      const lowFromFirst = first.low >= second.low;
+      const highFromFirst = first.high <= second.high;
+      const interval = {
+        low: lowFromFirst ? first.low : second.low,
+        high: highFromFirst ? first.high : second.high,
+        lowBinding: lowFromFirst ? first.lowBinding : second.lowBinding,
+        highBinding: highFromFirst ? first.highBinding : second.highBinding
+      };
+      if (interval.low <= interval.high) {
+        result.push(interval);
       }
     }
-    
-    iterations++;
   }
-  
-  // If we couldn't converge, return the best attempt
-  return Math.max(0, Math.min(1, lightness));
+  return result;
 }
 
 /**
- * Apply easing function to a normalized factor (0-1)
+ * Solve a step's lightness against several backgrounds at once.
+ *
+ * The first requirement is the step's contrast target and is solved exactly; the others are minimums.
+ * Each requirement is met below its darker-side solution and above its lighter-side one, so the
+ * lightness that meets all of them is the intersection of those ranges. The solution is the point of
+ * that intersection closest to the exact target, and the requirement bounding it is reported as
+ * binding. When the ranges do not intersect the exact target is kept and the status is 'conflict'.
  */
-function applyEasing(factor: number, easing: string = 'none'): number {
-  switch (easing) {
-    case 'ease-in':
-      return factor * factor;
-    case 'ease-out':
-      return 1 - Math.pow(1 - factor, 2);
-    case 'ease-in-out':
-      return factor < 0.5 
-        ? 2 * factor * factor 
-        : 1 - Math.pow(-2 * factor + 2, 2) / 2;
-    default:
-      return factor;
+export function solveContrastConstraints(
+  requirements: ContrastRequirement[],
+  chroma: number,
+  hue: number,
+  gamutMode: 'sRGB' | 'P3' | 'Rec2020' = 'sRGB',
+  algorithm: ContrastAlgorithm = 'wcag2',
+  mappingStrategy: GamutMappingStrategy = DEFAULT_GAMUT_MAPPING_STRATEGY
+): ContrastConstraintSolution {
+  const [primary, ...others] = requirements;
+  const solution = solveContrastLightness(primary.target, primary.background, chroma, hue, gamutMode, algorithm, mappingStrategy);
+  const contrastsAt = (l: number) => {
+    const color = getGeneratedColorAt(l, chroma, hue, gamutMode, mappingStrategy);
+    return requirements.map(requirement => measureContrast(color, requirement.background, algorithm));
+  };
+
+  if (others.length === 0 || solution.status === 'unreachable') {
+    return { ...solution, contrasts: [solution.contrast, ...contrastsAt(solution.lightness).slice(1)], binding: 0 };
+  }
+
+  let feasible: LightnessInterval[] = [{ low: 0, high: 1, lowBinding: -1, highBinding: -1 }];
+  requirements.forEach((requirement, index) => {
+    const allowed: LightnessInterval[] = [];
+    const darker = solveContrastLightness(requirement.target, requirement.background, chroma, hue, gamutMode, algorithm, mappingStrategy, 'darker');
+    if (darker.status === 'met') {
+      allowed.push({ low: 0, high: darker.lightness, lowBinding: -1, highBinding: index });
+    }
+    const lighter = solveContrastLightness(requirement.target, requirement.background, chroma, hue, gamutMode, algorithm, mappingStrategy, 'lighter');
+    if (lighter.status === 'met') {
+      allowed.push({ low: lighter.lightness, high: 1, lowBinding: index, highBinding: -1 });
+    }
+    feasible = intersectLightnessIntervals(feasible, allowed);
+  });
+
+  if (feasible.length === 0) {
+    return { ...solution, status: 'conflict', contrasts: contrastsAt(solution.lightness), binding: 0 };
+  }
+
+  // Stay on the exact target when it already meets every minimum, otherwise move to the nearest edge
+  let lightness = solution.lightness;
+  let binding = 0;
+  let distance = Infinity;
+  for (const interval of feasible) {
+    if (solution.lightness >= interval.low - 1e-6 && solution.lightness <= interval.high + 1e-6) {
+      distance = 0;
+      break;
+    }
+    const [edge, edgeBinding] = solution.lightness < interval.low
+      ? [interval.low, interval.lowBinding]
+      : [interval.high, interval.highBinding];
+    if (Math.abs(edge - solution.lightness) < distance) {
+      distance = Math.abs(edge - solution.lightness);
+      lightness = edge;
+      binding = edgeBinding;
+    }
+  }
+
+  if (binding === 0) {
+    return { ...solution, contrasts: [solution.contrast, ...contrastsAt(lightness).slice(1)], binding };
   }
+
+  // Moving away from the exact target can cross to the other side of the background
+  const polarity: ContrastSolution['polarity'] = lightness < solution.lightness ? 'darker' : 'lighter';
+  const contrasts = contrastsAt(lightness);
+  return {
+    lightness,
+    contrast: contrasts[0],
+    status: 'met',
+    maxContrast: polarity === solution.polarity ? solution.maxContrast : contrastsAt(polarity === 'darker' ? 0 : 1)[0],
+    polarity,
+    contrasts,
+    binding
+  };
+}
+
+/**
+ * Calculate lightness value needed to achieve target contrast ratio (chroma-aware)
+ */
+export function calculateChromaAwareLightness(
+  targetContrast: number,
+  backgroundColor: string,
+  chroma: number,
+  hue: number,
+  gamutMode: 'sRGB' | 'P3' | 'Rec2020' = 'sRGB',
+  algorithm: ContrastAlgorithm = 'wcag2',
+  mappingStrategy: GamutMappingStrategy = DEFAULT_GAMUT_MAPPING_STRATEGY
+): number {
+  return solveContrastLightness(targetContrast, backgroundColor, chroma, hue, gamutMode, algorithm, mappingStrategy).lightness;
 }
 
 /**
@@ -462,15 +694,64 @@ function calculateChromaFactor(
   return applyEasing(baseFactor, easing);
 }
 
+/**
+ * Chroma curve factor (0-1) at a normalized step position (0 = step 1, 1 = step 11).
+ * Closed-form curves are measured from the peak; the custom curve is evaluated directly from its control points.
+ */
+export function getChromaCurveFactor(normalizedStep: number, controls: PaletteControls): number {
+  if (controls.chromaCurveType === 'custom') {
+    return evaluateChromaCurve(controls.chromaCurvePoints || DEFAULT_CHROMA_CURVE_POINTS, normalizedStep);
+  }
+  return calculateChromaFactor(
+    Math.abs(normalizedStep - controls.chromaPeak),
+    controls.chromaCurveType || 'gaussian',
+    controls.chromaEasing
+  );
+}
+
+/**
+ * Sample the palette's current curve into control points, so switching to 'custom' keeps its shape
+ */
+export function createCustomCurvePoints(controls: PaletteControls): CurvePoint[] {
+  if (controls.chromaCurveType === 'custom' && controls.chromaCurvePoints) {
+    return controls.chromaCurvePoints;
+  }
+  const positions = [0, 0.25, 0.5, 0.75, 1, controls.chromaPeak]
+    .map(x => Math.max(0, Math.min(1, x)))
+    .sort((a, b) => a - b)
+    .filter((x, i, all) => i === 0 || x - all[i - 1] >= MIN_CURVE_POINT_GAP);
+  return positions.map(x => ({
+    x,
+    y: Math.round(getChromaCurveFactor(x, controls) * 1000) / 1000
+  }));
+}
+
 /**
  * Resolve relative palette background color references
- * Converts "palette-X" values to actual CSS colors from the current palette
+ * Converts "palette-X" values to actual CSS colors from the current palette, and "<paletteId>:X"
+ * values to the colors of other palettes (generated colors by palette id)
  */
 export function resolveBackgroundColor(
   backgroundColor: string, 
   existingPalette?: PaletteColor[], 
-  fallbackColor: string = '#ffffff'
+  fallbackColor: string = '#ffffff',
+  referencedPalettes?: Record<string, PaletteColor[]>
 ): string {
+  const reference = parsePaletteReference(backgroundColor);
+  if (reference) {
+    const referencedColors = referencedPalettes?.[reference.paletteId];
+    if (!referencedColors) {
+      console.warn(`Palette ${reference.paletteId} is not available to resolve ${backgroundColor}. Using fallback: ${fallbackColor}`);
+      return fallbackColor;
+    }
+    const targetColor = referencedColors.find(color => color.step === reference.step);
+    if (!targetColor) {
+      console.warn(`Step ${reference.step} not found in palette ${reference.paletteId} for ${backgroundColor}. Using fallback: ${fallbackColor}`);
+      return fallbackColor;
+    }
+    return targetColor.css;
+  }
+
   // If it's not a relative palette reference, return as-is
   if (!backgroundColor.startsWith('palette-')) {
     // Validate that it's a proper color format using Culori's built-in validation
@@ -521,28 +802,505 @@ export function resolveBackgroundColor(
 /**
  * Generate a complete OKLCH color palette with automatic resolution of relative background colors
  */
-export function generatePalette(controls: PaletteControls, gamutSettings?: { gamutMode: 'sRGB' | 'P3' | 'Rec2020' }, lightnessSettings?: { mode: 'contrast' | 'range' }, existingPalette?: PaletteColor[]): PaletteColor[] {
-  // Handle circular dependency for relative palette references
-  if (controls.backgroundColor.startsWith('palette-') && !existingPalette) {
-    console.warn(`Palette reference ${controls.backgroundColor} requires existing palette. Using fallback: #ffffff`);
-    // Use fallback instead of complex two-pass generation that causes instability
-    const fallbackControls = { ...controls, backgroundColor: '#ffffff' };
-    return generatePaletteInternal(fallbackControls, gamutSettings, lightnessSettings, existingPalette);
+export function generatePalette(
+  controls: PaletteControls,
+  gamutSettings?: GamutSettings,
+  lightnessSettings?: LightnessSettings,
+  existingPalette?: PaletteColor[],
+  referencedPalettes?: Record<string, PaletteColor[]>
+): PaletteColor[] {
+  // Resolving against a caller's palette is a one-off; everything else is shared through the cache
+  if (existingPalette) {
+    return generatePaletteInternal(controls, gamutSettings, lightnessSettings, existingPalette, referencedPalettes);
+  }
+
+  return getOrGeneratePalette(getGenerationCacheKey(controls, gamutSettings, lightnessSettings, referencedPalettes), () =>
+    // A "palette-N" background reads the palette being generated, so solve it as a fixed point
+    parseSelfReference(controls.backgroundColor) !== null
+      ? solveSelfReferencedPalette(controls, gamutSettings, lightnessSettings, referencedPalettes).colors
+      : generatePaletteInternal(controls, gamutSettings, lightnessSettings, undefined, referencedPalettes)
+  );
+}
+
+// Surface the step a "palette-N" background reads sits on when none is set (it cannot contrast with itself)
+const DEFAULT_SELF_REFERENCE_SURFACE = '#ffffff';
+export const SELF_REFERENCE_MAX_ITERATIONS = 12;
+// Residual (ΔE ×100) under which the referenced step reproduces the background it was generated against
+export const SELF_REFERENCE_TOLERANCE = 0.5;
+
+/**
+ * Step number of a "palette-N" background (null for other backgrounds)
+ */
+function parseSelfReference(backgroundColor: string): number | null {
+  const match = backgroundColor.match(/^palette-(\d+)$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Configured surface under the step a "palette-N" background reads
+ */
+function getSelfReferenceSurface(controls: PaletteControls): string {
+  return controls.selfReferenceSurface || DEFAULT_SELF_REFERENCE_SURFACE;
+}
+
+export interface SelfReferenceSolution extends SelfReferenceResolution {
+  colors: PaletteColor[];
+}
+
+/**
+ * Generate a palette whose background is one of its own steps ("palette-N").
+ * The referenced step is solved against the surface it sits on (controls.selfReferenceSurface, white by
+ * default) and every other step against the referenced step. Starts from the ramp on that surface and
+ * regenerates against the referenced step until the step it produces is within SELF_REFERENCE_TOLERANCE
+ * of the background it was generated against. Generation only depends on the resolved backgrounds, so at
+ * that point every dependent step is stable too. Without anchors the referenced step only depends on its
+ * surface and the first pass reproduces it; anchors bend the ramp's lightness by how far they sit from the
+ * colors derived against the background, which moves the referenced step between passes when it is within
+ * an anchor's reach. A background seen before (an oscillation) or the iteration limit is reported as
+ * divergence, keeping the most self-consistent ramp.
+ */
+export function solveSelfReferencedPalette(
+  controls: PaletteControls,
+  gamutSettings?: GamutSettings,
+  lightnessSettings?: LightnessSettings,
+  referencedPalettes?: Record<string, PaletteColor[]>,
+  maxIterations: number = SELF_REFERENCE_MAX_ITERATIONS
+): SelfReferenceSolution {
+  const step = parseSelfReference(controls.backgroundColor);
+  const surface = getSelfReferenceSurface(controls);
+  let colors = generatePaletteInternal({ ...controls, backgroundColor: surface }, gamutSettings, lightnessSettings, undefined, referencedPalettes);
+  const referencedStep = (palette: PaletteColor[]) => palette.find(color => color.step === step);
+  if (!referencedStep(colors)) {
+    // Invalid or missing step: resolved (with a warning) against the fallback
+    return { colors: generatePaletteInternal(controls, gamutSettings, lightnessSettings, colors, referencedPalettes), status: 'diverged', iterations: 0, residual: 0 };
+  }
+
+  // The seed ramp was generated against the surface
+  const seen = new Set<string>();
+  let best: SelfReferenceSolution = {
+    colors,
+    status: 'diverged',
+    iterations: 0,
+    residual: measureDeltaE(resolveBackgroundColor(surface, undefined, DEFAULT_SELF_REFERENCE_SURFACE, referencedPalettes), referencedStep(colors)!.css, DEFAULT_DELTA_E_METRIC)
+  };
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    const background = referencedStep(colors)!.css;
+    if (seen.has(background)) break;
+    seen.add(background);
+
+    const next = generatePaletteInternal(controls, gamutSettings, lightnessSettings, colors, referencedPalettes);
+    const produced = referencedStep(next)!;
+    const residual = measureDeltaE(background, produced.css, DEFAULT_DELTA_E_METRIC);
+    if (residual <= SELF_REFERENCE_TOLERANCE) {
+      return withSelfReference({ colors: next, status: 'converged', iterations: iteration, residual }, step!);
+    }
+    if (residual < best.residual) {
+      best = { colors: next, status: 'diverged', iterations: iteration, residual };
+    }
+    colors = next;
   }
+
+  console.warn(`Palette reference ${controls.backgroundColor} did not converge after ${seen.size} iterations (residual ΔE ${best.residual.toFixed(2)}). Using the closest ramp.`);
+  return withSelfReference(best, step!);
+}
+
+// Record how the fixed point settled on the step the background reads
+function withSelfReference(solution: SelfReferenceSolution, step: number): SelfReferenceSolution {
+  const { colors, ...resolution } = solution;
+  return {
+    ...solution,
+    colors: colors.map(color => color.step === step ? { ...color, selfReference: resolution } : color)
+  };
+}
+
+/**
+ * Generate several palettes, keyed by id, resolving cross-palette background references
+ * ("<paletteId>:N") against the palettes generated before them
+ */
+export function generatePalettes(palettes: Palette[], gamutSettings?: GamutSettings, lightnessSettings?: LightnessSettings): Record<string, PaletteColor[]> {
+  const { order, cycles } = orderPalettesByReferences(palettes);
+  cycles.forEach(cycle => {
+    const names = [...cycle, cycle[0]].map(id => palettes.find(palette => palette.id === id)?.name || id);
+    console.warn(`Palette background references form a cycle: ${names.join(' → ')}`);
+  });
+
+  const generated: Record<string, PaletteColor[]> = {};
+  order.forEach(palette => {
+    generated[palette.id] = generatePalette(palette.controls, gamutSettings, lightnessSettings, undefined, generated);
+  });
+  return generated;
+}
+
+// Light and dark-variant colors of a set of palettes, keyed by palette id
+export interface GeneratedPaletteSet {
+  light: Record<string, PaletteColor[]>;
+  // Only palettes with an enabled dark variant have an entry
+  dark: Record<string, PaletteColor[]>;
+}
+
+/**
+ * Generate the light ramps and enabled dark variants of every palette
+ */
+export function generatePaletteSet(palettes: Palette[], gamutSettings?: GamutSettings, lightnessSettings?: LightnessSettings): GeneratedPaletteSet {
+  const dark: Record<string, PaletteColor[]> = {};
+  palettes.forEach(palette => {
+    const colors = generateDarkPalette(palette, gamutSettings, lightnessSettings);
+    if (colors) {
+      dark[palette.id] = colors;
+    }
+  });
+  return { light: generatePalettes(palettes, gamutSettings, lightnessSettings), dark };
+}
+
+/**
+ * Generate one palette together with the palettes its backgrounds reference
+ */
+export function generatePaletteWithReferences(
+  palette: Palette,
+  palettes: Palette[],
+  gamutSettings?: GamutSettings,
+  lightnessSettings?: LightnessSettings
+): PaletteColor[] {
+  return generatePalettes(collectReferencedPalettes(palette, palettes), gamutSettings, lightnessSettings)[palette.id];
+}
+
+/**
+ * Mirror light-mode contrast targets onto a dark background.
+ * Each step keeps its relative position between "same as background" and the strongest contrast
+ * the background allows, so step 1 becomes a subtle dark surface and step 11 a near-white foreground.
+ */
+export function mirrorContrastTargets(
+  contrastTargets: Record<string, number>,
+  lightBackground: string,
+  darkBackground: string,
+  algorithm: ContrastAlgorithm = 'wcag2'
+): Record<string, number> {
+  const safeLightBackground = isValidColor(lightBackground) ? lightBackground : '#ffffff';
+  const safeDarkBackground = isValidColor(darkBackground) ? darkBackground : DEFAULT_DARK_BACKGROUND;
+  
+  // Strongest contrast available in each mode: black on the light surface, white on the dark one
+  const lightMax = measureContrast('#000000', safeLightBackground, algorithm);
+  const darkMax = measureContrast('#ffffff', safeDarkBackground, algorithm);
+  const floor = algorithm === 'apca' ? 0 : 1;
+  const scale = lightMax > floor ? (darkMax - floor) / (lightMax - floor) : 1;
+  
+  const mirrored: Record<string, number> = {};
+  Object.entries(contrastTargets).forEach(([stepKey, target]) => {
+    const value = floor + (target - floor) * scale;
+    mirrored[stepKey] = Math.round(value * 100) / 100;
+  });
   
-  // Normal generation path
-  return generatePaletteInternal(controls, gamutSettings, lightnessSettings, existingPalette);
+  return mirrored;
+}
+
+/**
+ * Build the controls used to generate a palette's dark-mode variant
+ */
+export function getDarkVariantControls(controls: PaletteControls, variant: DarkModeVariant): PaletteControls {
+  return {
+    ...controls,
+    backgroundColor: variant.backgroundColor,
+    contrastTargets: variant.contrastTargets || mirrorContrastTargets(
+      controls.contrastTargets,
+      controls.backgroundColor,
+      variant.backgroundColor,
+      controls.contrastAlgorithm
+    ),
+    // Lightness overrides, anchors and extra constraints were set against light surfaces, so the dark ramp is always solved
+    lightnessValues: {},
+    lightnessOverrides: {},
+    anchors: {},
+    contrastConstraints: {}
+  };
+}
+
+/**
+ * Generate the dark-mode variant of a palette, or null when the palette has none enabled
+ */
+export function generateDarkPalette(palette: Palette, gamutSettings?: GamutSettings, lightnessSettings?: LightnessSettings): PaletteColor[] | null {
+  if (!palette.darkVariant?.enabled) {
+    return null;
+  }
+  return generatePalette(getDarkVariantControls(palette.controls, palette.darkVariant), gamutSettings, lightnessSettings);
+}
+
+// Number of steps over which an anchor's chroma/hue/lightness correction fades out when no other anchor bounds it
+const ANCHOR_FALLOFF_STEPS = 3;
+
+// Re-spacing passes for the uniform lightness mode, stopping early once steps move less than the tolerance
+const UNIFORM_LIGHTNESS_ITERATIONS = 12;
+const UNIFORM_LIGHTNESS_TOLERANCE = 0.0005;
+
+// A pinned anchor plus how far it sits from the color the controls would otherwise derive
+interface AnchorFit {
+  l: number;
+  c: number;
+  h: number;
+  derivedLightness: number;
+  chromaOffset: number;
+  hueOffset: number;
+}
+
+/**
+ * Parse the anchors of a palette into OKLCH, keeping only valid colors on core steps (1-11)
+ */
+export function parseAnchors(controls: PaletteControls): Map<number, { l: number; c: number; h: number }> {
+  const anchors = new Map<number, { l: number; c: number; h: number }>();
+  Object.entries(controls.anchors || {}).forEach(([stepKey, value]) => {
+    const step = Number(stepKey);
+    if (!isColorStep(step) || !Number.isInteger(step)) {
+      console.warn(`Anchor on step ${stepKey} ignored: anchors must be on core steps 1-11`);
+      return;
+    }
+    const parsed = parseToOklch(value);
+    if (!parsed) {
+      console.warn(`Invalid anchor color for step ${stepKey}: ${value}`);
+      return;
+    }
+    anchors.set(step, parsed);
+  });
+  return anchors;
+}
+
+/**
+ * Measure each anchor against the color its step would get without anchors
+ */
+function resolveAnchorFits(
+  controls: PaletteControls,
+  gamutSettings?: GamutSettings,
+  lightnessSettings?: LightnessSettings,
+  resolvedBackgroundColor?: string,
+  uniformLightness?: Map<number, number>
+): Map<number, AnchorFit> {
+  const fits = new Map<number, AnchorFit>();
+  const anchors = parseAnchors(controls);
+  if (anchors.size === 0) return fits;
+
+  const unanchoredControls = { ...controls, anchors: {} };
+  anchors.forEach((anchor, step) => {
+    const derived = generateCoreColorStep(step, unanchoredControls, gamutSettings, lightnessSettings, resolvedBackgroundColor, undefined, uniformLightness);
+    const derivedChroma = derived.originalCalculatedChroma ?? derived.chroma;
+    const derivedHue = derived.originalIntended?.h ?? derived.hue;
+    // Achromatic anchors have no hue of their own, so they take the derived hue
+    const isAchromatic = anchor.c < 0.001;
+
+    fits.set(step, {
+      l: anchor.l,
+      c: anchor.c,
+      h: isAchromatic ? derivedHue : anchor.h,
+      derivedLightness: derived.originalIntended?.l ?? derived.lightness,
+      chromaOffset: anchor.c - derivedChroma,
+      hueOffset: isAchromatic ? 0 : ((anchor.h - derivedHue + 540) % 360) - 180
+    });
+  });
+  return fits;
+}
+
+/**
+ * Chroma/hue correction for an unanchored step: interpolated between the anchors on either side,
+ * or faded out over ANCHOR_FALLOFF_STEPS past the outermost anchor
+ */
+function getAnchorOffset(step: number, anchorFits: Map<number, AnchorFit>): { chroma: number; hue: number } {
+  const anchorSteps = Array.from(anchorFits.keys()).sort((a, b) => a - b);
+  const below = anchorSteps.filter(s => s < step).pop();
+  const above = anchorSteps.find(s => s > step);
+
+  if (below !== undefined && above !== undefined) {
+    const ratio = (step - below) / (above - below);
+    const lower = anchorFits.get(below)!;
+    const upper = anchorFits.get(above)!;
+    return {
+      chroma: lower.chromaOffset + (upper.chromaOffset - lower.chromaOffset) * ratio,
+      hue: lower.hueOffset + (upper.hueOffset - lower.hueOffset) * ratio
+    };
+  }
+
+  const nearest = below ?? above;
+  if (nearest === undefined) return { chroma: 0, hue: 0 };
+
+  const fit = anchorFits.get(nearest)!;
+  const falloff = Math.max(0, 1 - Math.abs(step - nearest) / ANCHOR_FALLOFF_STEPS);
+  const weight = falloff * falloff * (3 - 2 * falloff); // smoothstep
+  return { chroma: fit.chromaOffset * weight, hue: fit.hueOffset * weight };
+}
+
+/**
+ * Lightness of each unanchored core step once the ramp is bent through its anchors.
+ *
+ * Anchors, lightness overrides, the white and black end steps and the steps ANCHOR_FALLOFF_STEPS past
+ * each anchor are fixed points; between two fixed points the derived lightness is remapped linearly
+ * onto the fixed points' lightness, so the ramp keeps its shape and stays monotonic wherever the fixed
+ * points are in order. A falloff step that would not lie between its neighbours is dropped, widening
+ * the anchor's reach until the anchor fits.
+ */
+function resolveAnchorLightness(
+  derivedLightness: Map<number, number>,
+  anchorFits: Map<number, AnchorFit>,
+  controls: PaletteControls
+): Map<number, number> {
+  type FixedPoint = { step: number; from: number; to: number; falloff?: boolean };
+  const isOverridden = (step: number) =>
+    controls.lightnessOverrides?.[step.toString()] === true && controls.lightnessValues[step.toString()] !== undefined;
+
+  const points: FixedPoint[] = [{ step: 0, from: 1, to: 1 }, { step: 12, from: 0, to: 0 }];
+  anchorFits.forEach((fit, step) => points.push({ step, from: fit.derivedLightness, to: fit.l }));
+  derivedLightness.forEach((l, step) => {
+    if (isOverridden(step) && !anchorFits.has(step)) points.push({ step, from: l, to: l });
+  });
+
+  // Falloff edges only bound their own anchor, so they are skipped when another fixed point is closer
+  const isFixed = (step: number) => points.some(point => point.step === step);
+  anchorFits.forEach((_, step) => {
+    [step - ANCHOR_FALLOFF_STEPS, step + ANCHOR_FALLOFF_STEPS].forEach(edge => {
+      const between = points.some(point => !point.falloff && point.step !== step && (point.step - step) * (point.step - edge) <= 0);
+      if (edge > 0 && edge < 12 && !between && !isFixed(edge)) {
+        points.push({ step: edge, from: derivedLightness.get(edge)!, to: derivedLightness.get(edge)!, falloff: true });
+      }
+    });
+  });
+  points.sort((a, b) => a.step - b.step);
+
+  const inOrder = (index: number, list: FixedPoint[]) =>
+    (index === 0 || list[index - 1].to > list[index].to) && (index === list.length - 1 || list[index].to > list[index + 1].to);
+  const fixedPoints = points.filter((point, index) => !point.falloff || inOrder(index, points));
+  fixedPoints.forEach((point, index) => {
+    if (anchorFits.has(point.step) && !inOrder(index, fixedPoints)) {
+      console.warn(`Anchor on step ${point.step} is out of lightness order with its neighbouring anchors, so the ramp cannot stay monotonic`);
+    }
+  });
+
+  const lightness = new Map<number, number>();
+  derivedLightness.forEach((l, step) => {
+    if (isFixed(step) && !points.find(point => point.step === step)!.falloff) return;
+    const upper = fixedPoints.filter(point => point.step < step).pop()!;
+    const lower = fixedPoints.find(point => point.step > step)!;
+    // Runs between two fixed points that both keep their derived lightness are left alone
+    if (upper.from === upper.to && lower.from === lower.to) return;
+    const span = upper.from - lower.from;
+    // Fall back to spacing by step when the derived ramp is flat or out of order here
+    const ratio = span > 0.0001 && l <= upper.from && l >= lower.from
+      ? (upper.from - l) / span
+      : (step - upper.step) / (lower.step - upper.step);
+    lightness.set(step, upper.to + (lower.to - upper.to) * ratio);
+  });
+  return lightness;
+}
+
+/**
+ * Lightness of each core step in the 'uniform' mode. Steps 1 and 11 keep lightnessMin/lightnessMax,
+ * overridden steps keep their lightness and anchored steps their anchor's; the steps between are moved
+ * until neighbours are the same deltaE apart, measured on the final (chroma-, hue- and gamut-adjusted,
+ * anchor re-fit) colors.
+ */
+function resolveUniformLightness(
+  controls: PaletteControls,
+  gamutSettings?: GamutSettings,
+  lightnessSettings?: LightnessSettings,
+  resolvedBackgroundColor?: string,
+  anchorFits?: Map<number, AnchorFit>
+): Map<number, number> {
+  const metric = lightnessSettings?.deltaEMetric || DEFAULT_DELTA_E_METRIC;
+  const coreSteps = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+  const lightness = new Map(coreSteps.map(step => [
+    step,
+    controls.lightnessMin + ((step - 1) / 10) * (controls.lightnessMax - controls.lightnessMin)
+  ]));
+
+  const isPinned = (step: number) =>
+    controls.lightnessOverrides?.[step.toString()] === true && controls.lightnessValues[step.toString()] !== undefined;
+  coreSteps.forEach(step => {
+    const anchorFit = anchorFits?.get(step);
+    if (anchorFit) {
+      lightness.set(step, anchorFit.l);
+    } else if (isPinned(step)) {
+      lightness.set(step, controls.lightnessValues[step.toString()]);
+    }
+  });
+  const fixedSteps = coreSteps.filter(step => step === 1 || step === 11 || isPinned(step) || anchorFits?.has(step));
+
+  // Start the free steps evenly between their fixed neighbours so each run is monotonic
+  for (let i = 0; i < fixedSteps.length - 1; i++) {
+    const start = fixedSteps[i];
+    const end = fixedSteps[i + 1];
+    for (let step = start + 1; step < end; step++) {
+      lightness.set(step, lightness.get(start)! + ((step - start) / (end - start)) * (lightness.get(end)! - lightness.get(start)!));
+    }
+  }
+
+  // Final color of a step at a given lightness, generated exactly as in range mode
+  const colorAt = (step: number, l: number) =>
+    generateCoreColorStep(step, { ...controls, lightnessMin: l, lightnessMax: l }, gamutSettings, { mode: 'range' }, resolvedBackgroundColor, anchorFits).css;
+
+  for (let iteration = 0; iteration < UNIFORM_LIGHTNESS_ITERATIONS; iteration++) {
+    const colors = new Map(coreSteps.map(step => [step, colorAt(step, lightness.get(step)!)]));
+    let largestMove = 0;
+
+    // Re-space each run of free steps between two fixed steps by arc length
+    for (let i = 0; i < fixedSteps.length - 1; i++) {
+      const start = fixedSteps[i];
+      const end = fixedSteps[i + 1];
+      if (end - start < 2) continue;
+
+      const cumulative = [0];
+      for (let step = start + 1; step <= end; step++) {
+        cumulative.push(cumulative[cumulative.length - 1] + measureDeltaE(colors.get(step - 1)!, colors.get(step)!, metric));
+      }
+      const total = cumulative[cumulative.length - 1];
+      if (total <= 0) continue;
+
+      const current = coreSteps.slice(start - 1, end).map(step => lightness.get(step)!);
+      for (let step = start + 1; step < end; step++) {
+        const target = (total * (step - start)) / (end - start);
+        let segment = 0;
+        while (segment < cumulative.length - 2 && cumulative[segment + 1] < target) segment++;
+        const span = cumulative[segment + 1] - cumulative[segment];
+        const ratio = span > 0 ? (target - cumulative[segment]) / span : 0;
+        const next = current[segment] + (current[segment + 1] - current[segment]) * ratio;
+        largestMove = Math.max(largestMove, Math.abs(next - lightness.get(step)!));
+        lightness.set(step, next);
+      }
+    }
+
+    if (largestMove < UNIFORM_LIGHTNESS_TOLERANCE) break;
+  }
+
+  return lightness;
+}
+
+/**
+ * Resolve the backgrounds of a palette's extra contrast constraints
+ */
+function resolveContrastConstraints(
+  controls: PaletteControls,
+  existingPalette?: PaletteColor[],
+  referencedPalettes?: Record<string, PaletteColor[]>
+): Record<string, ContrastRequirement[]> {
+  const resolved: Record<string, ContrastRequirement[]> = {};
+  Object.entries(controls.contrastConstraints || {}).forEach(([stepKey, constraints]) => {
+    resolved[stepKey] = constraints.map(constraint => ({
+      background: resolveBackgroundColor(constraint.background, existingPalette, '#ffffff', referencedPalettes),
+      target: constraint.minContrast
+    }));
+  });
+  return resolved;
 }
 
 /**
  * Internal palette generation function
  */
-function generatePaletteInternal(controls: PaletteControls, gamutSettings?: { gamutMode: 'sRGB' | 'P3' | 'Rec2020' }, lightnessSettings?: { mode: 'contrast' | 'range' }, existingPalette?: PaletteColor[]): PaletteColor[] {
+function generatePaletteInternal(
+  controls: PaletteControls,
+  gamutSettings?: GamutSettings,
+  lightnessSettings?: LightnessSettings,
+  existingPalette?: PaletteColor[],
+  referencedPalettes?: Record<string, PaletteColor[]>
+): PaletteColor[] {
   // Resolve background color early to handle relative palette references
-  const resolvedBackgroundColor = resolveBackgroundColor(controls.backgroundColor, existingPalette);
+  const resolvedBackgroundColor = resolveBackgroundColor(controls.backgroundColor, existingPalette, '#ffffff', referencedPalettes);
+  const selfReferenceStep = parseSelfReference(controls.backgroundColor);
   
   // Set up effective settings with defaults
-  const effectiveGamutSettings = gamutSettings || { gamutMode: 'sRGB' };
+  const effectiveGamutSettings: GamutSettings = gamutSettings || { gamutMode: 'sRGB' };
   
   // Use steps from controls, ensuring we have the core steps
   const steps = controls.steps || [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
@@ -550,41 +1308,50 @@ function generatePaletteInternal(controls: PaletteControls, gamutSettings?: { ga
   
   // First, generate all core color steps (1-11) and endpoints (0, 12)
   const coreColors = new Map<number, PaletteColor>();
+  const contrastConstraints = resolveContrastConstraints(controls, existingPalette, referencedPalettes);
+  // Anchors are fitted against the uniform spacing of the unanchored ramp, which is then re-spaced with
+  // the anchors as fixed steps so neighbours stay equally far apart through them
+  const isUniform = lightnessSettings?.mode === 'uniform';
+  const unanchoredUniformLightness = isUniform
+    ? resolveUniformLightness({ ...controls, anchors: {} }, gamutSettings, lightnessSettings, resolvedBackgroundColor)
+    : undefined;
+  const anchorFits = resolveAnchorFits(controls, gamutSettings, lightnessSettings, resolvedBackgroundColor, unanchoredUniformLightness);
+  const uniformLightness = isUniform && anchorFits.size > 0
+    ? resolveUniformLightness(controls, gamutSettings, lightnessSettings, resolvedBackgroundColor, anchorFits)
+    : unanchoredUniformLightness;
+  const selfReferenceSurface = selfReferenceStep !== null
+    ? resolveBackgroundColor(getSelfReferenceSurface(controls), undefined, DEFAULT_SELF_REFERENCE_SURFACE, referencedPalettes)
+    : resolvedBackgroundColor;
+  const stepBackground = (step: number) => step === selfReferenceStep ? selfReferenceSurface : resolvedBackgroundColor;
+  // The uniform spacing already runs through the anchors; the other modes bend the derived ramp through them
+  let anchorLightness: Map<number, number> | undefined;
+  if (anchorFits.size > 0 && !isUniform) {
+    const derivedLightness = new Map<number, number>();
+    [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].forEach(step => {
+      const derived = generateCoreColorStep(step, controls, gamutSettings, lightnessSettings, stepBackground(step), anchorFits, uniformLightness, contrastConstraints);
+      derivedLightness.set(step, anchorFits.get(step)?.derivedLightness ?? derived.originalIntended?.l ?? derived.lightness);
+    });
+    anchorLightness = resolveAnchorLightness(derivedLightness, anchorFits, controls);
+  }
   
   // Generate core steps
   for (const step of sortedSteps) {
-    if (step === 0) {
-      // Pure white - use palette base hue for consistent interpolation
-      coreColors.set(0, {
-        step: 0,
-        tokenName: '100',
-        lightness: 1,
-        chroma: 0,
-        hue: controls.baseHue, // Use palette hue instead of 0
-        oklch: formatOklchWithCulori({ l: 1, c: 0, h: controls.baseHue }),
-        css: '#ffffff',
-        contrast: wcagContrast('#ffffff', resolvedBackgroundColor) || 1,
-        gamutMapped: false
-      });
-    } else if (step === 12) {
-      // Pure black - use palette base hue for consistent interpolation
-      coreColors.set(12, {
-        step: 12,
-        tokenName: '0',
-        lightness: 0,
-        chroma: 0,
-        hue: controls.baseHue, // Use palette hue instead of 0
-        oklch: formatOklchWithCulori({ l: 0, c: 0, h: controls.baseHue }),
-        css: '#000000',
-        contrast: wcagContrast('#000000', resolvedBackgroundColor) || 1,
-        gamutMapped: false
-      });
-    } else if (isColorStep(step)) {
+    if (isColorStep(step)) {
       // Core color steps (1-11) - use existing logic
-      coreColors.set(step, generateCoreColorStep(step, controls, gamutSettings, lightnessSettings, resolvedBackgroundColor));
+      coreColors.set(step, generateCoreColorStep(step, controls, gamutSettings, lightnessSettings, stepBackground(step), anchorFits, uniformLightness, contrastConstraints, anchorLightness));
     }
   }
   
+  // Endpoints continue the ramp: white beyond its light end and black beyond its dark end,
+  // so a ramp that runs dark to light (e.g. on a dark surface) starts from black
+  const lightFirst = (coreColors.get(1)?.lightness ?? 1) >= (coreColors.get(11)?.lightness ?? 0);
+  if (sortedSteps.includes(0)) {
+    coreColors.set(0, createEndpointColor(0, '100', lightFirst ? 1 : 0, controls, resolvedBackgroundColor));
+  }
+  if (sortedSteps.includes(12)) {
+    coreColors.set(12, createEndpointColor(12, '0', lightFirst ? 0 : 1, controls, resolvedBackgroundColor));
+  }
+  
   // Now generate all steps (including intermediates)
   const results: PaletteColor[] = [];
   
@@ -603,7 +1370,7 @@ function generatePaletteInternal(controls: PaletteControls, gamutSettings?: { ga
       
       if (floorColor && ceilColor) {
         // First get the interpolated color (this is our "calculated" value)
-        const interpolatedColor = interpolateColors(floorColor, ceilColor, ratio, step, effectiveGamutSettings.gamutMode);
+        const interpolatedColor = interpolateColors(floorColor, ceilColor, ratio, step, effectiveGamutSettings.gamutMode, effectiveGamutSettings.mappingStrategy);
         
         // Check if user has manually overridden the lightness for this intermediate step
         const stepKey = step.toString();
@@ -621,12 +1388,15 @@ function generatePaletteInternal(controls: PaletteControls, gamutSettings?: { ga
           
           const oklchString = formatOklchWithCulori({ l: overriddenLightness, c: interpolatedColor.chroma, h: interpolatedColor.hue });
           const cssColor = formatHex(oklchColor) || '#000000';
-          const backgroundForContrast = resolveBackgroundColor(controls.backgroundColor, existingPalette);
           
           interpolatedColor.lightness = overriddenLightness;
           interpolatedColor.oklch = oklchString;
           interpolatedColor.css = cssColor;
-          interpolatedColor.contrast = wcagContrast(cssColor, backgroundForContrast) || 1;
+          interpolatedColor.wideGamut = interpolatedColor.wideGamut && getWideGamutColor(
+            { ...interpolatedColor.wideGamut, l: overriddenLightness },
+            effectiveGamutSettings.gamutMode
+          );
+          interpolatedColor.contrast = measureContrast(cssColor, resolvedBackgroundColor, controls.contrastAlgorithm);
         }
         
         // Update token name with custom name if available
@@ -653,100 +1423,97 @@ function generatePaletteInternal(controls: PaletteControls, gamutSettings?: { ga
   return results;
 }
 
+/**
+ * Create an achromatic endpoint step (pure white or pure black)
+ */
+function createEndpointColor(step: number, tokenName: string, lightness: number, controls: PaletteControls, backgroundColor: string): PaletteColor {
+  const css = lightness === 1 ? '#ffffff' : '#000000';
+  return {
+    step,
+    tokenName,
+    lightness,
+    chroma: 0,
+    hue: controls.baseHue, // Use palette hue instead of 0 for consistent interpolation
+    oklch: formatOklchWithCulori({ l: lightness, c: 0, h: controls.baseHue }),
+    css,
+    contrast: measureContrast(css, backgroundColor, controls.contrastAlgorithm),
+    gamutMapped: false
+  };
+}
+
 /**
  * Generate a core color step (1-11) using the original logic
  */
 function generateCoreColorStep(
   step: number,
   controls: PaletteControls,
-  gamutSettings?: { gamutMode: 'sRGB' | 'P3' | 'Rec2020' },
-  lightnessSettings?: { mode: 'contrast' | 'range' },
-  resolvedBackgroundColor?: string
+  gamutSettings?: GamutSettings,
+  lightnessSettings?: LightnessSettings,
+  resolvedBackgroundColor?: string,
+  anchorFits?: Map<number, AnchorFit>,
+  uniformLightness?: Map<number, number>,
+  contrastConstraints?: Record<string, ContrastRequirement[]>,
+  anchorLightness?: Map<number, number>
 ): PaletteColor {
   // Normalize step position within 1-11 range for curve calculations
   const normalizedStep = (step - 1) / 10; // 0 to 1 for steps 1 to 11
   
   const effectiveLightnessSettings = lightnessSettings || { mode: 'contrast' };
-  const effectiveGamutSettings = gamutSettings || { gamutMode: 'sRGB' };
+  const effectiveGamutSettings: GamutSettings = gamutSettings || { gamutMode: 'sRGB' };
   const backgroundForContrast = resolvedBackgroundColor || '#ffffff';
   
   let lightness: number;
+  let contrastSolution: ContrastConstraintSolution | undefined;
+  
+  // The step's target against the background is solved exactly; extra constraints are minimums
+  const stepKey = step.toString();
+  const requirements: ContrastRequirement[] = [
+    { background: backgroundForContrast, target: controls.contrastTargets[stepKey] || getDefaultContrastTarget(controls.contrastAlgorithm) },
+    ...(contrastConstraints?.[stepKey] || [])
+  ];
   
   if (effectiveLightnessSettings.mode === 'contrast') {
-    const stepKey = step.toString();
     if (controls.lightnessOverrides?.[stepKey] === true && controls.lightnessValues[stepKey] !== undefined) {
       // Step has been manually overridden
       lightness = controls.lightnessValues[stepKey];
     } else {
-      // Calculate lightness automatically based on contrast target
-      const targetContrast = controls.contrastTargets[stepKey] || 4.5;
-      
       // Calculate chroma first so we can use it for chroma-aware lightness calculation
       let chroma: number;
       if (controls.chromaMode === 'manual') {
         chroma = controls.chromaValues[stepKey] ?? 0.1;
       } else if (controls.chromaMode === 'perceptual') {
         // Calculate hue first for perceptual chroma calculation
-        const anchorStep = 6;
-        let tempHue: number;
-        if (step <= anchorStep) {
-          const lightProgress = (anchorStep - step) / (anchorStep - 1);
-          tempHue = controls.baseHue + (lightProgress * controls.lightHueDrift);
-        } else {
-          const darkProgress = (step - anchorStep) / (11 - anchorStep);
-          tempHue = controls.baseHue + (darkProgress * controls.darkHueDrift);
-        }
-        tempHue = tempHue % 360;
-        if (tempHue < 0) tempHue += 360;
+        const tempHue = calculateStepHue(step, controls);
         
         // Use a rough lightness estimate for perceptual calculation
         // We'll refine this in the lightness calculation step
         const roughLightness = controls.lightnessMin + normalizedStep * (controls.lightnessMax - controls.lightnessMin);
         
         // Perceptual chroma distribution - gamut-aware curve
-        const peak = controls.chromaPeak;
-        const chromaPosition = Math.abs(normalizedStep - peak);
         chroma = calculateGamutAwareChromaFactor(
           roughLightness,
           tempHue,
-          chromaPosition,
-          controls.chromaCurveType || 'gaussian',
+          getChromaCurveFactor(normalizedStep, controls),
           controls.minChroma,
           controls.maxChroma,
-          effectiveGamutSettings.gamutMode,
-          controls.chromaEasing
+          effectiveGamutSettings.gamutMode
         );
       } else {
         // Curve-based chroma distribution (legacy mode)
-        const peak = controls.chromaPeak;
-        const chromaPosition = Math.abs(normalizedStep - peak);
-        const chromaFactor = calculateChromaFactor(
-          chromaPosition,
-          controls.chromaCurveType || 'gaussian',
-          controls.chromaEasing
-        );
+        const chromaFactor = getChromaCurveFactor(normalizedStep, controls);
         chroma = controls.minChroma + (controls.maxChroma - controls.minChroma) * chromaFactor;
       }
       
       // Calculate hue for chroma-aware calculation
-      let hue: number;
-      const anchorStep = 6;
-      if (step <= anchorStep) {
-        const lightProgress = (anchorStep - step) / (anchorStep - 1);
-        hue = controls.baseHue + (lightProgress * controls.lightHueDrift);
-      } else {
-        const darkProgress = (step - anchorStep) / (11 - anchorStep);
-        hue = controls.baseHue + (darkProgress * controls.darkHueDrift);
-      }
-      hue = hue % 360;
-      if (hue < 0) hue += 360;
+      const hue = calculateStepHue(step, controls);
       
-              // Use chroma-aware lightness calculation with gamut awareness
-        lightness = calculateChromaAwareLightness(targetContrast, backgroundForContrast, chroma, hue, effectiveGamutSettings.gamutMode);
+      // Use chroma-aware lightness calculation with gamut awareness
+      contrastSolution = solveContrastConstraints(requirements, chroma, hue, effectiveGamutSettings.gamutMode, controls.contrastAlgorithm, effectiveGamutSettings.mappingStrategy);
+      lightness = contrastSolution.lightness;
     }
   } else {
-    // Use manual lightness range
-    lightness = controls.lightnessMin + normalizedStep * (controls.lightnessMax - controls.lightnessMin);
+    // Use manual lightness range (spaced by equal deltaE in the uniform mode)
+    lightness = uniformLightness?.get(step) ?? controls.lightnessMin + normalizedStep * (controls.lightnessMax - controls.lightnessMin);
   }
   
   // Calculate chroma (if not already calculated above for chroma-aware lightness)
@@ -761,52 +1528,23 @@ function generateCoreColorStep(
       chroma = controls.chromaValues[stepKey] ?? 0.1;
     } else if (controls.chromaMode === 'perceptual') {
       // Calculate hue first for perceptual chroma calculation
-      const anchorStep = 6;
-      let tempHue: number;
-      if (step <= anchorStep) {
-        const lightProgress = (anchorStep - step) / (anchorStep - 1);
-        tempHue = controls.baseHue + (lightProgress * controls.lightHueDrift);
-      } else {
-        const darkProgress = (step - anchorStep) / (11 - anchorStep);
-        tempHue = controls.baseHue + (darkProgress * controls.darkHueDrift);
-      }
-      tempHue = tempHue % 360;
-      if (tempHue < 0) tempHue += 360;
+      const tempHue = calculateStepHue(step, controls);
       
       // Perceptual chroma distribution - gamut-aware curve
-      const peak = controls.chromaPeak;
-      const chromaPosition = Math.abs(normalizedStep - peak);
       chroma = calculateGamutAwareChromaFactor(
         lightness,
         tempHue,
-        chromaPosition,
-        controls.chromaCurveType || 'gaussian',
+        getChromaCurveFactor(normalizedStep, controls),
         controls.minChroma,
         controls.maxChroma,
-        effectiveGamutSettings.gamutMode,
-        controls.chromaEasing
+        effectiveGamutSettings.gamutMode
       );
     } else {
-      const peak = controls.chromaPeak;
-      const chromaPosition = Math.abs(normalizedStep - peak);
-      const chromaFactor = calculateChromaFactor(
-        chromaPosition,
-        controls.chromaCurveType || 'gaussian',
-        controls.chromaEasing
-      );
+      const chromaFactor = getChromaCurveFactor(normalizedStep, controls);
       chroma = controls.minChroma + (controls.maxChroma - controls.minChroma) * chromaFactor;
     }
     
-    const anchorStep = 6;
-    if (step <= anchorStep) {
-      const lightProgress = (anchorStep - step) / (anchorStep - 1);
-      hue = controls.baseHue + (lightProgress * controls.lightHueDrift);
-    } else {
-      const darkProgress = (step - anchorStep) / (11 - anchorStep);
-      hue = controls.baseHue + (darkProgress * controls.darkHueDrift);
-    }
-    hue = hue % 360;
-    if (hue < 0) hue += 360;
+    hue = calculateStepHue(step, controls);
   } else {
     // Calculate chroma and hue normally
     const stepKey = step.toString();
@@ -814,59 +1552,58 @@ function generateCoreColorStep(
       chroma = controls.chromaValues[stepKey] ?? 0.1;
     } else if (controls.chromaMode === 'perceptual') {
       // Calculate hue first for perceptual chroma calculation
-      const anchorStep = 6;
-      let tempHue: number;
-      if (step <= anchorStep) {
-        const lightProgress = (anchorStep - step) / (anchorStep - 1);
-        tempHue = controls.baseHue + (lightProgress * controls.lightHueDrift);
-      } else {
-        const darkProgress = (step - anchorStep) / (11 - anchorStep);
-        tempHue = controls.baseHue + (darkProgress * controls.darkHueDrift);
-      }
-      tempHue = tempHue % 360;
-      if (tempHue < 0) tempHue += 360;
+      const tempHue = calculateStepHue(step, controls);
       
       // Perceptual chroma distribution - gamut-aware curve
-      const peak = controls.chromaPeak;
-      const chromaPosition = Math.abs(normalizedStep - peak);
       chroma = calculateGamutAwareChromaFactor(
         lightness,
         tempHue,
-        chromaPosition,
-        controls.chromaCurveType || 'gaussian',
+        getChromaCurveFactor(normalizedStep, controls),
         controls.minChroma,
         controls.maxChroma,
-        effectiveGamutSettings.gamutMode,
-        controls.chromaEasing
+        effectiveGamutSettings.gamutMode
       );
     } else {
-      const peak = controls.chromaPeak;
-      const chromaPosition = Math.abs(normalizedStep - peak);
-      const chromaFactor = calculateChromaFactor(
-        chromaPosition,
-        controls.chromaCurveType || 'gaussian',
-        controls.chromaEasing
-      );
+      const chromaFactor = getChromaCurveFactor(normalizedStep, controls);
       chroma = controls.minChroma + (controls.maxChroma - controls.minChroma) * chromaFactor;
     }
     
-    const anchorStep = 6;
-    if (step <= anchorStep) {
-      const lightProgress = (anchorStep - step) / (anchorStep - 1);
-      hue = controls.baseHue + (lightProgress * controls.lightHueDrift);
-    } else {
-      const darkProgress = (step - anchorStep) / (11 - anchorStep);
-      hue = controls.baseHue + (darkProgress * controls.darkHueDrift);
-    }
-    hue = hue % 360;
-    if (hue < 0) hue += 360;
+    hue = calculateStepHue(step, controls);
   }
   
-  // Apply gamut clamping
-  const clampedResult = clampColorToGamut(
-    { l: lightness, c: chroma, h: hue },
-    effectiveGamutSettings.gamutMode
-  );
+  // Anchored steps are used verbatim; other steps are re-fit towards nearby anchors
+  const anchorFit = anchorFits?.get(step);
+  if (anchorFit) {
+    lightness = anchorFit.l;
+    chroma = anchorFit.c;
+    hue = anchorFit.h;
+  } else if (anchorFits && anchorFits.size > 0) {
+    const offset = getAnchorOffset(step, anchorFits);
+    chroma = Math.max(0, chroma + offset.chroma);
+    hue = (((hue + offset.hue) % 360) + 360) % 360;
+
+    // Re-solve contrast-based lightness for the re-fit chroma and hue
+    if (effectiveLightnessSettings.mode === 'contrast' && !(controls.lightnessOverrides?.[stepKey] === true && controls.lightnessValues[stepKey] !== undefined)) {
+      contrastSolution = solveContrastConstraints(requirements, chroma, hue, effectiveGamutSettings.gamutMode, controls.contrastAlgorithm, effectiveGamutSettings.mappingStrategy);
+      lightness = contrastSolution.lightness;
+    }
+
+    // Steps near an anchor take the ramp's lightness bent through it, so they no longer solve their own contrast target
+    const anchoredLightness = anchorLightness?.get(step);
+    if (anchoredLightness !== undefined) {
+      lightness = anchoredLightness;
+      contrastSolution = undefined;
+    }
+  }
+
+  // Apply gamut clamping (anchors are never clamped, so out-of-gamut anchors are reported as mapped)
+  const clampedResult = anchorFit
+    ? { l: lightness, c: chroma, h: hue, clamped: false, deltaE: 0 }
+    : clampColorToGamut(
+      { l: lightness, c: chroma, h: hue },
+      effectiveGamutSettings.gamutMode,
+      effectiveGamutSettings.mappingStrategy
+    );
   
   const finalLightness = clampedResult.clamped ? clampedResult.l : lightness;
   const finalChroma = clampedResult.clamped ? clampedResult.c : chroma;
@@ -894,7 +1631,7 @@ function generateCoreColorStep(
   const actualC = verifiedOklch?.c || roundedChroma;
   const actualH = verifiedOklch?.h || roundedHue;
   
-  const contrast = wcagContrast(oklchColor, backgroundForContrast) || 1;
+  const contrast = measureContrast(oklchColor, backgroundForContrast, controls.contrastAlgorithm);
   
   // Check if there was a difference between clamped and actual values
   const hueDelta = Math.abs(actualH - roundedHue);
@@ -912,16 +1649,54 @@ function generateCoreColorStep(
     css: cssColor,
     contrast: Math.round(contrast * 100) / 100,
     gamutMapped: wasGamutMapped,
+    // Requested values before gamut mapping (the css4 and minde strategies also move lightness and hue)
     originalIntended: wasGamutMapped ? {
-      l: roundedLightness,
-      c: roundedChroma,
-      h: roundedHue
+      l: lightness,
+      c: chroma,
+      h: hue
     } : undefined,
     // Store original calculated chroma for manual mode switching
-    originalCalculatedChroma: chroma
+    originalCalculatedChroma: chroma,
+    wideGamut: getWideGamutColor({ l: roundedLightness, c: roundedChroma, h: roundedHue }, effectiveGamutSettings.gamutMode),
+    gamutMapping: clampedResult.clamped
+      ? { strategy: effectiveGamutSettings.mappingStrategy || DEFAULT_GAMUT_MAPPING_STRATEGY, deltaE: clampedResult.deltaE }
+      : undefined,
+    // Anchors keep their own lightness, so only solved steps report a status
+    contrastStatus: anchorFit ? undefined : contrastSolution?.status,
+    maxContrast: anchorFit || !contrastSolution ? undefined : Math.round(contrastSolution.maxContrast * 100) / 100,
+    contrastConstraints: anchorFit || !contrastSolution || requirements.length < 2
+      ? undefined
+      : getContrastConstraintResults(oklchColor, stepKey, requirements, contrastSolution, controls)
   };
 }
 
+/**
+ * Contrast of a step's final color against each of its surfaces, labelled with the backgrounds as configured
+ */
+function getContrastConstraintResults(
+  color: Parameters<typeof measureContrast>[0],
+  stepKey: string,
+  requirements: ContrastRequirement[],
+  solution: ContrastConstraintSolution,
+  controls: PaletteControls
+): ContrastConstraintResult[] {
+  // The step a "palette-N" background reads is solved against the surface it sits on
+  const configured = [
+    parseSelfReference(controls.backgroundColor) === Number(stepKey) ? getSelfReferenceSurface(controls) : controls.backgroundColor,
+    ...(controls.contrastConstraints?.[stepKey] || []).map(constraint => constraint.background)
+  ];
+  return requirements.map((requirement, index) => {
+    const contrast = measureContrast(color, requirement.background, controls.contrastAlgorithm);
+    return {
+      background: configured[index],
+      minContrast: requirement.target,
+      contrast: Math.round(contrast * 100) / 100,
+      met: contrast >= requirement.target - getContrastTolerance(controls.contrastAlgorithm),
+      binding: solution.status === 'met' && solution.binding === index
+    };
+  });
+}
+
 /**
  * Detect which color gamut a color falls into
  */
@@ -971,9 +1746,23 @@ export function detectColorGamut(color: PaletteColor): ColorGamut | null {
 }
 
 /**
- * Clamp a color to fit within a specific gamut using Culori's built-in functions
+ * The generated color itself when the gamut mode allows colors that the sRGB hex cannot hold
  */
-export function clampColorToGamut(color: { l: number; c: number; h: number }, targetGamut: ColorGamut): { l: number; c: number; h: number; clamped: boolean } {
+function getWideGamutColor(color: { l: number; c: number; h: number }, gamutMode: 'sRGB' | 'P3' | 'Rec2020'): { l: number; c: number; h: number } | undefined {
+  if (gamutMode === 'sRGB' || inGamut('rgb')(oklch({ mode: 'oklch', l: color.l, c: color.c, h: color.h }))) {
+    return undefined;
+  }
+  return { l: color.l, c: color.c, h: color.h };
+}
+
+/**
+ * Clamp a color to fit within a specific gamut with the selected gamut-mapping strategy
+ */
+export function clampColorToGamut(
+  color: { l: number; c: number; h: number },
+  targetGamut: ColorGamut,
+  strategy: GamutMappingStrategy = DEFAULT_GAMUT_MAPPING_STRATEGY
+): { l: number; c: number; h: number; clamped: boolean; deltaE: number } {
   const oklchColor = oklch({ mode: 'oklch', l: color.l, c: color.c, h: color.h });
   
   // Map our gamut names to Culori's gamut identifiers
@@ -993,21 +1782,22 @@ export function clampColorToGamut(color: { l: number; c: number; h: number }, ta
       l: color.l,
       c: color.c,
       h: color.h,
-      clamped: false
+      clamped: false,
+      deltaE: 0
     };
   }
   
-  // Use Culori's clampChroma to reduce chroma while preserving hue and lightness
-  const clampedColor = clampChroma(oklchColor, 'oklch', targetGamutId);
-  
-  // Ensure we have a valid OKLCH color result
-  const clampedOklch = oklch(clampedColor);
+  const clampedOklch = mapToGamut(oklchColor, targetGamutId, strategy);
+  const result = {
+    l: clampedOklch?.l ?? color.l,
+    c: clampedOklch?.c ?? color.c,
+    h: clampedOklch?.h ?? color.h
+  };
   
   return {
-    l: clampedOklch?.l || color.l,
-    c: clampedOklch?.c || color.c,
-    h: clampedOklch?.h || color.h,
-    clamped: true
+    ...result,
+    clamped: true,
+    deltaE: measureDeltaE(oklchColor, { mode: 'oklch', ...result }, 'oklab')
   };
 }
 
@@ -1042,7 +1832,7 @@ export function validateColorGamut(color: PaletteColor, targetGamut: ColorGamut)
 /**
  * Validate color and provide warnings
  */
-export function validateColor(color: PaletteColor, controls: PaletteControls, gamutSettings?: { gamutMode: 'sRGB' | 'P3' | 'Rec2020' }, lightnessSettings?: { mode: 'contrast' | 'range' }): {
+export function validateColor(color: PaletteColor, controls: PaletteControls, gamutSettings?: GamutSettings, lightnessSettings?: LightnessSettings): {
   inGamut: boolean;
   gamut: ColorGamut | null;
   gamutValidation: GamutValidation;
@@ -1053,7 +1843,7 @@ export function validateColor(color: PaletteColor, controls: PaletteControls, ga
   const warnings: string[] = [];
   
   // Use provided gamut settings or defaults for backward compatibility
-  const effectiveGamutSettings = gamutSettings || { gamutMode: 'sRGB' };
+  const effectiveGamutSettings: GamutSettings = gamutSettings || { gamutMode: 'sRGB' };
   
   // Validate against target gamut
   const gamutValidation = validateColorGamut(color, effectiveGamutSettings.gamutMode);
@@ -1072,18 +1862,34 @@ export function validateColor(color: PaletteColor, controls: PaletteControls, ga
   
   if (effectiveLightnessSettings.mode === 'contrast' && controls.contrastTargets) {
     const targetContrast = controls.contrastTargets[color.step.toString()];
-    if (targetContrast) {
+    if (targetContrast && color.contrastStatus === 'unreachable') {
+      contrastDelta = Math.abs(color.contrast - targetContrast);
+      contrastAccuracy = 'POOR';
+      warnings.push(`Contrast target ${targetContrast} is unreachable; ${color.maxContrast} is the most this chroma and hue allow`);
+    } else if (targetContrast && color.contrastConstraints?.some((constraint, index) => index > 0 && constraint.binding)) {
+      // Another surface's minimum set the lightness, so the target is exceeded on purpose
+      contrastDelta = Math.abs(color.contrast - targetContrast);
+      contrastAccuracy = 'GOOD';
+    } else if (targetContrast) {
       contrastDelta = Math.abs(color.contrast - targetContrast);
       
-      if (contrastDelta < 0.3) {
+      // APCA Lc values use a ~5x wider scale than WCAG 2 ratios
+      const deltaScale = controls.contrastAlgorithm === 'apca' ? 5 : 1;
+      if (contrastDelta < 0.3 * deltaScale) {
         contrastAccuracy = 'GOOD';
-      } else if (contrastDelta < 0.8) {
+      } else if (contrastDelta < 0.8 * deltaScale) {
         contrastAccuracy = 'OK';
       } else {
         contrastAccuracy = 'POOR';
-        warnings.push(`Contrast ratio ${color.contrast.toFixed(1)} is far from target ${targetContrast}`);
+        const metric = controls.contrastAlgorithm === 'apca' ? 'APCA Lc' : 'Contrast ratio';
+        warnings.push(`${metric} ${color.contrast.toFixed(1)} is far from target ${targetContrast}`);
       }
     }
+
+    if (color.contrastStatus === 'conflict') {
+      const unmet = (color.contrastConstraints || []).filter(constraint => !constraint.met);
+      warnings.push(`No lightness meets every contrast constraint; unmet: ${unmet.map(constraint => `${constraint.minContrast} on ${constraint.background}`).join(', ')}`);
+    }
   }
   
   return {
@@ -1110,18 +1916,26 @@ export function getColorFormats(color: PaletteColor): ColorFormatValue {
   const rgbColor = rgb(oklchColor);
   const hslColor = hsl(oklchColor);
   
+  // hex, rgb and hsl are sRGB-only; oklch and p3 show the wide-gamut color when there is one
   return {
     hex: formatHex(oklchColor) || '#000000',
     rgb: formatRgb(rgbColor) || 'rgb(0, 0, 0)',
     hsl: formatHsl(hslColor) || 'hsl(0, 0%, 0%)',
-    oklch: color.oklch
+    oklch: color.wideGamut ? formatWideGamutColor(color, 'oklch') : color.oklch,
+    p3: formatWideGamutColor(color, 'display-p3')
   };
 }
 
 /**
  * Calculate contrast analysis for a color against a background
  */
-export function analyzeContrast(color: PaletteColor, backgroundColor: string, textSize: 'normal' | 'large' = 'normal'): ContrastResult {
+export function analyzeContrast(
+  color: PaletteColor,
+  backgroundColor: string,
+  textSize: 'normal' | 'large' = 'normal',
+  algorithm: ContrastAlgorithm = 'wcag2',
+  polarity: ContrastPolarity = 'color-on-background'
+): ContrastResult {
   const oklchColor = oklch({
     mode: 'oklch',
     l: color.lightness,
@@ -1129,6 +1943,26 @@ export function analyzeContrast(color: PaletteColor, backgroundColor: string, te
     h: color.hue
   });
   
+  if (algorithm === 'apca') {
+    // APCA is polarity-sensitive: compute both readings and grade the requested one
+    const colorOnBackground = apcaContrast(oklchColor, backgroundColor);
+    const textOnColor = apcaContrast(backgroundColor, oklchColor);
+    const lc = Math.abs(polarity === 'color-on-background' ? colorOnBackground : textOnColor);
+    
+    return {
+      algorithm,
+      ratio: Math.round(lc * 10) / 10,
+      wcagAA: lc >= (textSize === 'normal' ? APCA_THRESHOLDS.body : APCA_THRESHOLDS.large),
+      wcagAAA: lc >= (textSize === 'normal' ? APCA_THRESHOLDS.bodyPreferred : APCA_THRESHOLDS.body),
+      wcagAALarge: lc >= APCA_THRESHOLDS.large,
+      wcagAAALarge: lc >= APCA_THRESHOLDS.body,
+      apca: {
+        colorOnBackground: Math.round(colorOnBackground * 10) / 10,
+        textOnColor: Math.round(textOnColor * 10) / 10
+      }
+    };
+  }
+  
   const contrast = wcagContrast(oklchColor, backgroundColor) || 1;
   
   // WCAG 2.1 requirements
@@ -1138,6 +1972,7 @@ export function analyzeContrast(color: PaletteColor, backgroundColor: string, te
   const largeTextAAA = contrast >= 4.5;
   
   return {
+    algorithm,
     ratio: Math.round(contrast * 100) / 100,
     wcagAA: textSize === 'normal' ? normalTextAA : largeTextAA,
     wcagAAA: textSize === 'normal' ? normalTextAAA : largeTextAAA,
@@ -1149,7 +1984,7 @@ export function analyzeContrast(color: PaletteColor, backgroundColor: string, te
 /**
  * Get contrast badge information for UI display
  */
-export function getContrastBadge(contrastResult: ContrastResult, color: PaletteColor, showCompliance: boolean = true) {
+export function getContrastBadge(contrastResult: ContrastResult, color: PaletteColor, showCompliance: boolean = true, polarity: ContrastPolarity = 'color-on-background') {
   const { wcagAA, wcagAAA, ratio } = contrastResult;
   const textColor = getTextColorForBackground(color);
   const isLightBackground = textColor === '#000000';
@@ -1163,6 +1998,37 @@ export function getContrastBadge(contrastResult: ContrastResult, color: PaletteC
   let complianceLevel = '';
   let description = '';
   
+  if (contrastResult.algorithm === 'apca') {
+    if (wcagAAA) {
+      complianceLevel = 'Lc90';
+      description = 'Preferred APCA contrast for body text';
+    } else if (wcagAA) {
+      complianceLevel = 'Lc75';
+      description = 'Meets APCA minimum for body text';
+    } else if (contrastResult.wcagAALarge) {
+      complianceLevel = 'Lc60';
+      description = 'Meets APCA minimum for large or bold text only';
+    } else {
+      complianceLevel = 'FAIL';
+      description = 'Poor contrast - fails APCA text requirements';
+    }
+    
+    // Show the signed Lc so polarity (dark-on-light vs light-on-dark) is visible
+    const signedLc = polarity === 'color-on-background'
+      ? contrastResult.apca?.colorOnBackground
+      : contrastResult.apca?.textOnColor;
+    const value = `Lc ${signedLc ?? ratio}`;
+    description += polarity === 'color-on-background'
+      ? ' (swatch as text on the selected background)'
+      : ' (selected color as text on the swatch)';
+    
+    return {
+      label: showCompliance ? `${complianceLevel} ${value}` : value,
+      style: badgeStyle,
+      description
+    };
+  }
+  
   if (wcagAAA) {
     complianceLevel = 'AAA';
     description = 'Excellent contrast - exceeds all accessibility standards';
@@ -1184,6 +2050,43 @@ export function getContrastBadge(contrastResult: ContrastResult, color: PaletteC
   };
 }
 
+/**
+ * Compliance level of a contrast result for normal-size text
+ */
+export function getContrastLevel(contrastResult: ContrastResult): ContrastLevel {
+  if (contrastResult.wcagAAA) return 'AAA';
+  if (contrastResult.wcagAA) return 'AA';
+  if (contrastResult.wcagAALarge) return 'AA Large';
+  return 'Fail';
+}
+
+/**
+ * Display label for a compliance level in the given algorithm
+ */
+export function getContrastLevelLabel(level: ContrastLevel, algorithm: ContrastAlgorithm = 'wcag2'): string {
+  if (algorithm === 'apca') {
+    const apcaLabels: Record<ContrastLevel, string> = { 'AAA': 'Lc90', 'AA': 'Lc75', 'AA Large': 'Lc60', 'Fail': 'FAIL' };
+    return apcaLabels[level];
+  }
+  return level === 'Fail' ? 'FAIL' : level;
+}
+
+/**
+ * Compute contrast for every foreground/background step pair (rows: foregrounds, columns: backgrounds)
+ */
+export function computeContrastMatrix(
+  foregrounds: PaletteColor[],
+  backgrounds: PaletteColor[],
+  algorithm: ContrastAlgorithm = 'wcag2'
+): ContrastMatrixCell[][] {
+  return foregrounds.map(foreground =>
+    backgrounds.map(background => {
+      const result = analyzeContrast(foreground, background.css, 'normal', algorithm, 'color-on-background');
+      return { foreground, background, result, level: getContrastLevel(result) };
+    })
+  );
+}
+
 /**
  * Calculate the appropriate text color (white or black) for readability on a given color
  */
@@ -1204,14 +2107,45 @@ export function getTextColorForBackground(color: PaletteColor): string {
 }
 
 /**
- * Generate CSS custom properties for a palette
+ * Convert a palette name into a CSS/JS friendly identifier (e.g. "Purple Muted" -> "purple-muted")
  */
-export function generateCSSVariables(palette: PaletteColor[], paletteName: string = 'palette'): string {
+export function toTokenSlug(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'palette';
+}
+
+/**
+ * Generate CSS custom properties for a palette. With a wide-gamut format set, colors beyond sRGB
+ * are redeclared inside @supports/@media (color-gamut) so the hex values act as the sRGB fallback.
+ */
+export function generateCSSVariables(palette: PaletteColor[], paletteName: string = 'palette', selector: string = ':root', gamutSettings?: GamutSettings): string {
   const cssVariables = palette.map(color => 
     `  --${paletteName}-${color.tokenName}: ${color.css};`
   ).join('\n');
-  
-  return `:root {\n${cssVariables}\n}`;
+  const fallback = `${selector} {\n${cssVariables}\n}`;
+
+  const format = gamutSettings?.wideGamutFormat;
+  const mediaQuery = gamutSettings && getColorGamutMediaQuery(gamutSettings.gamutMode);
+  const wideColors = palette.filter(color => color.wideGamut);
+  if (!format || !mediaQuery || wideColors.length === 0) {
+    return fallback;
+  }
+
+  const wideVariables = wideColors.map(color =>
+    `      --${paletteName}-${color.tokenName}: ${formatWideGamutColor(color, format)};`
+  ).join('\n');
+  return `${fallback}
+
+@supports ${getWideGamutSupportsQuery(format)} {
+  @media ${mediaQuery} {
+    ${selector} {
+${wideVariables}
+    }
+  }
+}`;
 }
 
 /**
@@ -1230,16 +2164,59 @@ colors: {
 }
 
 /**
- * Copy text to clipboard
+ * Build a sorted Token Studio token set from generated colors
  */
-export async function copyToClipboard(text: string): Promise<boolean> {
-  try {
-    await navigator.clipboard.writeText(text);
-    return true;
-  } catch (err) {
-    console.error('Failed to copy text to clipboard:', err);
-    return false;
+function buildTokenStudioSet(colors: PaletteColor[]): Record<string, { value: string; type: string }> {
+  const paletteTokens: Record<string, { value: string; type: string }> = {}
+
+  // Add the generated colors using their dynamic token names
+  colors.forEach((color) => {
+    paletteTokens[color.tokenName] = {
+      value: color.css,
+      type: "color"
+    }
+  })
+
+  // Add pure black and white
+  paletteTokens["0"] = {
+    value: "#000000",
+    type: "color"
+  }
+  paletteTokens["100"] = {
+    value: "#ffffff",
+    type: "color"
   }
+
+  // Sort the tokens by numeric key order (0, 10, 15, 20, ... 95, 100)
+  const sortedTokens: Record<string, { value: string; type: string }> = {}
+  const sortedKeys = Object.keys(paletteTokens).sort((a, b) => parseInt(a) - parseInt(b))
+
+  sortedKeys.forEach(key => {
+    sortedTokens[key] = paletteTokens[key]
+  })
+
+  return sortedTokens
+}
+
+/**
+ * Generate Token Studio JSON for a set of palettes
+ * Dark-mode variants are exported as a sibling "<name>-dark" set with the same token names
+ */
+export function generateTokenStudioJson(palettes: Palette[], gamutSettings: GamutSettings, lightnessSettings: LightnessSettings): string {
+  const tokenStudioData: Record<string, Record<string, { value: string; type: string }>> = {}
+  const generated = generatePalettes(palettes, gamutSettings, lightnessSettings)
+
+  palettes.forEach(palette => {
+    const colors = generated[palette.id]
+    tokenStudioData[palette.name] = buildTokenStudioSet(colors)
+
+    const darkColors = generateDarkPalette(palette, gamutSettings, lightnessSettings)
+    if (darkColors) {
+      tokenStudioData[`${palette.name}-dark`] = buildTokenStudioSet(darkColors)
+    }
+  })
+
+  return JSON.stringify(tokenStudioData, null, 2)
 }
 
 /**
@@ -1267,71 +2244,16 @@ export function createNewPalette(name: string, controls: PaletteControls): Palet
   };
 }
 
-/**
- * Save palettes to local storage
- */
-export function savePalettesToStorage(palettes: Palette[], activePaletteId: string) {
-  try {
-    const data = {
-      palettes,
-      activePaletteId,
-      savedAt: new Date().toISOString()
-    };
-    localStorage.setItem('ads-color-generator-palettes', JSON.stringify(data));
-  } catch (error) {
-    console.error('Failed to save palettes to localStorage:', error);
-  }
-}
-
-/**
- * Load palettes from local storage
- */
-export function loadPalettesFromStorage(): { palettes: Palette[], activePaletteId: string } | null {
-  try {
-    const data = localStorage.getItem('ads-color-generator-palettes');
-    if (!data) return null;
-    
-    const parsed = JSON.parse(data);
-    
-    // Convert date strings back to Date objects and ensure all properties exist
-    const palettes = parsed.palettes.map((palette: any) => ({
-      ...palette,
-      createdAt: new Date(palette.createdAt),
-      updatedAt: new Date(palette.updatedAt),
-      // Apply migration if needed
-      controls: migratePaletteControls(palette.controls || {})
-    }));
-    
-    return {
-      palettes,
-      activePaletteId: parsed.activePaletteId
-    };
-  } catch (error) {
-    console.error('Failed to load palettes from localStorage:', error);
-    return null;
-  }
-}
-
-/**
- * Clear palettes from local storage
- */
-export function clearPalettesFromStorage() {
-  try {
-    localStorage.removeItem('ads-color-generator-palettes');
-  } catch (error) {
-    console.error('Failed to clear palettes from localStorage:', error);
-  }
-}
-
 /**
  * Export palettes to JSON format
  */
-export function exportPalettes(palettes: Palette[], activePaletteId: string): string {
+export function exportPalettes(palettes: Palette[], activePaletteId: string, semanticTokens: SemanticToken[] = []): string {
   const exportData = {
     version: '1.0',
     exportedAt: new Date().toISOString(),
     palettes,
     activePaletteId,
+    ...(semanticTokens.length > 0 ? { semanticTokens } : {}),
     metadata: {
       totalPalettes: palettes.length,
       tool: 'ADS Color Generator'
@@ -1344,7 +2266,7 @@ export function exportPalettes(palettes: Palette[], activePaletteId: string): st
 /**
  * Import palettes from JSON format
  */
-export function importPalettes(jsonData: string): { palettes: Palette[], activePaletteId: string } | null {
+export function importPalettes(jsonData: string): { palettes: Palette[], activePaletteId: string, semanticTokens?: SemanticToken[], warnings?: string[] } | null {
   try {
     const importData = JSON.parse(jsonData);
     
@@ -1354,11 +2276,16 @@ export function importPalettes(jsonData: string): { palettes: Palette[], activeP
     }
     
     // Convert date strings back to Date objects and ensure all properties exist
+    const warnings: string[] = [];
     const palettes = importData.palettes.map((palette: any) => {
       // Ensure the palette has all required properties
       if (!palette.id || !palette.name || !palette.controls) {
         throw new Error('Invalid palette data: missing required properties');
       }
+
+      const migrationWarnings: string[] = [];
+      const controls = migratePaletteControls(palette.controls || {}, migrationWarnings);
+      warnings.push(...migrationWarnings.map(warning => `${palette.name}: ${warning}`));
       
       return {
         ...palette,
@@ -1370,14 +2297,16 @@ export function importPalettes(jsonData: string): { palettes: Palette[], activeP
           // Ensure all required properties exist with defaults
           ...defaultControls,
           // Apply migration to ensure new format
-          ...migratePaletteControls(palette.controls || {})
+          ...controls
         }
       };
     });
     
     return {
       palettes,
-      activePaletteId: importData.activePaletteId || (palettes.length > 0 ? palettes[0].id : '')
+      activePaletteId: importData.activePaletteId || (palettes.length > 0 ? palettes[0].id : ''),
+      ...(Array.isArray(importData.semanticTokens) ? { semanticTokens: importData.semanticTokens } : {}),
+      ...(warnings.length > 0 ? { warnings } : {})
     };
   } catch (error) {
     console.error('Failed to import palettes:', error);
@@ -1385,25 +2314,6 @@ export function importPalettes(jsonData: string): { palettes: Palette[], activeP
   }
 }
 
-/**
- * Download palettes as JSON file
- */
-export function downloadPalettes(palettes: Palette[], activePaletteId: string, filename: string = 'color-palettes.json') {
-  const jsonData = exportPalettes(palettes, activePaletteId);
-  const blob = new Blob([jsonData], { type: 'application/json' });
-  const url = URL.createObjectURL(blob);
-  
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = filename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
-}
-
-
-
 /**
  * Convert external palette data to internal format
  * This helper function can be customized based on the structure of your localhost:5185 palettes
@@ -1485,7 +2395,8 @@ export function convertToLuminance(color: PaletteColor): PaletteColor {
     chroma: 0,
     hue: roundedHue,
     css: luminanceCss,
-    oklch: formatOklchWithCulori({ l: color.lightness, c: 0, h: roundedHue })
+    oklch: formatOklchWithCulori({ l: color.lightness, c: 0, h: roundedHue }),
+    wideGamut: undefined
   };
 }
 
@@ -1499,12 +2410,18 @@ export function convertPaletteToLuminance(colors: PaletteColor[]): PaletteColor[
 /**
  * Generate color options for contrast analysis combobox
  */
-export function generateColorOptions(palettes: Palette[], gamutSettings: GamutSettings, lightnessSettings: LightnessSettings): Array<{
+export function generateColorOptions(
+  palettes: Palette[],
+  gamutSettings: GamutSettings,
+  lightnessSettings: LightnessSettings,
+  generated: Record<string, PaletteColor[]> = generatePalettes(palettes, gamutSettings, lightnessSettings)
+): Array<{
   value: string
   label: string
   color: string
   group?: string
   isRelative?: boolean
+  paletteId?: string
 }> {
   const options: Array<{
     value: string
@@ -1512,6 +2429,7 @@ export function generateColorOptions(palettes: Palette[], gamutSettings: GamutSe
     color: string
     group?: string
     isRelative?: boolean
+    paletteId?: string
   }> = []
 
   // Add pure colors first
@@ -1545,16 +2463,15 @@ export function generateColorOptions(palettes: Palette[], gamutSettings: GamutSe
     })
   }
 
-  // Add colors from all palettes
+  // Add live references to the steps of all palettes
   palettes.forEach(palette => {
-    const colors = generatePalette(palette.controls, gamutSettings, lightnessSettings)
-    
-    colors.forEach(color => {
+    (generated[palette.id] || []).forEach(color => {
       options.push({
-        value: color.css,
+        value: formatPaletteReference(palette.id, color.step),
         label: `${palette.name} ${color.tokenName}`,
         color: color.css,
-        group: palette.name
+        group: palette.name,
+        paletteId: palette.id
       })
     })
   })
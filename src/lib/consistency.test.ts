@@ -0,0 +1,92 @@
+import { buildConsistencyReport, alignContrastTargets } from './consistency';
+import { generatePalette, measureContrast } from './colorGeneration';
+import { defaultControls } from './presets';
+import { PaletteControls } from '../types';
+
+const generate = (controls: PaletteControls) => generatePalette(controls, { gamutMode: 'sRGB' }, { mode: 'contrast' });
+
+const blue = { id: 'blue', colors: generate({ ...defaultControls, baseHue: 250 }) };
+const green = { id: 'green', colors: generate({ ...defaultControls, baseHue: 145 }) };
+const orange = { id: 'orange', colors: generate({ ...defaultControls, baseHue: 50 }) };
+const gray = { id: 'gray', colors: generate({ ...defaultControls, baseHue: 250, minChroma: 0, maxChroma: 0.01 }) };
+
+// Contrast targets lowered by half, so every step is lighter than the other palettes'
+const washedOut = {
+  id: 'washed-out',
+  colors: generate({
+    ...defaultControls,
+    baseHue: 300,
+    contrastTargets: Object.fromEntries(Object.entries(defaultControls.contrastTargets).map(([step, target]) => [step, 1 + (target - 1) / 2]))
+  })
+};
+
+describe('buildConsistencyReport', () => {
+  it('compares every core step of every palette', () => {
+    const report = buildConsistencyReport([blue, green]);
+    expect(report.rows.map(row => row.step)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+    report.rows.forEach(row => expect(row.cells.map(cell => cell.paletteId)).toEqual(['blue', 'green']));
+    expect(report.rows[5].tokenName).toBe('50');
+  });
+
+  it('finds nothing inconsistent in palettes solved for the same contrast targets', () => {
+    const report = buildConsistencyReport([blue, green, orange]);
+    expect(report.outlierCounts).toEqual({ blue: 0, green: 0, orange: 0 });
+  });
+
+  it('flags the lightness and contrast of a palette with different targets', () => {
+    const report = buildConsistencyReport([blue, green, orange, washedOut]);
+    expect(report.outlierCounts['washed-out']).toBeGreaterThan(0);
+    expect(report.outlierCounts).toMatchObject({ blue: 0, green: 0, orange: 0 });
+    const step8 = report.rows.find(row => row.step === 8)!.cells.find(cell => cell.paletteId === 'washed-out')!;
+    expect(step8.outliers).toEqual(expect.arrayContaining(['lightness', 'contrast']));
+  });
+
+  it('leaves a single palette unflagged', () => {
+    const report = buildConsistencyReport([washedOut]);
+    expect(report.outlierCounts).toEqual({ 'washed-out': 0 });
+  });
+
+  it('leaves neutral palettes out of the chroma comparison', () => {
+    const report = buildConsistencyReport([blue, green, gray]);
+    report.rows.forEach(row => {
+      expect(row.cells.find(cell => cell.paletteId === 'gray')!.outliers).not.toContain('chroma');
+      const chromatic = row.cells.filter(cell => cell.paletteId !== 'gray').map(cell => cell.chroma);
+      expect(row.median.chroma).toBeCloseTo((chromatic[0] + chromatic[1]) / 2, 10);
+    });
+  });
+
+  it('measures contrast against the given background and algorithm', () => {
+    const report = buildConsistencyReport([blue], '#000000', 'apca');
+    const cell = report.rows[0].cells[0];
+    expect(report).toMatchObject({ background: '#000000', algorithm: 'apca' });
+    expect(cell.contrast).toBeCloseTo(measureContrast(cell.css, '#000000', 'apca'), 10);
+  });
+});
+
+describe('alignContrastTargets', () => {
+  it('sets the targets to the contrast of the reference palette steps', () => {
+    const controls = { ...defaultControls, baseHue: 300 };
+    const targets = alignContrastTargets(controls, generate(controls), washedOut.colors);
+    washedOut.colors.filter(color => color.step >= 1 && color.step <= 11 && Number.isInteger(color.step)).forEach(color => {
+      expect(targets[color.step.toString()]).toBeCloseTo(measureContrast(color.css, '#ffffff', 'wcag2'), 2);
+    });
+  });
+
+  it('regenerates a palette at the reference lightness', () => {
+    const controls = { ...defaultControls, baseHue: 145 };
+    const aligned = generate({ ...controls, contrastTargets: alignContrastTargets(controls, generate(controls), washedOut.colors) });
+    const report = buildConsistencyReport([washedOut, { id: 'aligned', colors: aligned }]);
+    report.rows.forEach(row => row.cells.forEach(cell => expect(cell.outliers).not.toContain('contrast')));
+  });
+
+  it('measures with the palette algorithm against its own background', () => {
+    const controls: PaletteControls = { ...defaultControls, backgroundColor: '#1e293b', contrastAlgorithm: 'apca' };
+    const targets = alignContrastTargets(controls, generate(controls), blue.colors);
+    const step9 = blue.colors.find(color => color.step === 9)!;
+    expect(targets['9']).toBeCloseTo(measureContrast(step9.css, '#1e293b', 'apca'), 1);
+    // Intermediate steps keep their own targets
+    Object.keys(controls.contrastTargets).filter(step => !Number.isInteger(Number(step))).forEach(step => {
+      expect(targets[step]).toBe(controls.contrastTargets[step]);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { ContrastAlgorithm, PaletteColor, PaletteControls } from '../types';
+import { measureContrast, resolveBackgroundColor, STEP_TO_TOKEN_MAPPING } from './colorGeneration';
+
+/**
+ * Cross-palette consistency: compare each core step across palettes (lightness, contrast
+ * and chroma), flag steps that stray from the other palettes, and derive contrast targets
+ * that align a palette to a reference palette.
+ */
+
+export type ConsistencyMetric = 'lightness' | 'contrast' | 'chroma';
+
+export interface ConsistencyCell {
+  paletteId: string;
+  css: string;
+  lightness: number; // OKLCH L (0-1)
+  contrast: number;  // Against the shared comparison background
+  chroma: number;    // OKLCH C
+  outliers: ConsistencyMetric[];
+}
+
+export interface ConsistencyRow {
+  step: number;
+  tokenName: string;
+  cells: ConsistencyCell[];
+  median: Record<ConsistencyMetric, number>;
+}
+
+export interface ConsistencyReport {
+  rows: ConsistencyRow[];
+  // Outlying steps per palette, summed over all metrics
+  outlierCounts: Record<string, number>;
+  background: string;
+  algorithm: ContrastAlgorithm;
+}
+
+const CORE_STEPS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+// How far a step may sit from the median of the other palettes before it is flagged
+export const CONSISTENCY_TOLERANCE = {
+  lightness: 0.04,       // OKLCH L
+  contrastRatio: 0.12,   // Relative difference of WCAG ratios
+  contrastLc: 6,         // APCA Lc points
+  chroma: 0.35           // Relative difference of chroma
+};
+
+// Palettes whose most colorful step is below this are neutrals and skip the chroma comparison
+const NEUTRAL_CHROMA = 0.03;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Compare the core steps of generated palettes. Contrast is measured for every palette against
+ * the same background and algorithm so the values are comparable.
+ */
+export function buildConsistencyReport(
+  palettes: Array<{ id: string; colors: PaletteColor[] }>,
+  background: string = '#ffffff',
+  algorithm: ContrastAlgorithm = 'wcag2'
+): ConsistencyReport {
+  const neutralIds = new Set(
+    palettes
+      .filter(palette => Math.max(0, ...palette.colors.map(color => color.chroma)) < NEUTRAL_CHROMA)
+      .map(palette => palette.id)
+  );
+
+  const isContrastOutlier = (value: number, reference: number) => algorithm === 'apca'
+    ? Math.abs(value - reference) > CONSISTENCY_TOLERANCE.contrastLc
+    : Math.abs(value - reference) / reference > CONSISTENCY_TOLERANCE.contrastRatio;
+
+  const outlierCounts: Record<string, number> = {};
+  palettes.forEach(palette => { outlierCounts[palette.id] = 0; });
+
+  const rows = CORE_STEPS.map(step => {
+    const cells: ConsistencyCell[] = [];
+    palettes.forEach(palette => {
+      const color = palette.colors.find(c => c.step === step);
+      if (!color) return;
+      cells.push({
+        paletteId: palette.id,
+        css: color.css,
+        lightness: color.lightness,
+        contrast: measureContrast(color.css, background, algorithm),
+        chroma: color.chroma,
+        outliers: []
+      });
+    });
+
+    const chromatic = cells.filter(cell => !neutralIds.has(cell.paletteId));
+    const medians: Record<ConsistencyMetric, number> = {
+      lightness: median(cells.map(cell => cell.lightness)),
+      contrast: median(cells.map(cell => cell.contrast)),
+      chroma: median(chromatic.map(cell => cell.chroma))
+    };
+
+    // A single palette has nothing to be inconsistent with
+    if (cells.length > 1) {
+      cells.forEach(cell => {
+        if (Math.abs(cell.lightness - medians.lightness) > CONSISTENCY_TOLERANCE.lightness) {
+          cell.outliers.push('lightness');
+        }
+        if (isContrastOutlier(cell.contrast, medians.contrast)) {
+          cell.outliers.push('contrast');
+        }
+        if (!neutralIds.has(cell.paletteId) && chromatic.length > 1 && medians.chroma > 0 &&
+          Math.abs(cell.chroma - medians.chroma) / medians.chroma > CONSISTENCY_TOLERANCE.chroma) {
+          cell.outliers.push('chroma');
+        }
+        outlierCounts[cell.paletteId] += cell.outliers.length;
+      });
+    }
+
+    return { step, tokenName: STEP_TO_TOKEN_MAPPING[step], cells, median: medians };
+  });
+
+  return { rows, outlierCounts, background, algorithm };
+}
+
+/**
+ * Contrast targets that make each core step of a palette match the contrast the reference
+ * palette's step has against this palette's own background (and with its own algorithm)
+ */
+export function alignContrastTargets(
+  controls: PaletteControls,
+  colors: PaletteColor[],
+  referenceColors: PaletteColor[],
+  referencedPalettes?: Record<string, PaletteColor[]>
+): Record<string, number> {
+  const algorithm = controls.contrastAlgorithm || 'wcag2';
+  const background = resolveBackgroundColor(controls.backgroundColor, colors, '#ffffff', referencedPalettes);
+  const targets = { ...controls.contrastTargets };
+
+  CORE_STEPS.forEach(step => {
+    const reference = referenceColors.find(color => color.step === step);
+    if (!reference) return;
+    const contrast = measureContrast(reference.css, background, algorithm);
+    targets[step.toString()] = algorithm === 'apca' ? Math.round(contrast * 10) / 10 : Math.round(contrast * 100) / 100;
+  });
+
+  return targets;
+}
@@ -0,0 +1,102 @@
+import { applyEasing, evaluateMonotoneSpline, sanitizeCurvePoints, MIN_CURVE_POINT_GAP } from './curves';
+import { evaluateChromaCurve, sanitizeChromaCurvePoints, DEFAULT_CHROMA_CURVE_POINTS } from './chromaCurve';
+import { getHueOffset, sanitizeHueCurvePoints, createCustomHueCurvePoints, MAX_HUE_OFFSET } from './hueCurve';
+import { defaultControls } from './presets';
+import { CurvePoint } from '../types';
+
+const sample = (points: CurvePoint[], count: number = 101) =>
+  Array.from({ length: count }, (_, i) => evaluateMonotoneSpline(points, i / (count - 1)));
+
+describe('evaluateMonotoneSpline', () => {
+  const points = [{ x: 0, y: 0 }, { x: 0.3, y: 0.55 }, { x: 0.55, y: 1 }, { x: 0.8, y: 0.55 }, { x: 1, y: 0 }];
+
+  it('passes through every control point', () => {
+    points.forEach(point => expect(evaluateMonotoneSpline(points, point.x)).toBeCloseTo(point.y, 10));
+  });
+
+  it('never overshoots the control points between them', () => {
+    const values = sample(points);
+    expect(Math.max(...values)).toBeLessThanOrEqual(1 + 1e-12);
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(-1e-12);
+  });
+
+  it('stays monotone on monotone data, including steep steps', () => {
+    const steep = [{ x: 0, y: 0 }, { x: 0.1, y: 0.02 }, { x: 0.15, y: 0.9 }, { x: 0.5, y: 0.95 }, { x: 1, y: 1 }];
+    const values = sample(steep, 401);
+    values.slice(1).forEach((value, i) => expect(value).toBeGreaterThanOrEqual(values[i] - 1e-12));
+  });
+
+  it('holds flat runs flat', () => {
+    const flat = [{ x: 0, y: 0 }, { x: 0.4, y: 0.5 }, { x: 0.6, y: 0.5 }, { x: 1, y: 1 }];
+    [0.45, 0.5, 0.55].forEach(x => expect(evaluateMonotoneSpline(flat, x)).toBeCloseTo(0.5, 12));
+  });
+
+  it('holds the end values outside the points and handles degenerate input', () => {
+    const inner = [{ x: 0.2, y: 0.3 }, { x: 0.8, y: 0.7 }];
+    expect(evaluateMonotoneSpline(inner, 0)).toBe(0.3);
+    expect(evaluateMonotoneSpline(inner, 1)).toBe(0.7);
+    expect(evaluateMonotoneSpline(inner, 0.5)).toBeCloseTo(0.5, 12);
+    expect(evaluateMonotoneSpline([], 0.5)).toBe(0);
+    expect(evaluateMonotoneSpline([{ x: 0.5, y: 0.4 }], 0.9)).toBe(0.4);
+  });
+});
+
+describe('sanitizeCurvePoints', () => {
+  it('clamps, sorts and drops points that are too close', () => {
+    const points = sanitizeCurvePoints([
+      { x: 1.5, y: 2 },
+      { x: 0.5, y: 0.5 },
+      { x: 0.5 + MIN_CURVE_POINT_GAP / 2, y: 0.9 },
+      { x: -1, y: -1 }
+    ], 0, 1);
+    expect(points).toEqual([{ x: 0, y: 0 }, { x: 0.5, y: 0.5 }, { x: 1, y: 1 }]);
+  });
+
+  it('drops malformed points and rejects fewer than two', () => {
+    expect(sanitizeCurvePoints([{ x: 0, y: 0 }, { x: 'a', y: 1 }, null, { x: NaN, y: 0 }, { x: 1, y: Infinity }], 0, 1)).toBeNull();
+    expect(sanitizeCurvePoints([{ x: 0, y: 0 }, { x: 0.5 }, { x: 1, y: 1 }], 0, 1)).toEqual([{ x: 0, y: 0 }, { x: 1, y: 1 }]);
+    expect(sanitizeCurvePoints('points', 0, 1)).toBeNull();
+    expect(sanitizeCurvePoints(undefined, 0, 1)).toBeNull();
+  });
+
+  it('applies the chroma and hue ranges', () => {
+    expect(sanitizeChromaCurvePoints([{ x: 0, y: -0.5 }, { x: 1, y: 3 }])).toEqual([{ x: 0, y: 0 }, { x: 1, y: 1 }]);
+    expect(sanitizeHueCurvePoints([{ x: 0, y: -400 }, { x: 1, y: 400 }])).toEqual([{ x: 0, y: -MAX_HUE_OFFSET }, { x: 1, y: MAX_HUE_OFFSET }]);
+  });
+});
+
+describe('applyEasing', () => {
+  it.each(['none', 'ease-in', 'ease-out', 'ease-in-out'])('maps 0 and 1 to themselves with %s', easing => {
+    expect(applyEasing(0, easing)).toBe(0);
+    expect(applyEasing(1, easing)).toBe(1);
+  });
+
+  it('bends the midpoint in the expected direction', () => {
+    expect(applyEasing(0.5, 'ease-in')).toBe(0.25);
+    expect(applyEasing(0.5, 'ease-out')).toBe(0.75);
+    expect(applyEasing(0.5, 'ease-in-out')).toBe(0.5);
+    expect(applyEasing(0.5)).toBe(0.5);
+  });
+});
+
+describe('custom curves', () => {
+  it('keeps the chroma curve within 0-1', () => {
+    const values = Array.from({ length: 51 }, (_, i) => evaluateChromaCurve(DEFAULT_CHROMA_CURVE_POINTS, i / 50));
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...values)).toBeLessThanOrEqual(1);
+  });
+
+  it('follows custom hue points per step', () => {
+    const controls = { ...defaultControls, hueCurveMode: 'custom' as const, hueCurvePoints: [{ x: 0, y: -20 }, { x: 0.5, y: 0 }, { x: 1, y: 30 }] };
+    expect(getHueOffset(1, controls)).toBeCloseTo(-20, 10);
+    expect(getHueOffset(6, controls)).toBeCloseTo(0, 10);
+    expect(getHueOffset(11, controls)).toBeCloseTo(30, 10);
+  });
+
+  it('samples the drift curve so switching to custom keeps its shape', () => {
+    const controls = { ...defaultControls, lightHueDrift: -15, darkHueDrift: 25, hueAnchorStep: 4 };
+    const points = createCustomHueCurvePoints(controls);
+    const custom = { ...controls, hueCurveMode: 'custom' as const, hueCurvePoints: points };
+    [1, 4, 11].forEach(step => expect(getHueOffset(step, custom)).toBeCloseTo(getHueOffset(step, controls), 1));
+  });
+});
@@ -0,0 +1,111 @@
+import { CurvePoint } from '../types';
+
+/**
+ * Shared curve math for the editable chroma and hue curves: easing and a monotone cubic
+ * (Fritsch-Carlson) spline, which never overshoots between control points.
+ */
+
+// Minimum horizontal gap between neighbouring control points
+export const MIN_CURVE_POINT_GAP = 0.02;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Apply easing function to a normalized factor (0-1)
+ */
+export function applyEasing(factor: number, easing: string = 'none'): number {
+  switch (easing) {
+    case 'ease-in':
+      return factor * factor;
+    case 'ease-out':
+      return 1 - Math.pow(1 - factor, 2);
+    case 'ease-in-out':
+      return factor < 0.5 
+        ? 2 * factor * factor 
+        : 1 - Math.pow(-2 * factor + 2, 2) / 2;
+    default:
+      return factor;
+  }
+}
+
+/**
+ * Validate and normalize control points: clamp x to 0-1 and y to [minY, maxY], sort by x and drop
+ * points closer than MIN_CURVE_POINT_GAP. Returns null when fewer than two usable points remain.
+ */
+export function sanitizeCurvePoints(points: unknown, minY: number, maxY: number): CurvePoint[] | null {
+  if (!Array.isArray(points)) return null;
+
+  const valid = points
+    .filter((point): point is CurvePoint =>
+      !!point && typeof point.x === 'number' && typeof point.y === 'number' && isFinite(point.x) && isFinite(point.y))
+    .map(point => ({ x: clamp01(point.x), y: Math.max(minY, Math.min(maxY, point.y)) }))
+    .sort((a, b) => a.x - b.x);
+
+  const result: CurvePoint[] = [];
+  valid.forEach(point => {
+    const previous = result[result.length - 1];
+    if (!previous || point.x - previous.x >= MIN_CURVE_POINT_GAP) {
+      result.push(point);
+    }
+  });
+
+  return result.length >= 2 ? result : null;
+}
+
+/**
+ * Evaluate the monotone cubic spline through the control points at position x.
+ * Outside the first/last point the curve is held flat.
+ */
+export function evaluateMonotoneSpline(points: CurvePoint[], x: number): number {
+  if (points.length === 0) return 0;
+  if (points.length === 1 || x <= points[0].x) return points[0].y;
+  const last = points[points.length - 1];
+  if (x >= last.x) return last.y;
+
+  // Secant slopes between neighbouring points
+  const count = points.length;
+  const secants: number[] = [];
+  for (let i = 0; i < count - 1; i++) {
+    secants.push((points[i + 1].y - points[i].y) / (points[i + 1].x - points[i].x));
+  }
+
+  // Tangents: averaged secants, zeroed at local extrema (Fritsch-Carlson)
+  const tangents: number[] = [secants[0]];
+  for (let i = 1; i < count - 1; i++) {
+    tangents.push(secants[i - 1] * secants[i] <= 0 ? 0 : (secants[i - 1] + secants[i]) / 2);
+  }
+  tangents.push(secants[count - 2]);
+
+  // Limit tangents so each segment stays monotone
+  for (let i = 0; i < count - 1; i++) {
+    if (secants[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / secants[i];
+    const b = tangents[i + 1] / secants[i];
+    const magnitude = a * a + b * b;
+    if (magnitude > 9) {
+      const scale = 3 / Math.sqrt(magnitude);
+      tangents[i] = scale * a * secants[i];
+      tangents[i + 1] = scale * b * secants[i];
+    }
+  }
+
+  // Cubic Hermite interpolation on the segment containing x
+  const segment = points.findIndex((_point, i) => i < count - 1 && x <= points[i + 1].x);
+  const p0 = points[segment];
+  const p1 = points[segment + 1];
+  const h = p1.x - p0.x;
+  const t = (x - p0.x) / h;
+  const t2 = t * t;
+  const t3 = t2 * t;
+
+  const value = (2 * t3 - 3 * t2 + 1) * p0.y
+    + (t3 - 2 * t2 + t) * h * tangents[segment]
+    + (-2 * t3 + 3 * t2) * p1.y
+    + (t3 - t2) * h * tangents[segment + 1];
+
+  return value;
+}
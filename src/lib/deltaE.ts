@@ -0,0 +1,38 @@
+import { differenceCiede2000, differenceEuclidean, Color } from 'culori';
+import { DeltaEMetric } from '../types';
+
+/**
+ * Perceptual color differences used by the uniform lightness mode and its delta chart.
+ *
+ * OKLab distances are reported ×100 so both metrics share a scale (about 1 = just noticeable).
+ */
+
+const ciede2000 = differenceCiede2000();
+const oklabDistance = differenceEuclidean('oklab');
+
+export const DEFAULT_DELTA_E_METRIC: DeltaEMetric = 'oklab';
+
+/**
+ * Difference between two colors (culori color objects or CSS strings)
+ */
+export function measureDeltaE(a: Color | string, b: Color | string, metric: DeltaEMetric = DEFAULT_DELTA_E_METRIC): number {
+  if (metric === 'ciede2000') {
+    return ciede2000(a, b);
+  }
+  return oklabDistance(a, b) * 100;
+}
+
+/**
+ * Differences between each pair of neighbouring steps, in step order
+ */
+export function calculateNeighborDeltas(
+  colors: Array<{ step: number; css: string }>,
+  metric: DeltaEMetric = DEFAULT_DELTA_E_METRIC
+): Array<{ from: number; to: number; deltaE: number }> {
+  const sorted = [...colors].sort((a, b) => a.step - b.step);
+  return sorted.slice(1).map((color, i) => ({
+    from: sorted[i].step,
+    to: color.step,
+    deltaE: measureDeltaE(sorted[i].css, color.css, metric)
+  }));
+}
@@ -0,0 +1,126 @@
+import { generateDTCGTokens, generateDTCGJson, importDTCGPalettes, getDTCGGroupNames, isDTCGDocument, DTCG_EXTENSION_KEY } from './dtcg';
+import { createNewPalette, generatePalette } from './colorGeneration';
+import { defaultControls } from './presets';
+import { Palette, SemanticToken } from '../types';
+
+const gamut = { gamutMode: 'sRGB' as const };
+const lightness = { mode: 'contrast' as const };
+
+const paletteOf = (name: string, baseHue: number): Palette => createNewPalette(name, { ...defaultControls, baseHue });
+
+describe('getDTCGGroupNames', () => {
+  it('slugs names into valid group keys', () => {
+    const palette = paletteOf('Brand {Primary}.v2', 250);
+    expect(getDTCGGroupNames([palette]).get(palette.id)).toBe('brand-primary-v2');
+  });
+
+  it('numbers palettes that share a name', () => {
+    const first = paletteOf('Blue', 250);
+    const second = paletteOf('blue', 255);
+    const names = getDTCGGroupNames([first, second]);
+    expect(names.get(first.id)).toBe('blue');
+    expect(names.get(second.id)).toBe('blue-2');
+  });
+
+  it('keeps the semantic groups and dark-variant keys free', () => {
+    const semantic = paletteOf('Semantic', 10);
+    const blue = paletteOf('Blue', 250);
+    const blueDark = paletteOf('Blue Dark', 260);
+    const names = getDTCGGroupNames([semantic, blue, blueDark]);
+    expect(names.get(semantic.id)).toBe('semantic-2');
+    expect(names.get(blueDark.id)).toBe('blue-dark-2');
+  });
+});
+
+describe('generateDTCGTokens', () => {
+  it('exports one group per palette without overwriting duplicates', () => {
+    const palettes = [paletteOf('Blue', 250), paletteOf('Blue', 30)];
+    const tokens = generateDTCGTokens(palettes, gamut, lightness);
+    expect(Object.keys(tokens)).toEqual(['blue', 'blue-2']);
+    expect(tokens['blue-2']['50']).toMatchObject({ $value: generatePalette(palettes[1].controls).find(color => color.step === 6)!.css });
+  });
+
+  it('aliases semantic tokens to resolvable palette tokens', () => {
+    const palette = { ...paletteOf('Brand.Blue', 250), darkVariant: { enabled: true, backgroundColor: '#121212' } };
+    const semanticTokens: SemanticToken[] = [{ id: 's1', name: 'accent', light: { paletteId: palette.id, step: 6 }, dark: { paletteId: palette.id, step: 4 } }];
+    const tokens = generateDTCGTokens([palette], gamut, lightness, true, semanticTokens);
+    expect(tokens.semantic.accent).toMatchObject({ $value: '{brand-blue.50}' });
+    expect(tokens['semantic-dark'].accent).toMatchObject({ $value: '{brand-blue-dark.70}' });
+  });
+});
+
+describe('importDTCGPalettes', () => {
+  it('round-trips palettes, names and semantic tokens through the extensions', () => {
+    const palette = { ...paletteOf('Brand.Blue', 250), darkVariant: { enabled: true, backgroundColor: '#121212' } };
+    const other = paletteOf('Brand.Blue', 30);
+    const semanticTokens: SemanticToken[] = [{ id: 's1', name: 'accent', light: { paletteId: other.id, step: 6 }, dark: { paletteId: palette.id, step: 4 } }];
+    const imported = importDTCGPalettes(generateDTCGJson([palette, other], gamut, lightness, true, semanticTokens))!;
+
+    expect(imported.palettes.map(p => [p.id, p.name])).toEqual([[palette.id, 'Brand.Blue'], [other.id, 'Brand.Blue']]);
+    expect(imported.palettes[0].controls).toEqual(palette.controls);
+    expect(imported.palettes[0].darkVariant).toEqual(palette.darkVariant);
+    expect(imported.semanticTokens).toHaveLength(1);
+    expect(imported.semanticTokens![0]).toMatchObject({ name: 'accent', light: { paletteId: other.id, step: 6 }, dark: { paletteId: palette.id, step: 4 } });
+  });
+
+  it.each([['Crimson', 25], ['Teal', 195], ['Slate', 260]])('reproduces the core steps of %s without extensions', (name, baseHue) => {
+    const palette = paletteOf(name as string, baseHue as number);
+    const source = generatePalette(palette.controls, gamut, lightness);
+    const imported = importDTCGPalettes(generateDTCGJson([palette], gamut, lightness, false))!;
+    const colors = imported.palettes[0].colors;
+    source.filter(color => Number.isInteger(color.step)).forEach(color => {
+      expect(colors.find(c => c.step === color.step)!.css).toBe(color.css);
+    });
+  });
+
+  it('skips renamed extra steps when every core step is present', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const palette = paletteOf('Gray', 260);
+    const tokens = generateDTCGTokens([palette], gamut, lightness, false);
+    const group = { ...tokens.gray, 'extra-light': { $value: '#fafafa' } };
+    const imported = importDTCGPalettes(JSON.stringify({ gray: group }))!;
+    expect(imported.palettes[0].colors.find(color => color.step === 6)!.css).toBe((tokens.gray['50'] as { $value: string }).$value);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping 1 tokens'));
+    warn.mockRestore();
+  });
+
+  it('spreads unknown token names over the steps from light to dark', () => {
+    const json = JSON.stringify({
+      brand: {
+        $type: 'color',
+        '100': { $value: '#dbeafe' },
+        '500': { $value: '#3b82f6' },
+        '900': { $value: '#1e3a8a' }
+      }
+    });
+    const imported = importDTCGPalettes(json)!;
+    const lightnessValues = imported.palettes[0].controls.lightnessValues;
+    expect(Object.keys(lightnessValues).length).toBeGreaterThanOrEqual(3);
+    expect(lightnessValues['1']).toBeGreaterThan(lightnessValues['11']);
+  });
+
+  it('resolves aliases and color objects', () => {
+    const json = JSON.stringify({
+      base: { $type: 'color', '50': { $value: { colorSpace: 'srgb', components: [0, 0.4, 0.8] } } },
+      brand: { $type: 'color', '50': { $value: '{base.50}' } }
+    });
+    const imported = importDTCGPalettes(json)!;
+    expect(imported.palettes).toHaveLength(2);
+    expect(imported.palettes[1].controls.lightnessValues['6']).toBeCloseTo(imported.palettes[0].controls.lightnessValues['6'], 5);
+  });
+
+  it('rejects files without color tokens', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(importDTCGPalettes(JSON.stringify({ spacing: { $type: 'dimension', small: { $value: '4px' } } }))).toBeNull();
+    expect(importDTCGPalettes('not json')).toBeNull();
+    error.mockRestore();
+  });
+});
+
+describe('isDTCGDocument', () => {
+  it('tells token trees from palette exports', () => {
+    expect(isDTCGDocument({ blue: { '50': { $value: '#0000ff' } } })).toBe(true);
+    expect(isDTCGDocument({ palettes: [], version: '1.0' })).toBe(false);
+    expect(isDTCGDocument({ [DTCG_EXTENSION_KEY]: {} })).toBe(false);
+  });
+});
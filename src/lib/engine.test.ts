@@ -0,0 +1,100 @@
+import { selectPalettes, renderPalettes, OUTPUT_FORMATS, OutputFormat } from './engine';
+import { createNewPalette, generatePalette, generateDarkPalette, DEFAULT_DARK_BACKGROUND } from './colorGeneration';
+import { defaultControls } from './presets';
+import { Palette, SemanticToken } from '../types';
+
+// References are only resolved against other generated palettes, so the colors are generated without them
+const paletteWithId = (id: string, name: string, backgroundColor: string = '#ffffff'): Palette => ({
+  ...createNewPalette(name, defaultControls),
+  id,
+  controls: { ...defaultControls, backgroundColor }
+});
+
+describe('selectPalettes', () => {
+  const neutral = paletteWithId('neutral', 'Neutral');
+  const accent = paletteWithId('accent', 'Accent', 'neutral:2');
+  const brand = paletteWithId('brand', 'Brand');
+  const tokens: SemanticToken[] = [
+    { id: 'surface', name: 'surface', light: { paletteId: 'neutral', step: 1 } },
+    { id: 'primary', name: 'primary', light: { paletteId: 'brand', step: 6 }, dark: { paletteId: 'brand', step: 5 } }
+  ];
+
+  it('keeps the named palettes and the roles that point at them', () => {
+    const selected = selectPalettes([neutral, accent, brand], tokens, ['Brand']);
+    expect(selected.palettes).toEqual([brand]);
+    expect(selected.semanticTokens.map(token => token.name)).toEqual(['primary']);
+  });
+
+  it('keeps a referencing palette together with the palette it references', () => {
+    expect(selectPalettes([neutral, accent, brand], tokens, ['Accent', 'Neutral']).palettes).toEqual([neutral, accent]);
+  });
+
+  it('rejects unknown names', () => {
+    expect(() => selectPalettes([neutral], [], ['Neutral', 'Missing'])).toThrow('Palette(s) not found: Missing');
+  });
+
+  it('rejects leaving out a palette that a kept palette references', () => {
+    expect(() => selectPalettes([neutral, accent], [], ['Accent'])).toThrow('"Accent" references "Neutral"');
+  });
+});
+
+describe('renderPalettes', () => {
+  const neutral = paletteWithId('neutral', 'Neutral Gray');
+  const brand: Palette = {
+    ...paletteWithId('brand', 'Brand'),
+    controls: { ...defaultControls, baseHue: 25 },
+    darkVariant: { enabled: true, backgroundColor: DEFAULT_DARK_BACKGROUND }
+  };
+  const tokens: SemanticToken[] = [{ id: 'accent', name: 'accent', light: { paletteId: 'brand', step: 6 }, dark: { paletteId: 'brand', step: 4 } }];
+  const gamutSettings = { gamutMode: 'sRGB' as const };
+  const lightnessSettings = { mode: 'contrast' as const };
+  const neutralColors = generatePalette(neutral.controls, gamutSettings, lightnessSettings);
+  const brandDarkColors = generateDarkPalette(brand, gamutSettings, lightnessSettings)!;
+  const cssOf = (colors: typeof neutralColors, step: number) => colors.find(color => color.step === step)!.css;
+
+  it.each(OUTPUT_FORMATS)('ends the %s output with a newline', format => {
+    expect(renderPalettes([neutral], { format })).toMatch(/[^\n]\n$/);
+  });
+
+  it('renders css variables per palette, dark variants under .dark and semantic roles', () => {
+    const css = renderPalettes([neutral, brand], { format: 'css', semanticTokens: tokens });
+    expect(css).toContain(`:root {\n  --neutral-gray-100: ${cssOf(neutralColors, 0)};`);
+    expect(css).toContain(`  --neutral-gray-50: ${cssOf(neutralColors, 6)};`);
+    expect(css).toContain(`.dark {\n  --brand-100: ${cssOf(brandDarkColors, 0)};`);
+    expect(css).toContain('  --accent: var(--brand-50, ');
+    expect(css).not.toContain('.dark {\n  --neutral-gray-');
+  });
+
+  it('renders a tailwind colors module with dark variants as their own palettes', () => {
+    const output = renderPalettes([neutral, brand], { format: 'tailwind' });
+    const colors = JSON.parse(output.slice(output.indexOf('{'), output.lastIndexOf(';')));
+    expect(output).toContain('export const colors = ');
+    expect(Object.keys(colors)).toEqual(['neutral-gray', 'brand', 'brand-dark']);
+    expect(colors['neutral-gray']['50']).toBe(cssOf(neutralColors, 6));
+    expect(colors['brand-dark']['70']).toBe(cssOf(brandDarkColors, 4));
+  });
+
+  it('renders Tokens Studio sets by palette name', () => {
+    const sets = JSON.parse(renderPalettes([neutral, brand], { format: 'tokens-studio' }));
+    expect(Object.keys(sets)).toEqual(['Neutral Gray', 'Brand', 'Brand-dark']);
+    expect(sets['Neutral Gray']['50']).toEqual({ value: cssOf(neutralColors, 6), type: 'color' });
+  });
+
+  it('renders DTCG groups with semantic aliases', () => {
+    const tokensJson = JSON.parse(renderPalettes([neutral, brand], { format: 'dtcg', semanticTokens: tokens }));
+    expect(tokensJson['neutral-gray']['50']).toMatchObject({ $value: cssOf(neutralColors, 6) });
+    expect(tokensJson['brand-dark']['70']).toMatchObject({ $value: cssOf(brandDarkColors, 4) });
+    expect(tokensJson.semantic.accent).toMatchObject({ $value: '{brand.50}' });
+    expect(tokensJson['semantic-dark'].accent).toMatchObject({ $value: '{brand-dark.70}' });
+  });
+
+  it('applies the gamut and lightness settings', () => {
+    const range = renderPalettes([neutral], { format: 'tokens-studio', lightnessSettings: { mode: 'range' } });
+    const rangeColors = generatePalette(neutral.controls, gamutSettings, { mode: 'range' });
+    expect(JSON.parse(range)['Neutral Gray']['50'].value).toBe(cssOf(rangeColors, 6));
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() => renderPalettes([neutral], { format: 'scss' as OutputFormat })).toThrow('Unsupported output format: scss');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Headless palette engine.
+ *
+ * DOM-free entry point for generating palettes outside the React app (CLI, CI, scripts).
+ * Browser helpers such as clipboard and file downloads live in ./browser and are not exported here.
+ */
+
+import { Palette, GamutSettings, LightnessSettings, SemanticToken } from '../types';
+import {
+  generatePalettes,
+  generateDarkPalette,
+  generateCSSVariables,
+  generateTokenStudioJson,
+  importPalettes,
+  toTokenSlug
+} from './colorGeneration';
+import { generateDTCGJson, importDTCGPalettes, isDTCGDocument } from './dtcg';
+import { generateSemanticCSSVariables } from './semanticTokens';
+import { getPaletteDependencies } from './paletteReferences';
+
+export {
+  generatePalette,
+  generatePalettes,
+  generatePaletteWithReferences,
+  generatePaletteSet,
+  solveSelfReferencedPalette,
+  generateDarkPalette,
+  mirrorContrastTargets,
+  generateCSSVariables,
+  generateTailwindConfig,
+  generateTokenStudioJson,
+  exportPalettes,
+  importPalettes,
+  createNewPalette,
+  analyzeContrast,
+  measureContrast,
+  parseToOklch,
+  isValidColor,
+  toTokenSlug
+} from './colorGeneration';
+export { generateDTCGTokens, generateDTCGJson, importDTCGPalettes } from './dtcg';
+export {
+  generateSemanticCSSVariables,
+  resolveSemanticToken,
+  validateSemanticTokens,
+  parseTokenReference,
+  formatTokenReference
+} from './semanticTokens';
+export { parsePaletteReference, formatPaletteReference, orderPalettesByReferences } from './paletteReferences';
+export { migratePaletteControls } from './migration';
+export { defaultControls, presets } from './presets';
+export type { Palette, PaletteColor, PaletteControls, GamutSettings, LightnessSettings, DarkModeVariant, SemanticToken, SemanticTokenReference } from '../types';
+
+export type OutputFormat = 'css' | 'tailwind' | 'tokens-studio' | 'dtcg';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['css', 'tailwind', 'tokens-studio', 'dtcg'];
+
+export interface RenderOptions {
+  format: OutputFormat;
+  gamutSettings?: GamutSettings;
+  lightnessSettings?: LightnessSettings;
+  // Role aliases emitted by the css and dtcg formats
+  semanticTokens?: SemanticToken[];
+}
+
+const DEFAULT_GAMUT_SETTINGS: GamutSettings = { gamutMode: 'sRGB' };
+const DEFAULT_LIGHTNESS_SETTINGS: LightnessSettings = { mode: 'contrast' };
+
+/**
+ * Render a set of palettes in the requested output format
+ */
+export function renderPalettes(palettes: Palette[], options: RenderOptions): string {
+  const gamutSettings = options.gamutSettings || DEFAULT_GAMUT_SETTINGS;
+  const lightnessSettings = options.lightnessSettings || DEFAULT_LIGHTNESS_SETTINGS;
+
+  switch (options.format) {
+    case 'css': {
+      const generated = generatePalettes(palettes, gamutSettings, lightnessSettings);
+      const blocks = palettes.map(palette => generateCSSVariables(
+        generated[palette.id],
+        toTokenSlug(palette.name),
+        ':root',
+        gamutSettings
+      ));
+      // Dark variants reuse the light variable names under the app's `.dark` theme class
+      palettes.forEach(palette => {
+        const darkColors = generateDarkPalette(palette, gamutSettings, lightnessSettings);
+        if (darkColors) {
+          blocks.push(generateCSSVariables(darkColors, toTokenSlug(palette.name), '.dark', gamutSettings));
+        }
+      });
+      if (options.semanticTokens && options.semanticTokens.length > 0) {
+        blocks.push(generateSemanticCSSVariables(options.semanticTokens, palettes, gamutSettings, lightnessSettings));
+      }
+      return blocks.join('\n\n') + '\n';
+    }
+    case 'tailwind': {
+      const colors: Record<string, Record<string, string>> = {};
+      const generated = generatePalettes(palettes, gamutSettings, lightnessSettings);
+      palettes.forEach(palette => {
+        const paletteColors: Record<string, string> = {};
+        generated[palette.id].forEach(color => {
+          paletteColors[color.tokenName] = color.css;
+        });
+        colors[toTokenSlug(palette.name)] = paletteColors;
+
+        const darkColors = generateDarkPalette(palette, gamutSettings, lightnessSettings);
+        if (darkColors) {
+          const darkPaletteColors: Record<string, string> = {};
+          darkColors.forEach(color => {
+            darkPaletteColors[color.tokenName] = color.css;
+          });
+          colors[`${toTokenSlug(palette.name)}-dark`] = darkPaletteColors;
+        }
+      });
+      return `// Generated by ads-color - spread into theme.extend.colors in tailwind.config.js
+export const colors = ${JSON.stringify(colors, null, 2)};
+`;
+    }
+    case 'tokens-studio':
+      return generateTokenStudioJson(palettes, gamutSettings, lightnessSettings) + '\n';
+    case 'dtcg':
+      return generateDTCGJson(palettes, gamutSettings, lightnessSettings, true, options.semanticTokens) + '\n';
+    default:
+      throw new Error(`Unsupported output format: ${options.format}`);
+  }
+}
+
+/**
+ * Parse an exportPalettes() or DTCG token JSON document, throwing instead of returning null
+ */
+export function loadPaletteDocument(jsonData: string): { palettes: Palette[], semanticTokens: SemanticToken[] } {
+  let isDTCG = false;
+  try {
+    isDTCG = isDTCGDocument(JSON.parse(jsonData));
+  } catch {
+    throw new Error('Invalid palettes file: not valid JSON');
+  }
+
+  const imported = isDTCG ? importDTCGPalettes(jsonData) : importPalettes(jsonData);
+  if (!imported) {
+    throw new Error('Invalid palettes file: expected the JSON produced by "Export Palettes" or a DTCG token file');
+  }
+  return { palettes: imported.palettes, semanticTokens: imported.semanticTokens || [] };
+}
+
+/**
+ * Parse an exportPalettes() or DTCG token JSON document, returning only the palettes
+ */
+export function loadPalettesFromJson(jsonData: string): Palette[] {
+  return loadPaletteDocument(jsonData).palettes;
+}
+
+/**
+ * Keep only the named palettes and the semantic tokens that still point at kept palettes. Throws when a
+ * name is unknown or a kept palette's background references a palette that was left out, since that
+ * reference would otherwise fall back to white.
+ */
+export function selectPalettes(
+  palettes: Palette[],
+  semanticTokens: SemanticToken[],
+  names: string[]
+): { palettes: Palette[], semanticTokens: SemanticToken[] } {
+  const missing = names.filter(name => !palettes.some(palette => palette.name === name));
+  if (missing.length > 0) {
+    throw new Error(`Palette(s) not found: ${missing.join(', ')}`);
+  }
+
+  const selected = palettes.filter(palette => names.includes(palette.name));
+  const paletteIds = new Set(selected.map(palette => palette.id));
+  const byId = new Map(palettes.map(palette => [palette.id, palette]));
+  const leftOut = selected.flatMap(palette => getPaletteDependencies(palette.controls)
+    .filter(id => !paletteIds.has(id) && byId.has(id))
+    .map(id => `"${palette.name}" references "${byId.get(id)!.name}"`));
+  if (leftOut.length > 0) {
+    throw new Error(`Referenced palette(s) not included: ${leftOut.join(', ')}`);
+  }
+
+  return {
+    palettes: selected,
+    // Drop roles whose references point at palettes that were filtered out
+    semanticTokens: semanticTokens.filter(token =>
+      paletteIds.has(token.light.paletteId) && (!token.dark || paletteIds.has(token.dark.paletteId))
+    )
+  };
+}
@@ -0,0 +1,127 @@
+import { renderExportFiles, getExportFormatters, registerExportFormatter, createExportContext } from './exportFormats';
+import { createNewPalette, generatePalette, generateDarkPalette, DEFAULT_DARK_BACKGROUND } from './colorGeneration';
+import { defaultControls } from './presets';
+import { Palette } from '../types';
+
+const gamut = { gamutMode: 'sRGB' as const };
+const lightness = { mode: 'contrast' as const };
+
+const brand: Palette = {
+  ...createNewPalette('Brand Blue', { ...defaultControls, baseHue: 250 }),
+  darkVariant: { enabled: true, backgroundColor: DEFAULT_DARK_BACKGROUND }
+};
+const neutral = createNewPalette('Neutral', { ...defaultControls, baseHue: 260, maxChroma: 0.02 });
+const palettes = [brand, neutral];
+
+const brandColors = generatePalette(brand.controls, gamut, lightness);
+const brandDark = generateDarkPalette(brand, gamut, lightness)!;
+const step6 = brandColors.find(color => color.step === 6)!;
+const darkStep6 = brandDark.find(color => color.step === 6)!;
+
+const render = (formatId: string) => renderExportFiles(formatId, palettes, gamut, lightness);
+const contentOf = (formatId: string, path: string) => render(formatId).find(file => file.path === path)!.content;
+
+describe('export formatters', () => {
+  it('registers every built-in format', () => {
+    expect(getExportFormatters().map(formatter => formatter.id)).toEqual(
+      expect.arrayContaining(['css', 'tailwind', 'scss', 'less', 'js', 'ts', 'ios', 'android', 'compose'])
+    );
+  });
+
+  it('returns no files for an unknown format', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(render('cobol')).toEqual([]);
+    expect(error).toHaveBeenCalledWith('Unknown export format: cobol');
+    error.mockRestore();
+  });
+
+  it('replaces formatters registered under the same id', () => {
+    const count = getExportFormatters().length;
+    registerExportFormatter({ id: 'test-format', label: 'Test', description: '', render: () => [{ path: 'a', content: '1' }] });
+    registerExportFormatter({ id: 'test-format', label: 'Test', description: '', render: () => [{ path: 'b', content: '2' }] });
+    expect(getExportFormatters()).toHaveLength(count + 1);
+    expect(render('test-format')).toEqual([{ path: 'b', content: '2' }]);
+  });
+
+  it('generates light and dark colors once per palette', () => {
+    const context = createExportContext(palettes, gamut, lightness);
+    expect(context.palettes.map(entry => entry.slug)).toEqual(['brand-blue', 'neutral']);
+    expect(context.palettes[0].colors.map(color => color.css)).toEqual(brandColors.map(color => color.css));
+    expect(context.palettes[0].darkColors).not.toBeNull();
+    expect(context.palettes[1].darkColors).toBeNull();
+  });
+});
+
+describe('stylesheet formats', () => {
+  it('writes one SCSS map per ramp and an index map', () => {
+    const scss = contentOf('scss', '_colors.scss');
+    expect(scss).toContain(`$brand-blue: (\n`);
+    expect(scss).toContain(`  "${step6.tokenName}": ${step6.css}`);
+    expect(scss).toContain(`$brand-blue-dark: (\n`);
+    expect(scss).toContain(`$palettes: (\n  "brand-blue": $brand-blue,\n  "brand-blue-dark": $brand-blue-dark,\n  "neutral": $neutral\n);`);
+  });
+
+  it('writes one Less variable per step', () => {
+    const less = contentOf('less', 'colors.less');
+    expect(less).toContain(`@brand-blue-${step6.tokenName}: ${step6.css};`);
+    expect(less).toContain(`@brand-blue-dark-${darkStep6.tokenName}: ${darkStep6.css};`);
+    expect(less.match(/^@neutral-/gm)).toHaveLength(brandColors.length);
+  });
+});
+
+describe('module formats', () => {
+  it.each([['js', 'colors.js'], ['ts', 'colors.ts']])('exports a colors object from %s', (formatId, path) => {
+    const content = contentOf(formatId, path);
+    // The object is pretty-printed, so its only unindented closing brace ends it
+    const colors = JSON.parse(content.slice(content.indexOf('{'), content.indexOf('\n}') + 2));
+    expect(Object.keys(colors)).toEqual(['brand-blue', 'brand-blue-dark', 'neutral']);
+    expect(colors['brand-blue'][step6.tokenName]).toBe(step6.css);
+    expect(content).toContain('export default colors;');
+  });
+
+  it('types the TypeScript module as read-only', () => {
+    const content = contentOf('ts', 'colors.ts');
+    expect(content).toContain('} as const;');
+    expect(content).toContain('export type ColorToken<P extends PaletteName>');
+  });
+});
+
+describe('platform formats', () => {
+  it('writes an iOS colorset per step with a dark appearance for dark variants', () => {
+    const files = render('ios');
+    expect(files[0].path).toBe('Colors.xcassets/Contents.json');
+    const folder = JSON.parse(files.find(file => file.path === 'Colors.xcassets/brand-blue/Contents.json')!.content);
+    expect(folder.properties['provides-namespace']).toBe(true);
+
+    const colorset = JSON.parse(contentOf('ios', `Colors.xcassets/brand-blue/${step6.tokenName}.colorset/Contents.json`));
+    expect(colorset.colors).toHaveLength(2);
+    const toHex = (components: Record<string, string>) =>
+      `#${[components.red, components.green, components.blue].map(value => value.slice(2)).join('')}`.toLowerCase();
+    expect(toHex(colorset.colors[0].color.components)).toBe(step6.css);
+    expect(colorset.colors[1].appearances).toEqual([{ appearance: 'luminosity', value: 'dark' }]);
+    expect(toHex(colorset.colors[1].color.components)).toBe(darkStep6.css);
+
+    const neutralColorset = JSON.parse(contentOf('ios', `Colors.xcassets/neutral/${step6.tokenName}.colorset/Contents.json`));
+    expect(neutralColorset.colors).toHaveLength(1);
+  });
+
+  it('writes Android resources with night overrides for dark variants only', () => {
+    const files = render('android');
+    expect(files.map(file => file.path)).toEqual(['res/values/colors.xml', 'res/values-night/colors.xml']);
+    expect(files[0].content).toContain(`<color name="brand_blue_${step6.tokenName}">${step6.css.toUpperCase()}</color>`);
+    expect(files[1].content).toContain(`<color name="brand_blue_${darkStep6.tokenName}">${darkStep6.css.toUpperCase()}</color>`);
+    expect(files[1].content).not.toContain('neutral_');
+  });
+
+  it('omits night resources without dark variants', () => {
+    expect(renderExportFiles('android', [neutral], gamut, lightness).map(file => file.path)).toEqual(['res/values/colors.xml']);
+  });
+
+  it('writes one Compose object per ramp', () => {
+    const kotlin = contentOf('compose', 'Colors.kt');
+    expect(kotlin).toContain('import androidx.compose.ui.graphics.Color');
+    expect(kotlin).toContain('object BrandBlueColors {');
+    expect(kotlin).toContain('object BrandBlueDarkColors {');
+    expect(kotlin).toContain(`    val Tone${step6.tokenName} = Color(0xFF${step6.css.slice(1).toUpperCase()})`);
+  });
+});
@@ -0,0 +1,297 @@
+import { parse, rgb } from 'culori';
+import { Palette, PaletteColor, GamutSettings, LightnessSettings, SemanticToken } from '../types';
+import { generatePalettes, generateDarkPalette, toTokenSlug } from './colorGeneration';
+import { renderPalettes } from './engine';
+
+/**
+ * Code export formats. Each formatter turns the generated palettes into one or more files;
+ * formatters are kept in a registry so new targets can be added without touching the dialog.
+ */
+
+export interface ExportFile {
+  path: string;
+  content: string;
+}
+
+// Generated colors for one palette, shared by all formatters
+export interface ExportPalette {
+  palette: Palette;
+  slug: string;
+  colors: PaletteColor[];
+  // Dark-mode variant colors, when the palette has one enabled
+  darkColors: PaletteColor[] | null;
+}
+
+export interface ExportContext {
+  palettes: ExportPalette[];
+  sourcePalettes: Palette[];
+  semanticTokens: SemanticToken[];
+  gamutSettings: GamutSettings;
+  lightnessSettings: LightnessSettings;
+}
+
+export interface ExportFormatter {
+  id: string;
+  label: string;
+  description: string;
+  render: (context: ExportContext) => ExportFile[];
+}
+
+const formatters = new Map<string, ExportFormatter>();
+
+/**
+ * Add a formatter to the registry (a formatter with the same id is replaced)
+ */
+export function registerExportFormatter(formatter: ExportFormatter): void {
+  formatters.set(formatter.id, formatter);
+}
+
+/**
+ * All registered formatters, in registration order
+ */
+export function getExportFormatters(): ExportFormatter[] {
+  return Array.from(formatters.values());
+}
+
+/**
+ * Generate the palettes once and render them with a registered formatter
+ */
+export function renderExportFiles(
+  formatId: string,
+  palettes: Palette[],
+  gamutSettings: GamutSettings,
+  lightnessSettings: LightnessSettings,
+  semanticTokens: SemanticToken[] = []
+): ExportFile[] {
+  const formatter = formatters.get(formatId);
+  if (!formatter) {
+    console.error(`Unknown export format: ${formatId}`);
+    return [];
+  }
+  return formatter.render(createExportContext(palettes, gamutSettings, lightnessSettings, semanticTokens));
+}
+
+/**
+ * Generate light and dark colors for every palette
+ */
+export function createExportContext(
+  palettes: Palette[],
+  gamutSettings: GamutSettings,
+  lightnessSettings: LightnessSettings,
+  semanticTokens: SemanticToken[] = []
+): ExportContext {
+  const generated = generatePalettes(palettes, gamutSettings, lightnessSettings);
+  return {
+    palettes: palettes.map(palette => ({
+      palette,
+      slug: toTokenSlug(palette.name),
+      colors: generated[palette.id],
+      darkColors: generateDarkPalette(palette, gamutSettings, lightnessSettings)
+    })),
+    sourcePalettes: palettes,
+    semanticTokens,
+    gamutSettings,
+    lightnessSettings
+  };
+}
+
+// Identifier helpers for languages that do not allow "-" or leading digits
+const toSnakeCase = (value: string) => value.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '').toLowerCase();
+const toPascalCase = (value: string) => value
+  .split(/[^a-zA-Z0-9]+/)
+  .filter(Boolean)
+  .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+  .join('');
+
+// Both light and dark ramps as [name suffix, colors] pairs
+function getRamps(entry: ExportPalette): Array<{ suffix: string; colors: PaletteColor[] }> {
+  return entry.darkColors
+    ? [{ suffix: '', colors: entry.colors }, { suffix: '-dark', colors: entry.darkColors }]
+    : [{ suffix: '', colors: entry.colors }];
+}
+
+function toColorRecord(colors: PaletteColor[]): Record<string, string> {
+  return Object.fromEntries(colors.map(color => [color.tokenName, color.css]));
+}
+
+registerExportFormatter({
+  id: 'css',
+  label: 'CSS Variables',
+  description: 'Custom properties on :root, dark variants under .dark, semantic roles as aliases',
+  render: ({ sourcePalettes, gamutSettings, lightnessSettings, semanticTokens }) => [{
+    path: 'colors.css',
+    content: renderPalettes(sourcePalettes, { format: 'css', gamutSettings, lightnessSettings, semanticTokens })
+  }]
+});
+
+registerExportFormatter({
+  id: 'tailwind',
+  label: 'Tailwind',
+  description: 'Colors object to spread into theme.extend.colors',
+  render: ({ sourcePalettes, gamutSettings, lightnessSettings }) => [{
+    path: 'tailwind.colors.js',
+    content: renderPalettes(sourcePalettes, { format: 'tailwind', gamutSettings, lightnessSettings })
+  }]
+});
+
+registerExportFormatter({
+  id: 'scss',
+  label: 'SCSS',
+  description: 'One Sass map per palette plus a $palettes map of all of them',
+  render: ({ palettes }) => {
+    const blocks: string[] = [];
+    const names: string[] = [];
+    palettes.forEach(entry => getRamps(entry).forEach(({ suffix, colors }) => {
+      const name = `${entry.slug}${suffix}`;
+      names.push(name);
+      blocks.push(`$${name}: (\n${colors.map(color => `  "${color.tokenName}": ${color.css}`).join(',\n')}\n);`);
+    }));
+    blocks.push(`$palettes: (\n${names.map(name => `  "${name}": $${name}`).join(',\n')}\n);`);
+    return [{ path: '_colors.scss', content: `// Generated by ads-color\n\n${blocks.join('\n\n')}\n` }];
+  }
+});
+
+registerExportFormatter({
+  id: 'less',
+  label: 'Less',
+  description: 'One variable per step (@palette-token)',
+  render: ({ palettes }) => {
+    const blocks = palettes.flatMap(entry => getRamps(entry).map(({ suffix, colors }) =>
+      colors.map(color => `@${entry.slug}${suffix}-${color.tokenName}: ${color.css};`).join('\n')
+    ));
+    return [{ path: 'colors.less', content: `// Generated by ads-color\n\n${blocks.join('\n\n')}\n` }];
+  }
+});
+
+registerExportFormatter({
+  id: 'js',
+  label: 'JavaScript Module',
+  description: 'ES module exporting a colors object',
+  render: ({ palettes }) => {
+    const colors = Object.fromEntries(palettes.flatMap(entry => getRamps(entry).map(({ suffix, colors }) =>
+      [`${entry.slug}${suffix}`, toColorRecord(colors)]
+    )));
+    return [{
+      path: 'colors.js',
+      content: `// Generated by ads-color\nexport const colors = ${JSON.stringify(colors, null, 2)};\n\nexport default colors;\n`
+    }];
+  }
+});
+
+registerExportFormatter({
+  id: 'ts',
+  label: 'TypeScript Module',
+  description: 'Typed, read-only colors object with palette and token name types',
+  render: ({ palettes }) => {
+    const colors = Object.fromEntries(palettes.flatMap(entry => getRamps(entry).map(({ suffix, colors }) =>
+      [`${entry.slug}${suffix}`, toColorRecord(colors)]
+    )));
+    return [{
+      path: 'colors.ts',
+      content: `// Generated by ads-color
+export const colors = ${JSON.stringify(colors, null, 2)} as const;
+
+export type PaletteName = keyof typeof colors;
+export type ColorToken<P extends PaletteName> = keyof (typeof colors)[P];
+
+export default colors;
+`
+    }];
+  }
+});
+
+// iOS asset catalog color component (sRGB, 0-255 hex strings as Xcode writes them)
+function toColorsetColor(css: string) {
+  const color = rgb(parse(css));
+  const hex = (value: number | undefined) =>
+    `0x${Math.round(Math.max(0, Math.min(1, value ?? 0)) * 255).toString(16).toUpperCase().padStart(2, '0')}`;
+  return {
+    'color-space': 'srgb',
+    components: {
+      alpha: (color?.alpha ?? 1).toFixed(3),
+      red: hex(color?.r),
+      green: hex(color?.g),
+      blue: hex(color?.b)
+    }
+  };
+}
+
+const XCODE_INFO = { author: 'xcode', version: 1 };
+
+registerExportFormatter({
+  id: 'ios',
+  label: 'iOS Asset Catalog',
+  description: 'Colors.xcassets with one .colorset per step; dark variants become dark appearances',
+  render: ({ palettes }) => {
+    const files: ExportFile[] = [
+      { path: 'Colors.xcassets/Contents.json', content: JSON.stringify({ info: XCODE_INFO }, null, 2) }
+    ];
+    palettes.forEach(entry => {
+      const folder = `Colors.xcassets/${entry.slug}`;
+      // Namespaced folders make colors available as UIColor(named: "blue/50")
+      files.push({
+        path: `${folder}/Contents.json`,
+        content: JSON.stringify({ info: XCODE_INFO, properties: { 'provides-namespace': true } }, null, 2)
+      });
+      entry.colors.forEach(color => {
+        const dark = entry.darkColors?.find(darkColor => darkColor.step === color.step);
+        const appearances: object[] = [{ color: toColorsetColor(color.css), idiom: 'universal' }];
+        if (dark) {
+          appearances.push({
+            appearances: [{ appearance: 'luminosity', value: 'dark' }],
+            color: toColorsetColor(dark.css),
+            idiom: 'universal'
+          });
+        }
+        files.push({
+          path: `${folder}/${color.tokenName}.colorset/Contents.json`,
+          content: JSON.stringify({ colors: appearances, info: XCODE_INFO }, null, 2)
+        });
+      });
+    });
+    return files;
+  }
+});
+
+const toAndroidColor = (css: string) => css.toUpperCase();
+
+registerExportFormatter({
+  id: 'android',
+  label: 'Android XML',
+  description: 'res/values/colors.xml, with dark variants in res/values-night',
+  render: ({ palettes }) => {
+    const renderResources = (lines: string[]) =>
+      `<?xml version="1.0" encoding="utf-8"?>\n<!-- Generated by ads-color -->\n<resources>\n${lines.join('\n')}\n</resources>\n`;
+    const colorLine = (entry: ExportPalette, color: PaletteColor) =>
+      `    <color name="${toSnakeCase(`${entry.slug}_${color.tokenName}`)}">${toAndroidColor(color.css)}</color>`;
+
+    const files: ExportFile[] = [{
+      path: 'res/values/colors.xml',
+      content: renderResources(palettes.flatMap(entry => entry.colors.map(color => colorLine(entry, color))))
+    }];
+
+    // Night resources override the same names, so only palettes with a dark variant are listed
+    const darkLines = palettes.flatMap(entry => (entry.darkColors || []).map(color => colorLine(entry, color)));
+    if (darkLines.length > 0) {
+      files.push({ path: 'res/values-night/colors.xml', content: renderResources(darkLines) });
+    }
+    return files;
+  }
+});
+
+registerExportFormatter({
+  id: 'compose',
+  label: 'Jetpack Compose',
+  description: 'Kotlin Color values, one object per palette',
+  render: ({ palettes }) => {
+    const toComposeColor = (css: string) => `Color(0xFF${css.replace('#', '').slice(0, 6).toUpperCase()})`;
+    const objects = palettes.flatMap(entry => getRamps(entry).map(({ suffix, colors }) => {
+      const values = colors.map(color => `    val Tone${toPascalCase(color.tokenName)} = ${toComposeColor(color.css)}`);
+      return `object ${toPascalCase(`${entry.slug}${suffix}`) || 'Palette'}Colors {\n${values.join('\n')}\n}`;
+    }));
+    return [{
+      path: 'Colors.kt',
+      content: `// Generated by ads-color\nimport androidx.compose.ui.graphics.Color\n\n${objects.join('\n\n')}\n`
+    }];
+  }
+});
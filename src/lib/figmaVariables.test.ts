@@ -0,0 +1,87 @@
+import { generateFigmaVariables, generateFigmaVariablesJson, toFigmaColor } from './figmaVariables';
+import { createNewPalette, generatePalette, generateDarkPalette, DEFAULT_DARK_BACKGROUND } from './colorGeneration';
+import { defaultControls } from './presets';
+import { GamutSettings, LightnessSettings, Palette, SemanticToken } from '../types';
+
+const gamutSettings: GamutSettings = { gamutMode: 'sRGB' };
+const lightnessSettings: LightnessSettings = { mode: 'contrast' };
+
+const neutral = createNewPalette('Neutral', { ...defaultControls, baseHue: 260 });
+const brand: Palette = {
+  ...createNewPalette('Brand', { ...defaultControls, baseHue: 25 }),
+  darkVariant: { enabled: true, backgroundColor: DEFAULT_DARK_BACKGROUND }
+};
+
+const valueOf = (payload: ReturnType<typeof generateFigmaVariables>, variableId: string, modeId: string) =>
+  payload.variableModeValues.find(value => value.variableId === variableId && value.modeId === modeId)!.value;
+
+describe('toFigmaColor', () => {
+  it('converts CSS colors to 0-1 channels', () => {
+    expect(toFigmaColor('#ff8000')).toEqual({ r: 1, g: 0.501961, b: 0, a: 1 });
+    expect(toFigmaColor('rgb(0 0 255 / 0.5)')).toEqual({ r: 0, g: 0, b: 1, a: 0.5 });
+  });
+});
+
+describe('generateFigmaVariables', () => {
+  it('creates a palettes collection with a light and a dark mode', () => {
+    const payload = generateFigmaVariables([neutral], gamutSettings, lightnessSettings);
+    expect(payload.variableCollections).toEqual([{ action: 'CREATE', id: 'palettes', name: 'Palettes', initialModeId: 'palettes:light' }]);
+    expect(payload.variableModes.map(mode => [mode.action, mode.name])).toEqual([['UPDATE', 'Light'], ['CREATE', 'Dark']]);
+  });
+
+  it('adds a variable per step with a value in both modes', () => {
+    const payload = generateFigmaVariables([neutral], gamutSettings, lightnessSettings);
+    const colors = generatePalette(neutral.controls, gamutSettings, lightnessSettings);
+    expect(payload.variables).toHaveLength(colors.length);
+    expect(payload.variableModeValues).toHaveLength(colors.length * 2);
+    const step6 = payload.variables.find(variable => variable.id === `palettes/${neutral.id}/6`)!;
+    expect(step6).toMatchObject({ name: 'Neutral/50', resolvedType: 'COLOR', codeSyntax: { WEB: 'var(--neutral-50)' } });
+    expect(step6.hiddenFromPublishing).toBeUndefined();
+  });
+
+  it('repeats the light values in the dark mode without a dark variant', () => {
+    const payload = generateFigmaVariables([neutral], gamutSettings, lightnessSettings);
+    payload.variables.forEach(variable => {
+      expect(valueOf(payload, variable.id, 'palettes:dark')).toEqual(valueOf(payload, variable.id, 'palettes:light'));
+    });
+  });
+
+  it('fills the dark mode from the dark variant', () => {
+    const payload = generateFigmaVariables([brand], gamutSettings, lightnessSettings);
+    const darkColors = generateDarkPalette(brand, gamutSettings, lightnessSettings)!;
+    const variableId = `palettes/${brand.id}/9`;
+    expect(valueOf(payload, variableId, 'palettes:dark')).toEqual(toFigmaColor(darkColors.find(color => color.step === 9)!.css));
+    expect(valueOf(payload, variableId, 'palettes:dark')).not.toEqual(valueOf(payload, variableId, 'palettes:light'));
+  });
+
+  it('aliases semantic roles to palette variables per mode and hides the palette steps', () => {
+    const tokens: SemanticToken[] = [{
+      id: 'text',
+      name: 'text',
+      light: { paletteId: brand.id, step: 11 },
+      dark: { paletteId: brand.id, step: 1 }
+    }];
+    const payload = generateFigmaVariables([neutral, brand], gamutSettings, lightnessSettings, tokens);
+    expect(payload.variableCollections.map(collection => collection.id)).toEqual(['palettes', 'semantic']);
+    expect(payload.variables.find(variable => variable.id === 'semantic/text')).toMatchObject({ scopes: ['TEXT_FILL'] });
+    expect(valueOf(payload, 'semantic/text', 'semantic:light')).toEqual({ type: 'VARIABLE_ALIAS', id: `palettes/${brand.id}/11` });
+    expect(valueOf(payload, 'semantic/text', 'semantic:dark')).toEqual({ type: 'VARIABLE_ALIAS', id: `palettes/${brand.id}/1` });
+    payload.variables.filter(variable => variable.variableCollectionId === 'palettes').forEach(variable => {
+      expect(variable.hiddenFromPublishing).toBe(true);
+    });
+  });
+
+  it('skips semantic roles whose references are missing', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const tokens: SemanticToken[] = [{ id: 'ghost', name: 'ghost', light: { paletteId: 'missing', step: 6 } }];
+    const payload = generateFigmaVariables([neutral], gamutSettings, lightnessSettings, tokens);
+    expect(payload.variables.some(variable => variable.id === 'semantic/ghost')).toBe(false);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"ghost"'));
+    warn.mockRestore();
+  });
+
+  it('serializes the payload as JSON', () => {
+    const json = JSON.parse(generateFigmaVariablesJson([neutral], gamutSettings, lightnessSettings));
+    expect(json).toEqual(generateFigmaVariables([neutral], gamutSettings, lightnessSettings));
+  });
+});
@@ -0,0 +1,231 @@
+import { rgb, parse } from 'culori';
+import { Palette, PaletteColor, GamutSettings, LightnessSettings, SemanticToken } from '../types';
+import { generatePalettes, generateDarkPalette, toTokenSlug } from './colorGeneration';
+import { resolveSemanticToken, SemanticTokenMode } from './semanticTokens';
+
+/**
+ * Figma Variables export, shaped as the body of the Figma REST API
+ * `POST /v1/files/:file_key/variables` request (also accepted by variable import plugins).
+ * https://www.figma.com/developers/api#variables
+ *
+ * Palettes become a "Palettes" collection with Light and Dark modes (dark values come from
+ * the dark-mode variant when enabled). Semantic roles become a "Semantic" collection whose
+ * values alias palette variables per mode.
+ */
+
+export type FigmaVariableScope =
+  | 'ALL_SCOPES'
+  | 'ALL_FILLS'
+  | 'FRAME_FILL'
+  | 'SHAPE_FILL'
+  | 'TEXT_FILL'
+  | 'STROKE_COLOR'
+  | 'EFFECT_COLOR';
+
+export interface FigmaRGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface FigmaVariableAlias {
+  type: 'VARIABLE_ALIAS';
+  id: string;
+}
+
+export interface FigmaVariableCollection {
+  action: 'CREATE';
+  id: string;
+  name: string;
+  initialModeId: string;
+}
+
+export interface FigmaVariableMode {
+  action: 'CREATE' | 'UPDATE';
+  id: string;
+  name: string;
+  variableCollectionId: string;
+}
+
+export interface FigmaVariable {
+  action: 'CREATE';
+  id: string;
+  name: string;
+  variableCollectionId: string;
+  resolvedType: 'COLOR';
+  description?: string;
+  scopes: FigmaVariableScope[];
+  hiddenFromPublishing?: boolean;
+  codeSyntax?: { WEB?: string };
+}
+
+export interface FigmaVariableModeValue {
+  variableId: string;
+  modeId: string;
+  value: FigmaRGBA | FigmaVariableAlias;
+}
+
+export interface FigmaVariablesPayload {
+  variableCollections: FigmaVariableCollection[];
+  variableModes: FigmaVariableMode[];
+  variables: FigmaVariable[];
+  variableModeValues: FigmaVariableModeValue[];
+}
+
+const MODE_NAMES: Record<SemanticTokenMode, string> = { light: 'Light', dark: 'Dark' };
+
+// Fill/stroke pickers only: palette colors are not meant for text content or effects
+const PALETTE_SCOPES: FigmaVariableScope[] = ['ALL_FILLS', 'STROKE_COLOR', 'EFFECT_COLOR'];
+
+/**
+ * Pickers a semantic role is offered in, guessed from its name (text-*, border-*, surface-*)
+ */
+function getSemanticScopes(name: string): FigmaVariableScope[] {
+  if (/text|fg|foreground/i.test(name)) return ['TEXT_FILL'];
+  if (/border|stroke|divider|outline/i.test(name)) return ['STROKE_COLOR'];
+  if (/surface|background|bg/i.test(name)) return ['FRAME_FILL', 'SHAPE_FILL'];
+  return ['ALL_FILLS', 'STROKE_COLOR'];
+}
+
+/**
+ * Figma rejects '.', '{' and '}' in variable names ('/' groups variables)
+ */
+function toVariableName(name: string): string {
+  return name.replace(/[.{}]/g, '_');
+}
+
+/**
+ * Convert a CSS color to Figma's float RGBA (0-1 channels)
+ */
+export function toFigmaColor(css: string): FigmaRGBA {
+  const color = rgb(parse(css));
+  const channel = (value: number | undefined) => Math.round(Math.max(0, Math.min(1, value ?? 0)) * 1e6) / 1e6;
+  return {
+    r: channel(color?.r),
+    g: channel(color?.g),
+    b: channel(color?.b),
+    a: color?.alpha ?? 1
+  };
+}
+
+/**
+ * Build a collection with Light (initial) and Dark modes
+ */
+function createCollection(payload: FigmaVariablesPayload, id: string, name: string): Record<SemanticTokenMode, string> {
+  const modeIds = { light: `${id}:light`, dark: `${id}:dark` };
+  payload.variableCollections.push({ action: 'CREATE', id, name, initialModeId: modeIds.light });
+  // The initial mode is created with the collection and only renamed here
+  payload.variableModes.push(
+    { action: 'UPDATE', id: modeIds.light, name: MODE_NAMES.light, variableCollectionId: id },
+    { action: 'CREATE', id: modeIds.dark, name: MODE_NAMES.dark, variableCollectionId: id }
+  );
+  return modeIds;
+}
+
+/**
+ * Generate the Figma Variables payload for palettes and, when present, semantic roles
+ */
+export function generateFigmaVariables(
+  palettes: Palette[],
+  gamutSettings: GamutSettings,
+  lightnessSettings: LightnessSettings,
+  semanticTokens: SemanticToken[] = []
+): FigmaVariablesPayload {
+  const payload: FigmaVariablesPayload = {
+    variableCollections: [],
+    variableModes: [],
+    variables: [],
+    variableModeValues: []
+  };
+
+  const paletteCollection = 'palettes';
+  const paletteModes = createCollection(payload, paletteCollection, 'Palettes');
+  const variableIdFor = (palette: Palette, step: number) => `${paletteCollection}/${palette.id}/${step}`;
+  const hasSemanticLayer = semanticTokens.length > 0;
+
+  const generated = generatePalettes(palettes, gamutSettings, lightnessSettings);
+
+  palettes.forEach(palette => {
+    const colors = generated[palette.id];
+    const darkColors = generateDarkPalette(palette, gamutSettings, lightnessSettings);
+
+    colors.forEach(color => {
+      const variableId = variableIdFor(palette, color.step);
+      const darkColor: PaletteColor = darkColors?.find(dark => dark.step === color.step) || color;
+
+      payload.variables.push({
+        action: 'CREATE',
+        id: variableId,
+        name: `${toVariableName(palette.name)}/${toVariableName(color.tokenName)}`,
+        variableCollectionId: paletteCollection,
+        resolvedType: 'COLOR',
+        description: `${color.oklch} · contrast ${color.contrast} against ${palette.controls.backgroundColor}`,
+        scopes: PALETTE_SCOPES,
+        // With a semantic layer, designers should pick roles rather than raw palette steps
+        hiddenFromPublishing: hasSemanticLayer || undefined,
+        codeSyntax: { WEB: `var(--${toTokenSlug(palette.name)}-${color.tokenName})` }
+      });
+      payload.variableModeValues.push(
+        { variableId, modeId: paletteModes.light, value: toFigmaColor(color.css) },
+        { variableId, modeId: paletteModes.dark, value: toFigmaColor(darkColor.css) }
+      );
+    });
+  });
+
+  if (!hasSemanticLayer) {
+    return payload;
+  }
+
+  // Semantic roles alias the palette variable of the step they reference in each mode
+  const semanticCollection = 'semantic';
+  const semanticModes = createCollection(payload, semanticCollection, 'Semantic');
+  const exportedIds = new Set(payload.variables.map(variable => variable.id));
+
+  semanticTokens.forEach(token => {
+    const variableId = `${semanticCollection}/${token.id}`;
+    const values: FigmaVariableModeValue[] = [];
+
+    (['light', 'dark'] as SemanticTokenMode[]).forEach(mode => {
+      const resolved = resolveSemanticToken(token, palettes, mode, gamutSettings, lightnessSettings);
+      if (!resolved) return;
+      const targetId = variableIdFor(resolved.palette, resolved.color.step);
+      values.push({
+        variableId,
+        modeId: semanticModes[mode],
+        value: exportedIds.has(targetId) ? { type: 'VARIABLE_ALIAS', id: targetId } : toFigmaColor(resolved.color.css)
+      });
+    });
+
+    if (values.length === 0) {
+      console.warn(`Skipping semantic token "${token.name}": unresolved references`);
+      return;
+    }
+
+    payload.variables.push({
+      action: 'CREATE',
+      id: variableId,
+      name: toVariableName(token.name),
+      variableCollectionId: semanticCollection,
+      resolvedType: 'COLOR',
+      description: token.description,
+      scopes: getSemanticScopes(token.name),
+      codeSyntax: { WEB: `var(--${toTokenSlug(token.name)})` }
+    });
+    payload.variableModeValues.push(...values);
+  });
+
+  return payload;
+}
+
+/**
+ * Generate Figma Variables JSON for a set of palettes
+ */
+export function generateFigmaVariablesJson(
+  palettes: Palette[],
+  gamutSettings: GamutSettings,
+  lightnessSettings: LightnessSettings,
+  semanticTokens: SemanticToken[] = []
+): string {
+  return JSON.stringify(generateFigmaVariables(palettes, gamutSettings, lightnessSettings, semanticTokens), null, 2);
+}
@@ -0,0 +1,66 @@
+import { calculateStepGamutPositions, sampleGamutBoundary, BOUNDARY_GAMUTS } from './gamutBoundary';
+import { generatePalette, findMaxChromaForLightness } from './colorGeneration';
+import { defaultControls } from './presets';
+
+const vivid = { ...defaultControls, baseHue: 145, minChroma: 0.3, maxChroma: 0.37, chromaMode: 'curve' as const };
+const muted = { ...defaultControls, baseHue: 250, minChroma: 0.01, maxChroma: 0.03, chromaMode: 'curve' as const };
+
+describe('sampleGamutBoundary', () => {
+  it('samples chroma from black to white', () => {
+    const boundary = sampleGamutBoundary(145, 'sRGB', 10);
+    expect(boundary).toHaveLength(11);
+    expect(boundary[0]).toEqual({ l: 0, c: expect.closeTo(0, 3) });
+    expect(boundary[10]).toEqual({ l: 1, c: expect.closeTo(0, 3) });
+    expect(Math.max(...boundary.map(point => point.c))).toBeGreaterThan(0.15);
+  });
+
+  it('widens from sRGB to P3 to Rec2020', () => {
+    const [srgb, p3, rec2020] = BOUNDARY_GAMUTS.map(gamut => sampleGamutBoundary(145, gamut, 10));
+    srgb.forEach((point, index) => {
+      expect(p3[index].c).toBeGreaterThanOrEqual(point.c - 1e-3);
+      expect(rec2020[index].c).toBeGreaterThanOrEqual(p3[index].c - 1e-3);
+    });
+  });
+});
+
+describe('calculateStepGamutPositions', () => {
+  it('places every colored step and leaves out white and black', () => {
+    const colors = generatePalette(muted, { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    const positions = calculateStepGamutPositions(colors, 'sRGB');
+    expect(positions.map(position => position.step)).toEqual(colors.map(color => color.step).filter(step => step > 0 && step < 12));
+  });
+
+  it('reports the headroom of in-gamut steps against the selected gamut', () => {
+    const colors = generatePalette(muted, { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    calculateStepGamutPositions(colors, 'P3').forEach(position => {
+      const color = colors.find(c => c.step === position.step)!;
+      expect(position.actual).toEqual({ l: color.lightness, c: color.chroma });
+      expect(position.maxChroma.sRGB).toBeCloseTo(findMaxChromaForLightness(color.lightness, color.hue, 'sRGB'), 10);
+      expect(position.headroom).toBeCloseTo(position.maxChroma.P3 - color.chroma, 10);
+      expect(position.headroom).toBeGreaterThan(0);
+    });
+  });
+
+  it('gives steps on the gamut edge no headroom and plots their request', () => {
+    const colors = generatePalette(vivid, { gamutMode: 'sRGB' }, { mode: 'range' });
+    const mapped = calculateStepGamutPositions(colors, 'sRGB').filter(position => position.intended);
+    expect(mapped.length).toBeGreaterThan(0);
+    mapped.forEach(position => {
+      expect(position.headroom).toBeLessThan(0.005);
+      expect(position.intended!.c).toBeGreaterThan(position.actual.c);
+      expect(position.mapping?.strategy).toBe('chroma');
+    });
+  });
+
+  it('places wide-gamut steps at their unclamped value', () => {
+    const colors = generatePalette(vivid, { gamutMode: 'P3' }, { mode: 'range' });
+    const wide = colors.filter(color => color.wideGamut);
+    expect(wide.length).toBeGreaterThan(0);
+    const positions = calculateStepGamutPositions(colors, 'P3');
+    wide.forEach(color => {
+      const position = positions.find(p => p.step === color.step)!;
+      expect(position.actual).toEqual({ l: color.wideGamut!.l, c: color.wideGamut!.c });
+      expect(position.actual.c).toBeGreaterThan(position.maxChroma.sRGB);
+    });
+  });
+});
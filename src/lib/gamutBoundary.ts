@@ -0,0 +1,73 @@
+import { GamutSettings, PaletteColor } from '../types';
+import { findMaxChromaForLightness } from './colorGeneration';
+
+/**
+ * Gamut boundaries in the OKLCH lightness × chroma plane, and where each generated step sits
+ * relative to them (how much chroma each step could still gain before leaving the gamut).
+ */
+
+export type BoundaryGamut = GamutSettings['gamutMode'];
+
+export const BOUNDARY_GAMUTS: BoundaryGamut[] = ['sRGB', 'P3', 'Rec2020'];
+
+export interface LightnessChroma {
+  l: number;
+  c: number;
+}
+
+export interface StepGamutPosition {
+  step: number;
+  tokenName: string;
+  css: string;
+  hue: number;
+  actual: LightnessChroma;
+  // Color the curves asked for before gamut mapping (gamut-mapped steps only)
+  intended?: LightnessChroma;
+  mapping?: PaletteColor['gamutMapping'];
+  // Largest chroma at the step's own lightness and hue, per gamut
+  maxChroma: Record<BoundaryGamut, number>;
+  // Chroma left before the selected gamut's edge
+  headroom: number;
+}
+
+/**
+ * Sample the maximum chroma of a gamut across lightness for one hue
+ */
+export function sampleGamutBoundary(hue: number, gamut: BoundaryGamut, samples: number = 48): LightnessChroma[] {
+  return Array.from({ length: samples + 1 }, (_, index) => {
+    const l = index / samples;
+    return { l, c: findMaxChromaForLightness(l, hue, gamut) };
+  });
+}
+
+/**
+ * Position of every colored step (white and black excluded) against the gamut boundaries at its hue
+ */
+export function calculateStepGamutPositions(colors: PaletteColor[], gamutMode: BoundaryGamut): StepGamutPosition[] {
+  return colors
+    .filter(color => color.step > 0 && color.step < 12)
+    .map(color => {
+      // Wide-gamut steps are placed at their unclamped value rather than the sRGB hex
+      const generated = color.wideGamut || { l: color.lightness, c: color.chroma, h: color.hue };
+      const maxChroma = Object.fromEntries(
+        BOUNDARY_GAMUTS.map(gamut => [gamut, findMaxChromaForLightness(generated.l, generated.h, gamut)])
+      ) as Record<BoundaryGamut, number>;
+
+      // Mapping can move lightness as well as chroma (css4, minde), so the request is taken from before it
+      const intended = color.gamutMapped && color.originalIntended
+        ? { l: color.originalIntended.l, c: color.originalIntended.c }
+        : undefined;
+
+      return {
+        step: color.step,
+        tokenName: color.tokenName,
+        css: color.css,
+        hue: generated.h,
+        actual: { l: generated.l, c: generated.c },
+        intended,
+        mapping: color.gamutMapping,
+        maxChroma,
+        headroom: Math.max(0, maxChroma[gamutMode] - generated.c)
+      };
+    });
+}
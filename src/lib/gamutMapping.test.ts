@@ -0,0 +1,112 @@
+import { converter, differenceEuclidean, Oklch } from 'culori';
+import { mapToGamut, CuloriGamut } from './gamutMapping';
+import { clampColorToGamut, generatePalette } from './colorGeneration';
+import { calculateStepGamutPositions } from './gamutBoundary';
+import { defaultControls } from './presets';
+import { GamutMappingStrategy } from '../types';
+
+const deltaEOK = differenceEuclidean('oklab');
+const STRATEGIES: GamutMappingStrategy[] = ['chroma', 'css4', 'minde'];
+const GAMUTS: CuloriGamut[] = ['rgb', 'p3', 'rec2020'];
+
+// Vivid colors outside every supported gamut
+const OUT_OF_GAMUT: Oklch[] = [
+  { mode: 'oklch', l: 0.7, c: 0.35, h: 145 },
+  { mode: 'oklch', l: 0.5, c: 0.35, h: 265 },
+  { mode: 'oklch', l: 0.9, c: 0.2, h: 30 }
+];
+
+// Channels within a small tolerance of 0-1 (culori's gamut checks are exact, mapping stops just short)
+const isNearlyInGamut = (gamut: CuloriGamut, color: Oklch) => {
+  const { r, g, b } = converter(gamut)(color);
+  return [r, g, b].every(channel => channel >= -1e-4 && channel <= 1 + 1e-4);
+};
+
+describe('mapToGamut', () => {
+  describe.each(STRATEGIES)('%s', strategy => {
+    it.each(GAMUTS)('returns in-gamut colors unchanged in %s', gamut => {
+      const color: Oklch = { mode: 'oklch', l: 0.6, c: 0.05, h: 200 };
+      expect(mapToGamut(color, gamut, strategy)).toBe(color);
+    });
+
+    it.each(GAMUTS)('maps vivid colors into %s', gamut => {
+      OUT_OF_GAMUT.forEach(color => {
+        const mapped = mapToGamut(color, gamut, strategy)!;
+        expect(isNearlyInGamut(gamut, mapped)).toBe(true);
+        expect(mapped.c).toBeLessThan(color.c);
+      });
+    });
+  });
+
+  it('keeps lightness and hue with chroma reduction', () => {
+    OUT_OF_GAMUT.forEach(color => {
+      const mapped = mapToGamut(color, 'rgb', 'chroma')!;
+      expect(mapped.l).toBeCloseTo(color.l, 3);
+      expect(mapped.h).toBeCloseTo(color.h!, 0);
+    });
+  });
+
+  it('lands within a just-noticeable difference of chroma reduction with CSS Color 4', () => {
+    OUT_OF_GAMUT.forEach(color => {
+      const chroma = mapToGamut(color, 'rgb', 'chroma')!;
+      const css4 = mapToGamut(color, 'rgb', 'css4')!;
+      expect(deltaEOK(chroma, css4)).toBeLessThan(0.03);
+    });
+  });
+
+  it('moves lightness to get closer with minimum deltaE', () => {
+    OUT_OF_GAMUT.forEach(color => {
+      const chroma = mapToGamut(color, 'rgb', 'chroma')!;
+      const minde = mapToGamut(color, 'rgb', 'minde')!;
+      expect(deltaEOK(color, minde)).toBeLessThanOrEqual(deltaEOK(color, chroma) + 1e-9);
+    });
+    const green = mapToGamut(OUT_OF_GAMUT[0], 'rgb', 'minde')!;
+    expect(Math.abs(green.l - OUT_OF_GAMUT[0].l)).toBeGreaterThan(0.01);
+  });
+
+  it('maps less in wider gamuts', () => {
+    STRATEGIES.forEach(strategy => {
+      const color = OUT_OF_GAMUT[0];
+      const srgb = mapToGamut(color, 'rgb', strategy)!;
+      const rec2020 = mapToGamut(color, 'rec2020', strategy)!;
+      expect(deltaEOK(color, rec2020)).toBeLessThan(deltaEOK(color, srgb));
+    });
+  });
+});
+
+describe('clampColorToGamut', () => {
+  it.each(STRATEGIES)('reports mapping and its deltaE with the %s strategy', strategy => {
+    const result = clampColorToGamut({ l: 0.7, c: 0.35, h: 145 }, 'sRGB', strategy);
+    expect(result.clamped).toBe(true);
+    expect(result.deltaE).toBeGreaterThan(0);
+  });
+
+  it('leaves in-gamut colors alone', () => {
+    const result = clampColorToGamut({ l: 0.6, c: 0.05, h: 200 }, 'P3', 'minde');
+    expect(result).toMatchObject({ l: 0.6, c: 0.05, h: 200, clamped: false });
+  });
+});
+
+describe('generated steps', () => {
+  const vivid = { ...defaultControls, baseHue: 145, minChroma: 0.3, maxChroma: 0.37, chromaMode: 'curve' as const };
+
+  it.each(['contrast', 'range'] as const)('keep the color they asked for before minde mapping in the %s mode', mode => {
+    const colors = generatePalette(vivid, { gamutMode: 'sRGB', mappingStrategy: 'minde' }, { mode });
+    const mapped = colors.filter(color => color.gamutMapping);
+    expect(mapped.length).toBeGreaterThan(0);
+    mapped.forEach(color => {
+      expect(color.originalIntended!.c).toBeCloseTo(color.originalCalculatedChroma!, 10);
+      expect(color.originalIntended!.c).toBeGreaterThan(color.chroma);
+    });
+    // minde trades lightness for chroma, so the request and the result differ in lightness too
+    expect(mapped.some(color => Math.abs(color.originalIntended!.l - color.lightness) > 0.01)).toBe(true);
+  });
+
+  it('plot mapped steps at their request', () => {
+    const colors = generatePalette(vivid, { gamutMode: 'sRGB', mappingStrategy: 'minde' }, { mode: 'range' });
+    calculateStepGamutPositions(colors, 'sRGB').forEach(position => {
+      const color = colors.find(c => c.step === position.step)!;
+      expect(position.intended).toEqual(color.gamutMapped ? { l: color.originalIntended!.l, c: color.originalIntended!.c } : undefined);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { oklch, clampChroma, toGamut, inGamut, differenceEuclidean, Oklch } from 'culori';
+import { GamutMappingStrategy } from '../types';
+
+/**
+ * Gamut-mapping strategies for colors the curves ask for outside the target gamut.
+ *
+ * - chroma: reduce OKLCH chroma at constant lightness and hue (culori clampChroma)
+ * - css4: CSS Color 4 gamut mapping, i.e. chroma reduction that accepts a clipped color once it is
+ *   within a just-noticeable deltaEOK (0.02) of the reduced one
+ * - minde: the in-gamut color with the smallest deltaEOK at the same hue, lightness allowed to move
+ */
+
+export type CuloriGamut = 'rgb' | 'p3' | 'rec2020';
+
+export const DEFAULT_GAMUT_MAPPING_STRATEGY: GamutMappingStrategy = 'chroma';
+
+export const GAMUT_MAPPING_STRATEGY_LABELS: Record<GamutMappingStrategy, string> = {
+  'chroma': 'Chroma reduction',
+  'css4': 'CSS Color 4 (deltaEOK JND)',
+  'minde': 'Minimum deltaE (MINDE)'
+};
+
+// Just-noticeable difference used by CSS Color 4 gamut mapping
+export const CSS_GAMUT_MAPPING_JND = 0.02;
+
+const deltaEOK = differenceEuclidean('oklab');
+
+// culori builds a new mapper per call, so keep one per gamut
+const css4Mappers = new Map<CuloriGamut, (color: Oklch) => Oklch | undefined>();
+
+function mapCss4(color: Oklch, gamut: CuloriGamut): Oklch | undefined {
+  let mapper = css4Mappers.get(gamut);
+  if (!mapper) {
+    // culori's defaults are the CSS Color 4 algorithm
+    const toDestination = toGamut(gamut, 'oklch', undefined, CSS_GAMUT_MAPPING_JND);
+    mapper = (input: Oklch) => oklch(toDestination(input));
+    css4Mappers.set(gamut, mapper);
+  }
+  return mapper(color);
+}
+
+// Lightness search window and resolution for MINDE
+const MINDE_WINDOW = 0.15;
+const MINDE_SCAN_STEPS = 12;
+const MINDE_REFINE_ITERATIONS = 12;
+
+function mapMinDeltaE(color: Oklch, gamut: CuloriGamut): Oklch {
+  // For a given lightness the closest in-gamut color at this hue is the chroma-clamped one
+  const candidateAt = (l: number) => {
+    const candidate = oklch(clampChroma({ mode: 'oklch', l, c: color.c, h: color.h }, 'oklch', gamut));
+    return { candidate, distance: deltaEOK(color, candidate) };
+  };
+
+  // Coarse scan around the requested lightness, then golden-section refinement
+  const low = Math.max(0, color.l - MINDE_WINDOW);
+  const high = Math.min(1, color.l + MINDE_WINDOW);
+  const scanStep = (high - low) / MINDE_SCAN_STEPS;
+  let best = candidateAt(color.l);
+  let bestL = color.l;
+  for (let i = 0; i <= MINDE_SCAN_STEPS; i++) {
+    const l = low + i * scanStep;
+    const result = candidateAt(l);
+    if (result.distance < best.distance) {
+      best = result;
+      bestL = l;
+    }
+  }
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = Math.max(0, bestL - scanStep);
+  let b = Math.min(1, bestL + scanStep);
+  for (let i = 0; i < MINDE_REFINE_ITERATIONS; i++) {
+    const x1 = b - ratio * (b - a);
+    const x2 = a + ratio * (b - a);
+    const r1 = candidateAt(x1);
+    const r2 = candidateAt(x2);
+    if (r1.distance < best.distance) best = r1;
+    if (r2.distance < best.distance) best = r2;
+    if (r1.distance < r2.distance) {
+      b = x2;
+    } else {
+      a = x1;
+    }
+  }
+
+  return best.candidate;
+}
+
+/**
+ * Map an out-of-gamut OKLCH color into the gamut with the given strategy
+ * (colors already in gamut are returned unchanged)
+ */
+export function mapToGamut(color: Oklch, gamut: CuloriGamut, strategy: GamutMappingStrategy = DEFAULT_GAMUT_MAPPING_STRATEGY): Oklch | undefined {
+  if (inGamut(gamut)(color)) {
+    return color;
+  }
+  switch (strategy) {
+    case 'css4':
+      return mapCss4(color, gamut);
+    case 'minde':
+      return mapMinDeltaE(color, gamut);
+    default:
+      return oklch(clampChroma(color, 'oklch', gamut));
+  }
+}
@@ -0,0 +1,59 @@
+import { GamutSettings, LightnessSettings, PaletteColor, PaletteControls } from '../types';
+import { getPaletteDependencies } from './paletteReferences';
+
+/**
+ * Shared cache of generated palettes.
+ *
+ * The display, the control panel swatches, the sidebar and the color options all generate the same
+ * palettes on every render, each step running a contrast search. Generation is a pure function of the
+ * controls, the gamut and lightness settings and the colors of any palettes the backgrounds reference,
+ * so results are keyed on exactly those. Entries are evicted least-recently-used.
+ *
+ * Cached arrays are shared between callers and must not be mutated.
+ */
+
+export const GENERATION_CACHE_SIZE = 256;
+
+const cache = new Map<string, PaletteColor[]>();
+
+/**
+ * Cache key for one palette generation
+ */
+export function getGenerationCacheKey(
+  controls: PaletteControls,
+  gamutSettings?: GamutSettings,
+  lightnessSettings?: LightnessSettings,
+  referencedPalettes?: Record<string, PaletteColor[]>
+): string {
+  // Only the palettes this one references affect it, and only through their colors
+  const references = getPaletteDependencies(controls).map(id => [id, referencedPalettes?.[id]?.map(color => color.css)]);
+  return JSON.stringify([controls, gamutSettings, lightnessSettings, references]);
+}
+
+/**
+ * Return the cached palette for a key, generating and storing it on a miss
+ */
+export function getOrGeneratePalette(key: string, generate: () => PaletteColor[]): PaletteColor[] {
+  const cached = cache.get(key);
+  if (cached) {
+    // Re-insert to mark as most recently used
+    cache.delete(key);
+    cache.set(key, cached);
+    return cached;
+  }
+
+  const colors = generate();
+  cache.set(key, colors);
+  if (cache.size > GENERATION_CACHE_SIZE) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  return colors;
+}
+
+export function clearGenerationCache(): void {
+  cache.clear();
+}
+
+export function getGenerationCacheSize(): number {
+  return cache.size;
+}
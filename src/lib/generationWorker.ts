@@ -0,0 +1,25 @@
+import { Palette, GamutSettings, LightnessSettings } from '../types';
+import { generatePaletteSet, GeneratedPaletteSet } from './colorGeneration';
+
+/**
+ * Web Worker entry point that generates palettes off the main thread.
+ * Requests carry an increasing id so the page can tell which palettes a response belongs to.
+ */
+
+export interface GenerationRequest {
+  id: number;
+  palettes: Palette[];
+  gamutSettings: GamutSettings;
+  lightnessSettings: LightnessSettings;
+}
+
+export interface GenerationResponse {
+  id: number;
+  generated: GeneratedPaletteSet;
+}
+
+self.onmessage = (event: MessageEvent<GenerationRequest>) => {
+  const { id, palettes, gamutSettings, lightnessSettings } = event.data;
+  const response: GenerationResponse = { id, generated: generatePaletteSet(palettes, gamutSettings, lightnessSettings) };
+  self.postMessage(response);
+};
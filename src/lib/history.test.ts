@@ -0,0 +1,55 @@
+import { describePaletteChange } from './history';
+import { createNewPalette } from './colorGeneration';
+import { defaultControls } from './presets';
+import { Palette } from '../types';
+
+const blue = createNewPalette('Blue', { ...defaultControls, baseHue: 250 });
+const red = createNewPalette('Red', { ...defaultControls, baseHue: 25 });
+
+const withControls = (palette: Palette, controls: Partial<Palette['controls']>): Palette => ({
+  ...palette,
+  controls: { ...palette.controls, ...controls }
+});
+
+describe('describePaletteChange', () => {
+  it('labels added, deleted and replaced palettes without coalescing', () => {
+    expect(describePaletteChange([blue], [blue, red])).toEqual({ label: 'Added "Red"' });
+    expect(describePaletteChange([blue, red], [blue])).toEqual({ label: 'Deleted "Red"' });
+    expect(describePaletteChange([], [blue, red])).toEqual({ label: 'Added 2 palettes' });
+    expect(describePaletteChange([blue], [red])).toEqual({ label: 'Replaced palettes (1)' });
+  });
+
+  it('labels reorders and multi-palette edits', () => {
+    expect(describePaletteChange([blue, red], [red, blue])).toEqual({ label: 'Reordered palettes' });
+    const label = describePaletteChange([blue, red], [withControls(blue, { baseHue: 240 }), withControls(red, { baseHue: 30 })]).label;
+    expect(label).toBe('Edited 2 palettes');
+  });
+
+  it('names the changed controls and keys them for coalescing', () => {
+    const change = describePaletteChange([blue], [withControls(blue, { maxChroma: 0.2, baseHue: 240 })]);
+    expect(change).toEqual({
+      label: 'Changed hue, max chroma of "Blue"',
+      coalesceKey: `${blue.id}:baseHue,maxChroma`
+    });
+  });
+
+  it('gives repeated edits of the same control the same key', () => {
+    const first = describePaletteChange([blue], [withControls(blue, { baseHue: 240 })]);
+    const second = describePaletteChange([withControls(blue, { baseHue: 240 })], [withControls(blue, { baseHue: 230 })]);
+    expect(second.coalesceKey).toBe(first.coalesceKey);
+    expect(describePaletteChange([blue], [withControls(blue, { minChroma: 0.05 })]).coalesceKey).not.toBe(first.coalesceKey);
+  });
+
+  it('keys renames and dark variant edits per palette', () => {
+    expect(describePaletteChange([blue], [{ ...blue, name: 'Ocean' }])).toEqual({
+      label: 'Renamed "Blue" to "Ocean"',
+      coalesceKey: `${blue.id}:name`
+    });
+    const darkVariant = { enabled: true, backgroundColor: '#111111' };
+    expect(describePaletteChange([blue], [{ ...blue, darkVariant }]).coalesceKey).toBe(`${blue.id}:darkVariant`);
+  });
+
+  it('falls back to a generic label when no control changed', () => {
+    expect(describePaletteChange([blue], [{ ...blue }])).toEqual({ label: 'Edited "Blue"' });
+  });
+});
@@ -0,0 +1,99 @@
+import { Palette, PaletteControls } from '../types';
+
+/**
+ * Helpers for the palette undo/redo history: describing a change between two
+ * snapshots so the history list can label it and continuous edits can be coalesced.
+ */
+
+export interface PaletteChange {
+  label: string;
+  // Changes with the same key in quick succession (e.g. a slider drag) collapse into one history entry
+  coalesceKey?: string;
+}
+
+// Friendly names for controls shown in the history list
+const CONTROL_LABELS: Partial<Record<keyof PaletteControls, string>> = {
+  baseHue: 'hue',
+  lightHueDrift: 'light hue drift',
+  darkHueDrift: 'dark hue drift',
+  hueCurveMode: 'hue curve mode',
+  hueAnchorStep: 'hue anchor step',
+  lightHueEasing: 'light hue easing',
+  darkHueEasing: 'dark hue easing',
+  hueCurvePoints: 'hue curve points',
+  chromaMode: 'chroma mode',
+  chromaValues: 'chroma',
+  minChroma: 'min chroma',
+  maxChroma: 'max chroma',
+  chromaPeak: 'chroma peak',
+  chromaCurveType: 'chroma curve',
+  chromaCurvePoints: 'chroma curve points',
+  chromaEasing: 'chroma easing',
+  backgroundColor: 'background',
+  steps: 'steps',
+  tokenNames: 'token names',
+  contrastTargets: 'contrast targets',
+  contrastAlgorithm: 'contrast algorithm',
+  lightnessValues: 'lightness',
+  lightnessOverrides: 'lightness overrides',
+  lightnessMin: 'min lightness',
+  lightnessMax: 'max lightness',
+  anchors: 'anchors',
+  contrastConstraints: 'contrast constraints'
+};
+
+function changedControlKeys(previous: PaletteControls, next: PaletteControls): string[] {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<keyof PaletteControls>;
+  return Array.from(keys)
+    .filter(key => JSON.stringify(previous[key]) !== JSON.stringify(next[key]))
+    .sort();
+}
+
+/**
+ * Describe the difference between two palette snapshots
+ */
+export function describePaletteChange(previous: Palette[], next: Palette[]): PaletteChange {
+  const previousIds = new Set(previous.map(p => p.id));
+  const nextIds = new Set(next.map(p => p.id));
+  const added = next.filter(p => !previousIds.has(p.id));
+  const removed = previous.filter(p => !nextIds.has(p.id));
+
+  if (added.length > 0 && removed.length > 0) {
+    return { label: `Replaced palettes (${next.length})` };
+  }
+  if (added.length > 0) {
+    return { label: added.length === 1 ? `Added "${added[0].name}"` : `Added ${added.length} palettes` };
+  }
+  if (removed.length > 0) {
+    return { label: removed.length === 1 ? `Deleted "${removed[0].name}"` : `Deleted ${removed.length} palettes` };
+  }
+
+  const changed = next.filter(palette => previous.find(p => p.id === palette.id) !== palette);
+  if (changed.length === 0) {
+    return { label: 'Reordered palettes' };
+  }
+  if (changed.length > 1) {
+    return { label: `Edited ${changed.length} palettes` };
+  }
+
+  const after = changed[0];
+  const before = previous.find(p => p.id === after.id)!;
+
+  if (before.name !== after.name) {
+    return { label: `Renamed "${before.name}" to "${after.name}"`, coalesceKey: `${after.id}:name` };
+  }
+  if (JSON.stringify(before.darkVariant) !== JSON.stringify(after.darkVariant)) {
+    return { label: `Edited dark variant of "${after.name}"`, coalesceKey: `${after.id}:darkVariant` };
+  }
+
+  const keys = changedControlKeys(before.controls, after.controls);
+  if (keys.length === 0) {
+    return { label: `Edited "${after.name}"` };
+  }
+
+  const labels = keys.map(key => CONTROL_LABELS[key as keyof PaletteControls] || key);
+  return {
+    label: `Changed ${labels.join(', ')} of "${after.name}"`,
+    coalesceKey: `${after.id}:${keys.join(',')}`
+  };
+}
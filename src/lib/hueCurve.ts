@@ -0,0 +1,71 @@
+import { CurvePoint, PaletteControls } from '../types';
+import { applyEasing, evaluateMonotoneSpline, sanitizeCurvePoints } from './curves';
+
+/**
+ * Hue curve: the hue offset from baseHue at each core step.
+ *
+ * 'drift' mode bends from the anchor step (offset 0) towards lightHueDrift at step 1 and
+ * darkHueDrift at step 11, with optional easing per side. 'custom' mode follows free control
+ * points (x = normalized step, y = offset in degrees) through a monotone spline.
+ */
+
+export const DEFAULT_HUE_ANCHOR_STEP = 6;
+
+// Largest hue offset a custom control point may hold
+export const MAX_HUE_OFFSET = 180;
+
+/**
+ * Step where the drift curve crosses baseHue, clamped to the core range
+ */
+export function getHueAnchorStep(controls: PaletteControls): number {
+  return Math.max(1, Math.min(11, controls.hueAnchorStep ?? DEFAULT_HUE_ANCHOR_STEP));
+}
+
+/**
+ * Hue offset (degrees from baseHue) at a step; fractional steps are evaluated on the same curve
+ */
+export function getHueOffset(step: number, controls: PaletteControls): number {
+  if (controls.hueCurveMode === 'custom' && controls.hueCurvePoints && controls.hueCurvePoints.length >= 2) {
+    return evaluateMonotoneSpline(controls.hueCurvePoints, (step - 1) / 10);
+  }
+
+  const anchorStep = getHueAnchorStep(controls);
+  if (step <= anchorStep) {
+    const lightProgress = anchorStep > 1 ? (anchorStep - step) / (anchorStep - 1) : 0;
+    return applyEasing(Math.min(1, lightProgress), controls.lightHueEasing) * controls.lightHueDrift;
+  }
+  const darkProgress = anchorStep < 11 ? (step - anchorStep) / (11 - anchorStep) : 0;
+  return applyEasing(Math.min(1, darkProgress), controls.darkHueEasing) * controls.darkHueDrift;
+}
+
+/**
+ * Hue (0-360) of a step
+ */
+export function calculateStepHue(step: number, controls: PaletteControls): number {
+  const hue = (controls.baseHue + getHueOffset(step, controls)) % 360;
+  return hue < 0 ? hue + 360 : hue;
+}
+
+/**
+ * Sample the current hue curve into control points, so switching to 'custom' keeps its shape
+ */
+export function createCustomHueCurvePoints(controls: PaletteControls): CurvePoint[] {
+  if (controls.hueCurvePoints && controls.hueCurvePoints.length >= 2) {
+    return controls.hueCurvePoints;
+  }
+  const driftControls = { ...controls, hueCurveMode: 'drift' as const };
+  const steps = [1, 3, getHueAnchorStep(controls), 9, 11]
+    .sort((a, b) => a - b)
+    .filter((step, i, all) => i === 0 || step !== all[i - 1]);
+  return steps.map(step => ({
+    x: (step - 1) / 10,
+    y: Math.round(getHueOffset(step, driftControls) * 10) / 10
+  }));
+}
+
+/**
+ * Validate custom hue curve points (offsets are clamped to ±MAX_HUE_OFFSET)
+ */
+export function sanitizeHueCurvePoints(points: unknown): CurvePoint[] | null {
+  return sanitizeCurvePoints(points, -MAX_HUE_OFFSET, MAX_HUE_OFFSET);
+}
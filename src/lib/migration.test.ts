@@ -0,0 +1,58 @@
+import { migratePaletteControls } from './migration';
+import { importPalettes } from './colorGeneration';
+import { defaultControls } from './presets';
+import { DEFAULT_CHROMA_CURVE_POINTS } from './chromaCurve';
+import { PaletteControls } from '../types';
+
+describe('migratePaletteControls', () => {
+  const hueCurvePoints = [{ x: 0, y: -10 }, { x: 1, y: 20 }];
+
+  it('keeps valid custom hue and chroma curves without warnings', () => {
+    const warnings: string[] = [];
+    const controls = migratePaletteControls({ ...defaultControls, hueCurveMode: 'custom', hueCurvePoints, chromaCurveType: 'custom', chromaCurvePoints: DEFAULT_CHROMA_CURVE_POINTS }, warnings);
+    expect(controls.hueCurveMode).toBe('custom');
+    expect(controls.hueCurvePoints).toEqual(hueCurvePoints);
+    expect(controls.chromaCurveType).toBe('custom');
+    expect(warnings).toEqual([]);
+  });
+
+  it('falls back to the drift curve and reports invalid custom hue points', () => {
+    const warnings: string[] = [];
+    const controls = migratePaletteControls({ ...defaultControls, hueCurveMode: 'custom', hueCurvePoints: [{ x: 'a', y: 0 }] }, warnings);
+    expect(controls.hueCurveMode).toBeUndefined();
+    expect(warnings).toEqual([expect.stringContaining('hue drift curve')]);
+  });
+
+  it('reports unknown chroma curve types and invalid custom chroma points', () => {
+    const unknownType: string[] = [];
+    expect(migratePaletteControls({ ...defaultControls, chromaCurveType: 'spiral' }, unknownType).chromaCurveType).toBe('gaussian');
+    expect(unknownType).toEqual([expect.stringContaining('"spiral"')]);
+
+    const invalidPoints: string[] = [];
+    const controls = migratePaletteControls({ ...defaultControls, chromaCurveType: 'custom', chromaCurvePoints: null }, invalidPoints);
+    expect(controls.chromaCurvePoints).toEqual(DEFAULT_CHROMA_CURVE_POINTS);
+    expect(invalidPoints).toEqual([expect.stringContaining('chroma curve points')]);
+  });
+
+  it('does not report settings that were never set', () => {
+    const warnings: string[] = [];
+    const legacy: Partial<PaletteControls> = { ...defaultControls };
+    delete legacy.chromaCurveType;
+    expect(migratePaletteControls(legacy, warnings).chromaCurveType).toBe('gaussian');
+    expect(warnings).toEqual([]);
+  });
+});
+
+describe('importPalettes migration warnings', () => {
+  it('names the palette whose settings fell back', () => {
+    const palette = { id: 'a', name: 'Brand', controls: { ...defaultControls, hueCurveMode: 'custom', hueCurvePoints: 'broken' } };
+    const imported = importPalettes(JSON.stringify({ palettes: [palette] }))!;
+    expect(imported.palettes[0].controls.hueCurveMode).toBeUndefined();
+    expect(imported.warnings).toEqual([expect.stringMatching(/^Brand: Custom hue curve points were invalid/)]);
+  });
+
+  it('omits warnings when nothing fell back', () => {
+    const imported = importPalettes(JSON.stringify({ palettes: [{ id: 'a', name: 'Brand', controls: defaultControls }] }))!;
+    expect(imported.warnings).toBeUndefined();
+  });
+});
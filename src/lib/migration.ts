@@ -1,9 +1,60 @@
 import { PaletteControls } from '../types';
+import { sanitizeChromaCurvePoints, DEFAULT_CHROMA_CURVE_POINTS } from './chromaCurve';
+import { sanitizeHueCurvePoints } from './hueCurve';
+
+const CHROMA_CURVE_TYPES: PaletteControls['chromaCurveType'][] = ['flat', 'gaussian', 'linear', 'sine', 'cubic', 'quartic', 'custom'];
+
+function isChromaCurveType(value: unknown): value is PaletteControls['chromaCurveType'] {
+  return CHROMA_CURVE_TYPES.some(type => type === value);
+}
+
+/**
+ * Validate the chroma curve type and custom control points, falling back to safe defaults.
+ * Fallbacks from settings that were present but invalid are reported through warnings.
+ */
+function migrateChromaCurve(controls: Partial<PaletteControls>, warnings?: string[]): Pick<PaletteControls, 'chromaCurveType' | 'chromaCurvePoints'> {
+  const chromaCurveType = isChromaCurveType(controls.chromaCurveType) ? controls.chromaCurveType : 'gaussian';
+  if (controls.chromaCurveType !== undefined && chromaCurveType !== controls.chromaCurveType) {
+    warnings?.push(`Unknown chroma curve "${String(controls.chromaCurveType)}" was replaced by the gaussian curve`);
+  }
+  const points = sanitizeChromaCurvePoints(controls.chromaCurvePoints);
+
+  if (chromaCurveType === 'custom') {
+    if (!points) {
+      warnings?.push('Custom chroma curve points were invalid, so the default custom curve is used');
+    }
+    return { chromaCurveType, chromaCurvePoints: points || DEFAULT_CHROMA_CURVE_POINTS };
+  }
+  // Points are kept for other curve types so switching back to 'custom' restores them
+  return { chromaCurveType, chromaCurvePoints: points || undefined };
+}
+
+/**
+ * Validate the hue curve settings; without valid custom points the drift curve is used
+ */
+function migrateHueCurve(controls: Partial<PaletteControls>, warnings?: string[]): Pick<PaletteControls, 'hueCurveMode' | 'hueAnchorStep' | 'hueCurvePoints'> {
+  const points = sanitizeHueCurvePoints(controls.hueCurvePoints);
+  const anchorStep = typeof controls.hueAnchorStep === 'number' && isFinite(controls.hueAnchorStep)
+    ? Math.max(1, Math.min(11, controls.hueAnchorStep))
+    : undefined;
+
+  const isCustom = controls.hueCurveMode === 'custom';
+  if (isCustom && !points) {
+    warnings?.push('Custom hue curve points were invalid, so the hue drift curve is used');
+  }
+
+  return {
+    hueCurveMode: isCustom && points ? 'custom' : undefined,
+    hueAnchorStep: anchorStep,
+    hueCurvePoints: points || undefined
+  };
+}
 
 /**
- * Convert old PaletteControls to new simplified steps format
+ * Convert old PaletteControls to new simplified steps format.
+ * Settings that had to be replaced by a fallback are described in warnings when a list is passed.
  */
-export function migratePaletteControls(oldControls: any): PaletteControls {
+export function migratePaletteControls(oldControls: any, warnings?: string[]): PaletteControls {
   // If already migrated to new format (has steps as number array), return as-is
   if (oldControls.steps && Array.isArray(oldControls.steps) && typeof oldControls.steps[0] === 'number') {
     // Clean up automatic lightness calculation for existing palettes
@@ -28,7 +79,7 @@ export function migratePaletteControls(oldControls: any): PaletteControls {
       cleanedControls.lightnessOverrides = newLightnessOverrides;
     }
     
-    return cleanedControls as PaletteControls;
+    return { ...cleanedControls, ...migrateChromaCurve(cleanedControls, warnings), ...migrateHueCurve(cleanedControls, warnings) } as PaletteControls;
   }
 
   // Create default steps: 0 (white), 1-11 (core palette), 12 (black)
@@ -73,7 +124,9 @@ export function migratePaletteControls(oldControls: any): PaletteControls {
     chromaValues: migrateRecord(oldControls.chromaValues || {}),
     contrastTargets: migrateRecord(oldControls.contrastTargets || {}),
     lightnessValues: migrateRecord(oldControls.lightnessValues || {}),
-    lightnessOverrides: migrateRecord(oldControls.lightnessOverrides || {})
+    lightnessOverrides: migrateRecord(oldControls.lightnessOverrides || {}),
+    ...migrateChromaCurve(oldControls, warnings),
+    ...migrateHueCurve(oldControls, warnings)
   };
 }
 
@@ -0,0 +1,62 @@
+import { ensureUniquePaletteIds, remapPaletteReferences, getPaletteDependencies } from './paletteReferences';
+import { createNewPalette } from './colorGeneration';
+import { defaultControls } from './presets';
+import { Palette } from '../types';
+
+// References are only resolved against other generated palettes, so the colors are generated without them
+const paletteWithId = (id: string, name: string, backgroundColor: string = '#ffffff'): Palette => ({
+  ...createNewPalette(name, defaultControls),
+  id,
+  controls: { ...defaultControls, backgroundColor }
+});
+
+describe('remapPaletteReferences', () => {
+  it('rewrites background and constraint references and keeps colors', () => {
+    const controls = {
+      ...defaultControls,
+      backgroundColor: 'neutral:2',
+      selfReferenceSurface: 'neutral:1',
+      contrastConstraints: { '6': [{ background: 'neutral:0.5', minContrast: 4.5 }, { background: '#e4e4e7', minContrast: 3 }] }
+    };
+    const remapped = remapPaletteReferences(controls, { neutral: 'abc123' });
+    expect(remapped.backgroundColor).toBe('abc123:2');
+    expect(remapped.selfReferenceSurface).toBe('abc123:1');
+    expect(remapped.contrastConstraints!['6'].map(constraint => constraint.background)).toEqual(['abc123:0.5', '#e4e4e7']);
+  });
+
+  it('leaves references to palettes outside the map alone', () => {
+    expect(remapPaletteReferences({ ...defaultControls, backgroundColor: 'other:2' }, { neutral: 'abc123' }).backgroundColor).toBe('other:2');
+    expect(remapPaletteReferences({ ...defaultControls, backgroundColor: 'palette-3' }, { neutral: 'abc123' }).backgroundColor).toBe('palette-3');
+  });
+});
+
+describe('ensureUniquePaletteIds', () => {
+  it('keeps ids that do not collide', () => {
+    const neutral = paletteWithId('neutral', 'Neutral');
+    const accent = paletteWithId('accent', 'Accent', 'neutral:2');
+    expect(ensureUniquePaletteIds([neutral, accent], [])).toEqual([neutral, accent]);
+  });
+
+  it('follows renamed palettes instead of landing on an existing palette with the old id', () => {
+    const existing = paletteWithId('neutral', 'Gray');
+    const neutral = paletteWithId('neutral', 'Neutral');
+    const accent = paletteWithId('accent', 'Accent', 'neutral:2');
+    accent.controls.contrastConstraints = { '6': [{ background: 'neutral:3', minContrast: 4.5 }] };
+
+    const [importedNeutral, importedAccent] = ensureUniquePaletteIds([neutral, accent], [existing]);
+    expect(importedNeutral.id).not.toBe('neutral');
+    expect(importedNeutral.name).toBe('Neutral (Import)');
+    expect(importedAccent.controls.backgroundColor).toBe(`${importedNeutral.id}:2`);
+    expect(getPaletteDependencies(importedAccent.controls)).toEqual([importedNeutral.id]);
+  });
+
+  it('resolves references to an id duplicated inside the batch to its first palette', () => {
+    const first = paletteWithId('shared', 'First');
+    const second = paletteWithId('shared', 'Second');
+    const accent = paletteWithId('accent', 'Accent', 'shared:2');
+    const [importedFirst, importedSecond, importedAccent] = ensureUniquePaletteIds([first, second, accent], []);
+    expect(importedFirst.id).toBe('shared');
+    expect(importedSecond.id).not.toBe('shared');
+    expect(importedAccent.controls.backgroundColor).toBe('shared:2');
+  });
+});
@@ -0,0 +1,176 @@
+import { Palette, PaletteControls, SemanticTokenReference } from '../types';
+
+/**
+ * Cross-palette background references: "<paletteId>:<step>" (e.g. "neutral:2" for a palette with id
+ * "neutral") resolves to that step of another palette as it is currently generated, so editing the
+ * referenced ramp reflows every palette that targets it. Palettes are generated in dependency order;
+ * references that form a cycle cannot be resolved and fall back like any unresolved background.
+ */
+
+const PALETTE_REFERENCE_PATTERN = /^([A-Za-z0-9_-]+):(\d+(?:\.\d+)?)$/;
+
+/**
+ * Parse a "<paletteId>:<step>" background reference (null for colors and "palette-N" references)
+ */
+export function parsePaletteReference(value: string): SemanticTokenReference | null {
+  const match = value.trim().match(PALETTE_REFERENCE_PATTERN);
+  if (!match) return null;
+  return { paletteId: match[1], step: parseFloat(match[2]) };
+}
+
+/**
+ * Format a reference to a step of another palette
+ */
+export function formatPaletteReference(paletteId: string, step: number): string {
+  return `${paletteId}:${step}`;
+}
+
+/**
+ * Ids of the palettes a palette's backgrounds refer to (the contrast background, the surface under a
+ * "palette-N" background's step and extra constraints)
+ */
+export function getPaletteDependencies(controls: PaletteControls): string[] {
+  const backgrounds = [
+    controls.backgroundColor,
+    ...(controls.selfReferenceSurface ? [controls.selfReferenceSurface] : []),
+    ...Object.values(controls.contrastConstraints || {}).flat().map(constraint => constraint.background)
+  ];
+  const ids = backgrounds
+    .map(background => parsePaletteReference(background)?.paletteId)
+    .filter((id): id is string => id !== undefined);
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Order palettes so every palette comes after the palettes it references, and report reference cycles
+ * as lists of palette ids (a self-reference is a cycle of one). Palettes in a cycle are still ordered,
+ * with the reference that closes the cycle left unresolved.
+ */
+export function orderPalettesByReferences(palettes: Palette[]): { order: Palette[]; cycles: string[][] } {
+  const byId = new Map(palettes.map(palette => [palette.id, palette]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const order: Palette[] = [];
+  const cycles: string[][] = [];
+  const path: string[] = [];
+
+  const visit = (palette: Palette) => {
+    state.set(palette.id, 'visiting');
+    path.push(palette.id);
+    getPaletteDependencies(palette.controls).forEach(id => {
+      const dependency = byId.get(id);
+      if (!dependency) return;
+      if (state.get(id) === 'visiting') {
+        cycles.push(path.slice(path.indexOf(id)));
+      } else if (!state.has(id)) {
+        visit(dependency);
+      }
+    });
+    path.pop();
+    state.set(palette.id, 'done');
+    order.push(palette);
+  };
+
+  palettes.forEach(palette => {
+    if (!state.has(palette.id)) {
+      visit(palette);
+    }
+  });
+
+  return { order, cycles };
+}
+
+/**
+ * A palette plus every palette it references directly or indirectly
+ */
+export function collectReferencedPalettes(palette: Palette, palettes: Palette[]): Palette[] {
+  const byId = new Map(palettes.map(p => [p.id, p]));
+  const collected = new Map<string, Palette>([[palette.id, palette]]);
+  const pending = [palette];
+  while (pending.length > 0) {
+    getPaletteDependencies(pending.pop()!.controls).forEach(id => {
+      const dependency = byId.get(id);
+      if (dependency && !collected.has(id)) {
+        collected.set(id, dependency);
+        pending.push(dependency);
+      }
+    });
+  }
+  return Array.from(collected.values());
+}
+
+/**
+ * Whether referencing a step of the candidate palette from the given palette would close a cycle
+ */
+export function wouldCreateReferenceCycle(paletteId: string, candidateId: string, palettes: Palette[]): boolean {
+  if (paletteId === candidateId) return true;
+  const candidate = palettes.find(palette => palette.id === candidateId);
+  if (!candidate) return false;
+  return collectReferencedPalettes(candidate, palettes).some(palette => palette.id === paletteId);
+}
+
+/**
+ * Point a palette's background references at new palette ids (used when imported palettes are given new ids)
+ */
+export function remapPaletteReferences(controls: PaletteControls, idMap: Record<string, string>): PaletteControls {
+  const remap = (background: string): string => {
+    const reference = parsePaletteReference(background);
+    return reference && idMap[reference.paletteId] ? formatPaletteReference(idMap[reference.paletteId], reference.step) : background;
+  };
+
+  return {
+    ...controls,
+    backgroundColor: remap(controls.backgroundColor),
+    ...(controls.selfReferenceSurface ? { selfReferenceSurface: remap(controls.selfReferenceSurface) } : {}),
+    ...(controls.contrastConstraints ? {
+      contrastConstraints: Object.fromEntries(Object.entries(controls.contrastConstraints).map(([stepKey, constraints]) => [
+        stepKey,
+        constraints.map(constraint => ({ ...constraint, background: remap(constraint.background) }))
+      ]))
+    } : {})
+  };
+}
+
+/**
+ * Give imported palettes ids that are unique within the batch and against the existing palettes.
+ * Palettes whose id changes are marked as imported, and references between the imported palettes
+ * follow the new ids so they never dangle or land on an existing palette that had the old id.
+ */
+export function ensureUniquePaletteIds(newPalettes: Palette[], existingPalettes: Palette[] = []): Palette[] {
+  const existingIds = new Set(existingPalettes.map(p => p.id));
+  const processedIds = new Set<string>();
+  const idMap: Record<string, string> = {};
+
+  const deduplicated = newPalettes.map(palette => {
+    let uniqueId = palette.id;
+
+    // Check if ID conflicts with existing palettes OR has been used in this batch
+    while (existingIds.has(uniqueId) || processedIds.has(uniqueId)) {
+      uniqueId = Math.random().toString(36).substr(2, 9);
+    }
+
+    processedIds.add(uniqueId);
+    // References to an id shared inside the batch resolve to its first palette, like before the import
+    if (!(palette.id in idMap)) {
+      idMap[palette.id] = uniqueId;
+    }
+
+    // Only create new palette object if ID changed
+    if (uniqueId !== palette.id) {
+      return {
+        ...palette,
+        id: uniqueId,
+        name: `${palette.name} (Import)`, // Indicate it was imported with new ID
+        updatedAt: new Date()
+      };
+    }
+
+    return palette;
+  });
+
+  return deduplicated.map(palette => {
+    const references = getPaletteDependencies(palette.controls);
+    return references.some(id => idMap[id] && idMap[id] !== id)
+      ? { ...palette, controls: remapPaletteReferences(palette.controls, idMap) }
+      : palette;
+  });
+}
@@ -17,7 +17,23 @@ const defaultContrastTargetsNumeric = {
 };
 
 // Convert to string keys for new format
-const defaultContrastTargets = convertToStringRecord(defaultContrastTargetsNumeric);
+export const defaultContrastTargets = convertToStringRecord(defaultContrastTargetsNumeric);
+
+// APCA Lc equivalents of the WCAG 2 defaults against a white background
+// (Lc 60 = large text, 75 = body text, 90 = preferred body text)
+export const defaultApcaContrastTargets = convertToStringRecord({
+  1: 8,
+  2: 15,
+  3: 30,
+  4: 45,
+  5: 60,
+  6: 70,
+  7: 80,
+  8: 90,
+  9: 98,
+  10: 102,
+  11: 104
+});
 // Empty records for auto mode - lightness calculated from contrast targets
 const defaultLightnessValues: Record<string, number> = {};
 const defaultLightnessOverrides: Record<string, boolean> = {};
@@ -0,0 +1,60 @@
+import { solveControlsFromColor } from './seedColor';
+import { generatePalette } from './colorGeneration';
+import { APCA_MAX_LC } from './apca';
+import { defaultControls } from './presets';
+
+describe('solveControlsFromColor', () => {
+  it.each([
+    ['#0052cc', 6],
+    ['#ffab00', 3],
+    ['#36b37e', 9],
+    ['#172b4d', 11]
+  ])('reproduces %s exactly at step %s', (seed, step) => {
+    (['contrast', 'range', 'uniform'] as const).forEach(mode => {
+      const solution = solveControlsFromColor(seed, step, undefined, { gamutMode: 'sRGB' }, { mode })!;
+      expect(solution.color.css).toBe(seed);
+      expect(solution.exact).toBe(true);
+      expect(solution.gamutMapped).toBe(false);
+    });
+  });
+
+  it('puts the seed on the generated ramp', () => {
+    const solution = solveControlsFromColor('#0052cc', 6)!;
+    const colors = generatePalette(solution.controls, { gamutMode: 'sRGB' }, { mode: 'contrast' });
+    expect(colors.find(color => color.step === 6)!.css).toBe('#0052cc');
+  });
+
+  it('keeps the rescaled contrast targets monotonic', () => {
+    const { controls } = solveControlsFromColor('#ffab00', 4)!;
+    const targets = Array.from({ length: 11 }, (_, i) => controls.contrastTargets[(i + 1).toString()]);
+    targets.slice(1).forEach((target, i) => expect(target).toBeGreaterThan(targets[i]));
+  });
+
+  it('rescales APCA targets up to the strongest Lc', () => {
+    const contrastTargets = Object.fromEntries(Array.from({ length: 11 }, (_, i) => [(i + 1).toString(), 8 + i * 10]));
+    contrastTargets['11'] = APCA_MAX_LC;
+    const { controls } = solveControlsFromColor('#0052cc', 6, { ...defaultControls, contrastAlgorithm: 'apca', contrastTargets })!;
+    const targets = Array.from({ length: 11 }, (_, i) => controls.contrastTargets[(i + 1).toString()]);
+    targets.slice(1).forEach((target, i) => expect(target).toBeGreaterThan(targets[i]));
+    expect(targets[10]).toBe(APCA_MAX_LC);
+  });
+
+  it('reports seeds outside the gamut as mapped', () => {
+    const solution = solveControlsFromColor('oklch(0.7 0.35 150)', 6, undefined, { gamutMode: 'sRGB' })!;
+    expect(solution.exact).toBe(false);
+    expect(solution.gamutMapped).toBe(true);
+  });
+
+  it('does not report a wide-gamut seed as mapped in a gamut that holds it', () => {
+    const solution = solveControlsFromColor('color(display-p3 0 1 0)', 6, undefined, { gamutMode: 'P3' })!;
+    expect(solution.gamutMapped).toBe(false);
+  });
+
+  it('rejects unparseable colors and non-core steps', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(solveControlsFromColor('not a color')).toBeNull();
+    expect(solveControlsFromColor('#0052cc', 12)).toBeNull();
+    expect(solveControlsFromColor('#0052cc', 5.5)).toBeNull();
+    warn.mockRestore();
+  });
+});
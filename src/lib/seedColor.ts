@@ -0,0 +1,163 @@
+import { formatHex, inGamut } from 'culori';
+import { PaletteColor, PaletteControls, ContrastAlgorithm, GamutSettings, LightnessSettings } from '../types';
+import { parseToOklch, measureContrast, generatePalette } from './colorGeneration';
+import { defaultControls } from './presets';
+import { getHueOffset } from './hueCurve';
+import { parsePaletteReference } from './paletteReferences';
+import { APCA_MAX_LC } from './apca';
+
+/**
+ * Seed a palette from a brand color: solve baseHue, the chroma curve and the contrast
+ * target so that a chosen core step reproduces the color, with its lightness pinned.
+ */
+
+export interface SeedColorSolution {
+  controls: PaletteControls;
+  step: number;
+  // The generated color at the seeded step
+  color: PaletteColor;
+  // Whether the seeded step's hex is the seed's own hex
+  exact: boolean;
+  // True when the seed lies outside the selected gamut and had to be mapped
+  gamutMapped: boolean;
+}
+
+const CULORI_GAMUTS: Record<GamutSettings['gamutMode'], 'rgb' | 'p3' | 'rec2020'> = {
+  'sRGB': 'rgb',
+  'P3': 'p3',
+  'Rec2020': 'rec2020'
+};
+
+// Bounds used when rescaling contrast targets around the seeded step
+const CONTRAST_CEILING: Record<ContrastAlgorithm, number> = { wcag2: 21, apca: APCA_MAX_LC };
+const CONTRAST_FLOOR: Record<ContrastAlgorithm, number> = { wcag2: 1, apca: 0 };
+
+function roundTarget(value: number, algorithm: ContrastAlgorithm): number {
+  return algorithm === 'apca' ? Math.round(value * 10) / 10 : Math.round(value * 100) / 100;
+}
+
+/**
+ * Move the target at `step` to `measured` and rescale the other targets so the ramp stays monotonic.
+ * WCAG ratios are rescaled in log space, APCA Lc values linearly.
+ */
+function rescaleContrastTargets(
+  targets: Record<string, number>,
+  step: number,
+  measured: number,
+  algorithm: ContrastAlgorithm
+): Record<string, number> {
+  const scale = algorithm === 'apca' ? (value: number) => value : Math.log;
+  const unscale = algorithm === 'apca' ? (value: number) => value : Math.exp;
+  const floor = scale(CONTRAST_FLOOR[algorithm]);
+  const ceiling = scale(CONTRAST_CEILING[algorithm]);
+  const anchor = targets[step.toString()];
+  const target = scale(measured);
+
+  const result: Record<string, number> = {};
+  Object.entries(targets).forEach(([key, value]) => {
+    if (anchor === undefined || Number(key) === step) return;
+
+    const position = scale(value);
+    const anchorPosition = scale(anchor);
+    let rescaled: number;
+    if (position <= anchorPosition) {
+      const ratio = anchorPosition > floor ? (position - floor) / (anchorPosition - floor) : 0;
+      rescaled = floor + ratio * (target - floor);
+    } else {
+      const ratio = ceiling > anchorPosition ? (position - anchorPosition) / (ceiling - anchorPosition) : 1;
+      rescaled = target + ratio * (ceiling - target);
+    }
+    result[key] = roundTarget(unscale(rescaled), algorithm);
+  });
+
+  result[step.toString()] = roundTarget(measured, algorithm);
+  return result;
+}
+
+/**
+ * Solve palette controls so that `step` reproduces `colorString` (any CSS color).
+ * Returns null when the color cannot be parsed or the step is not a core step (1-11).
+ */
+export function solveControlsFromColor(
+  colorString: string,
+  step: number = 6,
+  baseControls: PaletteControls = defaultControls,
+  gamutSettings?: GamutSettings,
+  lightnessSettings?: LightnessSettings
+): SeedColorSolution | null {
+  const seed = parseToOklch(colorString);
+  if (!seed) {
+    console.warn(`Invalid seed color: ${colorString}`);
+    return null;
+  }
+  if (!Number.isInteger(step) || step < 1 || step > 11) {
+    console.warn(`Seed step must be a core step (1-11), got ${step}`);
+    return null;
+  }
+
+  const stepKey = step.toString();
+  const algorithm = baseControls.contrastAlgorithm || 'wcag2';
+
+  // Achromatic seeds have no meaningful hue; keep the base hue
+  const isAchromatic = seed.c < 0.001;
+  const baseHue = isAchromatic
+    ? baseControls.baseHue
+    : (((seed.h - getHueOffset(step, baseControls)) % 360) + 360) % 360;
+
+  // Peak the chroma curve at the seeded step so its chroma equals maxChroma exactly
+  const chroma = isAchromatic ? 0 : seed.c;
+  const chromaPeak = (step - 1) / 10;
+
+  // Measure the seed against the palette background to derive its contrast target
+  const isReference = baseControls.backgroundColor.startsWith('palette-') || parsePaletteReference(baseControls.backgroundColor) !== null;
+  const backgroundColor = isReference ? '#ffffff' : baseControls.backgroundColor;
+  const measured = measureContrast(colorString, backgroundColor, algorithm);
+  const contrastTargets = rescaleContrastTargets(baseControls.contrastTargets, step, measured, algorithm);
+
+  // Range mode places lightness on a line from step 1 to step 11; move the far end so the line passes through the seed
+  let { lightnessMin, lightnessMax } = baseControls;
+  const position = (step - 1) / 10;
+  if (position < 1) {
+    const solvedMin = (seed.l - position * lightnessMax) / (1 - position);
+    if (solvedMin >= 0 && solvedMin <= 1) {
+      lightnessMin = solvedMin;
+    } else if (position > 0) {
+      lightnessMax = (seed.l - (1 - position) * lightnessMin) / position;
+    }
+  } else {
+    lightnessMax = seed.l;
+  }
+
+  const controls: PaletteControls = {
+    ...baseControls,
+    baseHue,
+    chromaMode: 'curve',
+    chromaPeak,
+    maxChroma: chroma,
+    minChroma: Math.min(baseControls.minChroma, chroma),
+    contrastTargets,
+    lightnessMin,
+    lightnessMax,
+    // Pin the seeded step so contrast solving or uniform spacing cannot move it
+    lightnessValues: { ...baseControls.lightnessValues, [stepKey]: seed.l },
+    lightnessOverrides: { ...baseControls.lightnessOverrides, [stepKey]: true }
+  };
+
+  const color = generatePalette(controls, gamutSettings, lightnessSettings).find(c => c.step === step);
+  if (!color) {
+    console.warn(`Seeded step ${step} missing from generated palette`);
+    return null;
+  }
+
+  // Hex seeds parse to OKLCH a hair outside the gamut edge, so only seeds that do not reproduce count as mapped
+  const seedColor = { mode: 'oklch' as const, ...seed };
+  const exact = formatHex(seedColor) === color.css;
+  return {
+    controls,
+    step,
+    color,
+    exact,
+    gamutMapped: !exact && !inGamut(CULORI_GAMUTS[gamutSettings?.gamutMode || 'sRGB'])(seedColor)
+  };
+}
+
@@ -0,0 +1,137 @@
+import {
+  createDefaultSemanticTokens,
+  formatTokenReference,
+  parseTokenReference,
+  findSemanticTokenReferences,
+  validateSemanticTokens,
+  resolveSemanticToken,
+  generateSemanticCSSVariables,
+  remapSemanticTokens
+} from './semanticTokens';
+import { createNewPalette, generatePalette, generateDarkPalette, DEFAULT_DARK_BACKGROUND } from './colorGeneration';
+import { defaultControls } from './presets';
+import { Palette, SemanticToken } from '../types';
+
+const neutral = createNewPalette('Neutral Gray', { ...defaultControls, baseHue: 260 });
+const brand = createNewPalette('Brand', { ...defaultControls, baseHue: 25 });
+const palettes = [brand, neutral];
+
+const tokenOf = (name: string, light: number, dark?: number, palette: Palette = neutral): SemanticToken => ({
+  id: name,
+  name,
+  light: { paletteId: palette.id, step: light },
+  dark: dark === undefined ? undefined : { paletteId: palette.id, step: dark }
+});
+
+describe('createDefaultSemanticTokens', () => {
+  it('maps neutral roles to the neutral palette and accent roles to another palette', () => {
+    const tokens = createDefaultSemanticTokens(palettes);
+    const surface = tokens.find(token => token.name === 'surface')!;
+    const accent = tokens.find(token => token.name === 'accent')!;
+    expect(surface.light).toEqual({ paletteId: neutral.id, step: 0 });
+    expect(surface.dark).toEqual({ paletteId: neutral.id, step: 11 });
+    expect(accent.light.paletteId).toBe(brand.id);
+  });
+
+  it('keeps light steps on core steps for palettes with a dark variant', () => {
+    const withVariant = { ...neutral, darkVariant: { enabled: true, backgroundColor: DEFAULT_DARK_BACKGROUND } };
+    const surface = createDefaultSemanticTokens([withVariant]).find(token => token.name === 'surface')!;
+    expect(surface.dark!.step).toBe(1);
+  });
+
+  it('creates nothing without palettes', () => {
+    expect(createDefaultSemanticTokens([])).toEqual([]);
+  });
+});
+
+describe('token references', () => {
+  it('formats and parses "palette:step" by name or slug', () => {
+    const reference = { paletteId: neutral.id, step: 6 };
+    expect(formatTokenReference(reference, palettes)).toBe('Neutral Gray:6');
+    expect(parseTokenReference('Neutral Gray:6', palettes)).toEqual(reference);
+    expect(parseTokenReference('neutral-gray:6.5', palettes)).toEqual({ paletteId: neutral.id, step: 6.5 });
+  });
+
+  it('rejects unknown palettes and malformed references', () => {
+    expect(parseTokenReference('missing:6', palettes)).toBeNull();
+    expect(parseTokenReference('Brand', palettes)).toBeNull();
+  });
+
+  it('finds tokens referencing a step in either mode', () => {
+    const tokens = [tokenOf('text', 11, 1), tokenOf('border', 3, 8)];
+    expect(findSemanticTokenReferences(tokens, neutral.id, 1).map(token => token.name)).toEqual(['text']);
+    expect(findSemanticTokenReferences(tokens, brand.id, 11)).toEqual([]);
+  });
+});
+
+describe('validateSemanticTokens', () => {
+  it('accepts valid tokens', () => {
+    expect(validateSemanticTokens([tokenOf('text', 11, 1), tokenOf('surface', 0)], palettes)).toEqual([]);
+  });
+
+  it('reports empty and duplicate names', () => {
+    const issues = validateSemanticTokens([tokenOf(' ', 1), tokenOf('Text Muted', 8), tokenOf('text-muted', 9)], palettes);
+    expect(issues.map(issue => issue.message)).toEqual(['Name is required', 'Duplicate name "text-muted"']);
+  });
+
+  it('reports deleted palettes and missing steps per mode', () => {
+    const deleted = { ...tokenOf('accent', 7), dark: { paletteId: 'gone', step: 5 } };
+    const issues = validateSemanticTokens([deleted, tokenOf('text', 11.5)], palettes);
+    expect(issues).toEqual([
+      { tokenId: 'accent', mode: 'dark', message: 'dark reference points to a deleted palette' },
+      { tokenId: 'text', mode: 'light', message: 'light reference: step 11.5 no longer exists in Neutral Gray' }
+    ]);
+  });
+});
+
+describe('resolveSemanticToken', () => {
+  it('resolves to the generated palette color in each mode', () => {
+    const token = tokenOf('text', 11, 1);
+    const colors = generatePalette(neutral.controls);
+    expect(resolveSemanticToken(token, palettes, 'light')!.color.css).toBe(colors.find(color => color.step === 11)!.css);
+    expect(resolveSemanticToken(token, palettes, 'dark')!.color.css).toBe(colors.find(color => color.step === 1)!.css);
+  });
+
+  it('falls back to the light reference without a dark one', () => {
+    const token = tokenOf('border', 3);
+    expect(resolveSemanticToken(token, palettes, 'dark')!.color.step).toBe(3);
+  });
+
+  it('resolves dark mode against an enabled dark variant', () => {
+    const withVariant = { ...neutral, darkVariant: { enabled: true, backgroundColor: DEFAULT_DARK_BACKGROUND } };
+    const dark = generateDarkPalette(withVariant)!;
+    const resolved = resolveSemanticToken(tokenOf('text', 11, 1), [withVariant], 'dark')!;
+    expect(resolved.color.css).toBe(dark.find(color => color.step === 1)!.css);
+  });
+
+  it('returns null for deleted palettes and missing steps', () => {
+    expect(resolveSemanticToken({ ...tokenOf('gone', 1), light: { paletteId: 'gone', step: 1 } }, palettes, 'light')).toBeNull();
+    expect(resolveSemanticToken(tokenOf('text', 11.5), palettes, 'light')).toBeNull();
+  });
+});
+
+describe('generateSemanticCSSVariables', () => {
+  it('aliases palette variables with the resolved color as fallback', () => {
+    const css = generateSemanticCSSVariables([tokenOf('Text Muted', 8, 4)], palettes);
+    const colors = generatePalette(neutral.controls);
+    const step8 = colors.find(color => color.step === 8)!;
+    const step4 = colors.find(color => color.step === 4)!;
+    expect(css).toContain(`:root {\n  --text-muted: var(--neutral-gray-${step8.tokenName}, ${step8.css});\n}`);
+    expect(css).toContain(`.dark {\n  --text-muted: var(--neutral-gray-${step4.tokenName}, ${step4.css});\n}`);
+  });
+
+  it('skips unresolved tokens', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const css = generateSemanticCSSVariables([tokenOf('text', 11.5)], palettes);
+    expect(css).not.toContain('--text:');
+    warn.mockRestore();
+  });
+});
+
+describe('remapSemanticTokens', () => {
+  it('rewrites palette ids in both modes and keeps unmapped ids', () => {
+    const [remapped] = remapSemanticTokens([{ ...tokenOf('text', 11, 1), light: { paletteId: brand.id, step: 11 } }], { [neutral.id]: 'new-id' });
+    expect(remapped.light.paletteId).toBe(brand.id);
+    expect(remapped.dark!.paletteId).toBe('new-id');
+  });
+});
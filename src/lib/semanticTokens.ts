@@ -0,0 +1,187 @@
+import { Palette, PaletteColor, SemanticToken, SemanticTokenReference, GamutSettings, LightnessSettings } from '../types';
+import { generatePaletteWithReferences, generateDarkPalette, generateId, toTokenSlug } from './colorGeneration';
+
+/**
+ * Semantic token layer: role names (surface, text-muted, ...) that alias palette steps per color mode.
+ * DOM-free so the engine and CLI can resolve roles the same way the app does.
+ */
+
+export type SemanticTokenMode = 'light' | 'dark';
+
+export interface SemanticTokenIssue {
+  tokenId: string;
+  mode?: SemanticTokenMode;
+  message: string;
+}
+
+/**
+ * Starter roles created from the first palette named "neutral" (or the first palette)
+ */
+const DEFAULT_ROLES: Array<{ name: string; light: number; dark: number; accent?: boolean; description: string }> = [
+  { name: 'surface', light: 0, dark: 11, description: 'Page background' },
+  { name: 'surface-raised', light: 1, dark: 10, description: 'Cards and raised surfaces' },
+  { name: 'border', light: 3, dark: 8, description: 'Default borders and dividers' },
+  { name: 'border-strong', light: 5, dark: 6, description: 'High-emphasis borders' },
+  { name: 'text', light: 11, dark: 1, description: 'Primary text' },
+  { name: 'text-muted', light: 8, dark: 4, description: 'Secondary text' },
+  { name: 'accent', light: 7, dark: 5, accent: true, description: 'Primary actions and links' },
+  { name: 'accent-fg', light: 0, dark: 12, accent: true, description: 'Text on accent backgrounds' }
+];
+
+/**
+ * Create the default role set for a list of palettes
+ */
+export function createDefaultSemanticTokens(palettes: Palette[]): SemanticToken[] {
+  if (palettes.length === 0) return [];
+
+  const neutral = palettes.find(palette => /neutral|gray|grey|slate/i.test(palette.name)) || palettes[0];
+  const accent = palettes.find(palette => palette.id !== neutral.id) || neutral;
+
+  return DEFAULT_ROLES.map(role => {
+    const palette = role.accent ? accent : neutral;
+    // Dark variants are already solved against the dark background, so their steps keep the light role's
+    // contrast ordering; white/black endpoints move to the nearest core step
+    const darkStep = palette.darkVariant?.enabled ? Math.min(11, Math.max(1, role.light)) : role.dark;
+    return {
+      id: generateId(),
+      name: role.name,
+      light: { paletteId: palette.id, step: role.light },
+      dark: { paletteId: palette.id, step: darkStep },
+      description: role.description
+    };
+  });
+}
+
+/**
+ * Format a reference as "palette:step" (e.g. "neutral:11")
+ */
+export function formatTokenReference(reference: SemanticTokenReference, palettes: Palette[]): string {
+  const palette = palettes.find(p => p.id === reference.paletteId);
+  return `${palette ? palette.name : '?'}:${reference.step}`;
+}
+
+/**
+ * Parse a "palette:step" reference, matching palette names case-insensitively
+ */
+export function parseTokenReference(value: string, palettes: Palette[]): SemanticTokenReference | null {
+  const match = value.trim().match(/^(.+):(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+
+  const name = match[1].trim().toLowerCase();
+  const palette = palettes.find(p => p.name.toLowerCase() === name || toTokenSlug(p.name) === toTokenSlug(name));
+  if (!palette) return null;
+
+  return { paletteId: palette.id, step: parseFloat(match[2]) };
+}
+
+/**
+ * Reference used for a mode (dark falls back to light)
+ */
+export function getModeReference(token: SemanticToken, mode: SemanticTokenMode): SemanticTokenReference {
+  return mode === 'dark' && token.dark ? token.dark : token.light;
+}
+
+/**
+ * Semantic tokens that reference a given palette step in either mode
+ */
+export function findSemanticTokenReferences(tokens: SemanticToken[], paletteId: string, step: number): SemanticToken[] {
+  return tokens.filter(token =>
+    (token.light.paletteId === paletteId && token.light.step === step) ||
+    (token.dark?.paletteId === paletteId && token.dark.step === step)
+  );
+}
+
+/**
+ * Check role names and that every referenced palette and step still exists
+ */
+export function validateSemanticTokens(tokens: SemanticToken[], palettes: Palette[]): SemanticTokenIssue[] {
+  const issues: SemanticTokenIssue[] = [];
+  const seenNames = new Set<string>();
+
+  tokens.forEach(token => {
+    const slug = toTokenSlug(token.name);
+    if (!token.name.trim()) {
+      issues.push({ tokenId: token.id, message: 'Name is required' });
+    } else if (seenNames.has(slug)) {
+      issues.push({ tokenId: token.id, message: `Duplicate name "${token.name}"` });
+    }
+    seenNames.add(slug);
+
+    const modes: SemanticTokenMode[] = token.dark ? ['light', 'dark'] : ['light'];
+    modes.forEach(mode => {
+      const reference = getModeReference(token, mode);
+      const palette = palettes.find(p => p.id === reference.paletteId);
+      if (!palette) {
+        issues.push({ tokenId: token.id, mode, message: `${mode} reference points to a deleted palette` });
+      } else if (!(palette.controls.steps || []).includes(reference.step)) {
+        issues.push({ tokenId: token.id, mode, message: `${mode} reference: step ${reference.step} no longer exists in ${palette.name}` });
+      }
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Resolve a semantic token to the generated palette color for a mode.
+ * In dark mode, palettes with an enabled dark variant resolve against that variant.
+ */
+export function resolveSemanticToken(
+  token: SemanticToken,
+  palettes: Palette[],
+  mode: SemanticTokenMode,
+  gamutSettings?: GamutSettings,
+  lightnessSettings?: LightnessSettings
+): { palette: Palette; color: PaletteColor } | null {
+  const reference = getModeReference(token, mode);
+  const palette = palettes.find(p => p.id === reference.paletteId);
+  if (!palette) return null;
+
+  const colors = (mode === 'dark' && generateDarkPalette(palette, gamutSettings, lightnessSettings))
+    || generatePaletteWithReferences(palette, palettes, gamutSettings, lightnessSettings);
+  const color = colors.find(c => c.step === reference.step);
+  return color ? { palette, color } : null;
+}
+
+/**
+ * Generate CSS custom properties aliasing palette variables, with the resolved color as fallback.
+ * Palette variables follow the engine's naming (--<palette-slug>-<token>), with `.dark` for dark mode.
+ */
+export function generateSemanticCSSVariables(
+  tokens: SemanticToken[],
+  palettes: Palette[],
+  gamutSettings?: GamutSettings,
+  lightnessSettings?: LightnessSettings
+): string {
+  const renderMode = (mode: SemanticTokenMode, selector: string) => {
+    const lines: string[] = [];
+    tokens.forEach(token => {
+      const resolved = resolveSemanticToken(token, palettes, mode, gamutSettings, lightnessSettings);
+      if (!resolved) {
+        console.warn(`Skipping semantic token "${token.name}": unresolved ${mode} reference`);
+        return;
+      }
+      const paletteVariable = `--${toTokenSlug(resolved.palette.name)}-${resolved.color.tokenName}`;
+      lines.push(`  --${toTokenSlug(token.name)}: var(${paletteVariable}, ${resolved.color.css});`);
+    });
+    return `${selector} {\n${lines.join('\n')}\n}`;
+  };
+
+  return `${renderMode('light', ':root')}\n\n${renderMode('dark', '.dark')}`;
+}
+
+/**
+ * Remap palette ids in references (used when imported palettes are given new ids)
+ */
+export function remapSemanticTokens(tokens: SemanticToken[], idMap: Record<string, string>): SemanticToken[] {
+  const remap = (reference: SemanticTokenReference): SemanticTokenReference => ({
+    ...reference,
+    paletteId: idMap[reference.paletteId] || reference.paletteId
+  });
+
+  return tokens.map(token => ({
+    ...token,
+    light: remap(token.light),
+    dark: token.dark ? remap(token.dark) : undefined
+  }));
+}
@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ */
+import { encodeShareHash, decodeShareHash, isShareHash, SHARE_HASH_PREFIX, SHARE_SCHEMA_VERSION } from './share';
+import { createNewPalette } from './colorGeneration';
+import { defaultControls } from './presets';
+
+// Same deflate-raw + base64url framing as the encoder, for hand-built payloads
+async function encodePayload(payload: unknown, version: number = SHARE_SCHEMA_VERSION): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const output = new Blob([json]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const bytes = new Uint8Array(await new Response(output).arrayBuffer());
+  const base64 = Buffer.from(bytes).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${SHARE_HASH_PREFIX}${version}.${base64}`;
+}
+
+describe('share links', () => {
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+  });
+
+  it('round-trips names, controls and dark variants', async () => {
+    const brand = {
+      ...createNewPalette('Brand', { ...defaultControls, baseHue: 25, maxChroma: 0.2, anchors: { '6': '#d9480f' } }),
+      darkVariant: { enabled: true, backgroundColor: '#101014' }
+    };
+    const neutral = createNewPalette('Neutral', { ...defaultControls, baseHue: 260, minChroma: 0.01 });
+
+    const hash = await encodeShareHash([brand, neutral]);
+    expect(isShareHash(hash)).toBe(true);
+    expect(hash.startsWith(`${SHARE_HASH_PREFIX}${SHARE_SCHEMA_VERSION}.`)).toBe(true);
+    expect(hash).toMatch(/^#share=\d+\.[A-Za-z0-9_-]+$/);
+
+    const decoded = (await decodeShareHash(hash))!;
+    expect(decoded.palettes.map(palette => palette.name)).toEqual(['Brand', 'Neutral']);
+    expect(decoded.palettes[0].controls).toEqual(brand.controls);
+    expect(decoded.palettes[0].darkVariant).toEqual(brand.darkVariant);
+    expect(decoded.palettes[1].controls).toEqual(neutral.controls);
+    expect(decoded.palettes[1].darkVariant).toBeUndefined();
+    expect(decoded.activePaletteId).toBe(decoded.palettes[0].id);
+    expect(decoded.warnings).toBeUndefined();
+  });
+
+  it('re-points references between shared palettes at their new ids', async () => {
+    const neutral = createNewPalette('Neutral', { ...defaultControls, baseHue: 260 });
+    const accent = {
+      ...createNewPalette('Accent', defaultControls),
+      controls: {
+        ...defaultControls,
+        backgroundColor: `${neutral.id}:2`,
+        contrastConstraints: { '6': [{ background: `${neutral.id}:3`, minContrast: 4.5 }] }
+      }
+    };
+
+    // Decoding generates each palette on its own, before the references can resolve
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const decoded = (await decodeShareHash(await encodeShareHash([accent, neutral])))!;
+    warn.mockRestore();
+    const [decodedAccent, decodedNeutral] = decoded.palettes;
+    expect(decodedNeutral.id).not.toBe(neutral.id);
+    expect(decodedAccent.controls.backgroundColor).toBe(`${decodedNeutral.id}:2`);
+    expect(decodedAccent.controls.contrastConstraints!['6'][0].background).toBe(`${decodedNeutral.id}:3`);
+  });
+
+  it('stores only controls that differ from the defaults', async () => {
+    const defaults = await encodeShareHash([createNewPalette('A', defaultControls)]);
+    const edited = await encodeShareHash([createNewPalette('A', { ...defaultControls, baseHue: 123 })]);
+    expect(defaults.length).toBeLessThan(edited.length);
+    expect(defaults.length).toBeLessThan(60);
+  });
+
+  it('rejects links from a newer schema', async () => {
+    const hash = await encodePayload({ v: SHARE_SCHEMA_VERSION + 1, p: [{ n: 'Future', c: {} }] }, SHARE_SCHEMA_VERSION + 1);
+    expect(await decodeShareHash(hash)).toBeNull();
+    expect(errorSpy).toHaveBeenCalledWith('Failed to decode share link:', expect.objectContaining({
+      message: expect.stringContaining(`schema v${SHARE_SCHEMA_VERSION + 1}`)
+    }));
+  });
+
+  it.each([
+    ['a foreign hash', '#section'],
+    ['a missing payload', `${SHARE_HASH_PREFIX}1`],
+    ['a non-numeric version', `${SHARE_HASH_PREFIX}x.abc`],
+    ['corrupted data', `${SHARE_HASH_PREFIX}1.not-deflate`]
+  ])('rejects %s', async (_, hash) => {
+    expect(await decodeShareHash(hash)).toBeNull();
+  });
+
+  it('rejects links without palettes', async () => {
+    expect(await decodeShareHash(await encodePayload({ v: 1, p: [] }))).toBeNull();
+  });
+
+  it('names unnamed palettes and reports settings that fell back', async () => {
+    const hash = await encodePayload({ v: 1, p: [{ n: '', c: { hueCurveMode: 'custom', hueCurvePoints: [] } }] });
+    const decoded = (await decodeShareHash(hash))!;
+    expect(decoded.palettes[0].name).toBe('Shared Palette 1');
+    expect(decoded.palettes[0].controls.hueCurveMode).toBeUndefined();
+    expect(decoded.warnings).toEqual([expect.stringMatching(/^Shared Palette 1: Custom hue curve/)]);
+  });
+});
@@ -0,0 +1,137 @@
+import { Palette, PaletteControls, DarkModeVariant } from '../types';
+import { createNewPalette } from './colorGeneration';
+import { defaultControls } from './presets';
+import { migratePaletteControls } from './migration';
+import { getPaletteDependencies, remapPaletteReferences } from './paletteReferences';
+
+/**
+ * Shareable URL encoding of palettes.
+ *
+ * Hash format: #share=<version>.<base64url(deflate-raw(JSON))>
+ * Only controls that differ from defaultControls are stored to keep links short. Decoded palettes get
+ * new ids, so the ids of palettes that other shared palettes reference are kept to re-point those references.
+ */
+
+export const SHARE_HASH_PREFIX = '#share=';
+export const SHARE_SCHEMA_VERSION = 1;
+
+// Compact payload stored in the hash (short keys keep the URL small)
+interface SharePayload {
+  v: number;
+  p: Array<{
+    n: string;                      // palette name
+    i?: string;                     // palette id, when another shared palette references it
+    c: Partial<PaletteControls>;    // controls that differ from defaults
+    d?: DarkModeVariant;            // dark-mode variant
+  }>;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// Keep only the controls that differ from the defaults
+function diffControls(controls: PaletteControls): Partial<PaletteControls> {
+  const diff: Record<string, unknown> = {};
+  (Object.keys(controls) as Array<keyof PaletteControls>).forEach(key => {
+    if (JSON.stringify(controls[key]) !== JSON.stringify(defaultControls[key])) {
+      diff[key] = controls[key];
+    }
+  });
+  return diff as Partial<PaletteControls>;
+}
+
+/**
+ * Encode palettes into a URL hash fragment (including the leading "#share=")
+ */
+export async function encodeShareHash(palettes: Palette[]): Promise<string> {
+  const referencedIds = new Set(palettes.flatMap(palette => getPaletteDependencies(palette.controls)));
+  const payload: SharePayload = {
+    v: SHARE_SCHEMA_VERSION,
+    p: palettes.map(palette => ({
+      n: palette.name,
+      ...(referencedIds.has(palette.id) ? { i: palette.id } : {}),
+      c: diffControls(palette.controls),
+      ...(palette.darkVariant ? { d: palette.darkVariant } : {})
+    }))
+  };
+
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const compressed = await transform(json, new CompressionStream('deflate-raw'));
+  return `${SHARE_HASH_PREFIX}${SHARE_SCHEMA_VERSION}.${toBase64Url(compressed)}`;
+}
+
+/**
+ * Check whether a URL hash carries shared palettes
+ */
+export function isShareHash(hash: string): boolean {
+  return hash.startsWith(SHARE_HASH_PREFIX);
+}
+
+/**
+ * Decode palettes from a share hash; returns null if the hash is malformed or from a newer schema
+ */
+export async function decodeShareHash(hash: string): Promise<{ palettes: Palette[], activePaletteId: string, warnings?: string[] } | null> {
+  try {
+    if (!isShareHash(hash)) {
+      throw new Error('Not a share link');
+    }
+
+    const [versionPart, data] = hash.slice(SHARE_HASH_PREFIX.length).split('.', 2);
+    const version = parseInt(versionPart, 10);
+    if (!data || isNaN(version)) {
+      throw new Error('Malformed share link');
+    }
+    if (version > SHARE_SCHEMA_VERSION) {
+      throw new Error(`Share link uses schema v${version}, this version supports up to v${SHARE_SCHEMA_VERSION}`);
+    }
+
+    const json = await transform(fromBase64Url(data), new DecompressionStream('deflate-raw'));
+    const payload: SharePayload = JSON.parse(new TextDecoder().decode(json));
+    if (!Array.isArray(payload.p) || payload.p.length === 0) {
+      throw new Error('Share link contains no palettes');
+    }
+
+    const warnings: string[] = [];
+    const idMap: Record<string, string> = {};
+    const decodedPalettes = payload.p.map((entry, index) => {
+      const name = entry.n || `Shared Palette ${index + 1}`;
+      const migrationWarnings: string[] = [];
+      const controls = {
+        ...defaultControls,
+        ...migratePaletteControls({ ...defaultControls, ...entry.c }, migrationWarnings)
+      };
+      warnings.push(...migrationWarnings.map(warning => `${name}: ${warning}`));
+      const palette = createNewPalette(name, controls);
+      if (entry.i) {
+        idMap[entry.i] = palette.id;
+      }
+      return entry.d ? { ...palette, darkVariant: entry.d } : palette;
+    });
+    const palettes = decodedPalettes.map(palette => ({ ...palette, controls: remapPaletteReferences(palette.controls, idMap) }));
+
+    return {
+      palettes,
+      activePaletteId: palettes[0].id,
+      ...(warnings.length > 0 ? { warnings } : {})
+    };
+  } catch (error) {
+    console.error('Failed to decode share link:', error);
+    return null;
+  }
+}
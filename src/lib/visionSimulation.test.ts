@@ -0,0 +1,77 @@
+import { formatHex, wcagLuminance } from 'culori';
+import { simulateColor, simulatePalette, findIndistinguishablePalettes } from './visionSimulation';
+import { generatePalette } from './colorGeneration';
+import { defaultControls } from './presets';
+
+// Machado, Oliveira & Fernandes (2009) matrices at severity 1.0, applied by culori to sRGB channels
+const MACHADO_MATRICES = {
+  protanopia: [[0.152286, 1.052583, -0.204868], [0.114503, 0.786281, 0.099216], [-0.003882, -0.048116, 1.051998]],
+  deuteranopia: [[0.367322, 0.860646, -0.227968], [0.280085, 0.672501, 0.047413], [-0.011820, 0.042940, 0.968881]],
+  tritanopia: [[1.255528, -0.076749, -0.178779], [-0.078411, 0.930809, 0.147602], [0.004733, 0.691367, 0.303900]]
+} as const;
+
+const PRIMARIES = ['#ff0000', '#00ff00', '#0000ff'];
+
+describe('simulateColor', () => {
+  describe.each(Object.keys(MACHADO_MATRICES) as Array<keyof typeof MACHADO_MATRICES>)('%s', simulation => {
+    it.each(PRIMARIES.map((primary, index) => [primary, index] as const))('maps %s to its matrix column', (primary, index) => {
+      const [r, g, b] = MACHADO_MATRICES[simulation].map(row => Math.max(0, Math.min(1, row[index])));
+      expect(simulateColor(primary, simulation)).toBe(formatHex({ mode: 'rgb', r, g, b }));
+    });
+
+    it('keeps white and grays neutral', () => {
+      expect(simulateColor('#ffffff', simulation)).toBe('#ffffff');
+      const gray = simulateColor('#808080', simulation);
+      expect(gray.slice(1, 3)).toBe(gray.slice(3, 5));
+      expect(gray.slice(3, 5)).toBe(gray.slice(5, 7));
+    });
+  });
+
+  it('maps achromatopsia to the gray of equal luminance', () => {
+    const gray = simulateColor('#ff0000', 'achromatopsia');
+    expect(gray).toBe('#7f7f7f');
+    expect(wcagLuminance(gray)).toBeCloseTo(wcagLuminance('#ff0000'), 2);
+  });
+
+  it('passes colors through without a simulation or when unparseable', () => {
+    expect(simulateColor('#123456', 'none')).toBe('#123456');
+    expect(simulateColor('not a color', 'protanopia')).toBe('not a color');
+  });
+});
+
+describe('simulatePalette', () => {
+  it('replaces colors but keeps steps and token names', () => {
+    const colors = generatePalette({ ...defaultControls, baseHue: 25 });
+    const simulated = simulatePalette(colors, 'deuteranopia');
+    simulated.forEach((color, index) => {
+      expect(color.step).toBe(colors[index].step);
+      expect(color.tokenName).toBe(colors[index].tokenName);
+      expect(color.css).toBe(simulateColor(colors[index].css, 'deuteranopia'));
+      expect(color.wideGamut).toBeUndefined();
+    });
+  });
+
+  it('returns the palette unchanged without a simulation', () => {
+    const colors = generatePalette(defaultControls);
+    expect(simulatePalette(colors, 'none')).toBe(colors);
+  });
+});
+
+describe('findIndistinguishablePalettes', () => {
+  const paletteAt = (name: string, baseHue: number) => ({ name, colors: generatePalette({ ...defaultControls, baseHue, maxChroma: 0.2 }) });
+
+  it('reports orange and green as confusable under deuteranopia', () => {
+    const pairs = findIndistinguishablePalettes([paletteAt('Orange', 40), paletteAt('Green', 130)]);
+    const simulations = pairs.map(pair => pair.simulation);
+    expect(simulations).toContain('deuteranopia');
+    expect(simulations).not.toContain('tritanopia');
+    // Steps solved to the same contrast share their luminance, so they always collapse without color vision
+    expect(simulations).toContain('achromatopsia');
+    pairs.forEach(pair => expect(pair.deltaE).toBeLessThan(pair.normalDeltaE));
+    expect(pairs.map(pair => pair.deltaE)).toEqual([...pairs.map(pair => pair.deltaE)].sort((a, b) => a - b));
+  });
+
+  it('skips pairs that are already close with normal vision', () => {
+    expect(findIndistinguishablePalettes([paletteAt('Blue', 250), paletteAt('Blue 2', 252)])).toEqual([]);
+  });
+});
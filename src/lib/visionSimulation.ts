@@ -0,0 +1,139 @@
+import { parse, oklch, formatHex, formatCss, wcagLuminance, filterDeficiencyProt, filterDeficiencyDeuter, filterDeficiencyTrit, differenceCiede2000, Color } from 'culori';
+import { PaletteColor, VisionSimulation } from '../types';
+
+/**
+ * Color vision deficiency (CVD) simulation.
+ * Dichromacies use the Machado, Oliveira & Fernandes (2009) matrices at full severity (via culori);
+ * achromatopsia maps every color to the gray of equal relative luminance.
+ */
+
+export const VISION_SIMULATIONS: Array<{ value: VisionSimulation; label: string; description: string }> = [
+  { value: 'none', label: 'Normal vision', description: 'No simulation' },
+  { value: 'protanopia', label: 'Protanopia', description: 'No red cones (~1% of males)' },
+  { value: 'deuteranopia', label: 'Deuteranopia', description: 'No green cones (~1% of males)' },
+  { value: 'tritanopia', label: 'Tritanopia', description: 'No blue cones (rare)' },
+  { value: 'achromatopsia', label: 'Achromatopsia', description: 'No color vision (rare)' }
+];
+
+// CIEDE2000 distance below which two mid-step colors are reported as hard to tell apart
+export const CVD_DELTA_E_THRESHOLD = 8;
+
+// Mid steps compared by the distinguishability report (tokens 70 through 30)
+const MID_STEPS = [4, 5, 6, 7, 8];
+
+const deficiencyFilters = {
+  protanopia: filterDeficiencyProt(1),
+  deuteranopia: filterDeficiencyDeuter(1),
+  tritanopia: filterDeficiencyTrit(1)
+};
+
+function simulateParsedColor(color: Color, simulation: VisionSimulation): Color {
+  switch (simulation) {
+    case 'protanopia':
+    case 'deuteranopia':
+    case 'tritanopia':
+      return deficiencyFilters[simulation](color);
+    case 'achromatopsia': {
+      const y = wcagLuminance(color);
+      return { mode: 'lrgb', r: y, g: y, b: y };
+    }
+    default:
+      return color;
+  }
+}
+
+/**
+ * Simulate how a CSS color appears under a vision deficiency, returned as hex
+ */
+export function simulateColor(css: string, simulation: VisionSimulation): string {
+  if (simulation === 'none') return css;
+
+  const parsed = parse(css);
+  if (!parsed) return css;
+  return formatHex(simulateParsedColor(parsed, simulation)) || css;
+}
+
+/**
+ * Apply a simulation to every color in a palette (display only; steps and token names are kept)
+ */
+export function simulatePalette(colors: PaletteColor[], simulation: VisionSimulation): PaletteColor[] {
+  if (simulation === 'none') return colors;
+
+  return colors.map(color => {
+    const css = simulateColor(color.css, simulation);
+    const simulated = oklch(parse(css) || color.css);
+    if (!simulated) return color;
+
+    const lightness = simulated.l || 0;
+    const chroma = simulated.c || 0;
+    const hue = simulated.h || color.hue;
+    return {
+      ...color,
+      css,
+      lightness,
+      chroma,
+      hue,
+      oklch: formatCss({ mode: 'oklch', l: lightness, c: chroma, h: hue }) || color.oklch,
+      // Simulated from the sRGB value
+      wideGamut: undefined
+    };
+  });
+}
+
+export interface IndistinguishablePair {
+  simulation: VisionSimulation;
+  paletteA: string;
+  paletteB: string;
+  deltaE: number;       // Mean CIEDE2000 across mid steps under the simulation
+  normalDeltaE: number; // Same measurement with normal vision, for comparison
+}
+
+/**
+ * Report pairs of palettes whose mid steps become hard to distinguish under each simulation.
+ * Pairs that are already close with normal vision are not reported.
+ */
+export function findIndistinguishablePalettes(
+  palettes: Array<{ name: string; colors: PaletteColor[] }>,
+  threshold: number = CVD_DELTA_E_THRESHOLD
+): IndistinguishablePair[] {
+  const deltaE = differenceCiede2000();
+  const simulations = VISION_SIMULATIONS.map(option => option.value).filter(value => value !== 'none');
+
+  const midColors = (colors: PaletteColor[]) =>
+    MID_STEPS.map(step => colors.find(color => color.step === step)?.css).filter((css): css is string => !!css);
+
+  const meanDistance = (a: string[], b: string[], simulation: VisionSimulation) => {
+    const count = Math.min(a.length, b.length);
+    if (count === 0) return Infinity;
+    let total = 0;
+    for (let i = 0; i < count; i++) {
+      total += deltaE(simulateColor(a[i], simulation), simulateColor(b[i], simulation));
+    }
+    return total / count;
+  };
+
+  const pairs: IndistinguishablePair[] = [];
+  const mids = palettes.map(palette => midColors(palette.colors));
+
+  for (let i = 0; i < palettes.length; i++) {
+    for (let j = i + 1; j < palettes.length; j++) {
+      const normalDeltaE = meanDistance(mids[i], mids[j], 'none');
+      if (normalDeltaE < threshold) continue;
+
+      simulations.forEach(simulation => {
+        const simulatedDeltaE = meanDistance(mids[i], mids[j], simulation);
+        if (simulatedDeltaE < threshold) {
+          pairs.push({
+            simulation,
+            paletteA: palettes[i].name,
+            paletteB: palettes[j].name,
+            deltaE: Math.round(simulatedDeltaE * 10) / 10,
+            normalDeltaE: Math.round(normalDeltaE * 10) / 10
+          });
+        }
+      });
+    }
+  }
+
+  return pairs.sort((a, b) => a.deltaE - b.deltaE);
+}
@@ -0,0 +1,86 @@
+import { formatWideGamutColor, getColorGamutMediaQuery, getWideGamutSupportsQuery } from './wideGamut';
+import { generatePalette, generateCSSVariables } from './colorGeneration';
+import { defaultControls } from './presets';
+import { GamutSettings, PaletteColor } from '../types';
+
+// Chroma well beyond sRGB (and P3) in the middle of the ramp
+const vivid = { ...defaultControls, baseHue: 145, minChroma: 0.3, maxChroma: 0.37, chromaMode: 'curve' as const };
+const generate = (gamutSettings: GamutSettings) => generatePalette(vivid, gamutSettings, { mode: 'range' });
+
+describe('formatWideGamutColor', () => {
+  const color = { lightness: 0.7, chroma: 0.1, hue: 145, wideGamut: { l: 0.7, c: 0.3, h: 145 } } as PaletteColor;
+
+  it('writes the unclamped value as oklch()', () => {
+    expect(formatWideGamutColor(color, 'oklch')).toBe('oklch(70% 0.3 145)');
+    expect(formatWideGamutColor({ ...color, wideGamut: undefined }, 'oklch')).toBe('oklch(70% 0.1 145)');
+  });
+
+  it('keeps display-p3 channels within 0-1 by reducing chroma', () => {
+    const channels = formatWideGamutColor(color, 'display-p3').match(/^color\(display-p3 (.+)\)$/)![1].split(' ').map(Number);
+    expect(channels).toHaveLength(3);
+    channels.forEach(channel => {
+      expect(channel).toBeGreaterThanOrEqual(0);
+      expect(channel).toBeLessThanOrEqual(1);
+    });
+  });
+});
+
+describe('wide-gamut queries', () => {
+  it('matches the display gamut of the mode', () => {
+    expect(getColorGamutMediaQuery('P3')).toBe('(color-gamut: p3)');
+    expect(getColorGamutMediaQuery('Rec2020')).toBe('(color-gamut: rec2020)');
+    expect(getColorGamutMediaQuery('sRGB')).toBeNull();
+  });
+
+  it('checks that the notation parses', () => {
+    expect(getWideGamutSupportsQuery('oklch')).toBe('(color: oklch(0% 0 0))');
+    expect(getWideGamutSupportsQuery('display-p3')).toBe('(color: color(display-p3 0 0 0))');
+  });
+});
+
+describe('generateCSSVariables', () => {
+  it.each([
+    ['P3', 'oklch', '(color-gamut: p3)', '(color: oklch(0% 0 0))'],
+    ['P3', 'display-p3', '(color-gamut: p3)', '(color: color(display-p3 0 0 0))'],
+    ['Rec2020', 'oklch', '(color-gamut: rec2020)', '(color: oklch(0% 0 0))'],
+    ['Rec2020', 'display-p3', '(color-gamut: rec2020)', '(color: color(display-p3 0 0 0))']
+  ] as const)('redeclares colors beyond sRGB in %s as %s behind the gamut and feature queries', (gamutMode, wideGamutFormat, media, supports) => {
+    const gamutSettings: GamutSettings = { gamutMode, wideGamutFormat };
+    const colors = generate(gamutSettings);
+    const wideColors = colors.filter(color => color.wideGamut);
+    expect(wideColors.length).toBeGreaterThan(0);
+
+    const css = generateCSSVariables(colors, 'green', ':root', gamutSettings);
+    const [fallback, wide] = css.split(`@supports ${supports} {\n  @media ${media} {\n    :root {\n`);
+    expect(wide).toBeDefined();
+    colors.forEach(color => expect(fallback).toContain(`  --green-${color.tokenName}: ${color.css};`));
+    expect(wide.split('\n').filter(line => line.includes('--'))).toEqual(
+      wideColors.map(color => `      --green-${color.tokenName}: ${formatWideGamutColor(color, wideGamutFormat)};`)
+    );
+  });
+
+  it('writes only the wide-gamut values of colors beyond sRGB', () => {
+    const gamutSettings: GamutSettings = { gamutMode: 'P3', wideGamutFormat: 'oklch' };
+    const colors = generate(gamutSettings);
+    const css = generateCSSVariables(colors, 'green', ':root', gamutSettings);
+    colors.filter(color => !color.wideGamut).forEach(color => {
+      expect(css.match(new RegExp(`--green-${color.tokenName}:`, 'g'))).toHaveLength(1);
+    });
+  });
+
+  it('emits only the hex block in sRGB mode', () => {
+    const gamutSettings: GamutSettings = { gamutMode: 'sRGB', wideGamutFormat: 'oklch' };
+    const colors = generate(gamutSettings);
+    expect(colors.every(color => color.wideGamut === undefined)).toBe(true);
+    const css = generateCSSVariables(colors, 'green', ':root', gamutSettings);
+    expect(css).toBe(generateCSSVariables(colors, 'green'));
+    expect(css).not.toMatch(/@supports|@media|oklch|display-p3/);
+  });
+
+  it('emits only the hex block without a wide-gamut format', () => {
+    const colors = generate({ gamutMode: 'P3' });
+    expect(generateCSSVariables(colors, 'green', '.dark', { gamutMode: 'P3' })).toBe(
+      `.dark {\n${colors.map(color => `  --green-${color.tokenName}: ${color.css};`).join('\n')}\n}`
+    );
+  });
+});
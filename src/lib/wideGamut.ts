@@ -0,0 +1,51 @@
+import { oklch, p3, clampChroma } from 'culori';
+import { GamutSettings, PaletteColor, WideGamutFormat } from '../types';
+
+/**
+ * Wide-gamut CSS notation. A PaletteColor's `css` is always an sRGB hex; in the P3 and Rec2020
+ * modes colors beyond sRGB also carry their unclamped value in `wideGamut`, which is written
+ * as oklch() or color(display-p3 …) behind a feature/gamut query with the hex as fallback.
+ */
+
+export const WIDE_GAMUT_FORMAT_LABELS: Record<WideGamutFormat, string> = {
+  'oklch': 'oklch()',
+  'display-p3': 'color(display-p3)'
+};
+
+const round = (value: number, digits: number) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Format a color in a wide-gamut notation, using its unclamped value when it has one
+ */
+export function formatWideGamutColor(color: PaletteColor, format: WideGamutFormat): string {
+  const { l, c, h } = color.wideGamut || { l: color.lightness, c: color.chroma, h: color.hue };
+
+  if (format === 'oklch') {
+    return `oklch(${round(l * 100, 2)}% ${round(c, 4)} ${round(h || 0, 2)})`;
+  }
+
+  // Rec2020 colors can exceed P3 as well; reduce chroma rather than clip channels
+  const mapped = clampChroma({ mode: 'oklch', l, c, h }, 'oklch', 'p3');
+  const color3 = p3(oklch(mapped));
+  const channel = (value: number | undefined) => round(Math.max(0, Math.min(1, value ?? 0)), 4);
+  return `color(display-p3 ${channel(color3?.r)} ${channel(color3?.g)} ${channel(color3?.b)})`;
+}
+
+/**
+ * Media query matching displays that can show the gamut mode's colors (null for sRGB)
+ */
+export function getColorGamutMediaQuery(gamutMode: GamutSettings['gamutMode']): string | null {
+  if (gamutMode === 'P3') return '(color-gamut: p3)';
+  if (gamutMode === 'Rec2020') return '(color-gamut: rec2020)';
+  return null;
+}
+
+/**
+ * Feature query for browsers that parse the notation
+ */
+export function getWideGamutSupportsQuery(format: WideGamutFormat): string {
+  return format === 'oklch' ? '(color: oklch(0% 0 0))' : '(color: color(display-p3 0 0 0))';
+}
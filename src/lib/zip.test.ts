@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+import { createZip } from './zip';
+
+interface ReadEntry {
+  path: string;
+  method: number;
+  crc: number;
+  content: Uint8Array;
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// Read an archive through its central directory, the way unzip tools do
+async function readZip(blob: Blob): Promise<ReadEntry[]> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let pointer = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pointer, true)).toBe(0x02014b50);
+    const method = view.getUint16(pointer + 10, true);
+    const crc = view.getUint32(pointer + 16, true);
+    const compressedSize = view.getUint32(pointer + 20, true);
+    const size = view.getUint32(pointer + 24, true);
+    const nameLength = view.getUint16(pointer + 28, true);
+    const offset = view.getUint32(pointer + 42, true);
+    const path = decoder.decode(bytes.subarray(pointer + 46, pointer + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    const content = method === 8 ? await inflate(data) : data;
+    expect(content.length).toBe(size);
+
+    entries.push({ path, method, crc, content });
+    pointer += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+  it('stores every entry with its path and content', async () => {
+    const large = ':root {\n' + Array.from({ length: 200 }, (_, i) => `  --blue-${i}: #0052cc;`).join('\n') + '\n}\n';
+    const entries = await readZip(await createZip([
+      { path: 'colors.css', content: large },
+      { path: 'a.txt', content: 'a' },
+      { path: 'Colors.xcassets/blau-ü/Contents.json', content: '{}' },
+      { path: 'raw.bin', content: new Uint8Array([0, 1, 2, 255]) }
+    ]));
+
+    expect(entries.map(entry => entry.path)).toEqual(['colors.css', 'a.txt', 'Colors.xcassets/blau-ü/Contents.json', 'raw.bin']);
+    expect(decode(entries[0].content)).toBe(large);
+    expect(decode(entries[1].content)).toBe('a');
+    expect(Array.from(entries[3].content)).toEqual([0, 1, 2, 255]);
+  });
+
+  it('deflates compressible entries and stores tiny ones', async () => {
+    const entries = await readZip(await createZip([
+      { path: 'big.txt', content: 'abc'.repeat(1000) },
+      { path: 'tiny.txt', content: 'x' }
+    ]));
+    expect(entries.map(entry => entry.method)).toEqual([8, 0]);
+  });
+
+  it('writes the CRC-32 of the uncompressed data', async () => {
+    // Standard check value for CRC-32
+    const [entry] = await readZip(await createZip([{ path: 'check.txt', content: '123456789' }]));
+    expect(entry.crc).toBe(0xcbf43926);
+  });
+
+  it('writes the modification time in MS-DOS format', async () => {
+    const blob = await createZip([{ path: 'a.txt', content: 'a' }], new Date(2024, 2, 15, 13, 45, 30));
+    const view = new DataView(await blob.arrayBuffer());
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (3 << 5) | 15);
+  });
+
+  it('builds a valid empty archive', async () => {
+    const blob = await createZip([]);
+    expect(blob.type).toBe('application/zip');
+    expect(await readZip(blob)).toEqual([]);
+  });
+});
@@ -1,3 +1,33 @@
+export type ContrastAlgorithm = 'wcag2' | 'apca';
+
+// Outcome of solving a step's lightness for its contrast target (and any extra constraints)
+export type ContrastStatus = 'met' | 'unreachable' | 'conflict';
+
+// Minimum contrast a step must also keep against another surface
+export interface ContrastConstraint {
+  background: string; // CSS color
+  minContrast: number;
+}
+
+// A step's contrast against one of its surfaces after solving
+export interface ContrastConstraintResult {
+  background: string; // As configured
+  minContrast: number;
+  contrast: number;
+  met: boolean;
+  binding: boolean; // This constraint set the step's lightness
+}
+
+// Which way round a contrast pair is read: the swatch used as foreground on the background,
+// or the background color used as text on top of the swatch (matters for APCA, not WCAG 2)
+export type ContrastPolarity = 'color-on-background' | 'text-on-color';
+
+// Control point of an editable curve: x = normalized step (0 = step 1, 1 = step 11), y = curve value
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
 export interface PaletteControls {
   baseHue: number;
   lightnessMin: number;
@@ -7,23 +37,40 @@ export interface PaletteControls {
   minChroma: number;
   maxChroma: number;
   chromaPeak: number;
-  chromaCurveType: 'flat' | 'gaussian' | 'linear' | 'sine' | 'cubic' | 'quartic';
+  chromaCurveType: 'flat' | 'gaussian' | 'linear' | 'sine' | 'cubic' | 'quartic' | 'custom';
   chromaEasing?: 'none' | 'ease-in' | 'ease-out' | 'ease-in-out';
+  // Control points of the 'custom' curve type (monotone spline, y = chroma factor 0-1)
+  chromaCurvePoints?: CurvePoint[];
   lightHueDrift: number;  // Hue drift for light colors (extended range)
   darkHueDrift: number;   // Hue drift for dark colors (extended range)
+  // Hue curve: 'drift' bends from the anchor step towards the two drifts, 'custom' follows free control points
+  hueCurveMode?: 'drift' | 'custom';
+  hueAnchorStep?: number; // Step where hue equals baseHue in drift mode (default 6)
+  lightHueEasing?: 'none' | 'ease-in' | 'ease-out' | 'ease-in-out';
+  darkHueEasing?: 'none' | 'ease-in' | 'ease-out' | 'ease-in-out';
+  // Control points of the custom hue curve (monotone spline, y = hue offset from baseHue in degrees)
+  hueCurvePoints?: CurvePoint[];
   backgroundColor: string;
+  // Surface the referenced step of a "palette-N" background sits on and is solved against (color or "<paletteId>:<step>", default white)
+  selfReferenceSurface?: string;
   // Steps array: 0 (white), 1-11 (core palette), 12 (black), plus intermediate steps (0.5, 1.5, etc.)
   steps: number[];
   // Custom token names for intermediate steps (core steps use standard names)
   tokenNames?: Record<string, string>;
   // Individual contrast targets for each step (excluding 0 and 12 which are pure white/black)
   contrastTargets: Record<string, number>;
+  // Algorithm the contrast targets are expressed in: WCAG 2 ratios (1-21) or APCA Lc values (0-108)
+  contrastAlgorithm?: ContrastAlgorithm;
+  // Extra minimum-contrast constraints per step, solved together with the target against backgroundColor
+  contrastConstraints?: Record<string, ContrastConstraint[]>;
   // Individual lightness values - always reflects current effective values (calculated in auto, adjusted in manual)
   lightnessValues: Record<string, number>;
   // Track which lightness values have been manually overridden in manual mode
   lightnessOverrides: Record<string, boolean>;
   // Lightness calculation mode - always auto with individual overrides
   lightnessMode: 'auto';
+  // Pinned anchor colors per core step (hex or oklch() string), generated verbatim; neighbouring steps are re-fit around them
+  anchors?: Record<string, string>;
 }
 
 export interface PaletteColor {
@@ -37,38 +84,103 @@ export interface PaletteColor {
   contrast: number;
   // New transparency properties
   gamutMapped: boolean;
+  // Lightness, chroma and hue the step asked for before gamut mapping (gamut-mapped steps only)
   originalIntended?: { l: number; c: number; h: number };
   achievableChroma?: number;
   maxPossibleChroma?: number;
   // Store original calculated chroma before hex round-trip for manual mode switching
   originalCalculatedChroma?: number;
+  // Unclamped target-gamut color (P3/Rec2020 modes) when it lies outside sRGB; `css` is its sRGB-clipped fallback
+  wideGamut?: { l: number; c: number; h: number };
+  // Strategy that mapped the requested color into the gamut, and how far it moved (deltaEOK ×100)
+  gamutMapping?: { strategy: GamutMappingStrategy; deltaE: number };
+  // Contrast mode only: whether the target was reachable, and the most contrast this chroma and hue allow
+  contrastStatus?: ContrastStatus;
+  maxContrast?: number;
+  // Steps with extra constraints: contrast against every surface, the background target first
+  contrastConstraints?: ContrastConstraintResult[];
+  // Step a "palette-N" background reads: how the fixed-point generation against it settled
+  selfReference?: SelfReferenceResolution;
+}
+
+// Fixed-point generation of a palette whose background is one of its own steps ("palette-N").
+// Residual is the deltaE (×100) between the background used and the step it produced (0 when converged).
+export interface SelfReferenceResolution {
+  status: 'converged' | 'diverged';
+  iterations: number;
+  residual: number;
+}
+
+// Dark-mode variant of a palette: reuses hue, chroma curve and hue drift from the
+// palette controls but solves lightness against a dark background
+export interface DarkModeVariant {
+  enabled: boolean;
+  backgroundColor: string;
+  // Explicit dark-mode targets; mirrored from the light targets when omitted
+  contrastTargets?: Record<string, number>;
 }
 
 export interface Palette {
   id: string;
   name: string;
   controls: PaletteControls;
+  darkVariant?: DarkModeVariant;
   colors: PaletteColor[];
   createdAt: Date;
   updatedAt: Date;
   steps?: number[]; // Optional for future extensibility
 }
 
-export type ColorFormat = 'hex' | 'rgb' | 'hsl' | 'oklch'
+// A palette step referenced by a semantic token (written "neutral:11" in the editor)
+export interface SemanticTokenReference {
+  paletteId: string;
+  step: number;
+}
+
+// Role-based token (e.g. "surface", "text-muted") aliasing a palette step per color mode
+export interface SemanticToken {
+  id: string;
+  name: string;
+  light: SemanticTokenReference;
+  dark?: SemanticTokenReference; // Falls back to the light reference; resolves against the dark variant when enabled
+  description?: string;
+}
+
+export type ColorFormat = 'hex' | 'rgb' | 'hsl' | 'oklch' | 'p3'
+
+// Color vision deficiency simulation applied to displayed swatches
+export type VisionSimulation = 'none' | 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
 
 export interface ColorFormatValue {
   hex: string;
   rgb: string;
   hsl: string;
   oklch: string;
+  p3: string;
 }
 
 export interface ContrastResult {
-  ratio: number;
+  algorithm: ContrastAlgorithm;
+  ratio: number; // WCAG 2 ratio, or absolute APCA Lc for the selected polarity
   wcagAA: boolean;
   wcagAAA: boolean;
   wcagAALarge: boolean;
   wcagAAALarge: boolean;
+  // Signed APCA Lc for both polarities (positive = dark on light, negative = light on dark)
+  apca?: {
+    colorOnBackground: number;
+    textOnColor: number;
+  };
+}
+
+// Compliance level for a foreground/background pair (APCA maps Lc90/Lc75/Lc60 onto the same levels)
+export type ContrastLevel = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+export interface ContrastMatrixCell {
+  foreground: PaletteColor;
+  background: PaletteColor;
+  result: ContrastResult;
+  level: ContrastLevel;
 }
 
 export type ColorGamut = 'sRGB' | 'P3' | 'Rec2020' | 'Wide';
@@ -80,22 +192,44 @@ export interface GamutValidation {
   clamped: boolean;
 }
 
+// CSS notation for colors beyond sRGB
+export type WideGamutFormat = 'oklch' | 'display-p3';
+
+// How out-of-gamut colors are brought into the gamut (see lib/gamutMapping)
+export type GamutMappingStrategy = 'chroma' | 'css4' | 'minde';
+
 export interface GamutSettings {
   gamutMode: 'sRGB' | 'P3' | 'Rec2020';
+  // When set, CSS exports add wide-gamut values behind @supports/@media, keeping hex as the fallback
+  wideGamutFormat?: WideGamutFormat;
+  // Gamut-mapping strategy (default 'chroma')
+  mappingStrategy?: GamutMappingStrategy;
 }
 
+export type DeltaEMetric = 'oklab' | 'ciede2000';
+
 export interface LightnessSettings {
-  mode: 'contrast' | 'range';
+  mode: 'contrast' | 'range' | 'uniform';
+  // Color difference used to space steps in the uniform mode (default 'oklab')
+  deltaEMetric?: DeltaEMetric;
+}
+
+export interface GenerationSettings {
+  // Generate palettes in a Web Worker so edits with many palettes don't block rendering
+  useWorker: boolean;
 }
 
 export interface AppState {
   palettes: Palette[];
   activePaletteId: string | null;
+  semanticTokens: SemanticToken[];
   colorFormat: ColorFormat;
   contrastAnalysis: {
     enabled: boolean;
     selectedColor: string;
     showCompliance: boolean;
+    algorithm: ContrastAlgorithm;
+    polarity: ContrastPolarity;
   };
   gamutSettings: GamutSettings;
   lightnessSettings: LightnessSettings;
@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite'
+import path from 'path'
+
+// Builds the headless `ads-color` CLI for Node (see src/cli/ads-color.ts)
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  build: {
+    ssr: 'src/cli/ads-color.ts',
+    outDir: 'dist/cli',
+    target: 'node18',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'ads-color.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})